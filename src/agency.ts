@@ -1,15 +1,379 @@
 import { ethers, Contract } from 'ethers';
-import { getProvider, getSigner } from './config';
-import { ProposalData, TransactionResult, AgencyInfo } from './types';
-import { prepareProposalData, waitForTransaction } from './utils';
+import type { DBTCClient } from './client';
+import { getDefaultClient } from './client';
+import { ProposalData, TransactionResult, AgencyInfo, SimulationResult } from './types';
+import { prepareProposalData, simulateTransaction, findEvent } from './utils';
+import { withContractErrors } from './errors';
+import { assertValidProposal } from './validation';
+import { SignerLike } from './signer';
 import AgencyABI from './abis/Agency.json';
 
 /**
- * Get Agency contract instance
+ * Agency contract API
+ *
+ * Obtain through `client.agency(address)`.
  */
-function getAgencyContract(agencyAddress: string, signer?: ethers.Wallet): Contract {
-  const runner = signer || getProvider();
-  return new Contract(agencyAddress, AgencyABI.abi, runner);
+export class AgencyApi {
+  constructor(
+    private readonly client: DBTCClient,
+    /** Address of the agency contract */
+    readonly address: string
+  ) {}
+
+  /**
+   * Get Agency contract instance
+   */
+  private getContract(signer?: ethers.Signer): Contract {
+    const runner = signer || this.client.reader;
+    return new Contract(this.address, AgencyABI.abi, runner);
+  }
+
+  /**
+   * Current phase, used to explain phase errors
+   */
+  private readonly getPhase = () => this.client.dbtc.getCurrentPhase();
+
+  // ============ Proposal Management ============
+
+  /**
+   * Submit a budget proposal
+   * @param uri Metadata URI (IPFS or other)
+   * @param data Proposal data (prexcFpapId, uacsObjCode, amount)
+   * @param signer Signer (or private key) of agency owner or document manager
+   * @returns Transaction result with tokenId
+   */
+  async submitProposal(
+    uri: string,
+    data: ProposalData,
+    signer?: SignerLike
+  ): Promise<TransactionResult & { tokenId: bigint }> {
+    return withContractErrors(async () => {
+      assertValidProposal(uri, data, this.client.amountDecimals, this.client.proposalRules);
+      const contract = this.getContract(this.client.getSigner(signer));
+
+      const result = await this.client.transactions.send(contract, (overrides) =>
+        contract.submitProposal(uri, prepareProposalData(data, this.client.amountDecimals), overrides));
+
+      const event = findEvent(contract, result.logs, 'ProposalSubmitted');
+      return { ...result, tokenId: event ? event.args.tokenId : BigInt(0) };
+    }, this.getPhase);
+  }
+
+  /**
+   * Revise an existing proposal
+   * @param originalTokenId Token ID of the original proposal
+   * @param newUri New metadata URI
+   * @param newData New proposal data
+   * @param reason Reason for revision
+   * @param signer Signer (or private key) of agency owner or document manager
+   * @returns Transaction result with newTokenId
+   */
+  async reviseProposal(
+    originalTokenId: bigint | number,
+    newUri: string,
+    newData: ProposalData,
+    reason: string,
+    signer?: SignerLike
+  ): Promise<TransactionResult & { newTokenId: bigint }> {
+    return withContractErrors(async () => {
+      assertValidProposal(newUri, newData, this.client.amountDecimals, this.client.proposalRules);
+      const contract = this.getContract(this.client.getSigner(signer));
+
+      const result = await this.client.transactions.send(contract, (overrides) =>
+        contract.reviseProposal(originalTokenId, newUri, prepareProposalData(newData, this.client.amountDecimals), reason, overrides));
+
+      const event = findEvent(contract, result.logs, 'ProposalRevised');
+      return { ...result, newTokenId: event ? event.args.newTokenId : BigInt(0) };
+    }, this.getPhase);
+  }
+
+  /**
+   * Amend a proposal during GAB phase
+   * @param originalTokenId Token ID of the original proposal
+   * @param newUri New metadata URI
+   * @param newData New proposal data
+   * @param reason Reason for amendment
+   * @param signer Signer (or private key) of agency owner or document manager
+   * @returns Transaction result with newTokenId
+   */
+  async amendProposal(
+    originalTokenId: bigint | number,
+    newUri: string,
+    newData: ProposalData,
+    reason: string,
+    signer?: SignerLike
+  ): Promise<TransactionResult & { newTokenId: bigint }> {
+    return withContractErrors(async () => {
+      assertValidProposal(newUri, newData, this.client.amountDecimals, this.client.proposalRules);
+      const contract = this.getContract(this.client.getSigner(signer));
+
+      const result = await this.client.transactions.send(contract, (overrides) =>
+        contract.amendProposal(originalTokenId, newUri, prepareProposalData(newData, this.client.amountDecimals), reason, overrides));
+
+      const event = findEvent(contract, result.logs, 'ProposalAmended');
+      return { ...result, newTokenId: event ? event.args.newTokenId : BigInt(0) };
+    }, this.getPhase);
+  }
+
+  /**
+   * Submit a separate GAB (House or Senate)
+   * @param uri Metadata URI
+   * @param data Proposal data
+   * @param signer Signer (or private key) of agency owner or document manager
+   * @returns Transaction result with tokenId
+   */
+  async submitSeparateGAB(
+    uri: string,
+    data: ProposalData,
+    signer?: SignerLike
+  ): Promise<TransactionResult & { tokenId: bigint }> {
+    return withContractErrors(async () => {
+      assertValidProposal(uri, data, this.client.amountDecimals, this.client.proposalRules);
+      const contract = this.getContract(this.client.getSigner(signer));
+
+      const result = await this.client.transactions.send(contract, (overrides) =>
+        contract.submitSeparateGAB(uri, prepareProposalData(data, this.client.amountDecimals), overrides));
+
+      const event = findEvent(contract, result.logs, 'ProposalSubmitted');
+      return { ...result, tokenId: event ? event.args.tokenId : BigInt(0) };
+    }, this.getPhase);
+  }
+
+  /**
+   * Submit a joint GAB (Bicameral)
+   * @param houseProposalId House proposal token ID
+   * @param senateProposalId Senate proposal token ID
+   * @param uri Metadata URI
+   * @param data Proposal data
+   * @param signer Signer (or private key) of Congress main agency owner
+   * @returns Transaction result with tokenId
+   */
+  async submitJointGAB(
+    houseProposalId: bigint | number,
+    senateProposalId: bigint | number,
+    uri: string,
+    data: ProposalData,
+    signer?: SignerLike
+  ): Promise<TransactionResult & { tokenId: bigint }> {
+    return withContractErrors(async () => {
+      assertValidProposal(uri, data, this.client.amountDecimals, this.client.proposalRules);
+      const contract = this.getContract(this.client.getSigner(signer));
+
+      const result = await this.client.transactions.send(contract, (overrides) =>
+        contract.submitJointGAB(houseProposalId, senateProposalId, uri, prepareProposalData(data, this.client.amountDecimals), overrides));
+
+      const event = findEvent(contract, result.logs, 'ProposalSubmitted');
+      return { ...result, tokenId: event ? event.args.tokenId : BigInt(0) };
+    }, this.getPhase);
+  }
+
+  // ============ Role Management ============
+
+  /**
+   * Add a document manager to the agency
+   * @param managerAddress Address to add as document manager
+   * @param signer Signer (or private key) of agency owner
+   * @returns Transaction result
+   */
+  async addDocumentManager(managerAddress: string, signer?: SignerLike): Promise<TransactionResult> {
+    return withContractErrors(async () => {
+      const contract = this.getContract(this.client.getSigner(signer));
+      return await this.client.transactions.send(contract, (overrides) =>
+        contract.addDocumentManager(managerAddress, overrides));
+    }, this.getPhase);
+  }
+
+  /**
+   * Remove a document manager from the agency
+   * @param managerAddress Address to remove
+   * @param signer Signer (or private key) of agency owner
+   * @returns Transaction result
+   */
+  async removeDocumentManager(managerAddress: string, signer?: SignerLike): Promise<TransactionResult> {
+    return withContractErrors(async () => {
+      const contract = this.getContract(this.client.getSigner(signer));
+      return await this.client.transactions.send(contract, (overrides) =>
+        contract.removeDocumentManager(managerAddress, overrides));
+    }, this.getPhase);
+  }
+
+  /**
+   * Transfer agency ownership
+   * @param newOwner Address of the new owner
+   * @param signer Signer (or private key) of current agency owner
+   * @returns Transaction result
+   */
+  async transferOwnership(newOwner: string, signer?: SignerLike): Promise<TransactionResult> {
+    return withContractErrors(async () => {
+      const contract = this.getContract(this.client.getSigner(signer));
+      return await this.client.transactions.send(contract, (overrides) =>
+        contract.transferOwnership(newOwner, overrides));
+    }, this.getPhase);
+  }
+
+  // ============ Read Functions ============
+
+  /**
+   * Get agency information
+   * @returns Agency info
+   */
+  async getInfo(): Promise<AgencyInfo> {
+    return withContractErrors(async () => {
+      const contract = this.getContract();
+
+      const [code, name, department, owner] = await Promise.all([
+        contract.getCode(),
+        contract.getName(),
+        contract.getDepartment(),
+        contract.getOwner()
+      ]);
+
+      return {
+        address: this.address,
+        code,
+        name,
+        department,
+        owner
+      };
+    });
+  }
+
+  /**
+   * Check if an address is a document manager
+   * @param address Address to check
+   * @returns True if document manager
+   */
+  async isDocumentManager(address: string): Promise<boolean> {
+    return withContractErrors(async () => {
+      return await this.getContract().isDocumentManager(address);
+    });
+  }
+
+  /**
+   * Get all document managers
+   * @returns Array of document manager addresses
+   */
+  async getDocumentManagers(): Promise<string[]> {
+    return withContractErrors(async () => {
+      // The contract's list keeps removed managers (and repeats re-added ones)
+      const listed: string[] = await this.getContract().getDocumentManagers();
+      const candidates = [...new Set(listed.map((manager) => ethers.getAddress(manager)))];
+      const active = await Promise.all(candidates.map((manager) => this.getContract().isDocumentManager(manager)));
+      return candidates.filter((_, index) => active[index]);
+    });
+  }
+
+  // ============ Simulation ============
+
+  /**
+   * Simulate submitting a budget proposal without sending a transaction
+   * @returns Simulation result with the tokenId that would be minted
+   */
+  async simulateSubmitProposal(
+    uri: string,
+    data: ProposalData,
+    signer?: SignerLike
+  ): Promise<SimulationResult<bigint>> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(contract.submitProposal, [uri, prepareProposalData(data, this.client.amountDecimals)], this.getPhase);
+  }
+
+  /**
+   * Simulate revising an existing proposal
+   * @returns Simulation result with the newTokenId that would be minted
+   */
+  async simulateReviseProposal(
+    originalTokenId: bigint | number,
+    newUri: string,
+    newData: ProposalData,
+    reason: string,
+    signer?: SignerLike
+  ): Promise<SimulationResult<bigint>> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(
+      contract.reviseProposal,
+      [originalTokenId, newUri, prepareProposalData(newData, this.client.amountDecimals), reason],
+      this.getPhase
+    );
+  }
+
+  /**
+   * Simulate amending a proposal during GAB phase
+   * @returns Simulation result with the newTokenId that would be minted
+   */
+  async simulateAmendProposal(
+    originalTokenId: bigint | number,
+    newUri: string,
+    newData: ProposalData,
+    reason: string,
+    signer?: SignerLike
+  ): Promise<SimulationResult<bigint>> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(
+      contract.amendProposal,
+      [originalTokenId, newUri, prepareProposalData(newData, this.client.amountDecimals), reason],
+      this.getPhase
+    );
+  }
+
+  /**
+   * Simulate submitting a separate GAB (House or Senate)
+   * @returns Simulation result with the tokenId that would be minted
+   */
+  async simulateSubmitSeparateGAB(
+    uri: string,
+    data: ProposalData,
+    signer?: SignerLike
+  ): Promise<SimulationResult<bigint>> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(contract.submitSeparateGAB, [uri, prepareProposalData(data, this.client.amountDecimals)], this.getPhase);
+  }
+
+  /**
+   * Simulate submitting a joint GAB (Bicameral)
+   * @returns Simulation result with the tokenId that would be minted
+   */
+  async simulateSubmitJointGAB(
+    houseProposalId: bigint | number,
+    senateProposalId: bigint | number,
+    uri: string,
+    data: ProposalData,
+    signer?: SignerLike
+  ): Promise<SimulationResult<bigint>> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(
+      contract.submitJointGAB,
+      [houseProposalId, senateProposalId, uri, prepareProposalData(data, this.client.amountDecimals)],
+      this.getPhase
+    );
+  }
+
+  /**
+   * Simulate adding a document manager to the agency
+   * @returns Simulation result
+   */
+  async simulateAddDocumentManager(managerAddress: string, signer?: SignerLike): Promise<SimulationResult> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(contract.addDocumentManager, [managerAddress], this.getPhase);
+  }
+
+  /**
+   * Simulate removing a document manager from the agency
+   * @returns Simulation result
+   */
+  async simulateRemoveDocumentManager(managerAddress: string, signer?: SignerLike): Promise<SimulationResult> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(contract.removeDocumentManager, [managerAddress], this.getPhase);
+  }
+
+  /**
+   * Simulate transferring agency ownership
+   * @returns Simulation result
+   */
+  async simulateTransferOwnership(newOwner: string, signer?: SignerLike): Promise<SimulationResult> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(contract.transferOwnership, [newOwner], this.getPhase);
+  }
 }
 
 // ============ Proposal Management ============
@@ -19,35 +383,16 @@ function getAgencyContract(agencyAddress: string, signer?: ethers.Wallet): Contr
  * @param agencyAddress Address of the agency contract
  * @param uri Metadata URI (IPFS or other)
  * @param data Proposal data (prexcFpapId, uacsObjCode, amount)
- * @param privateKey Private key of agency owner or document manager
+ * @param signer Signer (or private key) of agency owner or document manager
  * @returns Transaction result with tokenId
  */
 export async function submitProposal(
   agencyAddress: string,
   uri: string,
   data: ProposalData,
-  privateKey?: string
+  signer?: SignerLike
 ): Promise<TransactionResult & { tokenId: bigint }> {
-  const signer = getSigner(privateKey);
-  const contract = getAgencyContract(agencyAddress, signer);
-  
-  const proposalData = prepareProposalData(data);
-  const tx = await contract.submitProposal(uri, proposalData);
-  const result = await waitForTransaction(tx);
-  
-  // Extract tokenId from ProposalSubmitted event
-  let tokenId = BigInt(0);
-  for (const log of result.logs) {
-    try {
-      const parsed = contract.interface.parseLog({ topics: log.topics as string[], data: log.data });
-      if (parsed?.name === 'ProposalSubmitted') {
-        tokenId = parsed.args.tokenId;
-        break;
-      }
-    } catch { /* skip non-matching logs */ }
-  }
-  
-  return { ...result, tokenId };
+  return getDefaultClient().agency(agencyAddress).submitProposal(uri, data, signer);
 }
 
 /**
@@ -57,7 +402,7 @@ export async function submitProposal(
  * @param newUri New metadata URI
  * @param newData New proposal data
  * @param reason Reason for revision
- * @param privateKey Private key of agency owner or document manager
+ * @param signer Signer (or private key) of agency owner or document manager
  * @returns Transaction result with newTokenId
  */
 export async function reviseProposal(
@@ -66,28 +411,9 @@ export async function reviseProposal(
   newUri: string,
   newData: ProposalData,
   reason: string,
-  privateKey?: string
+  signer?: SignerLike
 ): Promise<TransactionResult & { newTokenId: bigint }> {
-  const signer = getSigner(privateKey);
-  const contract = getAgencyContract(agencyAddress, signer);
-  
-  const proposalData = prepareProposalData(newData);
-  const tx = await contract.reviseProposal(originalTokenId, newUri, proposalData, reason);
-  const result = await waitForTransaction(tx);
-  
-  // Extract newTokenId from ProposalRevised event
-  let newTokenId = BigInt(0);
-  for (const log of result.logs) {
-    try {
-      const parsed = contract.interface.parseLog({ topics: log.topics as string[], data: log.data });
-      if (parsed?.name === 'ProposalRevised') {
-        newTokenId = parsed.args.newTokenId;
-        break;
-      }
-    } catch { /* skip non-matching logs */ }
-  }
-  
-  return { ...result, newTokenId };
+  return getDefaultClient().agency(agencyAddress).reviseProposal(originalTokenId, newUri, newData, reason, signer);
 }
 
 /**
@@ -97,7 +423,7 @@ export async function reviseProposal(
  * @param newUri New metadata URI
  * @param newData New proposal data
  * @param reason Reason for amendment
- * @param privateKey Private key of agency owner or document manager
+ * @param signer Signer (or private key) of agency owner or document manager
  * @returns Transaction result with newTokenId
  */
 export async function amendProposal(
@@ -106,28 +432,9 @@ export async function amendProposal(
   newUri: string,
   newData: ProposalData,
   reason: string,
-  privateKey?: string
+  signer?: SignerLike
 ): Promise<TransactionResult & { newTokenId: bigint }> {
-  const signer = getSigner(privateKey);
-  const contract = getAgencyContract(agencyAddress, signer);
-  
-  const proposalData = prepareProposalData(newData);
-  const tx = await contract.amendProposal(originalTokenId, newUri, proposalData, reason);
-  const result = await waitForTransaction(tx);
-  
-  // Extract newTokenId from ProposalAmended event
-  let newTokenId = BigInt(0);
-  for (const log of result.logs) {
-    try {
-      const parsed = contract.interface.parseLog({ topics: log.topics as string[], data: log.data });
-      if (parsed?.name === 'ProposalAmended') {
-        newTokenId = parsed.args.newTokenId;
-        break;
-      }
-    } catch { /* skip non-matching logs */ }
-  }
-  
-  return { ...result, newTokenId };
+  return getDefaultClient().agency(agencyAddress).amendProposal(originalTokenId, newUri, newData, reason, signer);
 }
 
 /**
@@ -135,34 +442,16 @@ export async function amendProposal(
  * @param agencyAddress Address of the House or Senate agency
  * @param uri Metadata URI
  * @param data Proposal data
- * @param privateKey Private key of agency owner or document manager
+ * @param signer Signer (or private key) of agency owner or document manager
  * @returns Transaction result with tokenId
  */
 export async function submitSeparateGAB(
   agencyAddress: string,
   uri: string,
   data: ProposalData,
-  privateKey?: string
+  signer?: SignerLike
 ): Promise<TransactionResult & { tokenId: bigint }> {
-  const signer = getSigner(privateKey);
-  const contract = getAgencyContract(agencyAddress, signer);
-  
-  const proposalData = prepareProposalData(data);
-  const tx = await contract.submitSeparateGAB(uri, proposalData);
-  const result = await waitForTransaction(tx);
-  
-  let tokenId = BigInt(0);
-  for (const log of result.logs) {
-    try {
-      const parsed = contract.interface.parseLog({ topics: log.topics as string[], data: log.data });
-      if (parsed?.name === 'ProposalSubmitted') {
-        tokenId = parsed.args.tokenId;
-        break;
-      }
-    } catch { /* skip non-matching logs */ }
-  }
-  
-  return { ...result, tokenId };
+  return getDefaultClient().agency(agencyAddress).submitSeparateGAB(uri, data, signer);
 }
 
 /**
@@ -172,7 +461,7 @@ export async function submitSeparateGAB(
  * @param senateProposalId Senate proposal token ID
  * @param uri Metadata URI
  * @param data Proposal data
- * @param privateKey Private key of Congress main agency owner
+ * @param signer Signer (or private key) of Congress main agency owner
  * @returns Transaction result with tokenId
  */
 export async function submitJointGAB(
@@ -181,27 +470,9 @@ export async function submitJointGAB(
   senateProposalId: bigint | number,
   uri: string,
   data: ProposalData,
-  privateKey?: string
+  signer?: SignerLike
 ): Promise<TransactionResult & { tokenId: bigint }> {
-  const signer = getSigner(privateKey);
-  const contract = getAgencyContract(agencyAddress, signer);
-  
-  const proposalData = prepareProposalData(data);
-  const tx = await contract.submitJointGAB(houseProposalId, senateProposalId, uri, proposalData);
-  const result = await waitForTransaction(tx);
-  
-  let tokenId = BigInt(0);
-  for (const log of result.logs) {
-    try {
-      const parsed = contract.interface.parseLog({ topics: log.topics as string[], data: log.data });
-      if (parsed?.name === 'ProposalSubmitted') {
-        tokenId = parsed.args.tokenId;
-        break;
-      }
-    } catch { /* skip non-matching logs */ }
-  }
-  
-  return { ...result, tokenId };
+  return getDefaultClient().agency(agencyAddress).submitJointGAB(houseProposalId, senateProposalId, uri, data, signer);
 }
 
 // ============ Role Management ============
@@ -210,57 +481,45 @@ export async function submitJointGAB(
  * Add a document manager to the agency
  * @param agencyAddress Address of the agency contract
  * @param managerAddress Address to add as document manager
- * @param privateKey Private key of agency owner
+ * @param signer Signer (or private key) of agency owner
  * @returns Transaction result
  */
 export async function addDocumentManager(
   agencyAddress: string,
   managerAddress: string,
-  privateKey?: string
+  signer?: SignerLike
 ): Promise<TransactionResult> {
-  const signer = getSigner(privateKey);
-  const contract = getAgencyContract(agencyAddress, signer);
-  
-  const tx = await contract.addDocumentManager(managerAddress);
-  return await waitForTransaction(tx);
+  return getDefaultClient().agency(agencyAddress).addDocumentManager(managerAddress, signer);
 }
 
 /**
  * Remove a document manager from the agency
  * @param agencyAddress Address of the agency contract
  * @param managerAddress Address to remove
- * @param privateKey Private key of agency owner
+ * @param signer Signer (or private key) of agency owner
  * @returns Transaction result
  */
 export async function removeDocumentManager(
   agencyAddress: string,
   managerAddress: string,
-  privateKey?: string
+  signer?: SignerLike
 ): Promise<TransactionResult> {
-  const signer = getSigner(privateKey);
-  const contract = getAgencyContract(agencyAddress, signer);
-  
-  const tx = await contract.removeDocumentManager(managerAddress);
-  return await waitForTransaction(tx);
+  return getDefaultClient().agency(agencyAddress).removeDocumentManager(managerAddress, signer);
 }
 
 /**
  * Transfer agency ownership
  * @param agencyAddress Address of the agency contract
  * @param newOwner Address of the new owner
- * @param privateKey Private key of current agency owner
+ * @param signer Signer (or private key) of current agency owner
  * @returns Transaction result
  */
 export async function transferAgencyOwnership(
   agencyAddress: string,
   newOwner: string,
-  privateKey?: string
+  signer?: SignerLike
 ): Promise<TransactionResult> {
-  const signer = getSigner(privateKey);
-  const contract = getAgencyContract(agencyAddress, signer);
-  
-  const tx = await contract.transferOwnership(newOwner);
-  return await waitForTransaction(tx);
+  return getDefaultClient().agency(agencyAddress).transferOwnership(newOwner, signer);
 }
 
 // ============ Read Functions ============
@@ -271,22 +530,7 @@ export async function transferAgencyOwnership(
  * @returns Agency info
  */
 export async function getAgencyInfo(agencyAddress: string): Promise<AgencyInfo> {
-  const contract = getAgencyContract(agencyAddress);
-  
-  const [code, name, department, owner] = await Promise.all([
-    contract.getCode(),
-    contract.getName(),
-    contract.getDepartment(),
-    contract.getOwner()
-  ]);
-  
-  return {
-    address: agencyAddress,
-    code,
-    name,
-    department,
-    owner
-  };
+  return getDefaultClient().agency(agencyAddress).getInfo();
 }
 
 /**
@@ -299,8 +543,7 @@ export async function isDocumentManager(
   agencyAddress: string,
   address: string
 ): Promise<boolean> {
-  const contract = getAgencyContract(agencyAddress);
-  return await contract.isDocumentManager(address);
+  return getDefaultClient().agency(agencyAddress).isDocumentManager(address);
 }
 
 /**
@@ -309,6 +552,152 @@ export async function isDocumentManager(
  * @returns Array of document manager addresses
  */
 export async function getDocumentManagers(agencyAddress: string): Promise<string[]> {
-  const contract = getAgencyContract(agencyAddress);
-  return await contract.getDocumentManagers();
+  return getDefaultClient().agency(agencyAddress).getDocumentManagers();
+}
+
+// ============ Simulation ============
+
+/**
+ * Simulate submitting a budget proposal without sending a transaction
+ * @param agencyAddress Address of the agency contract
+ * @param uri Metadata URI (IPFS or other)
+ * @param data Proposal data (prexcFpapId, uacsObjCode, amount)
+ * @param signer Signer (or private key) of agency owner or document manager
+ * @returns Simulation result with the tokenId that would be minted
+ */
+export async function simulateSubmitProposal(
+  agencyAddress: string,
+  uri: string,
+  data: ProposalData,
+  signer?: SignerLike
+): Promise<SimulationResult<bigint>> {
+  return getDefaultClient().agency(agencyAddress).simulateSubmitProposal(uri, data, signer);
+}
+
+/**
+ * Simulate revising an existing proposal
+ * @param agencyAddress Address of the agency contract
+ * @param originalTokenId Token ID of the original proposal
+ * @param newUri New metadata URI
+ * @param newData New proposal data
+ * @param reason Reason for revision
+ * @param signer Signer (or private key) of agency owner or document manager
+ * @returns Simulation result with the newTokenId that would be minted
+ */
+export async function simulateReviseProposal(
+  agencyAddress: string,
+  originalTokenId: bigint | number,
+  newUri: string,
+  newData: ProposalData,
+  reason: string,
+  signer?: SignerLike
+): Promise<SimulationResult<bigint>> {
+  return getDefaultClient().agency(agencyAddress)
+    .simulateReviseProposal(originalTokenId, newUri, newData, reason, signer);
+}
+
+/**
+ * Simulate amending a proposal during GAB phase
+ * @param agencyAddress Address of the agency contract
+ * @param originalTokenId Token ID of the original proposal
+ * @param newUri New metadata URI
+ * @param newData New proposal data
+ * @param reason Reason for amendment
+ * @param signer Signer (or private key) of agency owner or document manager
+ * @returns Simulation result with the newTokenId that would be minted
+ */
+export async function simulateAmendProposal(
+  agencyAddress: string,
+  originalTokenId: bigint | number,
+  newUri: string,
+  newData: ProposalData,
+  reason: string,
+  signer?: SignerLike
+): Promise<SimulationResult<bigint>> {
+  return getDefaultClient().agency(agencyAddress)
+    .simulateAmendProposal(originalTokenId, newUri, newData, reason, signer);
+}
+
+/**
+ * Simulate submitting a separate GAB (House or Senate)
+ * @param agencyAddress Address of the House or Senate agency
+ * @param uri Metadata URI
+ * @param data Proposal data
+ * @param signer Signer (or private key) of agency owner or document manager
+ * @returns Simulation result with the tokenId that would be minted
+ */
+export async function simulateSubmitSeparateGAB(
+  agencyAddress: string,
+  uri: string,
+  data: ProposalData,
+  signer?: SignerLike
+): Promise<SimulationResult<bigint>> {
+  return getDefaultClient().agency(agencyAddress).simulateSubmitSeparateGAB(uri, data, signer);
+}
+
+/**
+ * Simulate submitting a joint GAB (Bicameral)
+ * @param agencyAddress Address of the Congress main agency
+ * @param houseProposalId House proposal token ID
+ * @param senateProposalId Senate proposal token ID
+ * @param uri Metadata URI
+ * @param data Proposal data
+ * @param signer Signer (or private key) of Congress main agency owner
+ * @returns Simulation result with the tokenId that would be minted
+ */
+export async function simulateSubmitJointGAB(
+  agencyAddress: string,
+  houseProposalId: bigint | number,
+  senateProposalId: bigint | number,
+  uri: string,
+  data: ProposalData,
+  signer?: SignerLike
+): Promise<SimulationResult<bigint>> {
+  return getDefaultClient().agency(agencyAddress)
+    .simulateSubmitJointGAB(houseProposalId, senateProposalId, uri, data, signer);
+}
+
+/**
+ * Simulate adding a document manager to the agency
+ * @param agencyAddress Address of the agency contract
+ * @param managerAddress Address to add as document manager
+ * @param signer Signer (or private key) of agency owner
+ * @returns Simulation result
+ */
+export async function simulateAddDocumentManager(
+  agencyAddress: string,
+  managerAddress: string,
+  signer?: SignerLike
+): Promise<SimulationResult> {
+  return getDefaultClient().agency(agencyAddress).simulateAddDocumentManager(managerAddress, signer);
+}
+
+/**
+ * Simulate removing a document manager from the agency
+ * @param agencyAddress Address of the agency contract
+ * @param managerAddress Address to remove
+ * @param signer Signer (or private key) of agency owner
+ * @returns Simulation result
+ */
+export async function simulateRemoveDocumentManager(
+  agencyAddress: string,
+  managerAddress: string,
+  signer?: SignerLike
+): Promise<SimulationResult> {
+  return getDefaultClient().agency(agencyAddress).simulateRemoveDocumentManager(managerAddress, signer);
+}
+
+/**
+ * Simulate transferring agency ownership
+ * @param agencyAddress Address of the agency contract
+ * @param newOwner Address of the new owner
+ * @param signer Signer (or private key) of current agency owner
+ * @returns Simulation result
+ */
+export async function simulateTransferAgencyOwnership(
+  agencyAddress: string,
+  newOwner: string,
+  signer?: SignerLike
+): Promise<SimulationResult> {
+  return getDefaultClient().agency(agencyAddress).simulateTransferOwnership(newOwner, signer);
 }
@@ -0,0 +1,476 @@
+import type { DBTCClient } from './client';
+import { getDefaultClient } from './client';
+import {
+  BudgetPhase,
+  ProposalStatus,
+  getPhaseName,
+  getStatusName,
+  AgencyBudgetTotal,
+  BudgetAmount,
+  BudgetBreakdown,
+  BudgetComparison,
+  BudgetComparisonRow,
+  BudgetFilter,
+  BudgetGroupTotal,
+  BudgetLineItem,
+  BudgetQueryOptions,
+  BudgetRollup,
+  BudgetStage,
+  OnChainProposalData,
+  ProposalMetadata,
+  RevisionRecord
+} from './types';
+import { ProposalApi } from './proposal';
+import { PesoAmount } from './money';
+import { createLimiter } from './utils';
+import { formatCsvRecords } from './csv';
+
+const DEFAULT_CONCURRENCY = 8;
+
+const STAGES: BudgetStage[] = ['NEP', 'GAB', 'GAA'];
+
+/**
+ * Proposal version as read for aggregation
+ */
+interface TokenVersion {
+  tokenId: bigint;
+  data: OnChainProposalData;
+  metadata: ProposalMetadata;
+  /** Version this one was created from (null for origins) */
+  parentTokenId: bigint | null;
+  /** REVISED or AMENDED for versions created from another (null for origins) */
+  action: ProposalStatus | null;
+}
+
+interface Lineage {
+  origin: TokenVersion;
+  latest: TokenVersion;
+}
+
+interface LoadedProposals {
+  tokens: Map<bigint, TokenVersion>;
+  lineages: Lineage[];
+  tokenCount: number;
+}
+
+const matches = <T>(value: T, filter: T | T[] | undefined) =>
+  filter === undefined || (Array.isArray(filter) ? filter.includes(value) : filter === value);
+
+function matchesFilter(version: TokenVersion, filter: BudgetFilter): boolean {
+  const { data, metadata } = version;
+  return matches(data.fiscalYear, filter.fiscalYear) &&
+    matches(data.departmentCode, filter.deptCode) &&
+    matches(data.agencyCode, filter.agencyCode) &&
+    matches(data.uacsObjCode, filter.uacsObjCode) &&
+    matches(data.prexcFpapId, filter.prexcFpapId) &&
+    matches(metadata.status, filter.status);
+}
+
+/**
+ * Line item an agency's document budgets for, across its versions
+ */
+const lineItemKey = (data: OnChainProposalData) =>
+  `${data.fiscalYear}:${data.departmentCode}:${data.agencyCode}:${data.prexcFpapId}:${data.uacsObjCode}`;
+
+/**
+ * Line item a Congress chamber's GAB document budgets for, across the agencies it covers
+ */
+const gabLineItemKey = (data: OnChainProposalData) => `${data.fiscalYear}:${data.prexcFpapId}:${data.uacsObjCode}`;
+
+type CountedDocuments = Record<BudgetStage, Map<string, { origin: TokenVersion; version: TokenVersion }>>;
+
+function toLineItem(origin: TokenVersion, version: TokenVersion): BudgetLineItem {
+  const { data, metadata } = version;
+  return {
+    originTokenId: origin.tokenId,
+    tokenId: version.tokenId,
+    fiscalYear: data.fiscalYear,
+    departmentCode: data.departmentCode,
+    agencyCode: data.agencyCode,
+    prexcFpapId: data.prexcFpapId,
+    uacsObjCode: data.uacsObjCode,
+    amount: data.amount,
+    pesoAmount: data.pesoAmount,
+    status: metadata.status,
+    statusName: getStatusName(metadata.status),
+    submittedPhase: origin.metadata.submittedPhase
+  };
+}
+
+function getFilter(options: BudgetQueryOptions): BudgetFilter {
+  const { proposalAddress, concurrency, ...filter } = options;
+  return filter;
+}
+
+/**
+ * Group items by key, in key order
+ */
+function groupBy<T>(items: T[], key: (item: T) => string): Array<[string, T[]]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(key(item));
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key(item), [item]);
+    }
+  }
+  return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+function total(items: BudgetLineItem[], decimals: number): BudgetAmount {
+  return {
+    amount: items.reduce((sum, item) => sum + item.amount, BigInt(0)),
+    pesoAmount: PesoAmount.sum(items.map((item) => item.pesoAmount), decimals),
+    proposalCount: items.length
+  };
+}
+
+function breakdown(items: BudgetLineItem[], decimals: number): BudgetBreakdown {
+  const groupTotals = (key: (item: BudgetLineItem) => string): BudgetGroupTotal[] =>
+    groupBy(items, key).map(([code, group]) => ({ key: code, ...total(group, decimals) }));
+  return {
+    ...total(items, decimals),
+    byObjectCode: groupTotals((item) => item.uacsObjCode),
+    byPrexc: groupTotals((item) => item.prexcFpapId)
+  };
+}
+
+/**
+ * National, department and agency rows with one amount per column
+ */
+function comparisonRows(
+  columns: string[],
+  items: Array<{ column: string; item: BudgetLineItem }>,
+  decimals: number
+): BudgetComparisonRow[] {
+  const row = (
+    level: BudgetComparisonRow['level'],
+    deptCode: string | null,
+    agencyCode: string | null,
+    entries: Array<{ column: string; item: BudgetLineItem }>
+  ): BudgetComparisonRow => {
+    const values = Object.fromEntries(columns.map((column) => [
+      column,
+      total(entries.filter((entry) => entry.column === column).map((entry) => entry.item), decimals)
+    ]));
+    const changes = columns.slice(1).map((column, i) => values[column].pesoAmount.minus(values[columns[i]].pesoAmount));
+    return { level, deptCode, agencyCode, values, changes };
+  };
+
+  const rows = [row('national', null, null, items)];
+  for (const [deptCode, deptItems] of groupBy(items, (entry) => entry.item.departmentCode)) {
+    rows.push(row('department', deptCode, null, deptItems));
+    for (const [agencyCode, agencyItems] of groupBy(deptItems, (entry) => entry.item.agencyCode)) {
+      rows.push(row('agency', deptCode, agencyCode, agencyItems));
+    }
+  }
+  return rows;
+}
+
+/**
+ * Budget totals over proposal data
+ *
+ * Obtain through `client.aggregation`. Every query reads all proposal tokens
+ * once; totals count only the latest version of each lineage
+ * (`getLatestVersion` of its origin), so revisions and amendments replace
+ * the versions they were created from instead of adding to them.
+ */
+export class AggregationApi {
+  constructor(private readonly client: DBTCClient) {}
+
+  /**
+   * Latest versions matching a filter
+   * @param options Filters, contract address and read concurrency
+   * @returns Line items, ordered by origin token
+   */
+  async getLineItems(options: BudgetQueryOptions = {}): Promise<BudgetLineItem[]> {
+    const { lineages } = await this.load(options);
+    const filter = getFilter(options);
+    return lineages
+      .filter(({ latest }) => matchesFilter(latest, filter))
+      .map(({ origin, latest }) => toLineItem(origin, latest));
+  }
+
+  /**
+   * Totals rolled up agency → department → national, with breakdowns by
+   * UACS object code and PREXC/FPAP at every level
+   * @param options Filters, contract address and read concurrency
+   * @returns Roll-up and the line items behind it
+   */
+  async getRollup(options: BudgetQueryOptions = {}): Promise<BudgetRollup> {
+    const { lineages, tokenCount } = await this.load(options);
+    const filter = getFilter(options);
+    const decimals = this.client.amountDecimals;
+    const items = lineages
+      .filter(({ latest }) => matchesFilter(latest, filter))
+      .map(({ origin, latest }) => toLineItem(origin, latest));
+
+    const departments = groupBy(items, (item) => item.departmentCode).map(([deptCode, deptItems]) => ({
+      deptCode,
+      ...breakdown(deptItems, decimals),
+      agencies: groupBy(deptItems, (item) => item.agencyCode).map(([agencyCode, agencyItems]): AgencyBudgetTotal => ({
+        deptCode,
+        agencyCode,
+        ...breakdown(agencyItems, decimals)
+      }))
+    }));
+
+    return {
+      filter,
+      fiscalYears: [...new Set(items.map((item) => item.fiscalYear))].sort((a, b) => a - b),
+      national: breakdown(items, decimals),
+      departments,
+      items,
+      tokenCount,
+      generatedAt: new Date()
+    };
+  }
+
+  /**
+   * Compare the NEP, GAB and GAA totals
+   *
+   * Per lineage, NEP counts the latest version not created by an amendment,
+   * GAB the latest version once the fiscal year has reached the GAB phases,
+   * and GAA the latest version if it is ENACTED. Separate and joint GAB
+   * documents from Congress count in the GAB and GAA columns only. Each
+   * column counts the latest document per line item. An agency's line item
+   * is its fiscal year, department, agency, PREXC/FPAP and object code, so
+   * agencies sharing a PREXC/FPAP and object code are counted apart. A
+   * chamber's GAB covers a fiscal year, PREXC/FPAP and object code across
+   * agencies, and replaces every agency document for it in its column.
+   * Filters apply to the document counted in each column.
+   * @param options Filters, contract address and read concurrency
+   * @returns National, department and agency rows with one column per stage
+   */
+  async compareStages(options: BudgetQueryOptions = {}): Promise<BudgetComparison> {
+    const [{ tokens, lineages }, phase, fiscalYear] = await Promise.all([
+      this.load(options),
+      this.client.dbtc.getCurrentPhase(),
+      this.client.dbtc.getCurrentFiscalYear()
+    ]);
+    const filter = getFilter(options);
+
+    const agencies: CountedDocuments = { NEP: new Map(), GAB: new Map(), GAA: new Map() };
+    const chambers: CountedDocuments = { NEP: new Map(), GAB: new Map(), GAA: new Map() };
+    for (const { origin, latest } of lineages) {
+      const chamber = origin.metadata.submittedPhase >= BudgetPhase.GAB_SEPARATE;
+      const [counted, key] = chamber ? [chambers, gabLineItemKey] : [agencies, lineItemKey];
+      let executive: TokenVersion | null = null;
+      if (!chamber) {
+        executive = latest;
+        while (executive.action === ProposalStatus.AMENDED && executive.parentTokenId !== null) {
+          executive = tokens.get(executive.parentTokenId) ?? origin;
+        }
+      }
+      const reachedGab = latest.data.fiscalYear < fiscalYear || phase >= BudgetPhase.GAB_SEPARATE;
+      const versions: Record<BudgetStage, TokenVersion | null> = {
+        NEP: executive,
+        GAB: reachedGab ? latest : null,
+        GAA: latest.metadata.status === ProposalStatus.ENACTED ? latest : null
+      };
+      for (const stage of STAGES) {
+        const version = versions[stage];
+        if (!version) {
+          continue;
+        }
+        const current = counted[stage].get(key(version.data));
+        // Token IDs grow with time: the highest is the latest document
+        if (!current || current.version.tokenId < version.tokenId) {
+          counted[stage].set(key(version.data), { origin, version });
+        }
+      }
+    }
+    const entries = STAGES.flatMap((stage) => [
+      ...[...agencies[stage].values()].filter(({ version }) => !chambers[stage].has(gabLineItemKey(version.data))),
+      ...chambers[stage].values()
+    ]
+      .filter(({ version }) => matchesFilter(version, filter))
+      .map(({ origin, version }) => ({ column: stage, item: toLineItem(origin, version) })));
+
+    return {
+      dimension: 'stage',
+      columns: [...STAGES],
+      filter,
+      rows: comparisonRows(STAGES, entries, this.client.amountDecimals),
+      generatedAt: new Date()
+    };
+  }
+
+  /**
+   * Compare totals across fiscal years
+   * @param fiscalYears Fiscal years, in column order
+   * @param options Filters (other than the fiscal year), contract address and read concurrency
+   * @returns National, department and agency rows with one column per fiscal year
+   */
+  async compareFiscalYears(
+    fiscalYears: number[],
+    options: Omit<BudgetQueryOptions, 'fiscalYear'> = {}
+  ): Promise<BudgetComparison> {
+    const { lineages } = await this.load(options);
+    const filter: BudgetFilter = { ...getFilter(options), fiscalYear: fiscalYears };
+    const columns = fiscalYears.map(String);
+    const entries = lineages
+      .filter(({ latest }) => matchesFilter(latest, filter))
+      .map(({ origin, latest }) => ({ column: String(latest.data.fiscalYear), item: toLineItem(origin, latest) }));
+
+    return {
+      dimension: 'fiscalYear',
+      columns,
+      filter,
+      rows: comparisonRows(columns, entries, this.client.amountDecimals),
+      generatedAt: new Date()
+    };
+  }
+
+  /**
+   * Read every proposal token and resolve the latest version of each lineage
+   */
+  private async load(options: BudgetQueryOptions): Promise<LoadedProposals> {
+    const proposals: ProposalApi = options.proposalAddress
+      ? this.client.proposals.at(options.proposalAddress)
+      : this.client.proposals;
+    const limit = createLimiter(options.concurrency ?? DEFAULT_CONCURRENCY);
+
+    const tokenCount = await proposals.getTokenCount();
+    const versions = await Promise.all(
+      Array.from({ length: tokenCount }, (_, index) => BigInt(index + 1)).map(async (tokenId): Promise<TokenVersion> => {
+        const [data, metadata] = await Promise.all([
+          limit(() => proposals.getData(tokenId)),
+          limit(() => proposals.getMetadata(tokenId))
+        ]);
+        const isOrigin = metadata.originTokenId === tokenId || metadata.originTokenId === BigInt(0);
+        if (isOrigin) {
+          return { tokenId, data, metadata, parentTokenId: null, action: null };
+        }
+        const [chain, history] = await Promise.all([
+          limit(() => proposals.getRevisionChain(tokenId)),
+          limit(() => proposals.getRevisionHistory(tokenId))
+        ]);
+        const parentTokenId = chain.length > 1 ? chain[chain.length - 2] : null;
+        // The change is recorded in the same transaction that created the version
+        const records = history.filter((record) => record.previousTokenId === parentTokenId);
+        const record: RevisionRecord | undefined =
+          records.find((candidate) => candidate.timestamp.getTime() === metadata.createdAt.getTime()) ??
+          records[records.length - 1];
+        return { tokenId, data, metadata, parentTokenId, action: record?.action ?? metadata.status };
+      })
+    );
+    const tokens = new Map(versions.map((version) => [version.tokenId, version]));
+
+    const origins = versions.filter((version) => version.parentTokenId === null);
+    const lineages = await Promise.all(origins.map(async (origin): Promise<Lineage> => {
+      const latestTokenId = await limit(() => proposals.getLatestVersion(origin.tokenId));
+      return { origin, latest: tokens.get(latestTokenId) ?? origin };
+    }));
+    return { tokens, lineages, tokenCount };
+  }
+}
+
+// ============ Output ============
+
+/**
+ * Format line items as CSV (amounts in pesos)
+ * @param items Line items
+ * @returns CSV text with a header row
+ */
+export function budgetItemsToCsv(items: BudgetLineItem[]): string {
+  return formatCsvRecords(items.map((item) => ({
+    originTokenId: item.originTokenId,
+    tokenId: item.tokenId,
+    fiscalYear: item.fiscalYear,
+    deptCode: item.departmentCode,
+    agencyCode: item.agencyCode,
+    prexcFpapId: item.prexcFpapId,
+    uacsObjCode: item.uacsObjCode,
+    amount: item.pesoAmount.toString(),
+    status: item.statusName,
+    submittedPhase: getPhaseName(item.submittedPhase)
+  })), [
+    'originTokenId', 'tokenId', 'fiscalYear', 'deptCode', 'agencyCode',
+    'prexcFpapId', 'uacsObjCode', 'amount', 'status', 'submittedPhase'
+  ]);
+}
+
+/**
+ * Format a roll-up as CSV: one row per total, then one per object code and
+ * PREXC/FPAP breakdown, for the nation, each department and each agency
+ * @param rollup Budget roll-up
+ * @returns CSV text with a header row
+ */
+export function budgetRollupToCsv(rollup: BudgetRollup): string {
+  const records: Array<Record<string, unknown>> = [];
+  const add = (level: string, deptCode: string | null, agencyCode: string | null, totals: BudgetBreakdown) => {
+    const base = { level, deptCode, agencyCode };
+    records.push({ ...base, amount: totals.pesoAmount.toString(), proposalCount: totals.proposalCount });
+    for (const group of totals.byObjectCode) {
+      records.push({ ...base, uacsObjCode: group.key, amount: group.pesoAmount.toString(), proposalCount: group.proposalCount });
+    }
+    for (const group of totals.byPrexc) {
+      records.push({ ...base, prexcFpapId: group.key, amount: group.pesoAmount.toString(), proposalCount: group.proposalCount });
+    }
+  };
+
+  add('national', null, null, rollup.national);
+  for (const department of rollup.departments) {
+    add('department', department.deptCode, null, department);
+    for (const agency of department.agencies) {
+      add('agency', agency.deptCode, agency.agencyCode, agency);
+    }
+  }
+  return formatCsvRecords(records, ['level', 'deptCode', 'agencyCode', 'uacsObjCode', 'prexcFpapId', 'amount', 'proposalCount']);
+}
+
+/**
+ * Format a comparison as CSV: one amount column per stage or fiscal year,
+ * then one change column per consecutive pair (e.g. "NEP to GAB")
+ * @param comparison Budget comparison
+ * @returns CSV text with a header row
+ */
+export function budgetComparisonToCsv(comparison: BudgetComparison): string {
+  const { columns } = comparison;
+  const changeColumns = columns.slice(1).map((column, i) => `${columns[i]} to ${column}`);
+  return formatCsvRecords(comparison.rows.map((row) => ({
+    level: row.level,
+    deptCode: row.deptCode,
+    agencyCode: row.agencyCode,
+    ...Object.fromEntries(columns.map((column) => [column, row.values[column].pesoAmount.toString()])),
+    ...Object.fromEntries(changeColumns.map((column, i) => [column, row.changes[i].toString()]))
+  })), ['level', 'deptCode', 'agencyCode', ...columns, ...changeColumns]);
+}
+
+/**
+ * Latest versions of the default client's proposals matching a filter
+ * @param options Filters, contract address and read concurrency
+ */
+export async function getBudgetLineItems(options?: BudgetQueryOptions): Promise<BudgetLineItem[]> {
+  return getDefaultClient().aggregation.getLineItems(options);
+}
+
+/**
+ * Totals rolled up agency → department → national
+ * @param options Filters, contract address and read concurrency
+ */
+export async function getBudgetRollup(options?: BudgetQueryOptions): Promise<BudgetRollup> {
+  return getDefaultClient().aggregation.getRollup(options);
+}
+
+/**
+ * Compare the NEP, GAB and GAA totals
+ * @param options Filters, contract address and read concurrency
+ */
+export async function compareBudgetStages(options?: BudgetQueryOptions): Promise<BudgetComparison> {
+  return getDefaultClient().aggregation.compareStages(options);
+}
+
+/**
+ * Compare totals across fiscal years
+ * @param fiscalYears Fiscal years, in column order
+ * @param options Filters (other than the fiscal year), contract address and read concurrency
+ */
+export async function compareBudgetFiscalYears(
+  fiscalYears: number[],
+  options?: Omit<BudgetQueryOptions, 'fiscalYear'>
+): Promise<BudgetComparison> {
+  return getDefaultClient().aggregation.compareFiscalYears(fiscalYears, options);
+}
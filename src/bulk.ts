@@ -0,0 +1,373 @@
+import { ethers, Contract } from 'ethers';
+import { promises as fs } from 'fs';
+import type { DBTCClient } from './client';
+import { getDefaultClient } from './client';
+import {
+  BulkLineItem,
+  BulkRowResult,
+  BulkSubmissionReport,
+  BulkJournal
+} from './types';
+import { prepareProposalData, findEvent, createLimiter } from './utils';
+import { DBTCError, ValidationError, withContractErrors } from './errors';
+import { SignerLike } from './signer';
+import { validateProposalData } from './validation';
+import { PesoAmount, DEFAULT_AMOUNT_DECIMALS } from './money';
+import { parseCsvRecords } from './csv';
+import { TransactionQueue } from './queue';
+import AgencyABI from './abis/Agency.json';
+
+type LineItemField = 'prexcFpapId' | 'uacsObjCode' | 'amount' | 'metadataURI';
+
+/**
+ * Accepted header names per field (compared without case, spaces or punctuation)
+ */
+const COLUMN_ALIASES: Record<LineItemField, string[]> = {
+  prexcFpapId: ['prexcfpapid', 'prexcfpap', 'prexc', 'fpap'],
+  uacsObjCode: ['uacsobjcode', 'uacsobjectcode', 'uacs', 'objectcode'],
+  amount: ['amount'],
+  metadataURI: ['metadatauri', 'metadata', 'uri']
+};
+
+/**
+ * Line item source: CSV text, or rows already read from a spreadsheet
+ * (e.g. the output of an XLSX reader's sheet-to-JSON conversion, whose
+ * `__rowNum__` gives the sheet row reported back)
+ */
+export type LineItemSource = string | Array<Record<string, unknown>>;
+
+/**
+ * Bulk submission options
+ */
+export interface BulkSubmitOptions {
+  /** Signer (or private key) of agency owner or document manager */
+  signer?: SignerLike;
+  /** Transactions in flight at once (default: 4) */
+  concurrency?: number;
+  /** Journal to record results in and resume from */
+  journal?: BulkJournal;
+  /** Simulate every row against the contract before sending (default: true) */
+  preflight?: boolean;
+  /** Header names, if they differ from the defaults */
+  columns?: Partial<Record<LineItemField, string>>;
+  /**
+   * How to read the amount column: raw on-chain units (default) or pesos
+   * such as "₱1,234,567.89"
+   */
+  amounts?: 'units' | 'pesos';
+  /** Called whenever a row changes state */
+  onRow?: (result: BulkRowResult) => void;
+}
+
+/**
+ * Raw line item, before validation
+ */
+interface RawLineItem {
+  row: number;
+  prexcFpapId: string;
+  uacsObjCode: string;
+  amount: string;
+  metadataURI: string;
+}
+
+const normalizeHeader = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Read raw line items from CSV text or spreadsheet rows
+ */
+function readLineItems(source: LineItemSource, columns: BulkSubmitOptions['columns'] = {}): RawLineItem[] {
+  const records = typeof source === 'string'
+    ? parseCsvRecords(source).map(({ line, values }) => ({ row: line, record: values as Record<string, unknown> }))
+    : source.map((record, index) => {
+      // SheetJS marks each row object with its 0-based sheet row
+      const rowNum = (record as { __rowNum__?: unknown }).__rowNum__;
+      return { row: typeof rowNum === 'number' ? rowNum + 1 : index + 1, record };
+    });
+
+  return records.map(({ row, record }) => {
+    const headers = Object.keys(record);
+    const value = (field: LineItemField) => {
+      const header = columns[field] ??
+        headers.find((name) => COLUMN_ALIASES[field].includes(normalizeHeader(name)));
+      const cell = header === undefined ? undefined : record[header];
+      return cell === undefined || cell === null ? '' : String(cell).trim();
+    };
+    return {
+      row,
+      prexcFpapId: value('prexcFpapId'),
+      uacsObjCode: value('uacsObjCode'),
+      amount: value('amount'),
+      metadataURI: value('metadataURI')
+    };
+  });
+}
+
+const rowKey = (item: { prexcFpapId: string; uacsObjCode: string }) => `${item.prexcFpapId}/${item.uacsObjCode}`;
+
+/**
+ * Key of a line item within its agency and fiscal year, so a journal shared
+ * between agencies or reused in the next budget cycle resumes nothing it should not
+ */
+const journalKey = (fiscalYear: number, agencyAddress: string, key: string) =>
+  `${fiscalYear}/${agencyAddress.toLowerCase()}/${key}`;
+
+/**
+ * Check line items without touching the chain (runs the proposal validation rules)
+ * @param source CSV text or spreadsheet rows
+ * @param options Column names, amount format and decimals of on-chain amounts
+ * @returns Valid line items and the errors of invalid rows
+ */
+export function validateLineItems(
+  source: LineItemSource,
+  options: Pick<BulkSubmitOptions, 'columns' | 'amounts'> & { amountDecimals?: number } = {}
+): { items: BulkLineItem[]; invalid: BulkRowResult[] } {
+  const decimals = options.amountDecimals ?? DEFAULT_AMOUNT_DECIMALS;
+  const items: BulkLineItem[] = [];
+  const invalid: BulkRowResult[] = [];
+  const seen = new Map<string, number>();
+
+  for (const raw of readLineItems(source, options.columns)) {
+    const errors: string[] = [];
+    // Spreadsheets format amounts with thousands separators
+    let amount: string | PesoAmount = raw.amount.replace(/,/g, '');
+    if (options.amounts === 'pesos') {
+      try {
+        amount = PesoAmount.parse(raw.amount, decimals);
+      } catch (error) {
+        errors.push(...(error as ValidationError).fieldErrors.map((e) => `${e.field} ${e.message}`));
+      }
+    }
+    errors.push(...validateProposalData({ ...raw, amount }, decimals)
+      .filter((error) => errors.length === 0 || error.field !== 'amount')
+      .map((error) => `${error.field} ${error.message}`));
+    if (!raw.metadataURI) {
+      errors.push('metadataURI is required');
+    }
+
+    const key = rowKey(raw);
+    if (raw.prexcFpapId && raw.uacsObjCode && seen.has(key)) {
+      errors.push(`duplicate of row ${seen.get(key)}`);
+    } else {
+      seen.set(key, raw.row);
+    }
+
+    if (errors.length > 0) {
+      invalid.push({ row: raw.row, key, status: 'invalid', errors });
+    } else {
+      items.push({ ...raw, amount: amount instanceof PesoAmount ? amount.toUnits(decimals) : BigInt(amount) });
+    }
+  }
+
+  return { items, invalid };
+}
+
+/**
+ * Submits budget proposals for many line items of one agency
+ *
+ * Every row is validated (and by default simulated) before anything is sent.
+ * Transactions are sent through the signer's nonce queue with bounded concurrency, and
+ * each state change is recorded in the journal: running again with the same
+ * journal skips submitted rows and checks the transactions of sent rows
+ * instead of sending them twice.
+ *
+ * @example
+ * ```typescript
+ * const submitter = new BulkSubmitter(client, '0xAgencyAddress');
+ * const report = await submitter.submit(readFileSync('line-items.csv', 'utf8'), {
+ *   journal: new JsonFileBulkJournal('./line-items.journal'),
+ *   concurrency: 8
+ * });
+ * ```
+ */
+export class BulkSubmitter {
+  constructor(
+    private readonly client: DBTCClient,
+    /** Address of the agency contract */
+    readonly agencyAddress: string
+  ) {}
+
+  /**
+   * Validate and submit line items
+   * @param source CSV text or spreadsheet rows
+   * @param options Bulk submission options
+   * @returns Per-row report
+   */
+  async submit(source: LineItemSource, options: BulkSubmitOptions = {}): Promise<BulkSubmissionReport> {
+    const validation = validateLineItems(source, { ...options, amountDecimals: this.client.amountDecimals });
+    const fiscalYear = await this.client.dbtc.getCurrentFiscalYear();
+    const key = (item: { prexcFpapId: string; uacsObjCode: string }) =>
+      journalKey(fiscalYear, this.agencyAddress, rowKey(item));
+    const { items } = validation;
+    const invalid = validation.invalid.map((result) =>
+      ({ ...result, key: journalKey(fiscalYear, this.agencyAddress, result.key) }));
+    const previous = new Map((await options.journal?.load() ?? []).map((result) => [result.key, result]));
+    const results = new Map<number, BulkRowResult>(invalid.map((result) => [result.row, result]));
+
+    const update = async (result: BulkRowResult) => {
+      results.set(result.row, result);
+      options.onRow?.(result);
+      if (result.status !== 'pending' && result.status !== 'invalid') {
+        await options.journal?.record(result);
+      }
+    };
+
+    const signer = this.client.getSigner(options.signer);
+    const limit = createLimiter(options.concurrency ?? 4);
+    const todo: BulkLineItem[] = [];
+    let resumed = 0;
+
+    for (const item of items) {
+      const recorded = previous.get(key(item));
+      if (recorded?.status === 'submitted') {
+        resumed++;
+        results.set(item.row, { ...recorded, row: item.row });
+      } else {
+        results.set(item.row, { row: item.row, key: key(item), status: 'pending' });
+        todo.push(item);
+      }
+    }
+
+    if (invalid.length === 0 && options.preflight !== false) {
+      const agency = this.client.agency(this.agencyAddress);
+      await Promise.all(todo.map((item) => limit(async () => {
+        if (previous.get(key(item))?.status === 'sent') {
+          return;
+        }
+        const simulation = await agency.simulateSubmitProposal(item.metadataURI, item, signer);
+        if (!simulation.success) {
+          invalid.push({ row: item.row, key: key(item), status: 'invalid', errors: [simulation.error!.message] });
+          await update(invalid[invalid.length - 1]);
+        }
+      })));
+    }
+
+    if (invalid.length === 0) {
+      const queue = await this.client.transactions.getQueue(signer);
+      await Promise.all(todo.map((item) => limit(() =>
+        this.submitItem(item, key(item), signer, queue, previous.get(key(item)), update)
+      )));
+    }
+
+    const rows = [...results.values()].sort((a, b) => a.row - b.row);
+    return {
+      agencyAddress: this.agencyAddress,
+      valid: invalid.length === 0,
+      rows,
+      submitted: rows.filter((row) => row.status === 'submitted').length - resumed,
+      failed: rows.filter((row) => row.status === 'failed').length,
+      resumed
+    };
+  }
+
+  private async submitItem(
+    item: BulkLineItem,
+    key: string,
+    signer: ethers.Signer,
+    queue: TransactionQueue,
+    recorded: BulkRowResult | undefined,
+    update: (result: BulkRowResult) => Promise<void>
+  ): Promise<void> {
+    const base = { row: item.row, key };
+    const contract = new Contract(this.agencyAddress, AgencyABI.abi, signer);
+
+    try {
+      const result = await withContractErrors(async () => {
+        const tx = recorded?.status === 'sent' && recorded.txHash
+          ? await this.client.provider.getTransaction(recorded.txHash)
+          : null;
+        if (tx) {
+          return await this.client.transactions.wait(tx, signer);
+        }
+        return await queue.enqueue(async (nonce) => contract.submitProposal(
+          item.metadataURI,
+          prepareProposalData(item, this.client.amountDecimals),
+          { ...await this.client.transactions.getFeeOverrides(), nonce }
+        ), async (sent) => {
+          await update({ ...base, status: 'sent', txHash: sent.hash });
+          return this.client.transactions.wait(sent, signer);
+        });
+      }, () => this.client.dbtc.getCurrentPhase());
+
+      const event = findEvent(contract, result.logs, 'ProposalSubmitted');
+      await update({
+        ...base,
+        status: 'submitted',
+        txHash: result.txHash,
+        tokenId: event ? event.args.tokenId.toString() : undefined
+      });
+    } catch (error) {
+      const err = error as Error;
+      await update({
+        ...base,
+        status: 'failed',
+        error: { code: error instanceof DBTCError ? error.code : undefined, message: err.message }
+      });
+    }
+  }
+}
+
+// ============ Journals ============
+
+/**
+ * In-memory bulk journal (resumes within the same process only)
+ */
+export class MemoryBulkJournal implements BulkJournal {
+  private results: BulkRowResult[] = [];
+
+  async load(): Promise<BulkRowResult[]> {
+    return [...this.results];
+  }
+
+  async record(result: BulkRowResult): Promise<void> {
+    this.results.push(result);
+  }
+}
+
+/**
+ * Bulk journal appended to a file, one JSON result per line
+ */
+export class JsonFileBulkJournal implements BulkJournal {
+  /**
+   * @param path Path of the journal file (created on first record)
+   */
+  constructor(readonly path: string) {}
+
+  async load(): Promise<BulkRowResult[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    // A crash can leave a partial last line
+    return content.split('\n').flatMap((line) => {
+      try {
+        return line.trim() ? [JSON.parse(line)] : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  async record(result: BulkRowResult): Promise<void> {
+    await fs.appendFile(this.path, JSON.stringify(result) + '\n');
+  }
+}
+
+/**
+ * Validate and submit budget proposals for many line items
+ * @param agencyAddress Address of the agency contract
+ * @param source CSV text or spreadsheet rows (columns prexcFpapId, uacsObjCode, amount, metadataURI)
+ * @param options Bulk submission options
+ * @returns Per-row report
+ */
+export async function submitProposalsBulk(
+  agencyAddress: string,
+  source: LineItemSource,
+  options?: BulkSubmitOptions
+): Promise<BulkSubmissionReport> {
+  return new BulkSubmitter(getDefaultClient(), agencyAddress).submit(source, options);
+}
@@ -0,0 +1,339 @@
+import { ethers } from 'ethers';
+import { getDefaultClient } from './client';
+import DBTCABI from './abis/DBTC.json';
+import DepartmentABI from './abis/Department.json';
+import AgencyABI from './abis/Agency.json';
+import BudgetProposalABI from './abis/BudgetProposal.json';
+
+const DEFAULT_TTL = 60000;
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_POLLING_INTERVAL = 4000;
+
+/**
+ * Events that change contract state read by the SDK. Generic ERC-721/Ownable
+ * events are left out: watched logs are queried by topic across all
+ * addresses, and those would match unrelated contracts.
+ */
+const INVALIDATING_EVENTS: Array<[ethers.InterfaceAbi, string[]]> = [
+  [DBTCABI.abi, ['BudgetCycleStarted', 'DepartmentAdded', 'DepartmentRemoved', 'PhaseAdvanced', 'PhaseResponsibilityAssigned']],
+  [DepartmentABI.abi, ['AgencyAdded', 'AgencyRemoved', 'HouseAndSenateSet', 'MainAgencySet']],
+  [AgencyABI.abi, ['DocumentManagerAdded', 'DocumentManagerRemoved', 'ProposalSubmitted', 'ProposalRevised', 'ProposalAmended']],
+  [BudgetProposalABI.abi, ['ProposalMinted', 'ProposalStatusChanged', 'RevisionCreated']]
+];
+
+const INVALIDATING_TOPICS = INVALIDATING_EVENTS.flatMap(([abi, names]) => {
+  const iface = new ethers.Interface(abi);
+  return names.map((name) => iface.getEvent(name)!.topicHash);
+});
+
+/**
+ * Ownership reads are never cached: ownership changes without any watched
+ * event (agency transfers emit none, and ERC-721 Transfer is not watched)
+ */
+const UNCACHED_SELECTORS = new Set([
+  'owner()',
+  'getOwner()',
+  'getDepartmentOwner()',
+  'getStandaloneOwner()',
+  'standaloneOwner()',
+  'ownerOf(uint256)',
+  'getApproved(uint256)',
+  'isApprovedForAll(address,address)'
+].map((signature) => ethers.id(signature).slice(0, 10)));
+
+/**
+ * Backend for cached reads (e.g. in-memory, Redis)
+ *
+ * Values are strings, so any key-value store can be plugged in.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | undefined>;
+  /**
+   * @param ttl Time to live in milliseconds
+   */
+  set(key: string, value: string, ttl: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+}
+
+/**
+ * Read cache options
+ */
+export interface CacheOptions {
+  /** Cache backend (default: in-memory LRU with 1000 entries) */
+  store?: CacheStore;
+  /** Time to live of entries in milliseconds (default: 60000) */
+  ttl?: number;
+  /** Drop entries read more than this many blocks ago (default: no limit) */
+  maxBlockAge?: number;
+  /** Invalidate entries when contract events are observed (default: true) */
+  watchEvents?: boolean;
+  /** Event polling interval in milliseconds (default: 4000) */
+  pollingInterval?: number;
+  /** Key prefix, to share a store between networks */
+  namespace?: string;
+}
+
+/**
+ * Read cache statistics
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Entries dropped because of events, block age or manual invalidation */
+  invalidations: number;
+  /** hits / (hits + misses) */
+  hitRate: number;
+}
+
+/**
+ * In-memory least-recently-used cache store
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: string; expires: number }>();
+
+  /**
+   * @param maxEntries Maximum number of entries (default: 1000)
+   */
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expires <= Date.now()) {
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttl: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: Date.now() + ttl });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.entries.delete(key));
+  }
+}
+
+/**
+ * Contract runner that caches `eth_call` results
+ *
+ * Entries are keyed by contract address and calldata and are dropped when
+ * their TTL expires, when the contract emits a state-changing event, or when
+ * they are older than `maxBlockAge` blocks. Writes sent through the client
+ * drop the entries of the contracts they touched as soon as they are mined.
+ * Reverts and ownership reads are never cached.
+ * Invalidation only reaches keys written by this process; entries written to
+ * a shared store by other processes expire by TTL.
+ */
+export class ReadCache implements ethers.ContractRunner {
+  private readonly store: CacheStore;
+  /** Keys written per contract address */
+  private keysByAddress = new Map<string, Set<string>>();
+  /** Bumped on invalidation, so in-flight reads started earlier are not stored */
+  private generations = new Map<string, number>();
+  private epoch = 0;
+  private inflight = new Map<string, Promise<string>>();
+  private currentBlock: number | null = null;
+  private lastLogBlock: number | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  /** First poll, which fixes the block entries age and watch events from */
+  private watching: Promise<void> | null = null;
+  private stopped = false;
+  private stats = { hits: 0, misses: 0, invalidations: 0 };
+
+  constructor(
+    private readonly runner: ethers.ContractRunner & { call(tx: ethers.TransactionRequest): Promise<string> },
+    readonly provider: ethers.Provider,
+    private readonly options: CacheOptions = {}
+  ) {
+    this.store = options.store ?? new MemoryCacheStore();
+  }
+
+  async call(tx: ethers.TransactionRequest): Promise<string> {
+    const cacheable = typeof tx.to === 'string' && tx.data && !tx.from && !tx.value && tx.blockTag == null &&
+      !UNCACHED_SELECTORS.has(tx.data.slice(0, 10));
+    if (!cacheable) {
+      return this.runner.call(tx);
+    }
+    await this.startWatching();
+
+    const address = (tx.to as string).toLowerCase();
+    const key = `${this.options.namespace ?? ''}:${address}:${tx.data}`;
+
+    const cached = await this.store.get(key);
+    if (cached !== undefined) {
+      const { block, data } = JSON.parse(cached);
+      const maxAge = this.options.maxBlockAge;
+      const tooOld = maxAge !== undefined && block !== null && this.currentBlock !== null &&
+        this.currentBlock - block > maxAge;
+      if (!tooOld) {
+        this.stats.hits++;
+        return data;
+      }
+      this.stats.invalidations++;
+      await this.store.delete([key]);
+    }
+
+    this.stats.misses++;
+    let pending = this.inflight.get(key);
+    if (!pending) {
+      pending = this.fill(address, key, tx);
+      this.inflight.set(key, pending);
+      pending.then(() => this.inflight.delete(key), () => this.inflight.delete(key));
+    }
+    return pending;
+  }
+
+  private async fill(address: string, key: string, tx: ethers.TransactionRequest): Promise<string> {
+    const generation = this.generations.get(address) ?? 0;
+    const epoch = this.epoch;
+    const block = this.currentBlock;
+    const data = await this.runner.call(tx);
+
+    // Without a polled block an entry could neither age nor be kept in sync
+    const tracked = block !== null || !this.watchingEnabled;
+    if (tracked && (this.generations.get(address) ?? 0) === generation && this.epoch === epoch) {
+      await this.store.set(key, JSON.stringify({ block, data }), this.options.ttl ?? DEFAULT_TTL);
+      if (!this.keysByAddress.has(address)) {
+        this.keysByAddress.set(address, new Set());
+      }
+      this.keysByAddress.get(address)!.add(key);
+    }
+    return data;
+  }
+
+  /**
+   * Drop cached reads
+   * @param address Only drop reads of this contract (default: all)
+   */
+  async invalidate(address?: string): Promise<void> {
+    if (!address) {
+      this.epoch++;
+    }
+    const addresses = address ? [address.toLowerCase()] : [...this.keysByAddress.keys()];
+    for (const target of addresses) {
+      this.generations.set(target, (this.generations.get(target) ?? 0) + 1);
+      const keys = [...this.keysByAddress.get(target) ?? []];
+      this.keysByAddress.delete(target);
+      this.stats.invalidations += keys.length;
+      await this.store.delete(keys);
+    }
+  }
+
+  /**
+   * Drop cached reads of the contracts a mined transaction touched: its
+   * target and every contract that emitted a log
+   * @param to Transaction target
+   * @param logs Receipt logs
+   */
+  async invalidateTransaction(to: string | null, logs: readonly ethers.Log[]): Promise<void> {
+    const addresses = new Set(logs.map((log) => log.address.toLowerCase()));
+    if (to) {
+      addresses.add(to.toLowerCase());
+    }
+    for (const address of addresses) {
+      await this.invalidate(address);
+    }
+  }
+
+  /**
+   * Hit/miss statistics
+   */
+  getStats(): CacheStats {
+    const { hits, misses, invalidations } = this.stats;
+    return { hits, misses, invalidations, hitRate: hits + misses > 0 ? hits / (hits + misses) : 0 };
+  }
+
+  /**
+   * Stop watching for events (cached entries still expire by TTL)
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private get watchingEnabled(): boolean {
+    return this.options.watchEvents !== false || this.options.maxBlockAge !== undefined;
+  }
+
+  private startWatching(): Promise<void> {
+    if (!this.watching) {
+      this.watching = this.stopped || !this.watchingEnabled
+        ? Promise.resolve()
+        : this.update().then(() => this.schedule());
+    }
+    return this.watching;
+  }
+
+  private schedule(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.timer = setTimeout(async () => {
+      await this.update();
+      this.schedule();
+    }, this.options.pollingInterval ?? DEFAULT_POLLING_INTERVAL);
+    // Watching must not keep the process alive
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  private async update(): Promise<void> {
+    try {
+      await this.poll();
+    } catch {
+      // Logs may be missing for this range; start over with a clean cache
+      this.currentBlock = null;
+      this.lastLogBlock = null;
+      await this.invalidate().catch(() => undefined);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    const head = await this.provider.getBlockNumber();
+    this.currentBlock = head;
+    if (this.options.watchEvents === false) {
+      return;
+    }
+
+    if (this.lastLogBlock !== null && head > this.lastLogBlock) {
+      const logs = await this.provider.getLogs({
+        fromBlock: this.lastLogBlock + 1,
+        toBlock: head,
+        topics: [INVALIDATING_TOPICS]
+      });
+      const addresses = new Set(logs.map((log) => log.address.toLowerCase()));
+      for (const address of addresses) {
+        await this.invalidate(address);
+      }
+    }
+    this.lastLogBlock = Math.max(head, this.lastLogBlock ?? head);
+  }
+}
+
+/**
+ * Read cache statistics of the default client
+ * @returns Cache statistics (null if caching is not enabled)
+ */
+export function getCacheStats(): CacheStats | null {
+  return getDefaultClient().cache?.getStats() ?? null;
+}
+
+/**
+ * Drop cached reads of the default client
+ * @param address Only drop reads of this contract (default: all)
+ */
+export async function invalidateCache(address?: string): Promise<void> {
+  await getDefaultClient().cache?.invalidate(address);
+}
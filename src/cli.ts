@@ -0,0 +1,699 @@
+#!/usr/bin/env node
+/**
+ * dbtc - command-line tool for DBM and agency operators
+ *
+ * Configuration comes from flags, then environment variables, then a `.env`
+ * file in the working directory (or `--env-file`). Run `dbtc help` for the
+ * command list.
+ */
+import { promises as fs } from 'fs';
+import * as readline from 'readline';
+import { ethers } from 'ethers';
+import { DBTCClient, DBTCClientOptions } from './client';
+import { ChainMode, ContractAddresses, getNetworkConfig } from './config';
+import { BudgetPhase, ProposalData, SimulationResult, TransactionResult, getPhaseName, getStatusName } from './types';
+import { DBTCError } from './errors';
+import { PesoAmount } from './money';
+import { registrySnapshotToJSON } from './registry';
+import { lineageToJSON, lineageToMarkdown } from './lineage';
+import { readAddressBook } from './deploy';
+
+/**
+ * Wrong command line (exits with status 2)
+ */
+export class UsageError extends Error {}
+
+// ============ Arguments and Configuration ============
+
+/** Flags that take no value */
+const BOOLEAN_FLAGS = new Set(['json', 'dry-run', 'yes', 'help', 'standalone', 'not-actual']);
+
+const FLAG_ALIASES: Record<string, string> = { y: 'yes', h: 'help' };
+
+interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | true>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    const short = /^-([a-z])$/.exec(arg);
+    if (short) {
+      if (!FLAG_ALIASES[short[1]]) {
+        throw new UsageError(`Unknown option ${arg}`);
+      }
+      flags[FLAG_ALIASES[short[1]]] = true;
+      continue;
+    }
+    const long = /^--([a-z][a-z0-9-]*)(?:=(.*))?$/s.exec(arg);
+    if (!long) {
+      positionals.push(arg);
+      continue;
+    }
+    const [, name, inline] = long;
+    if (BOOLEAN_FLAGS.has(name)) {
+      if (inline !== undefined) {
+        throw new UsageError(`--${name} takes no value`);
+      }
+      flags[name] = true;
+    } else if (inline !== undefined) {
+      flags[name] = inline;
+    } else if (i + 1 < argv.length) {
+      flags[name] = argv[++i];
+    } else {
+      throw new UsageError(`--${name} needs a value`);
+    }
+  }
+  return { positionals, flags };
+}
+
+/**
+ * Parse a .env file (KEY=VALUE lines, optional `export`, quotes and comments)
+ */
+function parseEnvFile(text: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match) {
+      continue;
+    }
+    const [, key, raw] = match;
+    if (raw.startsWith('"') && raw.endsWith('"') && raw.length >= 2) {
+      values[key] = raw.slice(1, -1).replace(/\\n/g, '\n').replace(/\\(["\\])/g, '$1');
+    } else if (raw.startsWith('\'') && raw.endsWith('\'') && raw.length >= 2) {
+      values[key] = raw.slice(1, -1);
+    } else {
+      values[key] = raw.replace(/\s+#.*$/, '');
+    }
+  }
+  return values;
+}
+
+/**
+ * Settings from flags, environment variables and the .env file, in that order
+ */
+interface Settings {
+  chainMode: ChainMode;
+  apiKey?: string;
+  rpcUrl?: string;
+  privateKey?: string;
+  addressBook?: string;
+  addresses: Partial<ContractAddresses>;
+}
+
+async function loadSettings(flags: ParsedArgs['flags']): Promise<Settings> {
+  const envFile = typeof flags['env-file'] === 'string' ? flags['env-file'] : '.env';
+  let fileValues: Record<string, string> = {};
+  try {
+    fileValues = parseEnvFile(await fs.readFile(envFile, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || flags['env-file'] !== undefined) {
+      throw error;
+    }
+  }
+  const setting = (flag: string, variable: string): string | undefined => {
+    const value = flags[flag];
+    if (value === true) {
+      throw new UsageError(`--${flag} needs a value`);
+    }
+    return value ?? process.env[variable] ?? fileValues[variable];
+  };
+
+  const chainMode = setting('chain', 'DBTC_CHAIN_MODE') ?? 'testnet';
+  if (chainMode !== 'testnet' && chainMode !== 'mainnet') {
+    throw new UsageError("--chain must be 'testnet' or 'mainnet'");
+  }
+  return {
+    chainMode,
+    apiKey: setting('api-key', 'DBTC_API_KEY'),
+    rpcUrl: setting('rpc-url', 'DBTC_RPC_URL'),
+    privateKey: setting('private-key', 'PRIVATE_KEY'),
+    addressBook: setting('addresses', 'DBTC_ADDRESS_BOOK'),
+    addresses: {
+      dbtc: setting('dbtc', 'DBTC_ADDRESS'),
+      budgetProposal: setting('budget-proposal', 'DBTC_BUDGET_PROPOSAL_ADDRESS')
+    }
+  };
+}
+
+async function createClient(settings: Settings): Promise<DBTCClient> {
+  const book = settings.addressBook ? await readAddressBook(settings.addressBook) : null;
+  const options: DBTCClientOptions = {
+    chainMode: settings.chainMode,
+    apiKey: settings.apiKey,
+    privateKey: settings.privateKey,
+    addresses: {
+      dbtc: settings.addresses.dbtc ?? book?.dbtc,
+      budgetProposal: settings.addresses.budgetProposal ?? book?.budgetProposal
+    }
+  };
+  if (settings.rpcUrl) {
+    const provider = new ethers.JsonRpcProvider(settings.rpcUrl);
+    options.provider = provider;
+    // Local nodes rarely have Multicall3
+    options.batch = await provider.getCode(getNetworkConfig(settings.chainMode).multicall3) !== '0x';
+  } else if (!settings.apiKey) {
+    throw new UsageError('Set DBTC_API_KEY (or --api-key), or --rpc-url for a local node');
+  }
+  return new DBTCClient(options);
+}
+
+// ============ Output ============
+
+const toPlain = (_: string, value: unknown) => (typeof value === 'bigint' ? value.toString() : value);
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '-';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatCell).join(', ') || '-';
+  }
+  if (value instanceof PesoAmount) {
+    return value.format();
+  }
+  return String(value);
+}
+
+function table(rows: Array<Record<string, unknown>>): string {
+  if (rows.length === 0) {
+    return '(none)';
+  }
+  const columns = Object.keys(rows[0]);
+  const cells = rows.map((row) => columns.map((column) => formatCell(row[column])));
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map((row) => row[i].length)));
+  const line = (values: string[]) => values.map((value, i) => value.padEnd(widths[i])).join('  ').trimEnd();
+  return [line(columns), line(widths.map((width) => '-'.repeat(width))), ...cells.map(line)].join('\n');
+}
+
+function fields(record: Record<string, unknown>): string {
+  const width = Math.max(...Object.keys(record).map((key) => key.length));
+  return Object.entries(record).map(([key, value]) => `${key.padEnd(width)}  ${formatCell(value)}`).join('\n');
+}
+
+// ============ Commands ============
+
+interface Context {
+  args: string[];
+  flags: ParsedArgs['flags'];
+  settings: Settings;
+  client: DBTCClient;
+  /** Print a value: JSON with --json, the text otherwise */
+  print(value: unknown, text?: string): void;
+}
+
+interface Command {
+  usage: string;
+  summary: string;
+  run(ctx: Context): Promise<void>;
+}
+
+function arg(ctx: Context, index: number, name: string): string {
+  const value = ctx.args[index];
+  if (value === undefined) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  return value;
+}
+
+function flag(ctx: Context, name: string, fallback?: string): string {
+  const value = ctx.flags[name];
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (fallback !== undefined) {
+    return fallback;
+  }
+  throw new UsageError(`Missing --${name}`);
+}
+
+function address(value: string, name: string): string {
+  if (!ethers.isAddress(value)) {
+    throw new UsageError(`<${name}> "${value}" is not an address`);
+  }
+  return ethers.getAddress(value);
+}
+
+function tokenId(value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`"${value}" is not a token ID`);
+  }
+  return BigInt(value);
+}
+
+function parsePhase(value: string): BudgetPhase {
+  const key = value.toUpperCase().replace(/[\s-]/g, '_');
+  const phase = /^\d+$/.test(value) ? Number(value) : BudgetPhase[key as keyof typeof BudgetPhase];
+  if (typeof phase !== 'number' || BudgetPhase[phase] === undefined) {
+    throw new UsageError(`"${value}" is not a budget phase (e.g. BUDGET_CALL or 1)`);
+  }
+  return phase;
+}
+
+/**
+ * Department by address or code
+ */
+async function resolveDepartment(client: DBTCClient, ref: string): Promise<string> {
+  if (ethers.isAddress(ref)) {
+    return ethers.getAddress(ref);
+  }
+  const department = await client.dbtc.getDepartment(ref);
+  if (department === ethers.ZeroAddress) {
+    throw new Error(`Department ${ref} not found`);
+  }
+  return department;
+}
+
+/**
+ * Agency by address or "<deptCode>/<agencyCode>"
+ */
+async function resolveAgency(client: DBTCClient, ref: string): Promise<string> {
+  if (ethers.isAddress(ref)) {
+    return ethers.getAddress(ref);
+  }
+  const match = /^([^/]+)\/([^/]+)$/.exec(ref);
+  if (!match) {
+    throw new UsageError(`<agency> "${ref}" is neither an address nor <deptCode>/<agencyCode>`);
+  }
+  const department = await resolveDepartment(client, match[1]);
+  const agency = await client.department(department).getAgency(match[2]);
+  if (agency === ethers.ZeroAddress) {
+    throw new Error(`Agency ${ref} not found`);
+  }
+  return agency;
+}
+
+async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    return false;
+  }
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    const answer = await new Promise<string>((resolve) => rl.question(`${question} [y/N] `, resolve));
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Send a write, or only simulate it with --dry-run; mainnet writes are
+ * confirmed interactively unless --yes is given
+ */
+async function write<T extends TransactionResult>(
+  ctx: Context,
+  description: string,
+  simulate: () => Promise<SimulationResult<unknown>>,
+  send: () => Promise<T>
+): Promise<void> {
+  if (ctx.flags['dry-run']) {
+    const sim = await simulate();
+    const result = {
+      dryRun: true,
+      action: description,
+      success: sim.success,
+      returnValue: sim.returnValue,
+      gasEstimate: sim.gasEstimate,
+      error: sim.error && { code: sim.error.code, message: sim.error.message }
+    };
+    ctx.print(result, sim.success
+      ? `Dry run: ${description} would succeed (~${sim.gasEstimate} gas)`
+      : `Dry run: ${description} would fail: ${sim.error?.message}`);
+    if (!sim.success) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+  if (ctx.settings.chainMode === 'mainnet' && !ctx.flags.yes) {
+    const from = await ctx.client.getSigner().getAddress();
+    if (!(await confirm(`${description} on mainnet from ${from}?`))) {
+      throw new UsageError('Not confirmed: nothing was sent (pass --yes to skip the confirmation)');
+    }
+  }
+  // Raw logs are left out; decoded event fields (tokenId, ...) are kept
+  const { txHash, blockNumber, gasUsed, success, logs, ...details } = await send() as T & { logs?: ethers.Log[] };
+  const result = { action: description, txHash, blockNumber, gasUsed, success, ...details };
+  ctx.print(result, fields(result));
+}
+
+async function proposalData(ctx: Context, current?: ProposalData): Promise<ProposalData> {
+  const amount = typeof ctx.flags.amount === 'string'
+    ? PesoAmount.parse(ctx.flags.amount, ctx.client.amountDecimals)
+    : current?.amount;
+  if (amount === undefined) {
+    throw new UsageError('Missing --amount');
+  }
+  return {
+    prexcFpapId: flag(ctx, 'prexc', current?.prexcFpapId),
+    uacsObjCode: flag(ctx, 'uacs', current?.uacsObjCode),
+    amount
+  };
+}
+
+const COMMANDS: Record<string, Command> = {
+  'phase status': {
+    usage: 'phase status',
+    summary: 'Current phase, fiscal year, allowed actions and responsible departments',
+    async run(ctx) {
+      const state = await ctx.client.cycle.getState();
+      const phases = Object.values(BudgetPhase).filter((value): value is BudgetPhase => typeof value === 'number');
+      const responsibilities = await Promise.all(phases.map(async (phase) => ({
+        phase: BudgetPhase[phase],
+        name: getPhaseName(phase),
+        department: (await ctx.client.dbtc.getPhaseResponsibleDepartment(phase)) || null
+      })));
+      ctx.print({ ...state, responsibilities }, [
+        fields({
+          phase: `${state.phaseName} (${state.phase})`,
+          fiscalYear: state.fiscalYear,
+          nextPhase: state.nextPhase === null ? null : getPhaseName(state.nextPhase),
+          allowedActions: state.allowedActions
+        }),
+        '',
+        table(responsibilities)
+      ].join('\n'));
+    }
+  },
+  'phase check': {
+    usage: 'phase check [--caller <address>]',
+    summary: 'Check readiness to move to the next phase (blockers and warnings)',
+    async run(ctx) {
+      const caller = typeof ctx.flags.caller === 'string' ? address(ctx.flags.caller, 'caller') : undefined;
+      const plan = await ctx.client.cycle.planAdvance({ caller });
+      const items = [...plan.blockers, ...plan.warnings].map(({ severity, code, message }) => ({ severity, code, message }));
+      ctx.print(plan, [
+        fields({
+          from: plan.fromPhaseName,
+          to: plan.toPhaseName,
+          method: plan.method,
+          responsibleDepartment: plan.responsibleDepartment || null,
+          caller: plan.caller,
+          ready: plan.ready
+        }),
+        '',
+        table(items)
+      ].join('\n'));
+    }
+  },
+  'phase start': {
+    usage: 'phase start',
+    summary: 'Start the budget call (responsible department owner)',
+    run: (ctx) => write(ctx, 'Start budget call',
+      () => ctx.client.dbtc.simulateStartBudgetCall(),
+      () => ctx.client.dbtc.startBudgetCall())
+  },
+  'phase advance': {
+    usage: 'phase advance',
+    summary: 'Advance to the next phase (responsible department owner)',
+    run: (ctx) => write(ctx, 'Advance phase',
+      () => ctx.client.dbtc.simulateAdvancePhase(),
+      () => ctx.client.dbtc.advancePhase())
+  },
+  'phase assign': {
+    usage: 'phase assign <phase> <deptCode>',
+    summary: 'Assign a phase to the department responsible for it (DBTC owner)',
+    async run(ctx) {
+      const phase = parsePhase(arg(ctx, 0, 'phase'));
+      const deptCode = arg(ctx, 1, 'deptCode');
+      await write(ctx, `Assign ${getPhaseName(phase)} to department ${deptCode}`,
+        () => ctx.client.dbtc.simulateAssignPhaseResponsibility(phase, deptCode),
+        () => ctx.client.dbtc.assignPhaseResponsibility(phase, deptCode));
+    }
+  },
+  'dept add': {
+    usage: 'dept add <code> <name> --owner <address> [--main-agency-name <name>] [--standalone] [--not-actual]',
+    summary: 'Add a department with its main agency (DBTC owner)',
+    async run(ctx) {
+      const code = arg(ctx, 0, 'code');
+      const name = arg(ctx, 1, 'name');
+      const owner = address(flag(ctx, 'owner'), 'owner');
+      const standalone = ctx.flags.standalone === true;
+      const actual = ctx.flags['not-actual'] !== true;
+      const mainAgencyName = flag(ctx, 'main-agency-name', standalone ? '' : 'Office of the Secretary');
+      const description = `Add department ${code} (${name})`;
+      if (standalone || !actual) {
+        await write(ctx, description,
+          () => ctx.client.dbtc.simulateAddDepartment(code, name, mainAgencyName, owner, standalone, actual),
+          () => ctx.client.dbtc.addDepartment(code, name, mainAgencyName, owner, standalone, actual));
+      } else {
+        await write(ctx, description,
+          () => ctx.client.dbtc.simulateAddRegularDepartment(code, name, mainAgencyName, owner),
+          () => ctx.client.dbtc.addRegularDepartment(code, name, mainAgencyName, owner));
+      }
+    }
+  },
+  'dept list': {
+    usage: 'dept list',
+    summary: 'List departments',
+    async run(ctx) {
+      const codes = await ctx.client.dbtc.getDepartmentCodes();
+      const departments = await Promise.all(codes.map(async (code) =>
+        ctx.client.department(await ctx.client.dbtc.getDepartment(code)).getInfo()));
+      ctx.print(departments, table(departments.map((department) => ({
+        code: department.code,
+        name: department.name,
+        address: department.address,
+        agencies: department.agencyCount,
+        standalone: department.isStandalone
+      }))));
+    }
+  },
+  'dept info': {
+    usage: 'dept info <code|address>',
+    summary: 'Show a department and its agencies',
+    async run(ctx) {
+      const department = ctx.client.department(await resolveDepartment(ctx.client, arg(ctx, 0, 'department')));
+      const [info, owner, codes] = await Promise.all([department.getInfo(), department.getOwner(), department.getAgencyCodes()]);
+      const agencies = await Promise.all(codes.map(async (code) =>
+        ctx.client.agency(await department.getAgency(code)).getInfo()));
+      ctx.print({ ...info, owner, agencies }, [
+        fields({ ...info, owner }),
+        '',
+        table(agencies.map(({ code, name, address: agencyAddress, owner: agencyOwner }) =>
+          ({ code, name, address: agencyAddress, owner: agencyOwner })))
+      ].join('\n'));
+    }
+  },
+  'agency add': {
+    usage: 'agency add <dept> <code> <name> --owner <address>',
+    summary: 'Add an agency to a department (department owner)',
+    async run(ctx) {
+      const department = ctx.client.department(await resolveDepartment(ctx.client, arg(ctx, 0, 'dept')));
+      const code = arg(ctx, 1, 'code');
+      const name = arg(ctx, 2, 'name');
+      const owner = address(flag(ctx, 'owner'), 'owner');
+      await write(ctx, `Add agency ${code} (${name})`,
+        () => department.simulateAddAgency(code, name, owner),
+        () => department.addAgency(code, name, owner));
+    }
+  },
+  'agency info': {
+    usage: 'agency info <agency>',
+    summary: 'Show an agency and its document managers',
+    async run(ctx) {
+      const agency = ctx.client.agency(await resolveAgency(ctx.client, arg(ctx, 0, 'agency')));
+      const [info, documentManagers] = await Promise.all([agency.getInfo(), agency.getDocumentManagers()]);
+      ctx.print({ ...info, documentManagers }, fields({ ...info, documentManagers }));
+    }
+  },
+  'agency managers list': {
+    usage: 'agency managers list <agency>',
+    summary: 'List the document managers of an agency',
+    async run(ctx) {
+      const managers = await ctx.client.agency(await resolveAgency(ctx.client, arg(ctx, 0, 'agency'))).getDocumentManagers();
+      ctx.print(managers, managers.join('\n') || '(none)');
+    }
+  },
+  'agency managers add': {
+    usage: 'agency managers add <agency> <address>',
+    summary: 'Add a document manager (agency owner)',
+    async run(ctx) {
+      const agency = ctx.client.agency(await resolveAgency(ctx.client, arg(ctx, 0, 'agency')));
+      const manager = address(arg(ctx, 1, 'address'), 'address');
+      await write(ctx, `Add document manager ${manager}`,
+        () => agency.simulateAddDocumentManager(manager),
+        () => agency.addDocumentManager(manager));
+    }
+  },
+  'agency managers remove': {
+    usage: 'agency managers remove <agency> <address>',
+    summary: 'Remove a document manager (agency owner)',
+    async run(ctx) {
+      const agency = ctx.client.agency(await resolveAgency(ctx.client, arg(ctx, 0, 'agency')));
+      const manager = address(arg(ctx, 1, 'address'), 'address');
+      await write(ctx, `Remove document manager ${manager}`,
+        () => agency.simulateRemoveDocumentManager(manager),
+        () => agency.removeDocumentManager(manager));
+    }
+  },
+  'proposal submit': {
+    usage: 'proposal submit <agency> --uri <uri> --prexc <id> --uacs <code> --amount <pesos>',
+    summary: 'Submit a budget proposal (agency owner or document manager)',
+    async run(ctx) {
+      const agency = ctx.client.agency(await resolveAgency(ctx.client, arg(ctx, 0, 'agency')));
+      const uri = flag(ctx, 'uri');
+      const data = await proposalData(ctx);
+      await write(ctx, `Submit proposal ${data.prexcFpapId} / ${data.uacsObjCode}`,
+        () => agency.simulateSubmitProposal(uri, data),
+        () => agency.submitProposal(uri, data));
+    }
+  },
+  'proposal revise': {
+    usage: 'proposal revise <tokenId> --uri <uri> --reason <text> [--prexc <id>] [--uacs <code>] [--amount <pesos>] [--agency <agency>]',
+    summary: 'Revise a proposal; omitted fields keep their current values',
+    async run(ctx) {
+      const original = tokenId(arg(ctx, 0, 'tokenId'));
+      const agencyAddress = typeof ctx.flags.agency === 'string'
+        ? await resolveAgency(ctx.client, ctx.flags.agency)
+        : await ctx.client.proposals.getAgency(original);
+      const agency = ctx.client.agency(agencyAddress);
+      const uri = flag(ctx, 'uri');
+      const reason = flag(ctx, 'reason');
+      const data = await proposalData(ctx, await ctx.client.proposals.getData(original));
+      await write(ctx, `Revise proposal #${original}`,
+        () => agency.simulateReviseProposal(original, uri, data, reason),
+        () => agency.reviseProposal(original, uri, data, reason));
+    }
+  },
+  'proposal show': {
+    usage: 'proposal show <tokenId>',
+    summary: 'Show a proposal',
+    async run(ctx) {
+      const id = tokenId(arg(ctx, 0, 'tokenId'));
+      const proposals = ctx.client.proposals;
+      const [data, metadata, uri, agency] = await Promise.all([
+        proposals.getData(id), proposals.getMetadata(id), proposals.getURI(id), proposals.getAgency(id)
+      ]);
+      const proposal = {
+        tokenId: id,
+        status: getStatusName(metadata.status),
+        uri,
+        agency,
+        ...data,
+        submittedPhase: getPhaseName(metadata.submittedPhase),
+        submitter: metadata.submitter,
+        createdAt: metadata.createdAt,
+        originTokenId: metadata.originTokenId
+      };
+      const { amount, pesoAmount, ...rest } = proposal;
+      ctx.print(proposal, fields({ ...rest, amount: pesoAmount }));
+    }
+  },
+  'proposal history': {
+    usage: 'proposal history <tokenId>',
+    summary: 'Show the revisions and amendments of a proposal',
+    async run(ctx) {
+      const lineage = await ctx.client.lineage.getLineage(tokenId(arg(ctx, 0, 'tokenId')));
+      if (ctx.flags.json) {
+        console.log(lineageToJSON(lineage));
+      } else {
+        console.log(lineageToMarkdown(lineage));
+      }
+    }
+  },
+  'registry snapshot': {
+    usage: 'registry snapshot',
+    summary: 'Departments, agencies, owners, document managers and phase assignments',
+    async run(ctx) {
+      const snapshot = await ctx.client.registry.getSnapshot();
+      if (ctx.flags.json) {
+        console.log(registrySnapshotToJSON(snapshot));
+        return;
+      }
+      const rows = snapshot.departments.flatMap((department) => department.agencies.map((agency) => ({
+        dept: department.code,
+        agency: agency.code,
+        name: agency.name,
+        address: agency.address,
+        owner: agency.owner,
+        managers: agency.documentManagers.length
+      })));
+      console.log([
+        fields({
+          dbtc: snapshot.dbtc,
+          owner: snapshot.owner,
+          phase: getPhaseName(snapshot.currentPhase),
+          fiscalYear: snapshot.fiscalYear,
+          blockNumber: snapshot.blockNumber
+        }),
+        '',
+        table(rows)
+      ].join('\n'));
+    }
+  }
+};
+
+const HELP = `Usage: dbtc <command> [options]
+
+Commands:
+${Object.values(COMMANDS).map((command) => `  ${command.usage}\n      ${command.summary}`).join('\n')}
+
+<agency> is an address or <deptCode>/<agencyCode> (e.g. 07/001).
+
+Options:
+  --json                  Print JSON
+  --dry-run               Simulate writes without sending them
+  -y, --yes               Do not ask for confirmation on mainnet
+  --chain <mode>          testnet or mainnet (DBTC_CHAIN_MODE, default: testnet)
+  --api-key <key>         DBTC API key (DBTC_API_KEY)
+  --rpc-url <url>         Custom RPC endpoint, e.g. a local node (DBTC_RPC_URL)
+  --private-key <key>     Signing key (PRIVATE_KEY; prefer the variable)
+  --addresses <file>      Address book written by writeAddressBook (DBTC_ADDRESS_BOOK)
+  --dbtc <address>        DBTC contract (DBTC_ADDRESS)
+  --budget-proposal <a>   BudgetProposal contract (DBTC_BUDGET_PROPOSAL_ADDRESS)
+  --env-file <file>       Read variables from this file (default: .env)`;
+
+/**
+ * Run the CLI
+ * @param argv Arguments after the executable and script
+ * @throws UsageError for a wrong command line; other errors from the command
+ */
+export async function main(argv: string[]): Promise<void> {
+  const { positionals, flags } = parseArgs(argv);
+  if (positionals.length === 0 || positionals[0] === 'help' || flags.help) {
+    console.log(HELP);
+    return;
+  }
+  const name = [3, 2].map((words) => positionals.slice(0, words).join(' ')).find((key) => COMMANDS[key]);
+  if (!name) {
+    throw new UsageError(`Unknown command "${positionals.join(' ')}" (run dbtc help)`);
+  }
+  const settings = await loadSettings(flags);
+  const client = await createClient(settings);
+  try {
+    await COMMANDS[name].run({
+      args: positionals.slice(name.split(' ').length),
+      flags,
+      settings,
+      client,
+      print: (value, text) => console.log(flags.json || text === undefined ? JSON.stringify(value, toPlain, 2) : text)
+    });
+  } finally {
+    client.provider.destroy();
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).catch((error) => {
+    if (error instanceof UsageError) {
+      console.error(error.message);
+      process.exitCode = 2;
+    } else if (error instanceof DBTCError) {
+      console.error(`Error [${error.code}]: ${error.message}`);
+      process.exitCode = 1;
+    } else {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exitCode = 1;
+    }
+  });
+}
@@ -0,0 +1,342 @@
+import { ethers } from 'ethers';
+import {
+  ChainMode,
+  ContractAddresses,
+  NetworkConfig,
+  SDKConfig,
+  CONTRACT_ADDRESSES,
+  getConfig,
+  getNetworkConfig,
+  getRpcUrl,
+  getAddressOverrides
+} from './config';
+import { AgencyApi } from './agency';
+import { DepartmentApi } from './department';
+import { DBTCApi } from './dbtc';
+import { ProposalApi } from './proposal';
+import { EventsApi } from './events';
+import { RegistryApi } from './registry';
+import { LineageApi } from './lineage';
+import { CycleApi } from './cycle';
+import { RolesApi } from './roles';
+import { AggregationApi } from './aggregation';
+import { SignerLike, SignerAdapter, toSigner } from './signer';
+import { BatchingRunner, BatchOptions } from './multicall';
+import { ReadCache, CacheOptions } from './cache';
+import { ConfirmedTransaction, TransactionManager, TransactionOptions } from './transactions';
+import { DEFAULT_AMOUNT_DECIMALS } from './money';
+import { ProposalData } from './types';
+import { FieldError } from './errors';
+import { ProposalRule, validateProposalData } from './validation';
+
+/**
+ * Client options
+ */
+export interface DBTCClientOptions {
+  /** Chain mode: 'testnet' or 'mainnet' */
+  chainMode: ChainMode;
+  /** API key provided by DBTC (not needed when a provider is given) */
+  apiKey?: string;
+  /** Custom provider (defaults to the DBTC RPC endpoint for the chain mode) */
+  provider?: ethers.Provider;
+  /** Default signer for transactions (ethers Signer or remote signer adapter) */
+  signer?: ethers.Signer | SignerAdapter;
+  /** Default private key for transactions (used when no signer is given) */
+  privateKey?: string;
+  /** Custom contract addresses (override the bundled ones) */
+  addresses?: Partial<ContractAddresses>;
+  /**
+   * Batch concurrent reads through Multicall3 (default: true, using the
+   * network's Multicall3 contract). Pass false to send every read separately.
+   */
+  batch?: boolean | BatchOptions;
+  /** Cache read results (default: false) */
+  cache?: boolean | CacheOptions;
+  /** Decimals of on-chain amounts (default: 2, amounts stored in centavos) */
+  amountDecimals?: number;
+  /** Confirmation depth, fee strategy and lifecycle hooks of writes */
+  transactions?: TransactionOptions;
+  /** Custom validation rules for this client's proposal writes (see `addProposalRule()`) */
+  proposalRules?: ProposalRule[];
+}
+
+/**
+ * DBTC client
+ *
+ * Holds its own network, provider, signer and contract addresses, so several
+ * clients (testnet and mainnet, different keys, local chains) can coexist in
+ * one process.
+ *
+ * @example
+ * ```typescript
+ * const client = new DBTCClient({
+ *   chainMode: 'testnet',
+ *   apiKey: 'your-dbtc-api-key',
+ *   privateKey: process.env.PRIVATE_KEY
+ * });
+ *
+ * const phase = await client.dbtc.getCurrentPhase();
+ * const info = await client.agency('0xAgencyAddress').getInfo();
+ * ```
+ */
+export class DBTCClient {
+  /** Chain mode of this client */
+  readonly chainMode: ChainMode;
+  /** DBTC registry and phase management */
+  readonly dbtc: DBTCApi;
+  /** BudgetProposal reads */
+  readonly proposals: ProposalApi;
+  /** Event subscriptions */
+  readonly events: EventsApi;
+  /** Registry-wide reads */
+  readonly registry: RegistryApi;
+  /** Proposal revision and amendment lineage */
+  readonly lineage: LineageApi;
+  /** Budget cycle rules at the current phase */
+  readonly cycle: CycleApi;
+  /** Role and permission queries */
+  readonly roles: RolesApi;
+  /** Budget totals and comparisons over proposal data */
+  readonly aggregation: AggregationApi;
+
+  private readonly options: DBTCClientOptions;
+  private readonly rules: ProposalRule[];
+  private _provider: ethers.Provider | null = null;
+  private _reader: ethers.ContractRunner | null = null;
+  private _cache: ReadCache | null = null;
+  private _transactions: TransactionManager | null = null;
+
+  constructor(options: DBTCClientOptions) {
+    if (!options.chainMode || !['testnet', 'mainnet'].includes(options.chainMode)) {
+      throw new Error("chainMode must be 'testnet' or 'mainnet'");
+    }
+    if (!options.apiKey && !options.provider) {
+      throw new Error('apiKey is required. Contact DBTC to obtain your API key.');
+    }
+    this.options = options;
+    this.rules = options.proposalRules ?? [];
+    this.chainMode = options.chainMode;
+    this.dbtc = new DBTCApi(this);
+    this.proposals = new ProposalApi(this);
+    this.events = new EventsApi(this);
+    this.registry = new RegistryApi(this);
+    this.lineage = new LineageApi(this);
+    this.cycle = new CycleApi(this);
+    this.roles = new RolesApi(this);
+    this.aggregation = new AggregationApi(this);
+  }
+
+  /**
+   * Network configuration for this client's chain mode
+   */
+  get network(): NetworkConfig {
+    return getNetworkConfig(this.chainMode);
+  }
+
+  /**
+   * Provider used for reads (and for signers created from private keys)
+   */
+  get provider(): ethers.Provider {
+    if (!this._provider) {
+      this._provider = this.options.provider ?? new ethers.JsonRpcProvider(
+        getRpcUrl(this.chainMode, this.options.apiKey!),
+        this.network.chainId
+      );
+    }
+    return this._provider;
+  }
+
+  /**
+   * Decimals of on-chain amounts (PesoAmount values are converted at this scale)
+   */
+  get amountDecimals(): number {
+    return this.options.amountDecimals ?? DEFAULT_AMOUNT_DECIMALS;
+  }
+
+  /**
+   * Custom validation rules run on this client's proposal writes
+   */
+  get proposalRules(): readonly ProposalRule[] {
+    return this.rules;
+  }
+
+  /**
+   * Add a custom rule, run after the built-in checks on this client's proposal writes
+   * @param rule Validation rule
+   * @returns Function that removes the rule again
+   */
+  addProposalRule(rule: ProposalRule): () => void {
+    this.rules.push(rule);
+    return () => {
+      const index = this.rules.indexOf(rule);
+      if (index >= 0) {
+        this.rules.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Validate proposal data with the built-in checks and this client's rules
+   * @param data Proposal data
+   * @returns Field errors (empty if valid)
+   */
+  validateProposalData(data: ProposalData): FieldError[] {
+    return validateProposalData(data, this.amountDecimals, this.rules);
+  }
+
+  /**
+   * Runner for contract reads (batches concurrent calls unless disabled)
+   */
+  get reader(): ethers.ContractRunner {
+    if (!this._reader) {
+      const { batch = true, cache = false } = this.options;
+      const runner = batch === false ? this.provider : new BatchingRunner(this.provider, {
+        multicallAddress: this.network.multicall3,
+        ...(batch === true ? {} : batch)
+      });
+      if (cache !== false) {
+        this._cache = new ReadCache(runner, this.provider, {
+          namespace: this.chainMode,
+          ...(cache === true ? {} : cache)
+        });
+      }
+      this._reader = this._cache ?? runner;
+    }
+    return this._reader;
+  }
+
+  /**
+   * Read cache (null unless enabled with the `cache` option)
+   */
+  get cache(): ReadCache | null {
+    // The cache is created together with the reader
+    void this.reader;
+    return this._cache;
+  }
+
+  /**
+   * Sends this client's writes and follows them until confirmed
+   */
+  get transactions(): TransactionManager {
+    if (!this._transactions) {
+      this._transactions = new TransactionManager(this.provider, this.options.transactions,
+        async (to, logs) => {
+          // Drop cached reads the write changed, without waiting for the event poll
+          await this._cache?.invalidateTransaction(to, logs);
+        });
+    }
+    return this._transactions;
+  }
+
+  /**
+   * Contract addresses used by this client
+   */
+  get addresses(): ContractAddresses {
+    const custom = Object.fromEntries(
+      Object.entries(this.options.addresses ?? {}).filter(([, value]) => !!value)
+    );
+    return { ...CONTRACT_ADDRESSES[this.chainMode], ...custom };
+  }
+
+  /**
+   * Set custom contract addresses for this client
+   * @param addresses Custom contract addresses
+   */
+  setContractAddresses(addresses: Partial<ContractAddresses>): void {
+    this.options.addresses = { ...this.options.addresses, ...addresses };
+  }
+
+  /**
+   * Get a signer for transactions
+   * @param signer Signer or private key (uses the client's signer or private key if not provided)
+   * @returns Signer connected to a provider
+   */
+  getSigner(signer?: SignerLike): ethers.Signer {
+    if (typeof signer === 'string') {
+      return new ethers.Wallet(signer, this.provider);
+    }
+    const candidate = signer ?? this.options.signer;
+    if (candidate) {
+      const resolved = toSigner(candidate);
+      // Browser signers keep their own provider
+      return resolved.provider ? resolved : resolved.connect(this.provider);
+    }
+    if (this.options.privateKey) {
+      return new ethers.Wallet(this.options.privateKey, this.provider);
+    }
+    throw new Error(
+      'No signer provided. Pass a signer or private key, configure SDK with signer or privateKey, ' +
+      'or set PRIVATE_KEY environment variable.'
+    );
+  }
+
+  /**
+   * Wait for a transaction sent through this client
+   *
+   * Follows it like the SDK's own writes (see `transactions`). Once it is
+   * confirmed, cached reads of its target and of every contract that emitted
+   * a log are dropped, without waiting for the event poll.
+   * @param tx Transaction response
+   * @returns Transaction result with receipt logs
+   */
+  async waitForTransaction(tx: ethers.TransactionResponse): Promise<ConfirmedTransaction> {
+    return this.transactions.wait(tx);
+  }
+
+  /**
+   * Department contract API
+   * @param address Address of the department contract
+   */
+  department(address: string): DepartmentApi {
+    return new DepartmentApi(this, address);
+  }
+
+  /**
+   * Agency contract API
+   * @param address Address of the agency contract
+   */
+  agency(address: string): AgencyApi {
+    return new AgencyApi(this, address);
+  }
+}
+
+let _defaultClient: DBTCClient | null = null;
+let _defaultClientConfig: SDKConfig | null = null;
+
+/** Rules of the default client, kept across reconfiguration */
+const defaultProposalRules: ProposalRule[] = [];
+
+/**
+ * Custom validation rules of the default client (rules can be added before it is configured)
+ */
+export function getDefaultProposalRules(): ProposalRule[] {
+  return defaultProposalRules;
+}
+
+/**
+ * Get the client behind the module-level functions
+ *
+ * Built from configure() (or environment variables) and rebuilt whenever the
+ * configuration changes.
+ */
+export function getDefaultClient(): DBTCClient {
+  const config = getConfig();
+  if (!_defaultClient || _defaultClientConfig !== config) {
+    _defaultClient?.cache?.stop();
+    _defaultClient = new DBTCClient({
+      chainMode: config.chainMode,
+      apiKey: config.apiKey,
+      privateKey: config.privateKey,
+      signer: config.signer,
+      cache: config.cache,
+      amountDecimals: config.amountDecimals,
+      transactions: config.transactions,
+      // Shared so rules added through addProposalRule() survive configure()
+      proposalRules: defaultProposalRules,
+      // Live reference so setContractAddresses() applies to the existing client
+      addresses: getAddressOverrides(config.chainMode)
+    });
+    _defaultClientConfig = config;
+  }
+  return _defaultClient;
+}
@@ -1,4 +1,7 @@
 import { ethers } from 'ethers';
+import type { SignerAdapter } from './signer';
+import type { CacheOptions } from './cache';
+import type { TransactionOptions } from './transactions';
 
 /**
  * Chain mode - determines which network to connect to
@@ -8,12 +11,19 @@ export type ChainMode = 'testnet' | 'mainnet';
 /**
  * Network configuration
  */
-interface NetworkConfig {
+export interface NetworkConfig {
   rpcUrl: string;
   chainId: number;
   chainName: string;
+  /** Multicall3 contract used to batch reads */
+  multicall3: string;
 }
 
+/**
+ * Canonical Multicall3 deployment address (same on every supported chain)
+ */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
 /**
  * Network configurations for DBTC
  */
@@ -21,15 +31,25 @@ const NETWORKS: Record<ChainMode, NetworkConfig> = {
   testnet: {
     rpcUrl: 'https://amoy.dbtc.bayanichain.io',
     chainId: 80002, // Polygon Amoy Testnet
-    chainName: 'Polygon Amoy'
+    chainName: 'Polygon Amoy',
+    multicall3: MULTICALL3_ADDRESS
   },
   mainnet: {
     rpcUrl: 'https://polygon.dbtc.bayanichain.io',
     chainId: 137, // Polygon Mainnet
-    chainName: 'Polygon'
+    chainName: 'Polygon',
+    multicall3: MULTICALL3_ADDRESS
   }
 };
 
+/**
+ * Contract addresses for a deployment
+ */
+export interface ContractAddresses {
+  dbtc: string;
+  budgetProposal: string;
+}
+
 /**
  * Bundled contract addresses (managed by DBTC team)
  */
@@ -54,10 +74,25 @@ export interface SDKConfig {
   apiKey: string;
   /** Default private key for transactions (optional) */
   privateKey?: string;
+  /** Default signer for transactions (optional, takes precedence over privateKey) */
+  signer?: ethers.Signer | SignerAdapter;
+  /** Cache read results (optional, disabled by default) */
+  cache?: boolean | CacheOptions;
+  /** Decimals of on-chain amounts (default: 2, amounts stored in centavos) */
+  amountDecimals?: number;
+  /** Confirmation depth, fee strategy and lifecycle hooks of writes (optional) */
+  transactions?: TransactionOptions;
 }
 
 let _config: SDKConfig | null = null;
-let _provider: ethers.JsonRpcProvider | null = null;
+
+/**
+ * Custom contract addresses set through setContractAddresses()
+ */
+const _addressOverrides: Record<ChainMode, Partial<ContractAddresses>> = {
+  testnet: {},
+  mainnet: {}
+};
 
 /**
  * Configure the SDK
@@ -80,14 +115,16 @@ export function configure(config: SDKConfig): void {
     throw new Error('apiKey is required. Contact DBTC to obtain your API key.');
   }
   
+  // A new config object makes the default client rebuild its provider
   _config = {
     chainMode: config.chainMode,
     apiKey: config.apiKey,
-    privateKey: config.privateKey
+    privateKey: config.privateKey,
+    signer: config.signer,
+    cache: config.cache,
+    amountDecimals: config.amountDecimals,
+    transactions: config.transactions
   };
-  
-  // Reset provider when config changes
-  _provider = null;
 }
 
 /**
@@ -120,59 +157,41 @@ export function getConfig(): SDKConfig {
 }
 
 /**
- * Get network configuration for current chain mode
+ * Get network configuration for a chain mode
+ * @param chainMode Chain mode (uses current if not specified)
  */
-export function getNetworkConfig(): NetworkConfig {
-  const config = getConfig();
-  return NETWORKS[config.chainMode];
+export function getNetworkConfig(chainMode?: ChainMode): NetworkConfig {
+  return NETWORKS[chainMode || getConfig().chainMode];
 }
 
 /**
  * Get the full RPC URL with API key
+ * @param chainMode Chain mode
+ * @param apiKey DBTC API key
  */
-function getRpcUrl(): string {
-  const config = getConfig();
-  const network = NETWORKS[config.chainMode];
+export function getRpcUrl(chainMode: ChainMode, apiKey: string): string {
+  const network = NETWORKS[chainMode];
   // Append API key as query parameter or header depending on your RPC setup
-  return `${network.rpcUrl}?apiKey=${config.apiKey}`;
-}
-
-/**
- * Get ethers provider
- * @returns JsonRpcProvider instance
- */
-export function getProvider(): ethers.JsonRpcProvider {
-  if (!_provider) {
-    const network = getNetworkConfig();
-    const rpcUrl = getRpcUrl();
-    _provider = new ethers.JsonRpcProvider(rpcUrl, network.chainId);
-  }
-  return _provider;
+  return `${network.rpcUrl}?apiKey=${apiKey}`;
 }
 
 /**
- * Create a signer from private key
- * @param privateKey Private key (uses default from config if not provided)
- * @returns Wallet signer
+ * Get contract addresses for a chain mode, including custom addresses
+ * @param chainMode Chain mode (uses current if not specified)
+ * @returns Contract addresses
  */
-export function getSigner(privateKey?: string): ethers.Wallet {
-  const key = privateKey || getConfig().privateKey;
-  if (!key) {
-    throw new Error(
-      'No private key provided. Pass privateKey parameter or configure SDK with privateKey, ' +
-      'or set PRIVATE_KEY environment variable.'
-    );
-  }
-  return new ethers.Wallet(key, getProvider());
+export function getContractAddresses(chainMode?: ChainMode): ContractAddresses {
+  const mode = chainMode || getConfig().chainMode;
+  return { ...CONTRACT_ADDRESSES[mode], ...getAddressOverrides(mode) };
 }
 
 /**
- * Get contract addresses for the current chain mode
- * @returns Contract addresses
+ * Get the custom contract addresses set for a chain mode
+ * @param chainMode Chain mode
+ * @returns Live overrides object (updated by setContractAddresses)
  */
-export function getContractAddresses() {
-  const config = getConfig();
-  return CONTRACT_ADDRESSES[config.chainMode];
+export function getAddressOverrides(chainMode: ChainMode): Partial<ContractAddresses> {
+  return _addressOverrides[chainMode];
 }
 
 /**
@@ -186,10 +205,10 @@ export function setContractAddresses(
 ): void {
   const mode = chainMode || getConfig().chainMode;
   if (addresses.dbtc) {
-    (CONTRACT_ADDRESSES[mode] as any).dbtc = addresses.dbtc;
+    _addressOverrides[mode].dbtc = addresses.dbtc;
   }
   if (addresses.budgetProposal) {
-    (CONTRACT_ADDRESSES[mode] as any).budgetProposal = addresses.budgetProposal;
+    _addressOverrides[mode].budgetProposal = addresses.budgetProposal;
   }
 }
 
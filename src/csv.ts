@@ -0,0 +1,127 @@
+/**
+ * CSV row with the line it starts on
+ */
+export interface CsvRow {
+  /** 1-based source line of the row's first field */
+  line: number;
+  fields: string[];
+}
+
+/**
+ * CSV record with the line it starts on
+ */
+export interface CsvRecord {
+  /** 1-based source line of the record's first field */
+  line: number;
+  /** Values keyed by header */
+  values: Record<string, string>;
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF or LF) and
+ * track the source line of each row
+ * @param text CSV text
+ * @returns Rows of fields with their source lines (blank lines are skipped)
+ */
+export function parseCsvRows(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push({ line: start, fields: row });
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    // A quoted field can span lines: count them so later rows keep their line numbers
+    const newline = char === '\n' || (char === '\r' && input[i + 1] !== '\n');
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      if (newline) {
+        line++;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      start = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF or LF)
+ * @param text CSV text
+ * @returns Rows of fields (blank lines are skipped)
+ */
+export function parseCsv(text: string): string[][] {
+  return parseCsvRows(text).map((row) => row.fields);
+}
+
+/**
+ * Parse CSV text with a header row into records
+ * @param text CSV text
+ * @returns One record per data row, keyed by header, with its source line
+ */
+export function parseCsvRecords(text: string): CsvRecord[] {
+  const [header, ...rows] = parseCsvRows(text);
+  const keys = (header?.fields ?? []).map((name) => name.trim());
+  return rows.map(({ line, fields }) => ({
+    line,
+    values: Object.fromEntries(keys.map((key, i) => [key, (fields[i] ?? '').trim()]))
+  }));
+}
+
+const quoteField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Format rows as CSV text (RFC 4180, quoting fields only when needed)
+ * @param rows Rows of fields (null and undefined become empty fields)
+ * @returns CSV text with CRLF line endings
+ */
+export function formatCsv(rows: unknown[][]): string {
+  return rows
+    .map((row) => row.map((value) => quoteField(value === null || value === undefined ? '' : String(value))).join(','))
+    .map((line) => `${line}\r\n`)
+    .join('');
+}
+
+/**
+ * Format records as CSV text with a header row
+ * @param records Records to write
+ * @param columns Column order (default: keys of the first record)
+ * @returns CSV text
+ */
+export function formatCsvRecords(records: Array<Record<string, unknown>>, columns?: string[]): string {
+  const keys = columns ?? Object.keys(records[0] ?? {});
+  return formatCsv([keys, ...records.map((record) => keys.map((key) => record[key]))]);
+}
@@ -0,0 +1,529 @@
+import { ethers } from 'ethers';
+import type { DBTCClient } from './client';
+import { getDefaultClient } from './client';
+import { PhaseReadinessError } from './errors';
+import { SignerLike } from './signer';
+import {
+  BudgetPhase,
+  getPhaseName,
+  CycleAction,
+  CycleRole,
+  CycleState,
+  AgencyWithoutProposals,
+  KnownContractIssue,
+  PhaseAdvancePlan,
+  PhaseAdvancePlanOptions,
+  PhaseReadinessItem,
+  SafeAdvanceOptions,
+  SafeAdvanceResult
+} from './types';
+
+interface ActionRule {
+  /** Phases the action is allowed in (null: any phase) */
+  phases: BudgetPhase[] | null;
+  /** Roles that may perform the action */
+  roles: CycleRole[];
+}
+
+const PROPOSAL_WRITERS: CycleRole[] = ['agencyOwner', 'documentManager'];
+
+/**
+ * Phase and role checks of the DBTC contracts, per action
+ */
+const ACTION_RULES: Record<CycleAction, ActionRule> = {
+  addDepartment: { phases: [BudgetPhase.PRE_BUDGET], roles: ['dbtcOwner'] },
+  assignPhaseResponsibility: { phases: [BudgetPhase.PRE_BUDGET], roles: ['dbtcOwner'] },
+  // Opens the first cycle, and the next fiscal year's once the GAA is enacted
+  startBudgetCall: { phases: [BudgetPhase.PRE_BUDGET, BudgetPhase.GAA_ENACTMENT], roles: ['phaseResponsible'] },
+  advancePhase: {
+    phases: [
+      BudgetPhase.BUDGET_CALL,
+      BudgetPhase.TECHNICAL_REVIEW,
+      BudgetPhase.NEP_CONSOLIDATION,
+      BudgetPhase.GAB_SEPARATE,
+      BudgetPhase.GAB_BICAM
+    ],
+    roles: ['phaseResponsible']
+  },
+  addAgency: { phases: [BudgetPhase.PRE_BUDGET], roles: ['departmentOwner'] },
+  setHouseAndSenate: { phases: null, roles: ['departmentOwner'] },
+  addDocumentManager: { phases: null, roles: ['agencyOwner'] },
+  removeDocumentManager: { phases: null, roles: ['agencyOwner'] },
+  transferAgencyOwnership: { phases: null, roles: ['agencyOwner'] },
+  submitProposal: { phases: [BudgetPhase.BUDGET_CALL], roles: PROPOSAL_WRITERS },
+  reviseProposal: { phases: [BudgetPhase.BUDGET_CALL, BudgetPhase.TECHNICAL_REVIEW], roles: PROPOSAL_WRITERS },
+  amendProposal: { phases: [BudgetPhase.GAB_SEPARATE, BudgetPhase.GAB_BICAM], roles: PROPOSAL_WRITERS },
+  submitSeparateGAB: { phases: [BudgetPhase.GAB_SEPARATE], roles: ['houseOrSenate'] },
+  submitJointGAB: { phases: [BudgetPhase.GAB_BICAM], roles: ['congressMainAgency'] }
+};
+
+/**
+ * Defects of the bundled contracts that make allowed actions revert
+ */
+const KNOWN_ISSUES: KnownContractIssue[] = [
+  {
+    action: 'submitJointGAB',
+    errorName: 'InvalidProposalStatus',
+    description: 'The Agency contract records the joint GAB through createRevision, ' +
+      'which only revises submitted proposals, so every submission reverts'
+  }
+];
+
+const CYCLE_ACTIONS = Object.keys(ACTION_RULES) as CycleAction[];
+
+/**
+ * Phase each phase moves to (`startBudgetCall` leaves PRE_BUDGET, `advancePhase` the others)
+ */
+const NEXT_PHASE: Record<BudgetPhase, BudgetPhase | null> = {
+  [BudgetPhase.PRE_BUDGET]: BudgetPhase.BUDGET_CALL,
+  [BudgetPhase.BUDGET_CALL]: BudgetPhase.TECHNICAL_REVIEW,
+  [BudgetPhase.TECHNICAL_REVIEW]: BudgetPhase.NEP_CONSOLIDATION,
+  [BudgetPhase.NEP_CONSOLIDATION]: BudgetPhase.GAB_SEPARATE,
+  [BudgetPhase.GAB_SEPARATE]: BudgetPhase.GAB_BICAM,
+  [BudgetPhase.GAB_BICAM]: BudgetPhase.GAA_ENACTMENT,
+  [BudgetPhase.GAA_ENACTMENT]: null
+};
+
+const DEFAULT_CONCURRENCY = 8;
+
+// ============ Offline Rules ============
+
+/**
+ * Phase that follows a phase
+ * @param phase Budget phase
+ * @returns Next phase, or null for GAA_ENACTMENT
+ */
+export function nextPhase(phase: BudgetPhase): BudgetPhase | null {
+  return NEXT_PHASE[phase] ?? null;
+}
+
+/**
+ * Whether a phase ends the budget cycle
+ * @param phase Budget phase
+ */
+export function isTerminal(phase: BudgetPhase): boolean {
+  return phase in NEXT_PHASE && NEXT_PHASE[phase] === null;
+}
+
+/**
+ * Whether an action is allowed in a phase
+ * @param action Write action
+ * @param phase Budget phase
+ * @param role Role (or roles) of the caller; omit to check the phase only
+ */
+export function isActionAllowed(action: CycleAction, phase: BudgetPhase, role?: CycleRole | CycleRole[]): boolean {
+  const rule = ACTION_RULES[action];
+  if (!rule || (rule.phases !== null && !rule.phases.includes(phase))) {
+    return false;
+  }
+  if (role === undefined) {
+    return true;
+  }
+  const roles = Array.isArray(role) ? role : [role];
+  return roles.some((candidate) => rule.roles.includes(candidate));
+}
+
+/**
+ * Actions allowed in a phase
+ * @param phase Budget phase
+ * @param role Role (or roles) of the caller; omit for every action allowed in the phase
+ * @returns Allowed actions
+ *
+ * @example
+ * ```typescript
+ * getAllowedActions(BudgetPhase.BUDGET_CALL, 'documentManager');
+ * // ['submitProposal', 'reviseProposal']
+ * ```
+ */
+export function getAllowedActions(phase: BudgetPhase, role?: CycleRole | CycleRole[]): CycleAction[] {
+  return CYCLE_ACTIONS.filter((action) => isActionAllowed(action, phase, role));
+}
+
+/**
+ * Phases an action is allowed in
+ * @param action Write action
+ * @returns Phases (every phase if the action is not phase-restricted)
+ */
+export function getActionPhases(action: CycleAction): BudgetPhase[] {
+  const phases = ACTION_RULES[action].phases;
+  return phases ? [...phases] : Object.values(BudgetPhase).filter((value): value is BudgetPhase => typeof value === 'number');
+}
+
+/**
+ * Roles that may perform an action
+ * @param action Write action
+ */
+export function getActionRoles(action: CycleAction): CycleRole[] {
+  return [...ACTION_RULES[action].roles];
+}
+
+/**
+ * Known defects of the bundled contracts
+ * @param action Write action; omit for every known issue
+ * @returns Issues that make the action revert even where the rules allow it
+ */
+export function getKnownIssues(action?: CycleAction): KnownContractIssue[] {
+  return KNOWN_ISSUES.filter((issue) => action === undefined || issue.action === action).map((issue) => ({ ...issue }));
+}
+
+/**
+ * Whether proposals can be submitted in a phase
+ * @param phase Budget phase
+ * @param role Role (or roles) of the caller
+ */
+export function canSubmitProposal(phase: BudgetPhase, role?: CycleRole | CycleRole[]): boolean {
+  return isActionAllowed('submitProposal', phase, role);
+}
+
+/**
+ * Whether proposals can be revised in a phase
+ * @param phase Budget phase
+ * @param role Role (or roles) of the caller
+ */
+export function canRevise(phase: BudgetPhase, role?: CycleRole | CycleRole[]): boolean {
+  return isActionAllowed('reviseProposal', phase, role);
+}
+
+/**
+ * Whether proposals can be amended in a phase
+ * @param phase Budget phase
+ * @param role Role (or roles) of the caller
+ */
+export function canAmend(phase: BudgetPhase, role?: CycleRole | CycleRole[]): boolean {
+  return isActionAllowed('amendProposal', phase, role);
+}
+
+/**
+ * Whether a separate House or Senate GAB can be submitted in a phase
+ * @param phase Budget phase
+ * @param role Role (or roles) of the caller
+ */
+export function canSubmitSeparateGAB(phase: BudgetPhase, role?: CycleRole | CycleRole[]): boolean {
+  return isActionAllowed('submitSeparateGAB', phase, role);
+}
+
+/**
+ * Whether the joint bicameral GAB can be submitted in a phase (the bundled
+ * contracts still revert, see `getKnownIssues('submitJointGAB')`)
+ * @param phase Budget phase
+ * @param role Role (or roles) of the caller
+ */
+export function canSubmitJointGAB(phase: BudgetPhase, role?: CycleRole | CycleRole[]): boolean {
+  return isActionAllowed('submitJointGAB', phase, role);
+}
+
+// ============ Live State ============
+
+/**
+ * Budget cycle rules applied to the chain's current phase
+ *
+ * Obtain through `client.cycle`. The rules mirror the phase and role checks
+ * of the contracts so a UI can enable actions up front; the contracts stay
+ * authoritative, and the `simulate*` functions give the exact answer for a
+ * specific call.
+ */
+export class CycleApi {
+  constructor(private readonly client: DBTCClient) {}
+
+  /**
+   * Current phase, fiscal year and allowed actions
+   * @param role Role (or roles) of the caller; omit for every action allowed in the phase
+   */
+  async getState(role?: CycleRole | CycleRole[]): Promise<CycleState> {
+    const [phase, fiscalYear] = await Promise.all([
+      this.client.dbtc.getCurrentPhase(),
+      this.client.dbtc.getCurrentFiscalYear()
+    ]);
+    const allowedActions = getAllowedActions(phase, role);
+    return {
+      phase,
+      phaseName: getPhaseName(phase),
+      fiscalYear,
+      nextPhase: nextPhase(phase),
+      isTerminal: isTerminal(phase),
+      allowedActions,
+      knownIssues: KNOWN_ISSUES.filter((issue) => allowedActions.includes(issue.action)).map((issue) => ({ ...issue }))
+    };
+  }
+
+  /**
+   * Actions allowed in the current phase
+   * @param role Role (or roles) of the caller
+   */
+  async getAllowedActions(role?: CycleRole | CycleRole[]): Promise<CycleAction[]> {
+    return getAllowedActions(await this.client.dbtc.getCurrentPhase(), role);
+  }
+
+  /**
+   * Whether an action is allowed in the current phase
+   * @param action Write action
+   * @param role Role (or roles) of the caller
+   */
+  async isAllowed(action: CycleAction, role?: CycleRole | CycleRole[]): Promise<boolean> {
+    return isActionAllowed(action, await this.client.dbtc.getCurrentPhase(), role);
+  }
+
+  /**
+   * Check whether the cycle is ready to move to the next phase
+   *
+   * Blockers are conditions the contracts reject or that would stall the
+   * cycle (no responsible department, wrong caller, missing Congress
+   * chambers); warnings flag gaps in the submissions, such as agencies with
+   * no proposal for the fiscal year.
+   * @param options Caller, registry snapshot and read concurrency
+   * @returns Readiness report of the transition
+   */
+  async planAdvance(options: PhaseAdvancePlanOptions = {}): Promise<PhaseAdvancePlan> {
+    const [snapshot, proposalCount, caller] = await Promise.all([
+      options.snapshot ?? this.client.registry.getSnapshot(options),
+      this.client.proposals.getTokenCount(),
+      options.caller ? ethers.getAddress(options.caller) : this.getClientSignerAddress()
+    ]);
+    const fromPhase = snapshot.currentPhase;
+    const toPhase = nextPhase(fromPhase);
+    const fromPhaseName = getPhaseName(fromPhase);
+    const responsibleOf = (phase: BudgetPhase) =>
+      snapshot.phaseResponsibilities.find((entry) => entry.phase === phase)?.deptCode ?? '';
+    const responsibleDepartment = responsibleOf(fromPhase);
+    const congress = snapshot.departments.find((department) => department.isCongress);
+    const isSet = (address: string | null): address is string => !!address && address !== ethers.ZeroAddress;
+    const blockers: PhaseReadinessItem[] = [];
+    const warnings: PhaseReadinessItem[] = [];
+    const add = (item: PhaseReadinessItem) => (item.severity === 'blocker' ? blockers : warnings).push(item);
+
+    if (toPhase === null) {
+      add({ code: 'CYCLE_ENDED', severity: 'blocker', message: `${fromPhaseName} is the last phase of the cycle` });
+    } else {
+      if (!responsibleDepartment) {
+        add({
+          code: 'NO_RESPONSIBLE_DEPARTMENT',
+          severity: 'blocker',
+          message: `No department is responsible for ${fromPhaseName}`,
+          phase: fromPhase
+        });
+      } else if (caller === null) {
+        add({
+          code: 'CALLER_UNKNOWN',
+          severity: 'warning',
+          message: `Caller not checked; the owner of department ${responsibleDepartment} must send the transition`,
+          deptCode: responsibleDepartment
+        });
+      } else {
+        const { roles } = await this.client.roles.resolveRoles(caller, { snapshot });
+        if (!roles.some((role) => role.role === 'phaseResponsible' && role.phase === fromPhase)) {
+          add({
+            code: 'CALLER_NOT_RESPONSIBLE',
+            severity: 'blocker',
+            message: `${caller} does not own department ${responsibleDepartment}, which is responsible for ${fromPhaseName}`,
+            deptCode: responsibleDepartment
+          });
+        }
+      }
+
+      // Responsibilities can only be assigned in Pre-Budget, so gaps are final once the cycle starts
+      for (let phase: BudgetPhase | null = toPhase; phase !== null && !isTerminal(phase); phase = nextPhase(phase)) {
+        if (!responsibleOf(phase)) {
+          add({
+            code: 'PHASE_UNASSIGNED',
+            severity: phase === toPhase || fromPhase === BudgetPhase.PRE_BUDGET ? 'blocker' : 'warning',
+            message: `No department is responsible for ${getPhaseName(phase)}; the cycle cannot leave it`,
+            phase
+          });
+        }
+      }
+
+      if (toPhase === BudgetPhase.GAB_SEPARATE || toPhase === BudgetPhase.GAB_BICAM) {
+        if (!congress) {
+          add({
+            code: 'CONGRESS_NOT_REGISTERED',
+            severity: 'blocker',
+            message: `No Congress department is registered for ${getPhaseName(toPhase)}`
+          });
+        } else if (!isSet(congress.houseAgency) || !isSet(congress.senateAgency)) {
+          add({
+            code: 'HOUSE_SENATE_NOT_SET',
+            severity: 'blocker',
+            message: `Congress has no ${isSet(congress.houseAgency) ? 'Senate' : 'House'} agency for ${getPhaseName(toPhase)}`,
+            deptCode: congress.code
+          });
+        }
+      }
+    }
+
+    // Agency proposals can only be submitted in the Budget Call, and chamber
+    // GABs in GAB Separate: each is checked on leaving its phase
+    const agenciesWithoutProposals: AgencyWithoutProposals[] = [];
+    const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    if (fromPhase === BudgetPhase.BUDGET_CALL) {
+      const agencies = snapshot.departments.flatMap((department) =>
+        department.agencies.map((agency) => ({ department, agency })));
+      const holders = await this.findProposalHolders(
+        agencies.map(({ agency }) => agency.address), proposalCount, snapshot.fiscalYear, null, concurrency
+      );
+      for (const { department, agency } of agencies) {
+        if (!holders.has(agency.address.toLowerCase())) {
+          agenciesWithoutProposals.push({
+            deptCode: department.code,
+            agencyCode: agency.code,
+            name: agency.name,
+            address: agency.address
+          });
+          add({
+            code: 'AGENCY_WITHOUT_PROPOSALS',
+            severity: 'warning',
+            message: `${agency.name} (${department.code}-${agency.code}) has no proposal for FY ${snapshot.fiscalYear}`,
+            deptCode: department.code,
+            agencyCode: agency.code,
+            agency: agency.address
+          });
+        }
+      }
+    }
+
+    if (congress && fromPhase === BudgetPhase.GAB_SEPARATE) {
+      const chambers: [string, string][] = [];
+      for (const [chamber, address] of [['House', congress.houseAgency], ['Senate', congress.senateAgency]] as const) {
+        if (isSet(address)) {
+          chambers.push([chamber, address]);
+        }
+      }
+      const holders = await this.findProposalHolders(
+        chambers.map(([, address]) => address), proposalCount, snapshot.fiscalYear, BudgetPhase.GAB_SEPARATE, concurrency
+      );
+      for (const [chamber, address] of chambers) {
+        if (!holders.has(address.toLowerCase())) {
+          add({
+            code: 'SEPARATE_GAB_MISSING',
+            severity: 'warning',
+            message: `The ${chamber} has not submitted its separate GAB`,
+            deptCode: congress.code,
+            agencyCode: congress.agencies.find((agency) => agency.address.toLowerCase() === address.toLowerCase())?.code,
+            agency: address
+          });
+        }
+      }
+    }
+
+    return {
+      fromPhase,
+      fromPhaseName,
+      toPhase,
+      toPhaseName: toPhase === null ? null : getPhaseName(toPhase),
+      method: toPhase === null ? null : fromPhase === BudgetPhase.PRE_BUDGET ? 'startBudgetCall' : 'advancePhase',
+      fiscalYear: snapshot.fiscalYear,
+      responsibleDepartment,
+      caller,
+      ready: blockers.length === 0,
+      blockers,
+      warnings,
+      agenciesWithoutProposals,
+      proposalCount,
+      blockNumber: snapshot.blockNumber,
+      checkedAt: new Date()
+    };
+  }
+
+  /**
+   * Agencies among `agencies` holding a proposal of the fiscal year,
+   * optionally one submitted in a given phase
+   *
+   * Agency contracts keep the tokens they mint (`ownerOf`). Token IDs grow
+   * with time, so the scan walks back from the newest token and stops at the
+   * previous fiscal year, or as soon as every agency is found.
+   * @returns Lowercase addresses of the agencies found
+   */
+  private async findProposalHolders(
+    agencies: string[],
+    proposalCount: number,
+    fiscalYear: number,
+    submittedPhase: BudgetPhase | null,
+    concurrency: number
+  ): Promise<Set<string>> {
+    const { proposals } = this.client;
+    const pending = new Set(agencies.map((agency) => agency.toLowerCase()));
+    const found = new Set<string>();
+    for (let newest = proposalCount; newest >= 1 && pending.size > 0; newest -= concurrency) {
+      const tokenIds = Array.from({ length: Math.min(concurrency, newest) }, (_, index) => newest - index);
+      const tokens = await Promise.all(tokenIds.map(async (tokenId) => {
+        const [data, holder] = await Promise.all([proposals.getData(tokenId), proposals.getAgency(tokenId)]);
+        return { tokenId, fiscalYear: data.fiscalYear, holder: holder.toLowerCase() };
+      }));
+      for (const token of tokens) {
+        if (token.fiscalYear < fiscalYear) {
+          return found;
+        }
+        if (!pending.has(token.holder) ||
+            (submittedPhase !== null && (await proposals.getMetadata(token.tokenId)).submittedPhase !== submittedPhase)) {
+          continue;
+        }
+        pending.delete(token.holder);
+        found.add(token.holder);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Move to the next phase after checking readiness
+   *
+   * Sends `startBudgetCall` in Pre-Budget and `advancePhase` otherwise.
+   * Warnings never stop the transition.
+   * @param signer Signer of the responsible department's owner
+   * @param options Planning options; `force` sends despite blockers
+   * @returns Transaction result with the plan that was checked
+   * @throws PhaseReadinessError if the plan has blockers and `force` is not set
+   */
+  async advanceSafely(signer?: SignerLike, options: SafeAdvanceOptions = {}): Promise<SafeAdvanceResult> {
+    const resolved = this.client.getSigner(signer);
+    const plan = await this.planAdvance({ ...options, caller: options.caller ?? await resolved.getAddress() });
+    if (!plan.ready && !options.force) {
+      throw new PhaseReadinessError(plan);
+    }
+    const result = plan.method === 'startBudgetCall'
+      ? await this.client.dbtc.startBudgetCall(resolved)
+      : await this.client.dbtc.advancePhase(resolved);
+    return { ...result, plan };
+  }
+
+  private async getClientSignerAddress(): Promise<string | null> {
+    try {
+      return await this.client.getSigner().getAddress();
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Current phase, fiscal year and allowed actions of the default client's chain
+ * @param role Role (or roles) of the caller
+ */
+export async function getCycleState(role?: CycleRole | CycleRole[]): Promise<CycleState> {
+  return getDefaultClient().cycle.getState(role);
+}
+
+/**
+ * Whether an action is allowed in the chain's current phase
+ * @param action Write action
+ * @param role Role (or roles) of the caller
+ */
+export async function isActionAllowedNow(action: CycleAction, role?: CycleRole | CycleRole[]): Promise<boolean> {
+  return getDefaultClient().cycle.isAllowed(action, role);
+}
+
+/**
+ * Check whether the default client's cycle is ready to move to the next phase
+ * @param options Caller, registry snapshot and read concurrency
+ */
+export async function planPhaseAdvance(options?: PhaseAdvancePlanOptions): Promise<PhaseAdvancePlan> {
+  return getDefaultClient().cycle.planAdvance(options);
+}
+
+/**
+ * Move the default client's cycle to the next phase after checking readiness
+ * @param signer Signer of the responsible department's owner
+ * @param options Planning options; `force` sends despite blockers
+ */
+export async function advancePhaseSafely(signer?: SignerLike, options?: SafeAdvanceOptions): Promise<SafeAdvanceResult> {
+  return getDefaultClient().cycle.advanceSafely(signer, options);
+}
@@ -1,20 +1,362 @@
 import { ethers, Contract } from 'ethers';
-import { getProvider, getSigner, getContractAddresses } from './config';
-import { BudgetPhase, TransactionResult } from './types';
-import { waitForTransaction } from './utils';
+import type { DBTCClient } from './client';
+import { getDefaultClient } from './client';
+import { BudgetPhase, TransactionResult, SimulationResult } from './types';
+import { simulateTransaction, findEvent } from './utils';
+import { withContractErrors } from './errors';
+import { SignerLike } from './signer';
 import DBTCABI from './abis/DBTC.json';
 
 /**
- * Get DBTC contract instance
- * @param dbtcAddress Optional address (uses bundled address if not provided)
+ * DBTC contract API
+ *
+ * Obtain through `client.dbtc` (bundled or configured address) or
+ * `client.dbtc.at(address)` for another deployment.
  */
-function getDBTCContract(dbtcAddress?: string, signer?: ethers.Wallet): Contract {
-  const address = dbtcAddress || getContractAddresses().dbtc;
-  if (!address) {
-    throw new Error('DBTC contract address not configured. Use setContractAddresses() or provide address.');
+export class DBTCApi {
+  constructor(
+    private readonly client: DBTCClient,
+    private readonly dbtcAddress?: string
+  ) {}
+
+  /**
+   * DBTC API for a specific contract address
+   * @param dbtcAddress DBTC contract address
+   */
+  at(dbtcAddress: string): DBTCApi {
+    return new DBTCApi(this.client, dbtcAddress);
+  }
+
+  /**
+   * Address of the DBTC contract
+   */
+  get address(): string {
+    const address = this.dbtcAddress || this.client.addresses.dbtc;
+    if (!address) {
+      throw new Error('DBTC contract address not configured. Use setContractAddresses() or provide address.');
+    }
+    return address;
+  }
+
+  /**
+   * Get DBTC contract instance
+   */
+  private getContract(signer?: ethers.Signer): Contract {
+    const runner = signer || this.client.reader;
+    return new Contract(this.address, DBTCABI.abi, runner);
+  }
+
+  /**
+   * Current phase, used to explain phase errors
+   */
+  private readonly getPhase = () => this.getCurrentPhase();
+
+  // ============ Department Management (DBM Owner Only) ============
+
+  /**
+   * Add a new department
+   * @param deptCode Department code (e.g., "01")
+   * @param deptName Department name
+   * @param mainAgencyName Main agency name (empty for standalone)
+   * @param mainAgencyOwner Owner address for main agency or standalone
+   * @param isStandalone Whether this is a standalone entity
+   * @param isActualDept Whether this is an actual department (false for BSGC/ALGU)
+   * @param signer Signer (or private key) of DBTC owner (DBM)
+   * @returns Transaction result with departmentAddress
+   */
+  async addDepartment(
+    deptCode: string,
+    deptName: string,
+    mainAgencyName: string,
+    mainAgencyOwner: string,
+    isStandalone: boolean,
+    isActualDept: boolean,
+    signer?: SignerLike
+  ): Promise<TransactionResult & { departmentAddress: string }> {
+    return withContractErrors(async () => {
+      const contract = this.getContract(this.client.getSigner(signer));
+
+      const result = await this.client.transactions.send(contract, (overrides) => contract.addDepartment(
+        deptCode,
+        deptName,
+        mainAgencyName,
+        mainAgencyOwner,
+        isStandalone,
+        isActualDept,
+        overrides
+      ));
+
+      const event = findEvent(contract, result.logs, 'DepartmentAdded');
+      return { ...result, departmentAddress: event ? event.args.departmentContract : '' };
+    }, this.getPhase);
+  }
+
+  /**
+   * Add a regular department (convenience function)
+   * @param deptCode Department code
+   * @param deptName Department name
+   * @param mainAgencyName Main agency name
+   * @param mainAgencyOwner Owner address for main agency
+   * @param signer Signer (or private key) of DBTC owner (DBM)
+   * @returns Transaction result with departmentAddress
+   */
+  async addRegularDepartment(
+    deptCode: string,
+    deptName: string,
+    mainAgencyName: string,
+    mainAgencyOwner: string,
+    signer?: SignerLike
+  ): Promise<TransactionResult & { departmentAddress: string }> {
+    return withContractErrors(async () => {
+      const contract = this.getContract(this.client.getSigner(signer));
+
+      const result = await this.client.transactions.send(contract, (overrides) =>
+        contract.addRegularDepartment(deptCode, deptName, mainAgencyName, mainAgencyOwner, overrides));
+
+      const event = findEvent(contract, result.logs, 'DepartmentAdded');
+      return { ...result, departmentAddress: event ? event.args.departmentContract : '' };
+    }, this.getPhase);
+  }
+
+  // ============ Phase Management ============
+
+  /**
+   * Assign phase responsibility to a department
+   * @param phase Budget phase
+   * @param deptCode Department code
+   * @param signer Signer (or private key) of DBTC owner (DBM)
+   * @returns Transaction result
+   */
+  async assignPhaseResponsibility(
+    phase: BudgetPhase,
+    deptCode: string,
+    signer?: SignerLike
+  ): Promise<TransactionResult> {
+    return withContractErrors(async () => {
+      const contract = this.getContract(this.client.getSigner(signer));
+      return await this.client.transactions.send(contract, (overrides) =>
+        contract.assignPhaseResponsibility(phase, deptCode, overrides));
+    }, this.getPhase);
+  }
+
+  /**
+   * Start the budget call phase
+   * @param signer Signer (or private key) of responsible department owner
+   * @returns Transaction result
+   */
+  async startBudgetCall(signer?: SignerLike): Promise<TransactionResult> {
+    return withContractErrors(async () => {
+      const contract = this.getContract(this.client.getSigner(signer));
+      return await this.client.transactions.send(contract, (overrides) =>
+        contract.startBudgetCall(overrides));
+    }, this.getPhase);
+  }
+
+  /**
+   * Advance to the next phase
+   * @param signer Signer (or private key) of responsible department owner
+   * @returns Transaction result
+   */
+  async advancePhase(signer?: SignerLike): Promise<TransactionResult> {
+    return withContractErrors(async () => {
+      const contract = this.getContract(this.client.getSigner(signer));
+      return await this.client.transactions.send(contract, (overrides) =>
+        contract.advancePhase(overrides));
+    }, this.getPhase);
+  }
+
+  // ============ Read Functions ============
+
+  /**
+   * Get current budget phase
+   * @returns Current phase
+   */
+  async getCurrentPhase(): Promise<BudgetPhase> {
+    return withContractErrors(async () => {
+      const phase = await this.getContract().getCurrentPhase();
+      return Number(phase) as BudgetPhase;
+    });
+  }
+
+  /**
+   * Get current fiscal year
+   * @returns Fiscal year
+   */
+  async getCurrentFiscalYear(): Promise<number> {
+    return withContractErrors(async () => {
+      const year = await this.getContract().getCurrentFiscalYear();
+      return Number(year);
+    });
+  }
+
+  /**
+   * Get department address by code
+   * @param deptCode Department code
+   * @returns Department contract address
+   */
+  async getDepartment(deptCode: string): Promise<string> {
+    return withContractErrors(async () => {
+      return await this.getContract().getDepartment(deptCode);
+    });
+  }
+
+  /**
+   * Check if department is registered
+   * @param deptCode Department code
+   * @returns True if registered
+   */
+  async isDepartmentRegistered(deptCode: string): Promise<boolean> {
+    return withContractErrors(async () => {
+      return await this.getContract().isDepartmentRegistered(deptCode);
+    });
+  }
+
+  /**
+   * Get all department codes
+   * @returns Array of department codes
+   */
+  async getDepartmentCodes(): Promise<string[]> {
+    return withContractErrors(async () => {
+      const codes: string[] = await this.getContract().getDepartmentCodes();
+      return [...codes];
+    });
   }
-  const runner = signer || getProvider();
-  return new Contract(address, DBTCABI.abi, runner);
+
+  /**
+   * Get department count
+   * @returns Number of departments
+   */
+  async getDepartmentCount(): Promise<number> {
+    return withContractErrors(async () => {
+      const count = await this.getContract().getDepartmentCount();
+      return Number(count);
+    });
+  }
+
+  /**
+   * Get responsible department for a phase
+   * @param phase Budget phase
+   * @returns Department code
+   */
+  async getPhaseResponsibleDepartment(phase: BudgetPhase): Promise<string> {
+    return withContractErrors(async () => {
+      return await this.getContract().getPhaseResponsibleDepartment(phase);
+    });
+  }
+
+  /**
+   * Check if a department is responsible for a phase
+   * @param deptCode Department code
+   * @param phase Budget phase
+   * @returns True if responsible
+   */
+  async isPhaseResponsible(deptCode: string, phase: BudgetPhase): Promise<boolean> {
+    return withContractErrors(async () => {
+      return await this.getContract().isPhaseResponsible(deptCode, phase);
+    });
+  }
+
+  /**
+   * Get budget proposal contract address
+   * @returns BudgetProposal contract address
+   */
+  async getBudgetProposalContract(): Promise<string> {
+    return withContractErrors(async () => {
+      return await this.getContract().getBudgetProposalContract();
+    });
+  }
+
+  /**
+   * Get DBTC owner address
+   * @returns Owner address
+   */
+  async getOwner(): Promise<string> {
+    return withContractErrors(async () => {
+      return await this.getContract().owner();
+    });
+  }
+
+  // ============ Simulation ============
+
+  /**
+   * Simulate adding a new department
+   * @returns Simulation result with the department contract address that would be created
+   */
+  async simulateAddDepartment(
+    deptCode: string,
+    deptName: string,
+    mainAgencyName: string,
+    mainAgencyOwner: string,
+    isStandalone: boolean,
+    isActualDept: boolean,
+    signer?: SignerLike
+  ): Promise<SimulationResult<string>> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(
+      contract.addDepartment,
+      [deptCode, deptName, mainAgencyName, mainAgencyOwner, isStandalone, isActualDept],
+      this.getPhase
+    );
+  }
+
+  /**
+   * Simulate adding a regular department
+   * @returns Simulation result with the department contract address that would be created
+   */
+  async simulateAddRegularDepartment(
+    deptCode: string,
+    deptName: string,
+    mainAgencyName: string,
+    mainAgencyOwner: string,
+    signer?: SignerLike
+  ): Promise<SimulationResult<string>> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(
+      contract.addRegularDepartment,
+      [deptCode, deptName, mainAgencyName, mainAgencyOwner],
+      this.getPhase
+    );
+  }
+
+  /**
+   * Simulate assigning phase responsibility to a department
+   * @returns Simulation result
+   */
+  async simulateAssignPhaseResponsibility(
+    phase: BudgetPhase,
+    deptCode: string,
+    signer?: SignerLike
+  ): Promise<SimulationResult> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(contract.assignPhaseResponsibility, [phase, deptCode], this.getPhase);
+  }
+
+  /**
+   * Simulate starting the budget call phase
+   * @returns Simulation result
+   */
+  async simulateStartBudgetCall(signer?: SignerLike): Promise<SimulationResult> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(contract.startBudgetCall, [], this.getPhase);
+  }
+
+  /**
+   * Simulate advancing to the next phase
+   * @returns Simulation result
+   */
+  async simulateAdvancePhase(signer?: SignerLike): Promise<SimulationResult> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(contract.advancePhase, [], this.getPhase);
+  }
+}
+
+/**
+ * DBTC API of the default client
+ * @param dbtcAddress Optional DBTC contract address
+ */
+function getDBTCApi(dbtcAddress?: string): DBTCApi {
+  const { dbtc } = getDefaultClient();
+  return dbtcAddress ? dbtc.at(dbtcAddress) : dbtc;
 }
 
 // ============ Department Management (DBM Owner Only) ============
@@ -27,7 +369,7 @@ function getDBTCContract(dbtcAddress?: string, signer?: ethers.Wallet): Contract
  * @param mainAgencyOwner Owner address for main agency or standalone
  * @param isStandalone Whether this is a standalone entity
  * @param isActualDept Whether this is an actual department (false for BSGC/ALGU)
- * @param privateKey Private key of DBTC owner (DBM)
+ * @param signer Signer (or private key) of DBTC owner (DBM)
  * @param dbtcAddress Optional DBTC contract address
  * @returns Transaction result with departmentAddress
  */
@@ -38,35 +380,18 @@ export async function addDepartment(
   mainAgencyOwner: string,
   isStandalone: boolean,
   isActualDept: boolean,
-  privateKey?: string,
+  signer?: SignerLike,
   dbtcAddress?: string
 ): Promise<TransactionResult & { departmentAddress: string }> {
-  const signer = getSigner(privateKey);
-  const contract = getDBTCContract(dbtcAddress, signer);
-  
-  const tx = await contract.addDepartment(
+  return getDBTCApi(dbtcAddress).addDepartment(
     deptCode,
     deptName,
     mainAgencyName,
     mainAgencyOwner,
     isStandalone,
-    isActualDept
+    isActualDept,
+    signer
   );
-  const result = await waitForTransaction(tx);
-  
-  // Extract departmentAddress from DepartmentAdded event
-  let departmentAddress = '';
-  for (const log of result.logs) {
-    try {
-      const parsed = contract.interface.parseLog({ topics: log.topics as string[], data: log.data });
-      if (parsed?.name === 'DepartmentAdded') {
-        departmentAddress = parsed.args.deptContract || parsed.args[1];
-        break;
-      }
-    } catch { /* skip non-matching logs */ }
-  }
-  
-  return { ...result, departmentAddress };
 }
 
 /**
@@ -75,7 +400,7 @@ export async function addDepartment(
  * @param deptName Department name
  * @param mainAgencyName Main agency name
  * @param mainAgencyOwner Owner address for main agency
- * @param privateKey Private key of DBTC owner (DBM)
+ * @param signer Signer (or private key) of DBTC owner (DBM)
  * @param dbtcAddress Optional DBTC contract address
  * @returns Transaction result with departmentAddress
  */
@@ -84,27 +409,10 @@ export async function addRegularDepartment(
   deptName: string,
   mainAgencyName: string,
   mainAgencyOwner: string,
-  privateKey?: string,
+  signer?: SignerLike,
   dbtcAddress?: string
 ): Promise<TransactionResult & { departmentAddress: string }> {
-  const signer = getSigner(privateKey);
-  const contract = getDBTCContract(dbtcAddress, signer);
-  
-  const tx = await contract.addRegularDepartment(deptCode, deptName, mainAgencyName, mainAgencyOwner);
-  const result = await waitForTransaction(tx);
-  
-  let departmentAddress = '';
-  for (const log of result.logs) {
-    try {
-      const parsed = contract.interface.parseLog({ topics: log.topics as string[], data: log.data });
-      if (parsed?.name === 'DepartmentAdded') {
-        departmentAddress = parsed.args.deptContract || parsed.args[1];
-        break;
-      }
-    } catch { /* skip non-matching logs */ }
-  }
-  
-  return { ...result, departmentAddress };
+  return getDBTCApi(dbtcAddress).addRegularDepartment(deptCode, deptName, mainAgencyName, mainAgencyOwner, signer);
 }
 
 // ============ Phase Management ============
@@ -113,55 +421,43 @@ export async function addRegularDepartment(
  * Assign phase responsibility to a department
  * @param phase Budget phase
  * @param deptCode Department code
- * @param privateKey Private key of DBTC owner (DBM)
+ * @param signer Signer (or private key) of DBTC owner (DBM)
  * @param dbtcAddress Optional DBTC contract address
  * @returns Transaction result
  */
 export async function assignPhaseResponsibility(
   phase: BudgetPhase,
   deptCode: string,
-  privateKey?: string,
+  signer?: SignerLike,
   dbtcAddress?: string
 ): Promise<TransactionResult> {
-  const signer = getSigner(privateKey);
-  const contract = getDBTCContract(dbtcAddress, signer);
-  
-  const tx = await contract.assignPhaseResponsibility(phase, deptCode);
-  return await waitForTransaction(tx);
+  return getDBTCApi(dbtcAddress).assignPhaseResponsibility(phase, deptCode, signer);
 }
 
 /**
  * Start the budget call phase
- * @param privateKey Private key of responsible department owner
+ * @param signer Signer (or private key) of responsible department owner
  * @param dbtcAddress Optional DBTC contract address
  * @returns Transaction result
  */
 export async function startBudgetCall(
-  privateKey?: string,
+  signer?: SignerLike,
   dbtcAddress?: string
 ): Promise<TransactionResult> {
-  const signer = getSigner(privateKey);
-  const contract = getDBTCContract(dbtcAddress, signer);
-  
-  const tx = await contract.startBudgetCall();
-  return await waitForTransaction(tx);
+  return getDBTCApi(dbtcAddress).startBudgetCall(signer);
 }
 
 /**
  * Advance to the next phase
- * @param privateKey Private key of responsible department owner
+ * @param signer Signer (or private key) of responsible department owner
  * @param dbtcAddress Optional DBTC contract address
  * @returns Transaction result
  */
 export async function advancePhase(
-  privateKey?: string,
+  signer?: SignerLike,
   dbtcAddress?: string
 ): Promise<TransactionResult> {
-  const signer = getSigner(privateKey);
-  const contract = getDBTCContract(dbtcAddress, signer);
-  
-  const tx = await contract.advancePhase();
-  return await waitForTransaction(tx);
+  return getDBTCApi(dbtcAddress).advancePhase(signer);
 }
 
 // ============ Read Functions ============
@@ -172,9 +468,7 @@ export async function advancePhase(
  * @returns Current phase
  */
 export async function getCurrentPhase(dbtcAddress?: string): Promise<BudgetPhase> {
-  const contract = getDBTCContract(dbtcAddress);
-  const phase = await contract.getCurrentPhase();
-  return Number(phase) as BudgetPhase;
+  return getDBTCApi(dbtcAddress).getCurrentPhase();
 }
 
 /**
@@ -183,9 +477,7 @@ export async function getCurrentPhase(dbtcAddress?: string): Promise<BudgetPhase
  * @returns Fiscal year
  */
 export async function getCurrentFiscalYear(dbtcAddress?: string): Promise<number> {
-  const contract = getDBTCContract(dbtcAddress);
-  const year = await contract.getCurrentFiscalYear();
-  return Number(year);
+  return getDBTCApi(dbtcAddress).getCurrentFiscalYear();
 }
 
 /**
@@ -195,8 +487,7 @@ export async function getCurrentFiscalYear(dbtcAddress?: string): Promise<number
  * @returns Department contract address
  */
 export async function getDepartment(deptCode: string, dbtcAddress?: string): Promise<string> {
-  const contract = getDBTCContract(dbtcAddress);
-  return await contract.getDepartment(deptCode);
+  return getDBTCApi(dbtcAddress).getDepartment(deptCode);
 }
 
 /**
@@ -206,8 +497,7 @@ export async function getDepartment(deptCode: string, dbtcAddress?: string): Pro
  * @returns True if registered
  */
 export async function isDepartmentRegistered(deptCode: string, dbtcAddress?: string): Promise<boolean> {
-  const contract = getDBTCContract(dbtcAddress);
-  return await contract.isDepartmentRegistered(deptCode);
+  return getDBTCApi(dbtcAddress).isDepartmentRegistered(deptCode);
 }
 
 /**
@@ -216,8 +506,7 @@ export async function isDepartmentRegistered(deptCode: string, dbtcAddress?: str
  * @returns Array of department codes
  */
 export async function getDepartmentCodes(dbtcAddress?: string): Promise<string[]> {
-  const contract = getDBTCContract(dbtcAddress);
-  return await contract.getDepartmentCodes();
+  return getDBTCApi(dbtcAddress).getDepartmentCodes();
 }
 
 /**
@@ -226,9 +515,7 @@ export async function getDepartmentCodes(dbtcAddress?: string): Promise<string[]
  * @returns Number of departments
  */
 export async function getDepartmentCount(dbtcAddress?: string): Promise<number> {
-  const contract = getDBTCContract(dbtcAddress);
-  const count = await contract.getDepartmentCount();
-  return Number(count);
+  return getDBTCApi(dbtcAddress).getDepartmentCount();
 }
 
 /**
@@ -241,8 +528,22 @@ export async function getPhaseResponsibleDepartment(
   phase: BudgetPhase,
   dbtcAddress?: string
 ): Promise<string> {
-  const contract = getDBTCContract(dbtcAddress);
-  return await contract.getPhaseResponsibleDepartment(phase);
+  return getDBTCApi(dbtcAddress).getPhaseResponsibleDepartment(phase);
+}
+
+/**
+ * Check if a department is responsible for a phase
+ * @param deptCode Department code
+ * @param phase Budget phase
+ * @param dbtcAddress Optional DBTC contract address
+ * @returns True if responsible
+ */
+export async function isPhaseResponsible(
+  deptCode: string,
+  phase: BudgetPhase,
+  dbtcAddress?: string
+): Promise<boolean> {
+  return getDBTCApi(dbtcAddress).isPhaseResponsible(deptCode, phase);
 }
 
 /**
@@ -251,8 +552,7 @@ export async function getPhaseResponsibleDepartment(
  * @returns BudgetProposal contract address
  */
 export async function getBudgetProposalContract(dbtcAddress?: string): Promise<string> {
-  const contract = getDBTCContract(dbtcAddress);
-  return await contract.getBudgetProposalContract();
+  return getDBTCApi(dbtcAddress).getBudgetProposalContract();
 }
 
 /**
@@ -261,6 +561,105 @@ export async function getBudgetProposalContract(dbtcAddress?: string): Promise<s
  * @returns Owner address
  */
 export async function getDBTCOwner(dbtcAddress?: string): Promise<string> {
-  const contract = getDBTCContract(dbtcAddress);
-  return await contract.owner();
+  return getDBTCApi(dbtcAddress).getOwner();
+}
+
+// ============ Simulation ============
+
+/**
+ * Simulate adding a new department
+ * @param deptCode Department code (e.g., "01")
+ * @param deptName Department name
+ * @param mainAgencyName Main agency name (empty for standalone)
+ * @param mainAgencyOwner Owner address for main agency or standalone
+ * @param isStandalone Whether this is a standalone entity
+ * @param isActualDept Whether this is an actual department (false for BSGC/ALGU)
+ * @param signer Signer (or private key) of DBTC owner (DBM)
+ * @param dbtcAddress Optional DBTC contract address
+ * @returns Simulation result with the department contract address that would be created
+ */
+export async function simulateAddDepartment(
+  deptCode: string,
+  deptName: string,
+  mainAgencyName: string,
+  mainAgencyOwner: string,
+  isStandalone: boolean,
+  isActualDept: boolean,
+  signer?: SignerLike,
+  dbtcAddress?: string
+): Promise<SimulationResult<string>> {
+  return getDBTCApi(dbtcAddress).simulateAddDepartment(
+    deptCode,
+    deptName,
+    mainAgencyName,
+    mainAgencyOwner,
+    isStandalone,
+    isActualDept,
+    signer
+  );
+}
+
+/**
+ * Simulate adding a regular department
+ * @param deptCode Department code
+ * @param deptName Department name
+ * @param mainAgencyName Main agency name
+ * @param mainAgencyOwner Owner address for main agency
+ * @param signer Signer (or private key) of DBTC owner (DBM)
+ * @param dbtcAddress Optional DBTC contract address
+ * @returns Simulation result with the department contract address that would be created
+ */
+export async function simulateAddRegularDepartment(
+  deptCode: string,
+  deptName: string,
+  mainAgencyName: string,
+  mainAgencyOwner: string,
+  signer?: SignerLike,
+  dbtcAddress?: string
+): Promise<SimulationResult<string>> {
+  return getDBTCApi(dbtcAddress)
+    .simulateAddRegularDepartment(deptCode, deptName, mainAgencyName, mainAgencyOwner, signer);
+}
+
+/**
+ * Simulate assigning phase responsibility to a department
+ * @param phase Budget phase
+ * @param deptCode Department code
+ * @param signer Signer (or private key) of DBTC owner (DBM)
+ * @param dbtcAddress Optional DBTC contract address
+ * @returns Simulation result
+ */
+export async function simulateAssignPhaseResponsibility(
+  phase: BudgetPhase,
+  deptCode: string,
+  signer?: SignerLike,
+  dbtcAddress?: string
+): Promise<SimulationResult> {
+  return getDBTCApi(dbtcAddress).simulateAssignPhaseResponsibility(phase, deptCode, signer);
+}
+
+/**
+ * Simulate starting the budget call phase
+ * @param signer Signer (or private key) of responsible department owner
+ * @param dbtcAddress Optional DBTC contract address
+ * @returns Simulation result
+ */
+export async function simulateStartBudgetCall(
+  signer?: SignerLike,
+  dbtcAddress?: string
+): Promise<SimulationResult> {
+  return getDBTCApi(dbtcAddress).simulateStartBudgetCall(signer);
+}
+
+/**
+ * Simulate advancing to the next phase
+ * @param signer Signer (or private key) of responsible department owner
+ * @param dbtcAddress Optional DBTC contract address
+ * @returns Simulation result
+ */
+export async function simulateAdvancePhase(
+  signer?: SignerLike,
+  dbtcAddress?: string
+): Promise<SimulationResult> {
+  return getDBTCApi(dbtcAddress).simulateAdvancePhase(signer);
 }
@@ -1,15 +1,237 @@
 import { ethers, Contract } from 'ethers';
-import { getProvider, getSigner } from './config';
-import { TransactionResult, DepartmentInfo } from './types';
-import { waitForTransaction } from './utils';
+import type { DBTCClient } from './client';
+import { getDefaultClient } from './client';
+import { TransactionResult, DepartmentInfo, SimulationResult } from './types';
+import { simulateTransaction, findEvent } from './utils';
+import { withContractErrors } from './errors';
+import { SignerLike } from './signer';
 import DepartmentABI from './abis/Department.json';
 
 /**
- * Get Department contract instance
+ * Department contract API
+ *
+ * Obtain through `client.department(address)`.
  */
-function getDepartmentContract(departmentAddress: string, signer?: ethers.Wallet): Contract {
-  const runner = signer || getProvider();
-  return new Contract(departmentAddress, DepartmentABI.abi, runner);
+export class DepartmentApi {
+  constructor(
+    private readonly client: DBTCClient,
+    /** Address of the department contract */
+    readonly address: string
+  ) {}
+
+  /**
+   * Get Department contract instance
+   */
+  private getContract(signer?: ethers.Signer): Contract {
+    const runner = signer || this.client.reader;
+    return new Contract(this.address, DepartmentABI.abi, runner);
+  }
+
+  /**
+   * Current phase, used to explain phase errors
+   */
+  private readonly getPhase = () => this.client.dbtc.getCurrentPhase();
+
+  // ============ Agency Management ============
+
+  /**
+   * Add a new agency to the department
+   * @param agencyCode Agency code (e.g., "002")
+   * @param agencyName Agency name
+   * @param ownerAddress Owner address for the new agency
+   * @param signer Signer (or private key) of department owner (main agency owner)
+   * @returns Transaction result with agencyAddress
+   */
+  async addAgency(
+    agencyCode: string,
+    agencyName: string,
+    ownerAddress: string,
+    signer?: SignerLike
+  ): Promise<TransactionResult & { agencyAddress: string }> {
+    return withContractErrors(async () => {
+      const contract = this.getContract(this.client.getSigner(signer));
+
+      const result = await this.client.transactions.send(contract, (overrides) =>
+        contract.addAgency(agencyCode, agencyName, ownerAddress, overrides));
+
+      const event = findEvent(contract, result.logs, 'AgencyAdded');
+      return { ...result, agencyAddress: event ? event.args.agencyContract : '' };
+    }, this.getPhase);
+  }
+
+  /**
+   * Set House and Senate agencies (Congress department only)
+   * @param houseAddress House of Representatives agency address
+   * @param senateAddress Senate agency address
+   * @param signer Signer (or private key) of main agency owner
+   * @returns Transaction result
+   */
+  async setHouseAndSenate(
+    houseAddress: string,
+    senateAddress: string,
+    signer?: SignerLike
+  ): Promise<TransactionResult> {
+    return withContractErrors(async () => {
+      const contract = this.getContract(this.client.getSigner(signer));
+      return await this.client.transactions.send(contract, (overrides) =>
+        contract.setHouseAndSenate(houseAddress, senateAddress, overrides));
+    }, this.getPhase);
+  }
+
+  // ============ Read Functions ============
+
+  /**
+   * Get department information
+   * @returns Department info
+   */
+  async getInfo(): Promise<DepartmentInfo> {
+    return withContractErrors(async () => {
+      const contract = this.getContract();
+
+      const [code, name, dbtc, mainAgency, isStandalone, isActualDepartment, agencyCount] = await Promise.all([
+        contract.getCode(),
+        contract.getName(),
+        contract.getDBTC(),
+        contract.getMainAgency(),
+        contract.isStandalone(),
+        contract.getIsActualDepartment(),
+        contract.getAgencyCount()
+      ]);
+
+      return {
+        address: this.address,
+        code,
+        name,
+        dbtc,
+        mainAgency,
+        isStandalone,
+        isActualDepartment,
+        agencyCount: Number(agencyCount)
+      };
+    });
+  }
+
+  /**
+   * Get agency address by code
+   * @param agencyCode Agency code
+   * @returns Agency contract address
+   */
+  async getAgency(agencyCode: string): Promise<string> {
+    return withContractErrors(async () => {
+      return await this.getContract().getAgency(agencyCode);
+    });
+  }
+
+  /**
+   * Check if agency is registered
+   * @param agencyCode Agency code
+   * @returns True if registered
+   */
+  async isAgencyRegistered(agencyCode: string): Promise<boolean> {
+    return withContractErrors(async () => {
+      return await this.getContract().isAgencyRegistered(agencyCode);
+    });
+  }
+
+  /**
+   * Get all agency codes
+   * @returns Array of agency codes
+   */
+  async getAgencyCodes(): Promise<string[]> {
+    return withContractErrors(async () => {
+      const codes: string[] = await this.getContract().getAgencyCodes();
+      return [...codes];
+    });
+  }
+
+  /**
+   * Get main agency address
+   * @returns Main agency address
+   */
+  async getMainAgency(): Promise<string> {
+    return withContractErrors(async () => {
+      return await this.getContract().getMainAgency();
+    });
+  }
+
+  /**
+   * Get House agency address (Congress only)
+   * @returns House agency address
+   */
+  async getHouseAgency(): Promise<string> {
+    return withContractErrors(async () => {
+      return await this.getContract().getHouseAgency();
+    });
+  }
+
+  /**
+   * Get Senate agency address (Congress only)
+   * @returns Senate agency address
+   */
+  async getSenateAgency(): Promise<string> {
+    return withContractErrors(async () => {
+      return await this.getContract().getSenateAgency();
+    });
+  }
+
+  /**
+   * Get department owner address
+   * @returns Owner address
+   */
+  async getOwner(): Promise<string> {
+    return withContractErrors(async () => {
+      return await this.getContract().getDepartmentOwner();
+    });
+  }
+
+  /**
+   * Get standalone entity owner address
+   * @returns Owner address (zero address if not standalone)
+   */
+  async getStandaloneOwner(): Promise<string> {
+    return withContractErrors(async () => {
+      return await this.getContract().getStandaloneOwner();
+    });
+  }
+
+  /**
+   * Check if this is the Congress department
+   * @returns True if Congress
+   */
+  async isCongress(): Promise<boolean> {
+    return withContractErrors(async () => {
+      return await this.getContract().isCongress();
+    });
+  }
+
+  // ============ Simulation ============
+
+  /**
+   * Simulate adding a new agency to the department
+   * @returns Simulation result with the agency contract address that would be created
+   */
+  async simulateAddAgency(
+    agencyCode: string,
+    agencyName: string,
+    ownerAddress: string,
+    signer?: SignerLike
+  ): Promise<SimulationResult<string>> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(contract.addAgency, [agencyCode, agencyName, ownerAddress], this.getPhase);
+  }
+
+  /**
+   * Simulate setting House and Senate agencies (Congress department only)
+   * @returns Simulation result
+   */
+  async simulateSetHouseAndSenate(
+    houseAddress: string,
+    senateAddress: string,
+    signer?: SignerLike
+  ): Promise<SimulationResult> {
+    const contract = this.getContract(this.client.getSigner(signer));
+    return simulateTransaction(contract.setHouseAndSenate, [houseAddress, senateAddress], this.getPhase);
+  }
 }
 
 // ============ Agency Management ============
@@ -20,7 +242,7 @@ function getDepartmentContract(departmentAddress: string, signer?: ethers.Wallet
  * @param agencyCode Agency code (e.g., "002")
  * @param agencyName Agency name
  * @param ownerAddress Owner address for the new agency
- * @param privateKey Private key of department owner (main agency owner)
+ * @param signer Signer (or private key) of department owner (main agency owner)
  * @returns Transaction result with agencyAddress
  */
 export async function addAgency(
@@ -28,27 +250,9 @@ export async function addAgency(
   agencyCode: string,
   agencyName: string,
   ownerAddress: string,
-  privateKey?: string
+  signer?: SignerLike
 ): Promise<TransactionResult & { agencyAddress: string }> {
-  const signer = getSigner(privateKey);
-  const contract = getDepartmentContract(departmentAddress, signer);
-  
-  const tx = await contract.addAgency(agencyCode, agencyName, ownerAddress);
-  const result = await waitForTransaction(tx);
-  
-  // Extract agencyAddress from AgencyAdded event
-  let agencyAddress = '';
-  for (const log of result.logs) {
-    try {
-      const parsed = contract.interface.parseLog({ topics: log.topics as string[], data: log.data });
-      if (parsed?.name === 'AgencyAdded') {
-        agencyAddress = parsed.args.agencyContract || parsed.args[1];
-        break;
-      }
-    } catch { /* skip non-matching logs */ }
-  }
-  
-  return { ...result, agencyAddress };
+  return getDefaultClient().department(departmentAddress).addAgency(agencyCode, agencyName, ownerAddress, signer);
 }
 
 /**
@@ -56,20 +260,16 @@ export async function addAgency(
  * @param departmentAddress Address of the Congress department
  * @param houseAddress House of Representatives agency address
  * @param senateAddress Senate agency address
- * @param privateKey Private key of main agency owner
+ * @param signer Signer (or private key) of main agency owner
  * @returns Transaction result
  */
 export async function setHouseAndSenate(
   departmentAddress: string,
   houseAddress: string,
   senateAddress: string,
-  privateKey?: string
+  signer?: SignerLike
 ): Promise<TransactionResult> {
-  const signer = getSigner(privateKey);
-  const contract = getDepartmentContract(departmentAddress, signer);
-  
-  const tx = await contract.setHouseAndSenate(houseAddress, senateAddress);
-  return await waitForTransaction(tx);
+  return getDefaultClient().department(departmentAddress).setHouseAndSenate(houseAddress, senateAddress, signer);
 }
 
 // ============ Read Functions ============
@@ -80,28 +280,7 @@ export async function setHouseAndSenate(
  * @returns Department info
  */
 export async function getDepartmentInfo(departmentAddress: string): Promise<DepartmentInfo> {
-  const contract = getDepartmentContract(departmentAddress);
-  
-  const [code, name, dbtc, mainAgency, isStandalone, isActualDepartment, agencyCount] = await Promise.all([
-    contract.getCode(),
-    contract.getName(),
-    contract.getDBTC(),
-    contract.getMainAgency(),
-    contract.isStandalone(),
-    contract.getIsActualDepartment(),
-    contract.getAgencyCount()
-  ]);
-  
-  return {
-    address: departmentAddress,
-    code,
-    name,
-    dbtc,
-    mainAgency,
-    isStandalone,
-    isActualDepartment,
-    agencyCount: Number(agencyCount)
-  };
+  return getDefaultClient().department(departmentAddress).getInfo();
 }
 
 /**
@@ -114,8 +293,7 @@ export async function getAgency(
   departmentAddress: string,
   agencyCode: string
 ): Promise<string> {
-  const contract = getDepartmentContract(departmentAddress);
-  return await contract.getAgency(agencyCode);
+  return getDefaultClient().department(departmentAddress).getAgency(agencyCode);
 }
 
 /**
@@ -128,8 +306,7 @@ export async function isAgencyRegistered(
   departmentAddress: string,
   agencyCode: string
 ): Promise<boolean> {
-  const contract = getDepartmentContract(departmentAddress);
-  return await contract.isAgencyRegistered(agencyCode);
+  return getDefaultClient().department(departmentAddress).isAgencyRegistered(agencyCode);
 }
 
 /**
@@ -138,8 +315,7 @@ export async function isAgencyRegistered(
  * @returns Array of agency codes
  */
 export async function getAgencyCodes(departmentAddress: string): Promise<string[]> {
-  const contract = getDepartmentContract(departmentAddress);
-  return await contract.getAgencyCodes();
+  return getDefaultClient().department(departmentAddress).getAgencyCodes();
 }
 
 /**
@@ -148,8 +324,7 @@ export async function getAgencyCodes(departmentAddress: string): Promise<string[
  * @returns Main agency address
  */
 export async function getMainAgency(departmentAddress: string): Promise<string> {
-  const contract = getDepartmentContract(departmentAddress);
-  return await contract.getMainAgency();
+  return getDefaultClient().department(departmentAddress).getMainAgency();
 }
 
 /**
@@ -158,8 +333,7 @@ export async function getMainAgency(departmentAddress: string): Promise<string>
  * @returns House agency address
  */
 export async function getHouseAgency(departmentAddress: string): Promise<string> {
-  const contract = getDepartmentContract(departmentAddress);
-  return await contract.getHouseAgency();
+  return getDefaultClient().department(departmentAddress).getHouseAgency();
 }
 
 /**
@@ -168,8 +342,7 @@ export async function getHouseAgency(departmentAddress: string): Promise<string>
  * @returns Senate agency address
  */
 export async function getSenateAgency(departmentAddress: string): Promise<string> {
-  const contract = getDepartmentContract(departmentAddress);
-  return await contract.getSenateAgency();
+  return getDefaultClient().department(departmentAddress).getSenateAgency();
 }
 
 /**
@@ -178,6 +351,63 @@ export async function getSenateAgency(departmentAddress: string): Promise<string
  * @returns Owner address
  */
 export async function getDepartmentOwner(departmentAddress: string): Promise<string> {
-  const contract = getDepartmentContract(departmentAddress);
-  return await contract.getDepartmentOwner();
+  return getDefaultClient().department(departmentAddress).getOwner();
+}
+
+/**
+ * Get standalone entity owner address
+ * @param departmentAddress Address of the standalone department contract
+ * @returns Owner address
+ */
+export async function getStandaloneOwner(departmentAddress: string): Promise<string> {
+  return getDefaultClient().department(departmentAddress).getStandaloneOwner();
+}
+
+/**
+ * Check if a department is the Congress department
+ * @param departmentAddress Address of the department contract
+ * @returns True if Congress
+ */
+export async function isCongress(departmentAddress: string): Promise<boolean> {
+  return getDefaultClient().department(departmentAddress).isCongress();
+}
+
+// ============ Simulation ============
+
+/**
+ * Simulate adding a new agency to the department
+ * @param departmentAddress Address of the department contract
+ * @param agencyCode Agency code (e.g., "002")
+ * @param agencyName Agency name
+ * @param ownerAddress Owner address for the new agency
+ * @param signer Signer (or private key) of department owner (main agency owner)
+ * @returns Simulation result with the agency contract address that would be created
+ */
+export async function simulateAddAgency(
+  departmentAddress: string,
+  agencyCode: string,
+  agencyName: string,
+  ownerAddress: string,
+  signer?: SignerLike
+): Promise<SimulationResult<string>> {
+  return getDefaultClient().department(departmentAddress)
+    .simulateAddAgency(agencyCode, agencyName, ownerAddress, signer);
+}
+
+/**
+ * Simulate setting House and Senate agencies (Congress department only)
+ * @param departmentAddress Address of the Congress department
+ * @param houseAddress House of Representatives agency address
+ * @param senateAddress Senate agency address
+ * @param signer Signer (or private key) of main agency owner
+ * @returns Simulation result
+ */
+export async function simulateSetHouseAndSenate(
+  departmentAddress: string,
+  houseAddress: string,
+  senateAddress: string,
+  signer?: SignerLike
+): Promise<SimulationResult> {
+  return getDefaultClient().department(departmentAddress)
+    .simulateSetHouseAndSenate(houseAddress, senateAddress, signer);
 }
@@ -0,0 +1,689 @@
+import { ethers } from 'ethers';
+import { promises as fs } from 'fs';
+import { DBTCClient } from './client';
+import { ChainMode, ContractAddresses, getNetworkConfig } from './config';
+import { BudgetPhase } from './types';
+import { FieldError, ValidationError } from './errors';
+import { SignerLike } from './signer';
+import DBTCArtifact from './abis/DBTC.json';
+
+/** Largest runtime code most nodes accept by default (EIP-170) */
+const MAX_CODE_SIZE = 24576;
+
+const DEFAULT_MAIN_AGENCY_NAME = 'Office of the Secretary';
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// ============ Types ============
+
+/**
+ * Compiled contract (Hardhat or Foundry artifact)
+ */
+export interface ContractArtifact {
+  abi: ethers.InterfaceAbi;
+  bytecode: string;
+  deployedBytecode?: string;
+}
+
+/**
+ * Agency to create from a fixture
+ */
+export interface FixtureAgency {
+  code: string;
+  name: string;
+  owner: string;
+  documentManagers?: string[];
+}
+
+/**
+ * Department to create from a fixture
+ *
+ * Created with `addRegularDepartment`, or with `addDepartment` when
+ * `standalone` is set or `actual` is false.
+ */
+export interface FixtureDepartment {
+  code: string;
+  name: string;
+  /** Owner of the main agency (the standalone owner for standalone entities) */
+  owner: string;
+  /** Name of the main agency (default: "Office of the Secretary", empty for standalone entities) */
+  mainAgencyName?: string;
+  /** Document managers of the main agency (standalone entities have none) */
+  documentManagers?: string[];
+  standalone?: boolean;
+  /** Default: true (false for BSGC/ALGU) */
+  actual?: boolean;
+  agencies?: FixtureAgency[];
+  /** Agency codes of the House and Senate (Congress, department code 01) */
+  house?: string;
+  senate?: string;
+}
+
+/**
+ * Registry to create on a deployment, as read from YAML or JSON
+ *
+ * @example
+ * ```yaml
+ * departments:
+ *   - code: '07'
+ *     name: Department of Education
+ *     owner: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+ *     documentManagers: ['0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC']
+ *     agencies:
+ *       - code: '002'
+ *         name: Bureau of Learning Delivery
+ *         owner: '0x90F79bf6EB2c4f870365E785982E1f101E93b906'
+ * phaseResponsibilities:
+ *   PRE_BUDGET: '07'
+ *   BUDGET_CALL: '07'
+ * ```
+ */
+export interface DeploymentFixture {
+  departments?: FixtureDepartment[];
+  /** Department code responsible for each phase, by phase name (e.g. "BUDGET_CALL") or number */
+  phaseResponsibilities?: Record<string, string>;
+}
+
+/**
+ * Addresses of a department in an address book
+ */
+export interface DeployedDepartment {
+  address: string;
+  mainAgency: string;
+  /** Agency addresses by agency code (including the main agency) */
+  agencies: Record<string, string>;
+}
+
+/**
+ * Addresses of a deployment, written out for tests and demos
+ *
+ * Pass it as `addresses` to a DBTCClient (or to `setContractAddresses`) to
+ * use the deployment.
+ */
+export interface AddressBook extends ContractAddresses {
+  chainId: number;
+  fiscalYear: number;
+  /** Owner of the DBTC contract */
+  owner: string;
+  departments: Record<string, DeployedDepartment>;
+  /** Department code responsible for each phase, by phase name */
+  phaseResponsibilities: Record<string, string>;
+}
+
+/**
+ * Deployment options
+ */
+export interface DeployOptions {
+  /** DBTC artifact (default: the build bundled with the SDK) */
+  artifact?: ContractArtifact;
+}
+
+/**
+ * Fixture options
+ */
+export interface ApplyFixtureOptions {
+  /** Signer (or private key) of the DBTC owner (default: the client's signer) */
+  signer?: SignerLike;
+  /**
+   * Signer of a department or agency owner named in the fixture (default: the
+   * node's unlocked account, as on anvil and hardhat)
+   */
+  getSigner?: (address: string) => SignerLike | Promise<SignerLike>;
+  /** Called before every transaction with what it does */
+  onStep?: (step: string) => void;
+}
+
+/**
+ * Options of deployWithFixture
+ */
+export interface DeployWithFixtureOptions extends DeployOptions, Omit<ApplyFixtureOptions, 'signer'> {
+  /** Chain mode of the returned client (default: 'testnet') */
+  chainMode?: ChainMode;
+}
+
+// ============ Deployment ============
+
+/**
+ * Deploy DBTC to a local node (anvil, hardhat); its constructor deploys the
+ * BudgetProposal contract
+ *
+ * The DBTC runtime code is larger than the EIP-170 limit, so start the node
+ * with `anvil --code-size-limit 40000` or hardhat's `allowUnlimitedContractSize`.
+ *
+ * @param signer Deployer, connected to the node (becomes the DBTC owner)
+ * @param options Deployment options
+ * @returns DBTC and BudgetProposal addresses
+ */
+export async function deployDBTC(signer: ethers.Signer, options: DeployOptions = {}): Promise<ContractAddresses> {
+  const artifact = options.artifact ?? DBTCArtifact;
+  if (!signer.provider) {
+    throw new Error('Deployer signer must be connected to a provider');
+  }
+
+  const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, signer);
+  let dbtc: ethers.BaseContract;
+  try {
+    dbtc = await factory.deploy();
+    await dbtc.waitForDeployment();
+  } catch (error) {
+    const size = artifact.deployedBytecode ? ethers.dataLength(artifact.deployedBytecode) : 0;
+    if (size > MAX_CODE_SIZE && error instanceof Error) {
+      error.message += ` (DBTC runtime code is ${size} bytes, above the ${MAX_CODE_SIZE}-byte limit: ` +
+        'raise the node\'s contract size limit)';
+    }
+    throw error;
+  }
+
+  const address = await dbtc.getAddress();
+  const budgetProposal: string = await dbtc.getFunction('budgetProposal')();
+  return { dbtc: address, budgetProposal };
+}
+
+/**
+ * Apply a fixture to a deployment: departments, agencies, House and Senate,
+ * document managers and phase responsibilities
+ *
+ * Entries that already exist on chain are skipped, so a fixture can be applied
+ * again after it was extended.
+ *
+ * @param client Client of the deployment
+ * @param fixture Registry to create
+ * @param options Signers and progress callback
+ * @returns Address book of the deployment
+ * @throws ValidationError if the fixture is malformed (nothing is sent)
+ */
+export async function applyFixture(
+  client: DBTCClient,
+  fixture: DeploymentFixture,
+  options: ApplyFixtureOptions = {}
+): Promise<AddressBook> {
+  const errors = validateFixture(fixture);
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+  const owner = client.getSigner(options.signer);
+  const ownerAddress = await owner.getAddress();
+  const step = options.onStep ?? (() => undefined);
+  const signerFor = async (address: string): Promise<SignerLike> => {
+    if (options.getSigner) {
+      return options.getSigner(address);
+    }
+    if (sameAddress(address, ownerAddress)) {
+      return owner;
+    }
+    if (client.provider instanceof ethers.JsonRpcApiProvider) {
+      return client.provider.getSigner(address);
+    }
+    throw new Error(`No signer for ${address}: pass getSigner`);
+  };
+
+  const departments: Record<string, DeployedDepartment> = {};
+  for (const department of fixture.departments ?? []) {
+    let address = await client.dbtc.getDepartment(department.code);
+    if (address === ethers.ZeroAddress) {
+      step(`Add department ${department.code} (${department.name})`);
+      const standalone = department.standalone ?? false;
+      const actual = department.actual ?? true;
+      const mainAgencyName = department.mainAgencyName ?? (standalone ? '' : DEFAULT_MAIN_AGENCY_NAME);
+      ({ departmentAddress: address } = standalone || !actual
+        ? await client.dbtc.addDepartment(department.code, department.name, mainAgencyName, department.owner, standalone, actual, owner)
+        : await client.dbtc.addRegularDepartment(department.code, department.name, mainAgencyName, department.owner, owner));
+    }
+
+    const departmentApi = client.department(address);
+    const departmentOwner = await signerFor(department.owner);
+    for (const agency of department.agencies ?? []) {
+      if (!(await departmentApi.isAgencyRegistered(agency.code))) {
+        step(`Add agency ${department.code}-${agency.code} (${agency.name})`);
+        await departmentApi.addAgency(agency.code, agency.name, agency.owner, departmentOwner);
+      }
+    }
+
+    const agencies: Record<string, string> = {};
+    for (const code of await departmentApi.getAgencyCodes()) {
+      agencies[code] = await departmentApi.getAgency(code);
+    }
+    const mainAgency = await departmentApi.getMainAgency();
+    if (mainAgency !== ethers.ZeroAddress) {
+      await addDocumentManagers(client, mainAgency, department.documentManagers, departmentOwner, step);
+    }
+    for (const agency of department.agencies ?? []) {
+      await addDocumentManagers(client, agencies[agency.code], agency.documentManagers, await signerFor(agency.owner), step);
+    }
+
+    if (department.house && department.senate) {
+      const house = agencies[department.house];
+      const senate = agencies[department.senate];
+      const [currentHouse, currentSenate] = await Promise.all([departmentApi.getHouseAgency(), departmentApi.getSenateAgency()]);
+      if (!sameAddress(currentHouse, house) || !sameAddress(currentSenate, senate)) {
+        step(`Set House (${department.house}) and Senate (${department.senate}) of department ${department.code}`);
+        await departmentApi.setHouseAndSenate(house, senate, departmentOwner);
+      }
+    }
+    departments[department.code] = { address, mainAgency, agencies };
+  }
+
+  for (const [key, deptCode] of Object.entries(fixture.phaseResponsibilities ?? {})) {
+    const phase = parsePhase(key)!;
+    if (!(await client.dbtc.isPhaseResponsible(deptCode, phase))) {
+      step(`Assign ${BudgetPhase[phase]} to department ${deptCode}`);
+      await client.dbtc.assignPhaseResponsibility(phase, deptCode, owner);
+    }
+  }
+
+  const phaseResponsibilities: Record<string, string> = {};
+  for (const phase of PHASES) {
+    const deptCode = await client.dbtc.getPhaseResponsibleDepartment(phase);
+    if (deptCode) {
+      phaseResponsibilities[BudgetPhase[phase]] = deptCode;
+    }
+  }
+  const { addresses } = client;
+  return {
+    chainId: Number((await client.provider.getNetwork()).chainId),
+    dbtc: addresses.dbtc,
+    budgetProposal: addresses.budgetProposal,
+    fiscalYear: await client.dbtc.getCurrentFiscalYear(),
+    owner: await client.dbtc.getOwner(),
+    departments,
+    phaseResponsibilities
+  };
+}
+
+/**
+ * Deploy DBTC to a local node and apply a fixture to it
+ *
+ * @example
+ * ```typescript
+ * const provider = new ethers.JsonRpcProvider('http://127.0.0.1:8545');
+ * const deployer = await provider.getSigner(0);
+ *
+ * const book = await deployWithFixture(deployer, await loadFixture('fixtures/fy2026.yaml'));
+ * await writeAddressBook('deployments/local.json', book);
+ *
+ * const client = new DBTCClient({ chainMode: 'testnet', provider, signer: deployer, addresses: book, batch: false });
+ * ```
+ *
+ * @param signer Deployer, connected to the node (becomes the DBTC owner)
+ * @param fixture Registry to create
+ * @param options Deployment and fixture options
+ * @returns Address book of the deployment
+ */
+export async function deployWithFixture(
+  signer: ethers.Signer,
+  fixture: DeploymentFixture,
+  options: DeployWithFixtureOptions = {}
+): Promise<AddressBook> {
+  // Check the fixture before deploying anything
+  const errors = validateFixture(fixture);
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+  const addresses = await deployDBTC(signer, options);
+  const provider = signer.provider!;
+  const chainMode = options.chainMode ?? 'testnet';
+  // Local nodes rarely have Multicall3
+  const batch = await provider.getCode(getNetworkConfig(chainMode).multicall3) !== '0x';
+  const client = new DBTCClient({ chainMode, provider, signer, addresses, batch });
+  return applyFixture(client, fixture, options);
+}
+
+async function addDocumentManagers(
+  client: DBTCClient,
+  agencyAddress: string,
+  managers: string[] | undefined,
+  signer: SignerLike,
+  step: (step: string) => void
+): Promise<void> {
+  const agency = client.agency(agencyAddress);
+  for (const manager of managers ?? []) {
+    if (!(await agency.isDocumentManager(manager))) {
+      step(`Add document manager ${manager} to agency ${agencyAddress}`);
+      await agency.addDocumentManager(manager, signer);
+    }
+  }
+}
+
+// ============ Fixtures and Address Books ============
+
+const PHASES = Object.values(BudgetPhase).filter((value): value is BudgetPhase => typeof value === 'number');
+
+function parsePhase(key: string): BudgetPhase | null {
+  const phase = /^\d+$/.test(key) ? Number(key) : BudgetPhase[key as keyof typeof BudgetPhase];
+  return PHASES.includes(phase) ? phase : null;
+}
+
+/**
+ * Check a fixture's shape before anything is sent
+ * @param fixture Parsed fixture
+ * @returns Errors per field (empty if valid)
+ */
+export function validateFixture(fixture: unknown): FieldError[] {
+  const errors: FieldError[] = [];
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  const text = (value: unknown, field: string) => {
+    if (value === undefined || value === '') {
+      errors.push({ field, code: 'REQUIRED', message: 'is required' });
+    } else if (typeof value !== 'string') {
+      errors.push({ field, code: 'INVALID_FORMAT', message: 'must be a string (quote codes such as \'01\')' });
+    }
+  };
+  const address = (value: unknown, field: string) => {
+    if (value === undefined || value === '') {
+      errors.push({ field, code: 'REQUIRED', message: 'is required' });
+    } else if (typeof value !== 'string' || !ethers.isAddress(value)) {
+      errors.push({ field, code: 'INVALID_FORMAT', message: `"${value}" is not an address` });
+    }
+  };
+  const addresses = (value: unknown, field: string) => {
+    if (value === undefined) {
+      return;
+    }
+    if (!Array.isArray(value)) {
+      errors.push({ field, code: 'INVALID_FORMAT', message: 'must be a list of addresses' });
+      return;
+    }
+    value.forEach((entry, i) => address(entry, `${field}[${i}]`));
+  };
+  const list = (value: unknown, field: string): unknown[] => {
+    if (value === undefined) {
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      errors.push({ field, code: 'INVALID_FORMAT', message: 'must be a list' });
+      return [];
+    }
+    return value;
+  };
+
+  if (!isObject(fixture)) {
+    return [{ field: 'fixture', code: 'INVALID_FORMAT', message: 'must be an object' }];
+  }
+  const seenDepartments = new Set<string>();
+  list(fixture.departments, 'departments').forEach((department, i) => {
+    const field = `departments[${i}]`;
+    if (!isObject(department)) {
+      errors.push({ field, code: 'INVALID_FORMAT', message: 'must be an object' });
+      return;
+    }
+    text(department.code, `${field}.code`);
+    text(department.name, `${field}.name`);
+    address(department.owner, `${field}.owner`);
+    addresses(department.documentManagers, `${field}.documentManagers`);
+    if (department.standalone === true && department.documentManagers !== undefined) {
+      errors.push({ field: `${field}.documentManagers`, code: 'INVALID_FORMAT', message: 'standalone entities have no main agency' });
+    }
+    if (seenDepartments.has(department.code as string)) {
+      errors.push({ field: `${field}.code`, code: 'DUPLICATE', message: `department ${department.code} is listed twice` });
+    }
+    seenDepartments.add(department.code as string);
+
+    const agencyCodes = new Set<string>();
+    list(department.agencies, `${field}.agencies`).forEach((agency, j) => {
+      const agencyField = `${field}.agencies[${j}]`;
+      if (!isObject(agency)) {
+        errors.push({ field: agencyField, code: 'INVALID_FORMAT', message: 'must be an object' });
+        return;
+      }
+      text(agency.code, `${agencyField}.code`);
+      text(agency.name, `${agencyField}.name`);
+      address(agency.owner, `${agencyField}.owner`);
+      addresses(agency.documentManagers, `${agencyField}.documentManagers`);
+      agencyCodes.add(agency.code as string);
+    });
+
+    if ((department.house === undefined) !== (department.senate === undefined)) {
+      errors.push({ field: `${field}.house`, code: 'REQUIRED', message: 'house and senate must be set together' });
+    }
+    for (const chamber of ['house', 'senate'] as const) {
+      const code = department[chamber];
+      if (code !== undefined && !agencyCodes.has(code as string)) {
+        errors.push({ field: `${field}.${chamber}`, code: 'INVALID_FORMAT', message: `agency ${code} is not listed in agencies` });
+      }
+    }
+  });
+
+  if (fixture.phaseResponsibilities !== undefined) {
+    if (!isObject(fixture.phaseResponsibilities)) {
+      errors.push({ field: 'phaseResponsibilities', code: 'INVALID_FORMAT', message: 'must map phase names to department codes' });
+    } else {
+      for (const [key, deptCode] of Object.entries(fixture.phaseResponsibilities)) {
+        if (parsePhase(key) === null) {
+          errors.push({ field: `phaseResponsibilities.${key}`, code: 'INVALID_PHASE', message: `"${key}" is not a budget phase` });
+        }
+        text(deptCode, `phaseResponsibilities.${key}`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Parse a fixture from JSON or YAML text
+ *
+ * YAML support covers what fixtures need: block mappings and lists, flow
+ * lists (`[a, b]`), quoted and plain scalars, and comments. Plain scalars with
+ * leading zeros (`07`, `001`) stay strings.
+ *
+ * @param text Fixture text
+ * @returns Fixture (not yet validated)
+ * @throws ValidationError if the text cannot be parsed
+ */
+export function parseFixture(text: string): DeploymentFixture {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch (error) {
+      throw new ValidationError([{ field: 'fixture', code: 'INVALID_FORMAT', message: `is not JSON (${(error as Error).message})` }]);
+    }
+  }
+  return (parseYaml(trimmed) ?? {}) as DeploymentFixture;
+}
+
+/**
+ * Read a fixture file (.json, .yaml or .yml)
+ * @param path File path
+ * @returns Fixture (not yet validated)
+ */
+export async function loadFixture(path: string): Promise<DeploymentFixture> {
+  return parseFixture(await fs.readFile(path, 'utf8'));
+}
+
+/**
+ * Write an address book as JSON
+ * @param path File path
+ * @param book Address book
+ */
+export async function writeAddressBook(path: string, book: AddressBook): Promise<void> {
+  const temporary = `${path}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(book, null, 2) + '\n');
+  await fs.rename(temporary, path);
+}
+
+/**
+ * Read an address book written by writeAddressBook
+ * @param path File path
+ * @returns Address book
+ */
+export async function readAddressBook(path: string): Promise<AddressBook> {
+  return JSON.parse(await fs.readFile(path, 'utf8'));
+}
+
+// ============ YAML ============
+
+interface YamlLine {
+  indent: number;
+  content: string;
+  number: number;
+}
+
+function yamlError(line: number, message: string): ValidationError {
+  return new ValidationError([{ field: 'fixture', code: 'INVALID_FORMAT', message: `line ${line}: ${message}` }]);
+}
+
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function yamlScalar(text: string, line: number): unknown {
+  const value = text.trim();
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw yamlError(line, `malformed string ${value}`);
+    }
+  }
+  if (value.startsWith('\'')) {
+    if (value.length < 2 || !value.endsWith('\'')) {
+      throw yamlError(line, `malformed string ${value}`);
+    }
+    return value.slice(1, -1).replace(/''/g, '\'');
+  }
+  if (value === '' || value === '~' || value === 'null') {
+    return null;
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+function splitFlow(text: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === ',') {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim()).filter((part) => part !== '');
+}
+
+function yamlValue(text: string, line: number): unknown {
+  const value = text.trim();
+  if (value.startsWith('[')) {
+    if (!value.endsWith(']')) {
+      throw yamlError(line, 'unterminated list');
+    }
+    return splitFlow(value.slice(1, -1)).map((item) => yamlScalar(item, line));
+  }
+  if (value.startsWith('{')) {
+    if (!value.endsWith('}')) {
+      throw yamlError(line, 'unterminated mapping');
+    }
+    const map: Record<string, unknown> = {};
+    for (const entry of splitFlow(value.slice(1, -1))) {
+      const match = /^(.+?):\s+(.*)$/.exec(entry);
+      if (!match) {
+        throw yamlError(line, `expected "key: value" in ${value}`);
+      }
+      map[String(yamlScalar(match[1], line))] = yamlScalar(match[2], line);
+    }
+    return map;
+  }
+  return yamlScalar(value, line);
+}
+
+/**
+ * Parse the block-style YAML subset used by fixtures
+ */
+function parseYaml(text: string): unknown {
+  const lines: YamlLine[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const content = stripComment(raw).trimEnd();
+    if (content.trim() === '' || content.trim() === '---') {
+      return;
+    }
+    const indent = content.search(/\S/);
+    if (content.slice(0, indent).includes('\t')) {
+      throw yamlError(i + 1, 'tabs are not allowed in indentation');
+    }
+    lines.push({ indent, content: content.slice(indent), number: i + 1 });
+  });
+  let pos = 0;
+  const isItem = (line: YamlLine) => line.content === '-' || line.content.startsWith('- ');
+
+  const parseBlock = (): unknown => (isItem(lines[pos]) ? parseList(lines[pos].indent) : parseMap(lines[pos].indent));
+
+  // Value of a key or list item whose content starts on the next line
+  const parseNested = (indent: number, allowList: boolean): unknown => {
+    const next = lines[pos];
+    if (next && (next.indent > indent || (allowList && next.indent === indent && isItem(next)))) {
+      return parseBlock();
+    }
+    return null;
+  };
+
+  const parseList = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    while (pos < lines.length && lines[pos].indent === indent && isItem(lines[pos])) {
+      const line = lines[pos];
+      const rest = line.content.slice(1).trimStart();
+      if (!rest) {
+        pos++;
+        items.push(parseNested(indent, false));
+      } else if (/^[^'"[{][^:]*:(\s|$)|^("[^"]*"|'[^']*'):(\s|$)/.test(rest)) {
+        // "- key: value" starts a mapping indented at the key
+        lines[pos] = { ...line, indent: indent + line.content.length - rest.length, content: rest };
+        items.push(parseMap(lines[pos].indent));
+      } else {
+        pos++;
+        items.push(yamlValue(rest, line.number));
+      }
+    }
+    return items;
+  };
+
+  const parseMap = (indent: number): Record<string, unknown> => {
+    const map: Record<string, unknown> = {};
+    while (pos < lines.length && lines[pos].indent === indent && !isItem(lines[pos])) {
+      const line = lines[pos];
+      const match = /^("[^"]*"|'[^']*'|[^'"][^:]*?)\s*:(?:\s+(.*))?$/.exec(line.content);
+      if (!match) {
+        throw yamlError(line.number, `expected "key: value", got "${line.content}"`);
+      }
+      const key = String(yamlScalar(match[1], line.number));
+      pos++;
+      map[key] = match[2] !== undefined && match[2].trim() !== '' ? yamlValue(match[2], line.number) : parseNested(indent, true);
+    }
+    return map;
+  };
+
+  if (lines.length === 0) {
+    return null;
+  }
+  const result = parseBlock();
+  if (pos < lines.length) {
+    throw yamlError(lines[pos].number, 'unexpected indentation');
+  }
+  return result;
+}
@@ -0,0 +1,462 @@
+import { ethers } from 'ethers';
+import { BudgetPhase, getPhaseName, PhaseAdvancePlan } from './types';
+import AgencyABI from './abis/Agency.json';
+import BudgetProposalABI from './abis/BudgetProposal.json';
+import DBTCABI from './abis/DBTC.json';
+import DepartmentABI from './abis/Department.json';
+
+/**
+ * Error codes for SDK errors
+ */
+export type DBTCErrorCode =
+  | 'ACTION_NOT_ALLOWED_IN_PHASE'
+  | 'CANNOT_ADVANCE_PHASE'
+  | 'INVALID_PHASE'
+  | 'NOT_PHASE_RESPONSIBLE'
+  | 'NOT_AUTHORIZED'
+  | 'NOT_OWNER'
+  | 'NOT_DOCUMENT_MANAGER'
+  | 'NOT_MAIN_AGENCY'
+  | 'NOT_STANDALONE_OWNER'
+  | 'NOT_CONGRESS_MAIN_AGENCY'
+  | 'NOT_HOUSE_OR_SENATE'
+  | 'OWNABLE_UNAUTHORIZED_ACCOUNT'
+  | 'ERC721_INCORRECT_OWNER'
+  | 'ERC721_INSUFFICIENT_APPROVAL'
+  | 'DEPARTMENT_ALREADY_EXISTS'
+  | 'AGENCY_ALREADY_EXISTS'
+  | 'DEPARTMENT_NOT_FOUND'
+  | 'INVALID_PROPOSAL_STATUS'
+  | 'PROPOSAL_NOT_FOUND'
+  | 'ERC721_NONEXISTENT_TOKEN'
+  | 'EMPTY_STRING'
+  | 'ZERO_ADDRESS'
+  | 'OWNABLE_INVALID_OWNER'
+  | 'ERC721_INVALID_ADDRESS'
+  | 'REVERTED'
+  | 'VALIDATION_FAILED'
+  | 'PHASE_NOT_READY'
+  | 'METADATA_NOT_FOUND'
+  | 'METADATA_MISMATCH'
+  | 'TRANSACTION_TIMEOUT'
+  | 'TRANSACTION_REPLACED'
+  | 'TRANSACTION_DROPPED'
+  | 'NO_SIGNER'
+  | 'UNKNOWN_CONTRACT_ERROR';
+
+/**
+ * Context used to build error messages
+ */
+export interface ErrorContext {
+  /** Budget phase the chain was in when the error occurred */
+  phase?: BudgetPhase;
+}
+
+/**
+ * Base class for all SDK errors
+ */
+export class DBTCError extends Error {
+  /** Machine-readable error code */
+  readonly code: DBTCErrorCode;
+  /** Name of the contract error (e.g. "ActionNotAllowedInPhase") */
+  readonly errorName?: string;
+  /** Decoded contract error arguments */
+  readonly args: readonly unknown[];
+  /** Raw revert data */
+  readonly data?: string;
+
+  constructor(
+    code: DBTCErrorCode,
+    message: string,
+    details: { errorName?: string; args?: readonly unknown[]; data?: string; cause?: unknown } = {}
+  ) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.code = code;
+    this.errorName = details.errorName;
+    this.args = details.args ?? [];
+    this.data = details.data;
+  }
+}
+
+/**
+ * Action attempted in the wrong budget phase
+ */
+export class PhaseError extends DBTCError {
+  /** Phase the chain was in, if known */
+  phase?: BudgetPhase;
+}
+
+/**
+ * Phase transition refused because its readiness plan has blockers
+ */
+export class PhaseReadinessError extends PhaseError {
+  /** Plan with the blockers */
+  readonly plan: PhaseAdvancePlan;
+
+  constructor(plan: PhaseAdvancePlan) {
+    super('PHASE_NOT_READY', `Not ready to leave ${plan.fromPhaseName}: ${plan.blockers.map((item) => item.message).join('; ')}`);
+    this.phase = plan.fromPhase;
+    this.plan = plan;
+  }
+}
+
+/**
+ * Caller lacks the role required for the action
+ */
+export class PermissionError extends DBTCError {}
+
+/**
+ * Department or agency registry conflict
+ */
+export class RegistryError extends DBTCError {}
+
+/**
+ * Proposal does not exist or is in the wrong state
+ */
+export class ProposalError extends DBTCError {}
+
+/**
+ * Contract rejected an argument (empty string, zero address, ...)
+ */
+export class InvalidArgumentError extends DBTCError {}
+
+/**
+ * Problem with one input field, found before sending
+ */
+export interface FieldError {
+  /** Field name (e.g. "uacsObjCode") */
+  field: string;
+  /** Machine-readable rule code (e.g. "INVALID_FORMAT") */
+  code: string;
+  message: string;
+}
+
+/**
+ * Input rejected by client-side validation (nothing was signed or sent)
+ */
+export class ValidationError extends DBTCError {
+  /** Errors per field */
+  readonly fieldErrors: FieldError[];
+
+  constructor(fieldErrors: FieldError[]) {
+    super('VALIDATION_FAILED', fieldErrors.map((error) => `${error.field}: ${error.message}`).join('; '));
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * Metadata document missing, or its contents do not match its URI
+ */
+export class MetadataError extends DBTCError {}
+
+/**
+ * Transaction not sent (no signer) or not confirmed: timed out, replaced by
+ * another transaction or dropped
+ */
+export class TransactionError extends DBTCError {
+  /** Hash of the last transaction sent for the nonce */
+  readonly txHash?: string;
+
+  constructor(code: DBTCErrorCode, message: string, txHash?: string) {
+    super(code, message);
+    this.txHash = txHash;
+  }
+}
+
+type ErrorClass = new (
+  code: DBTCErrorCode,
+  message: string,
+  details?: { errorName?: string; args?: readonly unknown[]; data?: string; cause?: unknown }
+) => DBTCError;
+
+interface ErrorDefinition {
+  code: DBTCErrorCode;
+  type: ErrorClass;
+  message: (args: readonly unknown[], context: ErrorContext) => string;
+}
+
+const phaseSuffix = (prefix: string, context: ErrorContext): string =>
+  context.phase !== undefined ? ` ${prefix} ${getPhaseName(context.phase)}` : '';
+
+/**
+ * Custom errors declared by the DBTC contracts
+ */
+const CONTRACT_ERRORS: Record<string, ErrorDefinition> = {
+  ActionNotAllowedInPhase: {
+    code: 'ACTION_NOT_ALLOWED_IN_PHASE',
+    type: PhaseError,
+    message: (_, ctx) => ctx.phase !== undefined
+      ? `Action not allowed in phase ${getPhaseName(ctx.phase)}`
+      : 'Action not allowed in the current phase'
+  },
+  CannotAdvancePhase: {
+    code: 'CANNOT_ADVANCE_PHASE',
+    type: PhaseError,
+    message: (_, ctx) => `Cannot advance phase${phaseSuffix('from', ctx)}`
+  },
+  InvalidPhase: {
+    code: 'INVALID_PHASE',
+    type: PhaseError,
+    message: () => 'Invalid budget phase'
+  },
+  NotPhaseResponsible: {
+    code: 'NOT_PHASE_RESPONSIBLE',
+    type: PermissionError,
+    message: () => 'Caller is not the department responsible for this phase'
+  },
+  NotAuthorized: {
+    code: 'NOT_AUTHORIZED',
+    type: PermissionError,
+    message: () => 'Caller is not authorized to perform this action'
+  },
+  NotOwner: {
+    code: 'NOT_OWNER',
+    type: PermissionError,
+    message: () => 'Caller is not the agency owner'
+  },
+  NotDocumentManager: {
+    code: 'NOT_DOCUMENT_MANAGER',
+    type: PermissionError,
+    message: () => 'Caller is not the owner or a document manager of this agency'
+  },
+  NotMainAgency: {
+    code: 'NOT_MAIN_AGENCY',
+    type: PermissionError,
+    message: () => 'Caller is not the main agency owner of this department'
+  },
+  NotStandaloneOwner: {
+    code: 'NOT_STANDALONE_OWNER',
+    type: PermissionError,
+    message: () => 'Caller is not the owner of this standalone entity'
+  },
+  NotCongressMainAgency: {
+    code: 'NOT_CONGRESS_MAIN_AGENCY',
+    type: PermissionError,
+    message: () => 'Only the Congress main agency can perform this action'
+  },
+  NotHouseOrSenate: {
+    code: 'NOT_HOUSE_OR_SENATE',
+    type: PermissionError,
+    message: () => 'Only the House or Senate agency can perform this action'
+  },
+  OwnableUnauthorizedAccount: {
+    code: 'OWNABLE_UNAUTHORIZED_ACCOUNT',
+    type: PermissionError,
+    message: ([account]) => `Account ${account} is not the contract owner`
+  },
+  ERC721IncorrectOwner: {
+    code: 'ERC721_INCORRECT_OWNER',
+    type: PermissionError,
+    message: ([sender, tokenId, owner]) => `${sender} is not the owner of token ${tokenId} (owner: ${owner})`
+  },
+  ERC721InsufficientApproval: {
+    code: 'ERC721_INSUFFICIENT_APPROVAL',
+    type: PermissionError,
+    message: ([operator, tokenId]) => `${operator} is not approved for token ${tokenId}`
+  },
+  DepartmentAlreadyExists: {
+    code: 'DEPARTMENT_ALREADY_EXISTS',
+    type: RegistryError,
+    message: () => 'A department with this code already exists'
+  },
+  AgencyAlreadyExists: {
+    code: 'AGENCY_ALREADY_EXISTS',
+    type: RegistryError,
+    message: () => 'An agency with this code already exists in the department'
+  },
+  DepartmentNotFound: {
+    code: 'DEPARTMENT_NOT_FOUND',
+    type: RegistryError,
+    message: () => 'Department not found'
+  },
+  InvalidProposalStatus: {
+    code: 'INVALID_PROPOSAL_STATUS',
+    type: ProposalError,
+    message: () => 'Proposal status does not allow this action'
+  },
+  ProposalNotFound: {
+    code: 'PROPOSAL_NOT_FOUND',
+    type: ProposalError,
+    message: () => 'Proposal not found'
+  },
+  ERC721NonexistentToken: {
+    code: 'ERC721_NONEXISTENT_TOKEN',
+    type: ProposalError,
+    message: ([tokenId]) => `Proposal token ${tokenId} does not exist`
+  },
+  EmptyString: {
+    code: 'EMPTY_STRING',
+    type: InvalidArgumentError,
+    message: () => 'A required string argument is empty'
+  },
+  ZeroAddress: {
+    code: 'ZERO_ADDRESS',
+    type: InvalidArgumentError,
+    message: () => 'Address must not be the zero address'
+  },
+  OwnableInvalidOwner: {
+    code: 'OWNABLE_INVALID_OWNER',
+    type: InvalidArgumentError,
+    message: ([owner]) => `Invalid owner address ${owner}`
+  },
+  ERC721InvalidApprover: {
+    code: 'ERC721_INVALID_ADDRESS',
+    type: InvalidArgumentError,
+    message: ([address]) => `Invalid approver ${address}`
+  },
+  ERC721InvalidOperator: {
+    code: 'ERC721_INVALID_ADDRESS',
+    type: InvalidArgumentError,
+    message: ([address]) => `Invalid operator ${address}`
+  },
+  ERC721InvalidOwner: {
+    code: 'ERC721_INVALID_ADDRESS',
+    type: InvalidArgumentError,
+    message: ([address]) => `Invalid token owner ${address}`
+  },
+  ERC721InvalidReceiver: {
+    code: 'ERC721_INVALID_ADDRESS',
+    type: InvalidArgumentError,
+    message: ([address]) => `Invalid token receiver ${address}`
+  },
+  ERC721InvalidSender: {
+    code: 'ERC721_INVALID_ADDRESS',
+    type: InvalidArgumentError,
+    message: ([address]) => `Invalid token sender ${address}`
+  }
+};
+
+/**
+ * Interface holding every custom error of the four DBTC contracts
+ */
+const errorInterface = (() => {
+  const seen = new Set<string>();
+  const fragments: ethers.ErrorFragment[] = [];
+  for (const abi of [AgencyABI.abi, BudgetProposalABI.abi, DBTCABI.abi, DepartmentABI.abi]) {
+    for (const item of abi) {
+      if (item.type !== 'error') continue;
+      const fragment = ethers.ErrorFragment.from(item);
+      if (!seen.has(fragment.selector)) {
+        seen.add(fragment.selector);
+        fragments.push(fragment);
+      }
+    }
+  }
+  return new ethers.Interface(fragments);
+})();
+
+/**
+ * Find revert data in an ethers error (or nested provider error)
+ */
+function extractRevertData(error: unknown, depth = 0): string | undefined {
+  if (!error || typeof error !== 'object' || depth > 5) return undefined;
+  const { data, result, error: inner, info } = error as {
+    data?: unknown;
+    result?: unknown;
+    error?: unknown;
+    info?: { error?: unknown };
+  };
+  // Ganache reports revert data as `{ data: { result } }`
+  for (const candidate of [data, result]) {
+    if (typeof candidate === 'string' && ethers.isHexString(candidate) && candidate.length >= 10) {
+      return candidate;
+    }
+  }
+  if (data && typeof data === 'object') {
+    const nested = extractRevertData(data, depth + 1);
+    if (nested) return nested;
+  }
+  return extractRevertData(inner, depth + 1) ?? extractRevertData(info?.error, depth + 1);
+}
+
+/**
+ * Decode raw revert data into an SDK error
+ * @param data Revert data (hex)
+ * @param context Extra context for the message (e.g. current phase)
+ * @param cause Original error
+ * @returns Decoded error
+ */
+export function decodeRevertData(data: string, context: ErrorContext = {}, cause?: unknown): DBTCError {
+  let parsed: ethers.ErrorDescription | null = null;
+  try {
+    parsed = errorInterface.parseError(data);
+  } catch { /* not a DBTC custom error */ }
+
+  if (parsed) {
+    const definition = CONTRACT_ERRORS[parsed.name];
+    const args = [...parsed.args];
+    if (definition) {
+      const error = new definition.type(definition.code, definition.message(args, context), {
+        errorName: parsed.name,
+        args,
+        data,
+        cause
+      });
+      if (error instanceof PhaseError) {
+        error.phase = context.phase;
+      }
+      return error;
+    }
+  }
+
+  // Error(string) and Panic(uint256)
+  try {
+    const result = ethers.AbiCoder.getBuiltinCallException('call', {}, data);
+    if (result.reason) {
+      return new DBTCError('REVERTED', result.reason, { errorName: result.revert?.name, data, cause });
+    }
+  } catch { /* fall through */ }
+
+  return new DBTCError('UNKNOWN_CONTRACT_ERROR', `Contract reverted with unknown error (${data.slice(0, 10)})`, {
+    data,
+    cause
+  });
+}
+
+/**
+ * Decode a contract error thrown by ethers
+ * @param error Error thrown by a contract call, estimate or transaction
+ * @param context Extra context for the message (e.g. current phase)
+ * @returns Decoded error, or null if the error is not a contract revert
+ */
+export function decodeContractError(error: unknown, context: ErrorContext = {}): DBTCError | null {
+  if (error instanceof DBTCError) {
+    return error.data ? decodeRevertData(error.data, context, (error.cause ?? error)) : error;
+  }
+  const data = extractRevertData(error);
+  if (data) {
+    return decodeRevertData(data, context, error);
+  }
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    return new DBTCError('REVERTED', error.reason || 'Transaction reverted', { cause: error });
+  }
+  return null;
+}
+
+/**
+ * Run a contract interaction and rethrow contract reverts as SDK errors
+ * @param action Contract interaction
+ * @param getPhase Resolves the current phase for phase-related messages
+ * @returns Result of the action
+ */
+export async function withContractErrors<T>(
+  action: () => Promise<T>,
+  getPhase?: () => Promise<BudgetPhase>
+): Promise<T> {
+  try {
+    return await action();
+  } catch (error) {
+    let decoded = decodeContractError(error);
+    if (!decoded) {
+      throw error;
+    }
+    if (decoded instanceof PhaseError && decoded.phase === undefined && getPhase) {
+      const phase = await getPhase().catch(() => undefined);
+      if (phase !== undefined) {
+        decoded = decodeContractError(decoded, { phase }) ?? decoded;
+      }
+    }
+    throw decoded;
+  }
+}
@@ -0,0 +1,745 @@
+import { ethers } from 'ethers';
+import type { DBTCClient } from './client';
+import { getDefaultClient } from './client';
+import {
+  BudgetPhase,
+  ProposalStatus,
+  EventMeta,
+  PhaseAdvancedEvent,
+  BudgetCycleStartedEvent,
+  PhaseResponsibilityAssignedEvent,
+  DepartmentAddedEvent,
+  AgencyAddedEvent,
+  HouseAndSenateSetEvent,
+  ProposalSubmittedEvent,
+  ProposalRevisionEvent,
+  ProposalMintedEvent,
+  ProposalStatusChangedEvent,
+  RevisionCreatedEvent,
+  SubscriptionOptions,
+  EventSubscription
+} from './types';
+import DBTCABI from './abis/DBTC.json';
+import DepartmentABI from './abis/Department.json';
+import AgencyABI from './abis/Agency.json';
+import BudgetProposalABI from './abis/BudgetProposal.json';
+
+const DEFAULT_POLLING_INTERVAL = 4000;
+const DEFAULT_CONFIRMATIONS = 2;
+const DEFAULT_MAX_BLOCK_RANGE = 2000;
+const MAX_BACKOFF = 60000;
+
+const dbtcInterface = new ethers.Interface(DBTCABI.abi);
+const departmentInterface = new ethers.Interface(DepartmentABI.abi);
+const agencyInterface = new ethers.Interface(AgencyABI.abi);
+const proposalInterface = new ethers.Interface(BudgetProposalABI.abi);
+
+/**
+ * Returns the decoded payload, or null to skip the log
+ */
+type LogDecoder<T> = (args: ethers.Result, meta: EventMeta) => Promise<T | null>;
+
+/**
+ * Subscription definition
+ */
+interface LogQuery<T> {
+  iface: ethers.Interface;
+  event: string;
+  /** Values for the indexed event arguments (null matches any) */
+  indexed?: unknown[];
+  address: () => string | Promise<string>;
+  decode: LogDecoder<T>;
+}
+
+/**
+ * Polls getLogs for one event and delivers decoded payloads in order
+ *
+ * Progress is tracked per log, so after an RPC failure polling resumes from
+ * the last delivered event without gaps or duplicates.
+ */
+class LogSubscription<T> implements EventSubscription {
+  private active = true;
+  private failures = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextBlock: number | null;
+  private lastDelivered: { blockNumber: number; index: number } | null = null;
+  private address: string | null = null;
+  private _lastBlock: number | null = null;
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    private readonly query: LogQuery<T>,
+    private readonly callback: (event: T) => void | Promise<void>,
+    private readonly options: SubscriptionOptions = {}
+  ) {
+    this.nextBlock = options.fromBlock ?? null;
+    this.schedule(0);
+  }
+
+  get lastBlock(): number | null {
+    return this._lastBlock;
+  }
+
+  unsubscribe(): void {
+    this.active = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (!this.active) {
+      return;
+    }
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+        this.failures = 0;
+      } catch (error) {
+        this.failures++;
+        this.reportError(error);
+      }
+      const interval = this.options.pollingInterval ?? DEFAULT_POLLING_INTERVAL;
+      this.schedule(Math.min(interval * 2 ** this.failures, Math.max(interval, MAX_BACKOFF)));
+    }, delay);
+    if (this.options.keepAlive === false) {
+      (this.timer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  private async poll(): Promise<void> {
+    const { iface, event, indexed = [] } = this.query;
+    if (!this.address) {
+      this.address = await this.query.address();
+    }
+
+    const head = await this.provider.getBlockNumber() - (this.options.confirmations ?? DEFAULT_CONFIRMATIONS);
+    if (this.nextBlock === null) {
+      // Start after the current head
+      this.nextBlock = head + 1;
+      this._lastBlock = head;
+    }
+
+    const topics = iface.encodeFilterTopics(event, indexed);
+    const maxRange = this.options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+
+    while (this.active && this.nextBlock <= head) {
+      const fromBlock = this.nextBlock;
+      const toBlock = Math.min(head, fromBlock + maxRange - 1);
+      const logs = await this.provider.getLogs({ address: this.address, topics, fromBlock, toBlock });
+
+      for (const log of logs) {
+        if (!this.active) {
+          return;
+        }
+        if (this.isDelivered(log)) {
+          continue;
+        }
+        await this.deliver(log);
+        this.lastDelivered = { blockNumber: log.blockNumber, index: log.index };
+      }
+
+      this._lastBlock = toBlock;
+      this.nextBlock = toBlock + 1;
+    }
+  }
+
+  private isDelivered(log: ethers.Log): boolean {
+    const last = this.lastDelivered;
+    return !!last && (log.blockNumber < last.blockNumber ||
+      (log.blockNumber === last.blockNumber && log.index <= last.index));
+  }
+
+  /**
+   * Decode and hand a log to the callback; decoding errors propagate (and are
+   * retried), callback errors are only reported
+   */
+  private async deliver(log: ethers.Log): Promise<void> {
+    const parsed = this.query.iface.parseLog(log);
+    if (!parsed) {
+      return;
+    }
+    const payload = await this.query.decode(parsed.args, {
+      address: log.address,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index
+    });
+    if (payload === null) {
+      return;
+    }
+    try {
+      await this.callback(payload);
+    } catch (error) {
+      this.reportError(error);
+    }
+  }
+
+  /**
+   * Hand an error to `onError`; an error thrown by the handler itself is
+   * dropped so polling carries on
+   */
+  private reportError(error: unknown): void {
+    if (!this.options.onError) {
+      return;
+    }
+    try {
+      this.options.onError(error instanceof Error ? error : new Error(String(error)));
+    } catch {
+      // Nothing left to report to
+    }
+  }
+}
+
+/**
+ * Event subscription API
+ *
+ * Obtain through `client.events`. Subscriptions poll the provider, so they
+ * survive RPC drops and pick up where they left off.
+ *
+ * @example
+ * ```typescript
+ * const sub = client.events.onPhaseAdvanced((event) => {
+ *   console.log(`${getPhaseName(event.fromPhase)} -> ${getPhaseName(event.toPhase)}`);
+ * });
+ * // later
+ * sub.unsubscribe();
+ * ```
+ */
+export class EventsApi {
+  /** Department codes by keccak256 hash, for indexed string arguments */
+  private departmentCodes = new Map<string, string>();
+  /** Agency holding each proposal token */
+  private tokenAgencies = new Map<string, string>();
+
+  constructor(private readonly client: DBTCClient) {}
+
+  private subscribe<T>(
+    query: LogQuery<T>,
+    callback: (event: T) => void | Promise<void>,
+    options?: SubscriptionOptions
+  ): EventSubscription {
+    return new LogSubscription(this.client.provider, query, callback, options);
+  }
+
+  private readonly dbtcAddress = () => this.client.dbtc.address;
+  private readonly proposalAddress = () => this.client.proposals.getAddress();
+
+  /**
+   * Resolve a department code from its hash (indexed string event argument)
+   */
+  private async resolveDepartmentCode(hash: string): Promise<string | null> {
+    if (!this.departmentCodes.has(hash)) {
+      for (const code of await this.client.dbtc.getDepartmentCodes()) {
+        this.departmentCodes.set(ethers.id(code), code);
+      }
+    }
+    return this.departmentCodes.get(hash) ?? null;
+  }
+
+  /**
+   * Agency holding a proposal token (tokens stay with the submitting agency)
+   */
+  private async resolveTokenAgency(tokenId: bigint): Promise<string> {
+    const key = tokenId.toString();
+    let agency = this.tokenAgencies.get(key);
+    if (!agency) {
+      agency = await this.client.proposals.getAgency(tokenId);
+      this.tokenAgencies.set(key, agency);
+    }
+    return agency;
+  }
+
+  // ============ DBTC Events ============
+
+  /**
+   * Subscribe to new budget cycles
+   * @param callback Called with each BudgetCycleStarted event
+   * @param options Subscription options
+   * @returns Subscription handle
+   */
+  onBudgetCycleStarted(
+    callback: (event: BudgetCycleStartedEvent) => void | Promise<void>,
+    options?: SubscriptionOptions
+  ): EventSubscription {
+    return this.subscribe({
+      iface: dbtcInterface,
+      event: 'BudgetCycleStarted',
+      address: this.dbtcAddress,
+      decode: async (args, meta) => ({ ...meta, fiscalYear: Number(args.fiscalYear) })
+    }, callback, options);
+  }
+
+  /**
+   * Subscribe to phase advances
+   * @param callback Called with each PhaseAdvanced event
+   * @param options Subscription options
+   * @returns Subscription handle
+   */
+  onPhaseAdvanced(
+    callback: (event: PhaseAdvancedEvent) => void | Promise<void>,
+    options?: SubscriptionOptions
+  ): EventSubscription {
+    return this.subscribe({
+      iface: dbtcInterface,
+      event: 'PhaseAdvanced',
+      address: this.dbtcAddress,
+      decode: async (args, meta) => ({
+        ...meta,
+        fromPhase: Number(args.fromPhase) as BudgetPhase,
+        toPhase: Number(args.toPhase) as BudgetPhase,
+        fiscalYear: Number(args.fiscalYear)
+      })
+    }, callback, options);
+  }
+
+  /**
+   * Subscribe to phase responsibility assignments
+   * @param callback Called with each PhaseResponsibilityAssigned event
+   * @param options Subscription options
+   * @returns Subscription handle
+   */
+  onPhaseResponsibilityAssigned(
+    callback: (event: PhaseResponsibilityAssignedEvent) => void | Promise<void>,
+    options?: SubscriptionOptions
+  ): EventSubscription {
+    return this.subscribe({
+      iface: dbtcInterface,
+      event: 'PhaseResponsibilityAssigned',
+      address: this.dbtcAddress,
+      decode: async (args, meta) => ({
+        ...meta,
+        phase: Number(args.phase) as BudgetPhase,
+        deptCode: await this.resolveDepartmentCode(args.deptCode.hash)
+      })
+    }, callback, options);
+  }
+
+  /**
+   * Subscribe to new departments
+   * @param callback Called with each DepartmentAdded event
+   * @param options Subscription options
+   * @returns Subscription handle
+   */
+  onDepartmentAdded(
+    callback: (event: DepartmentAddedEvent) => void | Promise<void>,
+    options?: SubscriptionOptions
+  ): EventSubscription {
+    return this.subscribe({
+      iface: dbtcInterface,
+      event: 'DepartmentAdded',
+      address: this.dbtcAddress,
+      decode: async (args, meta) => {
+        const { code } = await this.client.department(args.departmentContract).getInfo();
+        this.departmentCodes.set(ethers.id(code), code);
+        return { ...meta, code, name: args.name, departmentAddress: args.departmentContract };
+      }
+    }, callback, options);
+  }
+
+  // ============ Department Events ============
+
+  /**
+   * Subscribe to new agencies of a department
+   * @param departmentAddress Address of the department contract
+   * @param callback Called with each AgencyAdded event
+   * @param options Subscription options
+   * @returns Subscription handle
+   */
+  onAgencyAdded(
+    departmentAddress: string,
+    callback: (event: AgencyAddedEvent) => void | Promise<void>,
+    options?: SubscriptionOptions
+  ): EventSubscription {
+    return this.subscribe({
+      iface: departmentInterface,
+      event: 'AgencyAdded',
+      address: () => departmentAddress,
+      decode: async (args, meta) => {
+        const { code } = await this.client.agency(args.agencyContract).getInfo();
+        return {
+          ...meta,
+          departmentAddress: meta.address,
+          code,
+          name: args.name,
+          agencyAddress: args.agencyContract
+        };
+      }
+    }, callback, options);
+  }
+
+  /**
+   * Subscribe to House and Senate assignments of the Congress department
+   * @param departmentAddress Address of the Congress department
+   * @param callback Called with each HouseAndSenateSet event
+   * @param options Subscription options
+   * @returns Subscription handle
+   */
+  onHouseAndSenateSet(
+    departmentAddress: string,
+    callback: (event: HouseAndSenateSetEvent) => void | Promise<void>,
+    options?: SubscriptionOptions
+  ): EventSubscription {
+    return this.subscribe({
+      iface: departmentInterface,
+      event: 'HouseAndSenateSet',
+      address: () => departmentAddress,
+      decode: async (args, meta) => ({
+        ...meta,
+        departmentAddress: meta.address,
+        house: args.house,
+        senate: args.senate
+      })
+    }, callback, options);
+  }
+
+  // ============ Agency Events ============
+
+  /**
+   * Subscribe to proposals submitted by an agency
+   * @param agencyAddress Address of the agency contract
+   * @param callback Called with each ProposalSubmitted event
+   * @param options Subscription options
+   * @returns Subscription handle
+   */
+  onProposalSubmitted(
+    agencyAddress: string,
+    callback: (event: ProposalSubmittedEvent) => void | Promise<void>,
+    options?: SubscriptionOptions
+  ): EventSubscription {
+    return this.subscribe({
+      iface: agencyInterface,
+      event: 'ProposalSubmitted',
+      address: () => agencyAddress,
+      decode: async (args, meta) => ({
+        ...meta,
+        agencyAddress: meta.address,
+        tokenId: args.tokenId,
+        submitter: args.submitter
+      })
+    }, callback, options);
+  }
+
+  /**
+   * Subscribe to proposals revised by an agency
+   * @param agencyAddress Address of the agency contract
+   * @param callback Called with each ProposalRevised event
+   * @param options Subscription options
+   * @returns Subscription handle
+   */
+  onProposalRevised(
+    agencyAddress: string,
+    callback: (event: ProposalRevisionEvent) => void | Promise<void>,
+    options?: SubscriptionOptions
+  ): EventSubscription {
+    return this.onAgencyRevision('ProposalRevised', agencyAddress, callback, options);
+  }
+
+  /**
+   * Subscribe to proposals amended by an agency
+   * @param agencyAddress Address of the agency contract
+   * @param callback Called with each ProposalAmended event
+   * @param options Subscription options
+   * @returns Subscription handle
+   */
+  onProposalAmended(
+    agencyAddress: string,
+    callback: (event: ProposalRevisionEvent) => void | Promise<void>,
+    options?: SubscriptionOptions
+  ): EventSubscription {
+    return this.onAgencyRevision('ProposalAmended', agencyAddress, callback, options);
+  }
+
+  private onAgencyRevision(
+    event: 'ProposalRevised' | 'ProposalAmended',
+    agencyAddress: string,
+    callback: (event: ProposalRevisionEvent) => void | Promise<void>,
+    options?: SubscriptionOptions
+  ): EventSubscription {
+    return this.subscribe({
+      iface: agencyInterface,
+      event,
+      address: () => agencyAddress,
+      decode: async (args, meta) => ({
+        ...meta,
+        agencyAddress: meta.address,
+        originalTokenId: args.originalTokenId,
+        newTokenId: args.newTokenId
+      })
+    }, callback, options);
+  }
+
+  // ============ BudgetProposal Events ============
+
+  /**
+   * Subscribe to minted proposals
+   * @param filter Only deliver proposals minted to this agency (optional)
+   * @param callback Called with each ProposalMinted event
+   * @param options Subscription options
+   * @returns Subscription handle
+   */
+  onProposalMinted(
+    filter: { agency?: string },
+    callback: (event: ProposalMintedEvent) => void | Promise<void>,
+    options?: SubscriptionOptions
+  ): EventSubscription {
+    return this.subscribe({
+      iface: proposalInterface,
+      event: 'ProposalMinted',
+      indexed: [null, filter.agency ?? null],
+      address: this.proposalAddress,
+      decode: async (args, meta) => {
+        this.tokenAgencies.set(args.tokenId.toString(), args.agency);
+        return {
+          ...meta,
+          tokenId: args.tokenId,
+          agencyAddress: args.agency,
+          fiscalYear: Number(args.fiscalYear),
+          status: Number(args.status) as ProposalStatus
+        };
+      }
+    }, callback, options);
+  }
+
+  /**
+   * Subscribe to proposal status changes
+   * @param filter Only deliver changes of this token and/or of proposals held by this agency (optional)
+   * @param callback Called with each ProposalStatusChanged event
+   * @param options Subscription options
+   * @returns Subscription handle
+   */
+  onProposalStatusChanged(
+    filter: { agency?: string; tokenId?: bigint | number },
+    callback: (event: ProposalStatusChangedEvent) => void | Promise<void>,
+    options?: SubscriptionOptions
+  ): EventSubscription {
+    return this.subscribe({
+      iface: proposalInterface,
+      event: 'ProposalStatusChanged',
+      indexed: [filter.tokenId ?? null],
+      address: this.proposalAddress,
+      decode: async (args, meta) => {
+        if (filter.agency) {
+          const agency = await this.resolveTokenAgency(args.tokenId);
+          if (agency.toLowerCase() !== filter.agency.toLowerCase()) {
+            return null;
+          }
+        }
+        return {
+          ...meta,
+          tokenId: args.tokenId,
+          oldStatus: Number(args.oldStatus) as ProposalStatus,
+          newStatus: Number(args.newStatus) as ProposalStatus
+        };
+      }
+    }, callback, options);
+  }
+
+  /**
+   * Subscribe to proposal revisions and amendments
+   * @param filter Only deliver revisions of this token (optional)
+   * @param callback Called with each RevisionCreated event
+   * @param options Subscription options
+   * @returns Subscription handle
+   */
+  onRevisionCreated(
+    filter: { originalTokenId?: bigint | number },
+    callback: (event: RevisionCreatedEvent) => void | Promise<void>,
+    options?: SubscriptionOptions
+  ): EventSubscription {
+    return this.subscribe({
+      iface: proposalInterface,
+      event: 'RevisionCreated',
+      indexed: [filter.originalTokenId ?? null],
+      address: this.proposalAddress,
+      decode: async (args, meta) => ({
+        ...meta,
+        originalTokenId: args.originalTokenId,
+        newTokenId: args.newTokenId,
+        action: Number(args.action) as ProposalStatus,
+        reason: args.reason
+      })
+    }, callback, options);
+  }
+}
+
+// ============ DBTC Events ============
+
+/**
+ * Subscribe to new budget cycles
+ * @param callback Called with each BudgetCycleStarted event
+ * @param options Subscription options
+ * @returns Subscription handle
+ */
+export function onBudgetCycleStarted(
+  callback: (event: BudgetCycleStartedEvent) => void | Promise<void>,
+  options?: SubscriptionOptions
+): EventSubscription {
+  return getDefaultClient().events.onBudgetCycleStarted(callback, options);
+}
+
+/**
+ * Subscribe to phase advances
+ * @param callback Called with each PhaseAdvanced event
+ * @param options Subscription options
+ * @returns Subscription handle
+ */
+export function onPhaseAdvanced(
+  callback: (event: PhaseAdvancedEvent) => void | Promise<void>,
+  options?: SubscriptionOptions
+): EventSubscription {
+  return getDefaultClient().events.onPhaseAdvanced(callback, options);
+}
+
+/**
+ * Subscribe to phase responsibility assignments
+ * @param callback Called with each PhaseResponsibilityAssigned event
+ * @param options Subscription options
+ * @returns Subscription handle
+ */
+export function onPhaseResponsibilityAssigned(
+  callback: (event: PhaseResponsibilityAssignedEvent) => void | Promise<void>,
+  options?: SubscriptionOptions
+): EventSubscription {
+  return getDefaultClient().events.onPhaseResponsibilityAssigned(callback, options);
+}
+
+/**
+ * Subscribe to new departments
+ * @param callback Called with each DepartmentAdded event
+ * @param options Subscription options
+ * @returns Subscription handle
+ */
+export function onDepartmentAdded(
+  callback: (event: DepartmentAddedEvent) => void | Promise<void>,
+  options?: SubscriptionOptions
+): EventSubscription {
+  return getDefaultClient().events.onDepartmentAdded(callback, options);
+}
+
+// ============ Department Events ============
+
+/**
+ * Subscribe to new agencies of a department
+ * @param departmentAddress Address of the department contract
+ * @param callback Called with each AgencyAdded event
+ * @param options Subscription options
+ * @returns Subscription handle
+ */
+export function onAgencyAdded(
+  departmentAddress: string,
+  callback: (event: AgencyAddedEvent) => void | Promise<void>,
+  options?: SubscriptionOptions
+): EventSubscription {
+  return getDefaultClient().events.onAgencyAdded(departmentAddress, callback, options);
+}
+
+/**
+ * Subscribe to House and Senate assignments of the Congress department
+ * @param departmentAddress Address of the Congress department
+ * @param callback Called with each HouseAndSenateSet event
+ * @param options Subscription options
+ * @returns Subscription handle
+ */
+export function onHouseAndSenateSet(
+  departmentAddress: string,
+  callback: (event: HouseAndSenateSetEvent) => void | Promise<void>,
+  options?: SubscriptionOptions
+): EventSubscription {
+  return getDefaultClient().events.onHouseAndSenateSet(departmentAddress, callback, options);
+}
+
+// ============ Agency Events ============
+
+/**
+ * Subscribe to proposals submitted by an agency
+ * @param agencyAddress Address of the agency contract
+ * @param callback Called with each ProposalSubmitted event
+ * @param options Subscription options
+ * @returns Subscription handle
+ */
+export function onProposalSubmitted(
+  agencyAddress: string,
+  callback: (event: ProposalSubmittedEvent) => void | Promise<void>,
+  options?: SubscriptionOptions
+): EventSubscription {
+  return getDefaultClient().events.onProposalSubmitted(agencyAddress, callback, options);
+}
+
+/**
+ * Subscribe to proposals revised by an agency
+ * @param agencyAddress Address of the agency contract
+ * @param callback Called with each ProposalRevised event
+ * @param options Subscription options
+ * @returns Subscription handle
+ */
+export function onProposalRevised(
+  agencyAddress: string,
+  callback: (event: ProposalRevisionEvent) => void | Promise<void>,
+  options?: SubscriptionOptions
+): EventSubscription {
+  return getDefaultClient().events.onProposalRevised(agencyAddress, callback, options);
+}
+
+/**
+ * Subscribe to proposals amended by an agency
+ * @param agencyAddress Address of the agency contract
+ * @param callback Called with each ProposalAmended event
+ * @param options Subscription options
+ * @returns Subscription handle
+ */
+export function onProposalAmended(
+  agencyAddress: string,
+  callback: (event: ProposalRevisionEvent) => void | Promise<void>,
+  options?: SubscriptionOptions
+): EventSubscription {
+  return getDefaultClient().events.onProposalAmended(agencyAddress, callback, options);
+}
+
+// ============ BudgetProposal Events ============
+
+/**
+ * Subscribe to minted proposals
+ * @param filter Only deliver proposals minted to this agency (optional)
+ * @param callback Called with each ProposalMinted event
+ * @param options Subscription options
+ * @returns Subscription handle
+ */
+export function onProposalMinted(
+  filter: { agency?: string },
+  callback: (event: ProposalMintedEvent) => void | Promise<void>,
+  options?: SubscriptionOptions
+): EventSubscription {
+  return getDefaultClient().events.onProposalMinted(filter, callback, options);
+}
+
+/**
+ * Subscribe to proposal status changes
+ * @param filter Only deliver changes of this token and/or of proposals held by this agency (optional)
+ * @param callback Called with each ProposalStatusChanged event
+ * @param options Subscription options
+ * @returns Subscription handle
+ */
+export function onProposalStatusChanged(
+  filter: { agency?: string; tokenId?: bigint | number },
+  callback: (event: ProposalStatusChangedEvent) => void | Promise<void>,
+  options?: SubscriptionOptions
+): EventSubscription {
+  return getDefaultClient().events.onProposalStatusChanged(filter, callback, options);
+}
+
+/**
+ * Subscribe to proposal revisions and amendments
+ * @param filter Only deliver revisions of this token (optional)
+ * @param callback Called with each RevisionCreated event
+ * @param options Subscription options
+ * @returns Subscription handle
+ */
+export function onRevisionCreated(
+  filter: { originalTokenId?: bigint | number },
+  callback: (event: RevisionCreatedEvent) => void | Promise<void>,
+  options?: SubscriptionOptions
+): EventSubscription {
+  return getDefaultClient().events.onRevisionCreated(filter, callback, options);
+}
@@ -14,9 +14,13 @@ export {
   isMainnet,
   setContractAddresses,
   SDKConfig,
-  ChainMode 
+  ChainMode,
+  ContractAddresses
 } from './config';
 
+// Client
+export { DBTCClient, DBTCClientOptions } from './client';
+
 // Types
 export * from './types';
 
@@ -29,5 +33,64 @@ export * from './department';
 // DBTC functions
 export * from './dbtc';
 
+// Budget cycle rules
+export * from './cycle';
+
+// Roles and permissions
+export * from './roles';
+
+// Budget proposal functions
+export * from './proposal';
+
+// Registry snapshot
+export * from './registry';
+
+// Proposal lineage
+export * from './lineage';
+
+// Budget aggregation
+export * from './aggregation';
+
+// Event subscriptions
+export * from './events';
+
+// Historical indexing
+export * from './indexer';
+
+// Signers
+export * from './signer';
+
+// Peso amounts
+export * from './money';
+
+// Validation
+export * from './validation';
+
+// Proposal metadata
+export * from './metadata';
+
+// Proposal verification
+export * from './verify';
+
+// Transactions
+export * from './transactions';
+export * from './queue';
+
+// Bulk submission
+export * from './bulk';
+
+// Local deployments
+export * from './deploy';
+
+// Read batching
+export { BatchingRunner, BatchOptions } from './multicall';
+
+// Read cache
+export * from './cache';
+
+// Errors
+export * from './errors';
+
 // Utilities
 export { stringToBytes32, bytes32ToString } from './utils';
+export { parseCsv, parseCsvRows, parseCsvRecords, formatCsv, formatCsvRecords, CsvRow, CsvRecord } from './csv';
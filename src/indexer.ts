@@ -0,0 +1,349 @@
+import { ethers } from 'ethers';
+import { promises as fs } from 'fs';
+import type { DBTCClient } from './client';
+import { getDefaultClient } from './client';
+import {
+  IndexedContract,
+  IndexedContractKind,
+  IndexedEvent,
+  IndexedEventQuery,
+  IndexerCheckpoint,
+  IndexerOptions,
+  IndexerStore,
+  IndexerSyncResult
+} from './types';
+import DBTCABI from './abis/DBTC.json';
+import DepartmentABI from './abis/Department.json';
+import AgencyABI from './abis/Agency.json';
+import BudgetProposalABI from './abis/BudgetProposal.json';
+
+const DEFAULT_CHUNK_SIZE = 2000;
+const DEFAULT_MAX_CHUNK_SIZE = 10000;
+
+const INTERFACES: Record<IndexedContractKind, ethers.Interface> = {
+  DBTC: new ethers.Interface(DBTCABI.abi),
+  Department: new ethers.Interface(DepartmentABI.abi),
+  Agency: new ethers.Interface(AgencyABI.abi),
+  BudgetProposal: new ethers.Interface(BudgetProposalABI.abi)
+};
+
+/**
+ * Child contracts announced by events: event name => argument and kind
+ */
+const DISCOVERY: Record<string, { arg: string; kind: IndexedContractKind }> = {
+  DepartmentAdded: { arg: 'departmentContract', kind: 'Department' },
+  AgencyAdded: { arg: 'agencyContract', kind: 'Agency' },
+  MainAgencySet: { arg: 'mainAgency', kind: 'Agency' }
+};
+
+/**
+ * Walks the logs of the DBTC, BudgetProposal and every discovered Department
+ * and Agency contract, and saves decoded events to a store
+ *
+ * Each chunk is saved together with a checkpoint, so a restarted indexer
+ * continues where the previous run stopped.
+ *
+ * @example
+ * ```typescript
+ * const indexer = new EventIndexer(client, {
+ *   store: new JsonFileIndexerStore('./dbtc-events.json'),
+ *   startBlock: 12345678
+ * });
+ * await indexer.sync();
+ * const transitions = await indexer.getEvents({ event: 'PhaseAdvanced', fiscalYear: 2026 });
+ * ```
+ */
+export class EventIndexer {
+  /** Event store */
+  readonly store: IndexerStore;
+  private chunkSize: number;
+
+  constructor(
+    private readonly client: DBTCClient,
+    private readonly options: IndexerOptions = {}
+  ) {
+    this.store = options.store ?? new MemoryIndexerStore();
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  }
+
+  /**
+   * Index from the checkpoint (or start block) up to the target block
+   * @returns Indexed block range and number of saved events
+   */
+  async sync(): Promise<IndexerSyncResult> {
+    const checkpoint = await this.store.getCheckpoint() ?? await this.initialCheckpoint();
+    const targetBlock = this.options.toBlock ??
+      await this.client.provider.getBlockNumber() - (this.options.confirmations ?? 0);
+    const maxChunkSize = this.options.maxChunkSize ?? DEFAULT_MAX_CHUNK_SIZE;
+
+    const startBlock = checkpoint.blockNumber + 1;
+    let total = 0;
+
+    while (checkpoint.blockNumber < targetBlock) {
+      const fromBlock = checkpoint.blockNumber + 1;
+      const toBlock = Math.min(targetBlock, fromBlock + this.chunkSize - 1);
+
+      const events = await this.indexRange(checkpoint, fromBlock, toBlock);
+      checkpoint.blockNumber = toBlock;
+      await this.store.save(events, checkpoint);
+      total += events.length;
+
+      this.options.onProgress?.({ fromBlock, toBlock, targetBlock, events: events.length });
+      this.chunkSize = Math.min(maxChunkSize, this.chunkSize * 2);
+    }
+
+    return { fromBlock: startBlock, toBlock: checkpoint.blockNumber, events: total };
+  }
+
+  /**
+   * Stored events
+   * @param query Event filter (optional)
+   * @returns Matching events in chain order
+   */
+  async getEvents(query?: IndexedEventQuery): Promise<IndexedEvent[]> {
+    return this.store.getEvents(query);
+  }
+
+  /**
+   * Checkpoint for a first run: the DBTC and BudgetProposal contracts only
+   */
+  private async initialCheckpoint(): Promise<IndexerCheckpoint> {
+    const fromBlock = this.options.startBlock ?? 0;
+    return {
+      blockNumber: fromBlock - 1,
+      fiscalYear: null,
+      contracts: [
+        { address: this.client.dbtc.address, kind: 'DBTC', fromBlock },
+        { address: await this.client.proposals.getAddress(), kind: 'BudgetProposal', fromBlock }
+      ],
+      codes: {}
+    };
+  }
+
+  /**
+   * Fetch and decode the events of a block range, including those of
+   * contracts discovered inside the range
+   */
+  private async indexRange(
+    checkpoint: IndexerCheckpoint,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<IndexedEvent[]> {
+    const kinds = new Map(checkpoint.contracts.map((c) => [c.address.toLowerCase(), c.kind]));
+    const logs: ethers.Log[] = [];
+
+    let pending = await this.fetchLogs([...kinds.keys()], fromBlock, toBlock);
+    while (pending.length > 0) {
+      logs.push(...pending);
+
+      const discovered: IndexedContract[] = [];
+      for (const log of pending) {
+        const parsed = INTERFACES[kinds.get(log.address.toLowerCase())!].parseLog(log);
+        const discovery = parsed && DISCOVERY[parsed.name];
+        if (!discovery) {
+          continue;
+        }
+        const address: string = parsed.args[discovery.arg];
+        if (!kinds.has(address.toLowerCase())) {
+          kinds.set(address.toLowerCase(), discovery.kind);
+          discovered.push({ address, kind: discovery.kind, fromBlock: log.blockNumber });
+        }
+      }
+      if (discovered.length === 0) {
+        break;
+      }
+
+      checkpoint.contracts.push(...discovered);
+      const since = Math.min(...discovered.map((c) => c.fromBlock));
+      pending = await this.fetchLogs(discovered.map((c) => c.address), since, toBlock);
+    }
+
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const kind = kinds.get(log.address.toLowerCase())!;
+      const parsed = INTERFACES[kind].parseLog(log);
+      if (parsed) {
+        events.push(await this.decode(checkpoint, kind, log, parsed));
+      }
+    }
+    return events;
+  }
+
+  /**
+   * getLogs with adaptive chunking: ranges the RPC rejects are split in half
+   * (and the chunk size for later ranges shrinks accordingly)
+   */
+  private async fetchLogs(address: string[], fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    try {
+      return await this.client.provider.getLogs({ address, fromBlock, toBlock });
+    } catch (error) {
+      if (fromBlock === toBlock) {
+        throw error;
+      }
+      this.chunkSize = Math.max(1, Math.floor((toBlock - fromBlock + 1) / 2));
+      const middle = fromBlock + this.chunkSize - 1;
+      return [
+        ...await this.fetchLogs(address, fromBlock, middle),
+        ...await this.fetchLogs(address, middle + 1, toBlock)
+      ];
+    }
+  }
+
+  /**
+   * Turn a parsed log into a stored event, tracking the fiscal year and codes
+   */
+  private async decode(
+    checkpoint: IndexerCheckpoint,
+    kind: IndexedContractKind,
+    log: ethers.Log,
+    parsed: ethers.LogDescription
+  ): Promise<IndexedEvent> {
+    const args: Record<string, string | number | boolean> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      const value = parsed.args[i];
+      if (value instanceof ethers.Indexed) {
+        args[input.name] = checkpoint.codes[value.hash!] ?? value.hash!;
+      } else if (typeof value === 'bigint') {
+        args[input.name] = input.type === 'uint8' || input.name === 'fiscalYear' ? Number(value) : value.toString();
+      } else {
+        args[input.name] = value;
+      }
+    });
+
+    // Indexed codes are only hashes; read them from the new contract
+    if (parsed.name === 'DepartmentAdded' || parsed.name === 'AgencyAdded') {
+      const address = parsed.name === 'DepartmentAdded' ? args.departmentContract : args.agencyContract;
+      const info = parsed.name === 'DepartmentAdded'
+        ? await this.client.department(address as string).getInfo()
+        : await this.client.agency(address as string).getInfo();
+      checkpoint.codes[(parsed.args.code as ethers.Indexed).hash!] = info.code;
+      args.code = info.code;
+    }
+
+    if (parsed.name === 'BudgetCycleStarted' || parsed.name === 'SystemInitialized') {
+      checkpoint.fiscalYear = args.fiscalYear as number;
+    }
+
+    return {
+      id: `${log.blockNumber}-${log.index}`,
+      contract: kind,
+      address: log.address,
+      event: parsed.name,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      fiscalYear: checkpoint.fiscalYear,
+      args
+    };
+  }
+}
+
+// ============ Stores ============
+
+/**
+ * Check an event against a query
+ */
+function matchesQuery(event: IndexedEvent, query: IndexedEventQuery): boolean {
+  const names = typeof query.event === 'string' ? [query.event] : query.event;
+  return (!names || names.includes(event.event)) &&
+    (!query.contract || event.contract === query.contract) &&
+    (!query.address || event.address.toLowerCase() === query.address.toLowerCase()) &&
+    (query.fiscalYear === undefined || event.fiscalYear === query.fiscalYear) &&
+    (query.fromBlock === undefined || event.blockNumber >= query.fromBlock) &&
+    (query.toBlock === undefined || event.blockNumber <= query.toBlock);
+}
+
+/**
+ * Copy a checkpoint so stores never share state with the running indexer
+ */
+function copyCheckpoint(checkpoint: IndexerCheckpoint): IndexerCheckpoint {
+  return {
+    ...checkpoint,
+    contracts: checkpoint.contracts.map((c) => ({ ...c })),
+    codes: { ...checkpoint.codes }
+  };
+}
+
+/**
+ * In-memory indexer store (lost on restart)
+ */
+export class MemoryIndexerStore implements IndexerStore {
+  protected events: IndexedEvent[] = [];
+  protected checkpoint: IndexerCheckpoint | null = null;
+
+  async getCheckpoint(): Promise<IndexerCheckpoint | null> {
+    return this.checkpoint ? copyCheckpoint(this.checkpoint) : null;
+  }
+
+  async save(events: IndexedEvent[], checkpoint: IndexerCheckpoint): Promise<void> {
+    this.events.push(...events);
+    this.checkpoint = copyCheckpoint(checkpoint);
+  }
+
+  async getEvents(query: IndexedEventQuery = {}): Promise<IndexedEvent[]> {
+    return this.events.filter((event) => matchesQuery(event, query));
+  }
+}
+
+/**
+ * Indexer store persisted to a JSON file
+ *
+ * The file is rewritten (through a temporary file and rename) on every save,
+ * which suits the size of a budget cycle's history. For larger histories
+ * implement {@link IndexerStore} on top of a database.
+ */
+export class JsonFileIndexerStore extends MemoryIndexerStore {
+  private loaded = false;
+
+  /**
+   * @param path Path of the JSON file (created on first save)
+   */
+  constructor(readonly path: string) {
+    super();
+  }
+
+  async getCheckpoint(): Promise<IndexerCheckpoint | null> {
+    await this.load();
+    return super.getCheckpoint();
+  }
+
+  async save(events: IndexedEvent[], checkpoint: IndexerCheckpoint): Promise<void> {
+    await this.load();
+    await super.save(events, checkpoint);
+    const temporary = `${this.path}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify({ checkpoint: this.checkpoint, events: this.events }));
+    await fs.rename(temporary, this.path);
+  }
+
+  async getEvents(query?: IndexedEventQuery): Promise<IndexedEvent[]> {
+    await this.load();
+    return super.getEvents(query);
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    try {
+      const content = JSON.parse(await fs.readFile(this.path, 'utf8'));
+      this.checkpoint = content.checkpoint;
+      this.events = content.events;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    this.loaded = true;
+  }
+}
+
+/**
+ * Create an event indexer on the default client
+ * @param options Indexer options
+ * @returns Event indexer
+ */
+export function createEventIndexer(options?: IndexerOptions): EventIndexer {
+  return new EventIndexer(getDefaultClient(), options);
+}
@@ -0,0 +1,219 @@
+import type { DBTCClient } from './client';
+import { getDefaultClient } from './client';
+import {
+  getPhaseName,
+  getStatusName,
+  LineageEdge,
+  OnChainProposalData,
+  ProposalDataDiff,
+  ProposalFieldChange,
+  ProposalLineage,
+  ProposalLineageOptions,
+  ProposalVersion,
+  RevisionRecord
+} from './types';
+import { ProposalApi } from './proposal';
+import { PesoAmount } from './money';
+import { createLimiter } from './utils';
+
+const DEFAULT_CONCURRENCY = 8;
+
+const DIFF_FIELDS: Array<Exclude<ProposalFieldChange['field'], 'amount'>> = [
+  'fiscalYear',
+  'departmentCode',
+  'agencyCode',
+  'prexcFpapId',
+  'uacsObjCode'
+];
+
+/**
+ * Field-level differences between two versions' proposal data
+ * @param from Parent data
+ * @param to Child data
+ * @returns Amount delta and changed fields
+ */
+export function diffProposalData(from: OnChainProposalData, to: OnChainProposalData): ProposalDataDiff {
+  const changes: ProposalFieldChange[] = DIFF_FIELDS
+    .filter((field) => String(from[field]) !== String(to[field]))
+    .map((field) => ({ field, from: String(from[field]), to: String(to[field]) }));
+  if (from.amount !== to.amount) {
+    changes.push({ field: 'amount', from: from.pesoAmount.toString(), to: to.pesoAmount.toString() });
+  }
+  return {
+    amountDelta: to.amount - from.amount,
+    pesoDelta: to.pesoAmount.minus(from.pesoAmount),
+    changes
+  };
+}
+
+/**
+ * Proposal revision and amendment lineage
+ *
+ * Obtain through `client.lineage`.
+ */
+export class LineageApi {
+  constructor(private readonly client: DBTCClient) {}
+
+  /**
+   * Rebuild the full version tree of the lineage a token belongs to
+   * @param tokenId Any token of the lineage
+   * @param options Lineage options
+   * @returns Version tree, from the origin down
+   */
+  async getLineage(tokenId: bigint | number, options: ProposalLineageOptions = {}): Promise<ProposalLineage> {
+    const proposals = options.proposalAddress ? this.client.proposals.at(options.proposalAddress) : this.client.proposals;
+    const limit = createLimiter(options.concurrency ?? DEFAULT_CONCURRENCY);
+    const requested = BigInt(tokenId);
+
+    const origin = await limit(() => proposals.getOrigin(requested));
+    const originTokenId = origin === BigInt(0) ? requested : origin;
+    const [root, latestTokenId] = await Promise.all([
+      this.loadVersion(proposals, limit, originTokenId, null, new Set()),
+      limit(() => proposals.getLatestVersion(originTokenId))
+    ]);
+
+    let versionCount = 0;
+    const count = (version: ProposalVersion) => {
+      versionCount++;
+      version.children.forEach(count);
+    };
+    count(root);
+
+    return { tokenId: requested, originTokenId, latestTokenId, versionCount, root };
+  }
+
+  /**
+   * Load a version and, recursively, the versions created from it
+   */
+  private async loadVersion(
+    proposals: ProposalApi,
+    limit: <T>(task: () => Promise<T>) => Promise<T>,
+    tokenId: bigint,
+    parent: ProposalVersion | null,
+    seen: Set<bigint>
+  ): Promise<ProposalVersion> {
+    seen.add(tokenId);
+    const [data, metadata, status, history, childIds] = await Promise.all([
+      limit(() => proposals.getData(tokenId)),
+      limit(() => proposals.getMetadata(tokenId)),
+      limit(() => proposals.getStatus(tokenId)),
+      parent ? limit(() => proposals.getRevisionHistory(tokenId)) : Promise.resolve([]),
+      limit(() => proposals.getChildTokens(tokenId))
+    ]);
+
+    let edge: LineageEdge | null = null;
+    if (parent) {
+      // The change is recorded in the same transaction that created the version
+      const records = history.filter((record) => record.previousTokenId === parent.tokenId);
+      const record: RevisionRecord | undefined =
+        records.find((candidate) => candidate.timestamp.getTime() === metadata.createdAt.getTime()) ??
+        records[records.length - 1];
+      edge = {
+        action: record?.action ?? metadata.status,
+        actionName: getStatusName(record?.action ?? metadata.status),
+        reason: record?.reason ?? '',
+        actor: record?.actor ?? metadata.submitter,
+        phase: metadata.submittedPhase,
+        phaseName: getPhaseName(metadata.submittedPhase),
+        timestamp: record?.timestamp ?? metadata.createdAt
+      };
+    }
+
+    const version: ProposalVersion = {
+      tokenId,
+      parentTokenId: parent?.tokenId ?? null,
+      depth: parent ? parent.depth + 1 : 0,
+      status,
+      statusName: getStatusName(status),
+      submitter: metadata.submitter,
+      createdAt: metadata.createdAt,
+      data,
+      edge,
+      diff: parent ? diffProposalData(parent.data, data) : null,
+      children: []
+    };
+
+    const children = await Promise.all(childIds
+      .filter((childId) => !seen.has(childId))
+      .map((childId) => this.loadVersion(proposals, limit, childId, version, seen)));
+    version.children = children.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() ||
+      (a.tokenId < b.tokenId ? -1 : 1));
+    return version;
+  }
+}
+
+// ============ Output ============
+
+/**
+ * Serialize a lineage to JSON (token IDs and amounts as decimal strings)
+ * @param lineage Proposal lineage
+ * @param space Indentation (default: 2)
+ * @returns JSON string
+ */
+export function lineageToJSON(lineage: ProposalLineage, space: number = 2): string {
+  return JSON.stringify(lineage, (_, value) => typeof value === 'bigint' ? value.toString() : value, space);
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatDelta = (delta: PesoAmount) =>
+  delta.compare(PesoAmount.fromUnits(0)) >= 0 ? `+${delta.format()}` : delta.format();
+
+/**
+ * Render a lineage as a Markdown timeline (also readable as plain text)
+ * @param lineage Proposal lineage
+ * @returns Markdown nested list, one entry per version
+ */
+export function lineageToMarkdown(lineage: ProposalLineage): string {
+  const lines = [
+    `# Lineage of proposal #${lineage.originTokenId}`,
+    '',
+    `${lineage.versionCount} version(s), latest #${lineage.latestTokenId}`,
+    ''
+  ];
+
+  const render = (version: ProposalVersion) => {
+    const indent = '  '.repeat(version.depth);
+    const { data } = version;
+    const marker = version.tokenId === lineage.tokenId ? ' (requested)' : '';
+
+    if (version.edge) {
+      const { edge } = version;
+      const reason = edge.reason ? `: "${edge.reason}"` : '';
+      lines.push(`${indent}- **#${version.tokenId}** ${edge.actionName} from #${version.parentTokenId} ` +
+        `in ${edge.phaseName} on ${formatDate(edge.timestamp)} by ${edge.actor}${reason} — now ${version.statusName}${marker}`);
+    } else {
+      lines.push(`${indent}- **#${version.tokenId}** submitted on ${formatDate(version.createdAt)} ` +
+        `by ${version.submitter} — ${data.prexcFpapId} / ${data.uacsObjCode}, ${data.pesoAmount.format()}, ` +
+        `FY ${data.fiscalYear} — now ${version.statusName}${marker}`);
+    }
+
+    for (const change of version.diff?.changes ?? []) {
+      const text = change.field === 'amount'
+        ? `${PesoAmount.parse(change.from, data.pesoAmount.decimals).format()} → ` +
+          `${data.pesoAmount.format()} (${formatDelta(version.diff!.pesoDelta)})`
+        : `${change.from} → ${change.to}`;
+      lines.push(`${indent}  - ${change.field}: ${text}`);
+    }
+    if (version.diff && version.diff.changes.length === 0) {
+      lines.push(`${indent}  - no data changes`);
+    }
+    version.children.forEach(render);
+  };
+  render(lineage.root);
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Rebuild the full revision and amendment tree of a proposal
+ * @param tokenId Any token of the lineage
+ * @param options Lineage options
+ * @returns Version tree, from the origin down
+ */
+export async function getProposalLineage(
+  tokenId: bigint | number,
+  options?: ProposalLineageOptions
+): Promise<ProposalLineage> {
+  return getDefaultClient().lineage.getLineage(tokenId, options);
+}
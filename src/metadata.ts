@@ -0,0 +1,504 @@
+import { ethers } from 'ethers';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  ProposalData,
+  ProposalDocument,
+  ProposalDocumentLineItem,
+  ProposalDocumentAttachment,
+  MetadataStore,
+  PROPOSAL_DOCUMENT_SCHEMA,
+  PROPOSAL_DOCUMENT_VERSION
+} from './types';
+import { FieldError, ValidationError, MetadataError } from './errors';
+import {
+  validatePrexcFpapId,
+  validateUacsObjectCode,
+  validateDepartmentCode,
+  validateAgencyCode
+} from './validation';
+import { PesoAmount, DEFAULT_AMOUNT_DECIMALS } from './money';
+
+/**
+ * Largest document whose CID is the hash of its bytes: `ipfs add` splits
+ * bigger files into 256 KiB chunks and hashes a DAG instead
+ */
+const MAX_DOCUMENT_SIZE = 256 * 1024;
+
+/** CIDv1 prefix: version 1, raw codec, sha2-256, 32-byte digest */
+const CID_PREFIX = new Uint8Array([0x01, 0x55, 0x12, 0x20]);
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+/** Amount in pesos with at most 2 decimals, without symbol or separators */
+const PESO_DECIMAL = /^\d+(\.\d{1,2})?$/;
+
+const SHA256_HEX = /^0x[0-9a-f]{64}$/;
+
+// ============ Serialization ============
+
+/**
+ * Canonical JSON: object keys sorted, no whitespace, undefined members left out
+ * (RFC 8785 for the strings and integers used in metadata documents)
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const members = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalize(record[key])}`);
+    return `{${members.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Serialize a metadata document deterministically: the same document always
+ * gives the same bytes, and so the same CID
+ * @param metadata Metadata document
+ * @returns Canonical JSON
+ */
+export function serializeProposalDocument(metadata: ProposalDocument): string {
+  return canonicalize(metadata);
+}
+
+/**
+ * Lowercase RFC 4648 base32 without padding
+ */
+function base32(bytes: Uint8Array): string {
+  let output = '';
+  let value = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xfff;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Compute the IPFS CIDv1 of a document (raw codec, sha2-256, base32), without
+ * any network access
+ *
+ * Matches `ipfs add --cid-version 1 --raw-leaves` for documents up to 256 KiB.
+ *
+ * @param data Document bytes (strings are UTF-8 encoded)
+ * @returns CID, e.g. "bafkrei..."
+ */
+export function computeCid(data: Uint8Array | string): string {
+  const bytes = typeof data === 'string' ? ethers.toUtf8Bytes(data) : data;
+  const digest = ethers.getBytes(ethers.sha256(bytes));
+  return 'b' + base32(ethers.getBytes(ethers.concat([CID_PREFIX, digest])));
+}
+
+/**
+ * Metadata URI of a document, known before it is uploaded
+ * @param metadata Metadata document
+ * @returns URI of the form "ipfs://<cid>"
+ */
+export function getProposalDocumentURI(metadata: ProposalDocument): string {
+  return `ipfs://${computeCid(serializeProposalDocument(metadata))}`;
+}
+
+/**
+ * Extract the CID from "ipfs://<cid>", "/ipfs/<cid>" or a bare CID
+ * @param uri Metadata URI
+ * @returns CID, or null if the URI is not an IPFS URI
+ */
+export function cidFromUri(uri: string): string | null {
+  const match = /^(?:ipfs:\/\/|\/ipfs\/)?(b[a-z2-7]{58})\/?$/.exec(uri.trim());
+  return match ? match[1] : null;
+}
+
+// ============ Validation ============
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+/**
+ * Validate a metadata document against the current schema
+ * @param metadata Document (e.g. parsed from JSON)
+ * @returns Field errors (empty if valid)
+ */
+export function validateProposalDocument(metadata: unknown): FieldError[] {
+  if (metadata === null || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return [{ field: 'metadata', code: 'INVALID_FORMAT', message: 'must be a JSON object' }];
+  }
+  const doc = metadata as Partial<Record<keyof ProposalDocument, unknown>>;
+  const errors: Array<FieldError | null> = [];
+  const requireText = (field: string, value: unknown) => {
+    if (!isText(value)) {
+      errors.push({ field, code: 'REQUIRED', message: 'is required' });
+    }
+  };
+  const checkAmount = (field: string, value: unknown): PesoAmount | null => {
+    if (typeof value !== 'string' || !PESO_DECIMAL.test(value)) {
+      errors.push({ field, code: 'INVALID_FORMAT', message: `"${value}" is not a peso amount such as "1234.50"` });
+      return null;
+    }
+    return PesoAmount.parse(value, DEFAULT_AMOUNT_DECIMALS);
+  };
+
+  if (doc.schema !== PROPOSAL_DOCUMENT_SCHEMA) {
+    errors.push({ field: 'schema', code: 'UNSUPPORTED_SCHEMA', message: `must be "${PROPOSAL_DOCUMENT_SCHEMA}"` });
+  }
+  if (doc.version !== PROPOSAL_DOCUMENT_VERSION) {
+    errors.push({
+      field: 'version',
+      code: 'UNSUPPORTED_VERSION',
+      message: `${doc.version} is not supported (expected ${PROPOSAL_DOCUMENT_VERSION})`
+    });
+  }
+
+  if (doc.agency === null || typeof doc.agency !== 'object') {
+    errors.push({ field: 'agency', code: 'REQUIRED', message: 'is required' });
+  } else {
+    const agency = doc.agency as { deptCode?: unknown; agencyCode?: unknown };
+    errors.push(validateDepartmentCode(agency.deptCode, 'agency.deptCode'));
+    errors.push(validateAgencyCode(agency.agencyCode, 'agency.agencyCode'));
+  }
+  if (typeof doc.fiscalYear !== 'number' || !Number.isInteger(doc.fiscalYear) || doc.fiscalYear < 1) {
+    errors.push({ field: 'fiscalYear', code: 'INVALID_FORMAT', message: 'must be a year' });
+  }
+
+  requireText('title', doc.title);
+  requireText('narrative', doc.narrative);
+  requireText('justification', doc.justification);
+  errors.push(validatePrexcFpapId(doc.prexcFpapId));
+  errors.push(validateUacsObjectCode(doc.uacsObjCode));
+  const amount = checkAmount('amount', doc.amount);
+
+  if (!Array.isArray(doc.lineItems)) {
+    errors.push({ field: 'lineItems', code: 'INVALID_FORMAT', message: 'must be an array' });
+  } else {
+    const amounts: Array<PesoAmount | null> = doc.lineItems.map((item: Partial<ProposalDocumentLineItem>, i: number) => {
+      requireText(`lineItems[${i}].description`, item?.description);
+      if (item?.uacsObjCode !== undefined) {
+        errors.push(validateUacsObjectCode(item.uacsObjCode, `lineItems[${i}].uacsObjCode`));
+      }
+      return checkAmount(`lineItems[${i}].amount`, item?.amount);
+    });
+    if (amount && amounts.length > 0 && !amounts.includes(null)) {
+      const total = PesoAmount.sum(amounts as PesoAmount[]);
+      if (total.compare(amount) !== 0) {
+        errors.push({
+          field: 'lineItems',
+          code: 'TOTAL_MISMATCH',
+          message: `add up to ${total.format()}, not ${amount.format()}`
+        });
+      }
+    }
+  }
+
+  if (!Array.isArray(doc.attachments)) {
+    errors.push({ field: 'attachments', code: 'INVALID_FORMAT', message: 'must be an array' });
+  } else {
+    doc.attachments.forEach((attachment: Partial<ProposalDocumentAttachment>, i: number) => {
+      requireText(`attachments[${i}].name`, attachment?.name);
+      requireText(`attachments[${i}].uri`, attachment?.uri);
+      if (attachment?.size !== undefined && !(Number.isSafeInteger(attachment.size) && attachment.size >= 0)) {
+        errors.push({ field: `attachments[${i}].size`, code: 'INVALID_FORMAT', message: 'must be a number of bytes' });
+      }
+      if (attachment?.sha256 !== undefined && !SHA256_HEX.test(attachment.sha256)) {
+        errors.push({ field: `attachments[${i}].sha256`, code: 'INVALID_FORMAT', message: 'must be a 0x-prefixed SHA-256 hex digest' });
+      }
+    });
+  }
+
+  const found = errors.filter((error): error is FieldError => error !== null);
+  if (found.length === 0 && ethers.toUtf8Bytes(canonicalize(doc)).length > MAX_DOCUMENT_SIZE) {
+    found.push({ field: 'metadata', code: 'TOO_LARGE', message: 'must serialize to at most 256 KiB (link large content as attachments)' });
+  }
+  return found;
+}
+
+/**
+ * On-chain proposal fields described by a metadata document
+ * @param metadata Metadata document
+ * @returns Proposal data to submit along with the metadata URI
+ */
+export function toProposalData(metadata: ProposalDocument): ProposalData {
+  return {
+    prexcFpapId: metadata.prexcFpapId,
+    uacsObjCode: metadata.uacsObjCode,
+    amount: PesoAmount.parse(metadata.amount, DEFAULT_AMOUNT_DECIMALS)
+  };
+}
+
+// ============ Builder ============
+
+/**
+ * Peso amount as the plain decimal string stored in documents (invalid input
+ * is kept as is, for validation to report)
+ */
+function toPesoString(amount: PesoAmount | string | number): string {
+  try {
+    return (amount instanceof PesoAmount ? amount : PesoAmount.parse(amount, DEFAULT_AMOUNT_DECIMALS)).toString();
+  } catch {
+    return String(amount);
+  }
+}
+
+/**
+ * Builds proposal metadata documents
+ *
+ * @example
+ * ```typescript
+ * const metadata = new ProposalDocumentBuilder()
+ *   .agency('07', '001', 'Office of the Secretary')
+ *   .fiscalYear(2027)
+ *   .title('Classroom construction')
+ *   .classification('310100100001000', '5060405001')
+ *   .narrative('Construction of 120 classrooms in Region VIII')
+ *   .justification('Classroom backlog of 1,400 in the region')
+ *   .addLineItem('Materials', pesos('₱80,000,000'))
+ *   .addLineItem('Labor', pesos('₱40,000,000'))
+ *   .build();
+ *
+ * const uri = getProposalDocumentURI(metadata); // ipfs://bafkrei...
+ * ```
+ */
+export class ProposalDocumentBuilder {
+  private metadata: Partial<ProposalDocument> & Pick<ProposalDocument, 'lineItems' | 'attachments'>;
+
+  /**
+   * @param base Document to start from (e.g. the metadata of the proposal being revised)
+   */
+  constructor(base?: ProposalDocument) {
+    this.metadata = base
+      ? JSON.parse(JSON.stringify(base))
+      : { lineItems: [], attachments: [] };
+  }
+
+  /**
+   * Set the submitting agency
+   * @param deptCode Department code (e.g. "07")
+   * @param agencyCode Agency code (e.g. "001")
+   * @param name Agency name
+   */
+  agency(deptCode: string, agencyCode: string, name?: string): this {
+    this.metadata.agency = { deptCode, agencyCode, name };
+    return this;
+  }
+
+  fiscalYear(year: number): this {
+    this.metadata.fiscalYear = year;
+    return this;
+  }
+
+  title(title: string): this {
+    this.metadata.title = title;
+    return this;
+  }
+
+  /**
+   * Set the on-chain classification of the proposal
+   * @param prexcFpapId PREXC/FPAP identifier
+   * @param uacsObjCode UACS object code
+   */
+  classification(prexcFpapId: string, uacsObjCode: string): this {
+    this.metadata.prexcFpapId = prexcFpapId;
+    this.metadata.uacsObjCode = uacsObjCode;
+    return this;
+  }
+
+  /**
+   * Set the total amount (default: the sum of the line items)
+   * @param amount Amount in pesos
+   */
+  amount(amount: PesoAmount | string | number): this {
+    this.metadata.amount = toPesoString(amount);
+    return this;
+  }
+
+  narrative(narrative: string): this {
+    this.metadata.narrative = narrative;
+    return this;
+  }
+
+  justification(justification: string): this {
+    this.metadata.justification = justification;
+    return this;
+  }
+
+  /**
+   * Add a cost breakdown entry
+   * @param description What the amount is for
+   * @param amount Amount in pesos
+   * @param uacsObjCode UACS object code, if it differs from the proposal's
+   */
+  addLineItem(description: string, amount: PesoAmount | string | number, uacsObjCode?: string): this {
+    this.metadata.lineItems.push({ description, amount: toPesoString(amount), uacsObjCode });
+    return this;
+  }
+
+  /**
+   * Add a supporting document (see {@link describeAttachment} to fill in size and hash)
+   */
+  addAttachment(attachment: ProposalDocumentAttachment): this {
+    this.metadata.attachments.push({ ...attachment });
+    return this;
+  }
+
+  /**
+   * Validate and return the document
+   * @throws ValidationError listing every failing field
+   */
+  build(): ProposalDocument {
+    const { lineItems } = this.metadata;
+    let amount = this.metadata.amount;
+    if (amount === undefined && lineItems.length > 0 && lineItems.every((item) => PESO_DECIMAL.test(item.amount))) {
+      amount = PesoAmount.sum(lineItems.map((item) => PesoAmount.parse(item.amount))).toString();
+    }
+
+    const metadata = {
+      ...this.metadata,
+      schema: PROPOSAL_DOCUMENT_SCHEMA,
+      version: PROPOSAL_DOCUMENT_VERSION,
+      amount
+    } as ProposalDocument;
+
+    const errors = validateProposalDocument(metadata);
+    if (errors.length > 0) {
+      throw new ValidationError(errors);
+    }
+    return JSON.parse(serializeProposalDocument(metadata));
+  }
+}
+
+/**
+ * Describe a supporting document, with its size and SHA-256 hash
+ * @param name Document name
+ * @param uri Where the document can be fetched
+ * @param contents Document contents
+ * @param mediaType Media type (e.g. "application/pdf")
+ */
+export function describeAttachment(
+  name: string,
+  uri: string,
+  contents: Uint8Array,
+  mediaType?: string
+): ProposalDocumentAttachment {
+  return { name, uri, mediaType, size: contents.length, sha256: ethers.sha256(contents) };
+}
+
+// ============ Stores ============
+
+/**
+ * Validate, serialize and store a metadata document
+ * @param metadata Metadata document
+ * @param store Metadata store
+ * @returns Metadata URI and CID
+ * @throws ValidationError if the document is invalid
+ */
+export async function uploadProposalDocument(
+  metadata: ProposalDocument,
+  store: MetadataStore
+): Promise<{ uri: string; cid: string }> {
+  const errors = validateProposalDocument(metadata);
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+  const data = ethers.toUtf8Bytes(serializeProposalDocument(metadata));
+  const cid = computeCid(data);
+  await store.put(cid, data);
+  return { uri: `ipfs://${cid}`, cid };
+}
+
+/**
+ * Fetch a metadata document and check it against its URI
+ * @param uri Metadata URI ("ipfs://<cid>")
+ * @param store Metadata store
+ * @returns Metadata document
+ * @throws MetadataError if the document is missing or does not hash to its CID
+ * @throws ValidationError if the document does not match the schema
+ */
+export async function fetchProposalDocument(uri: string, store: MetadataStore): Promise<ProposalDocument> {
+  const cid = cidFromUri(uri);
+  if (!cid) {
+    throw new ValidationError([{ field: 'uri', code: 'INVALID_FORMAT', message: `"${uri}" is not an ipfs:// URI` }]);
+  }
+  const data = await store.get(cid);
+  if (!data) {
+    throw new MetadataError('METADATA_NOT_FOUND', `Metadata ${cid} not found`);
+  }
+  if (computeCid(data) !== cid) {
+    throw new MetadataError('METADATA_MISMATCH', `Metadata contents do not match ${cid}`);
+  }
+
+  let metadata: unknown;
+  try {
+    metadata = JSON.parse(ethers.toUtf8String(data));
+  } catch {
+    throw new ValidationError([{ field: 'metadata', code: 'INVALID_FORMAT', message: 'is not JSON' }]);
+  }
+  const errors = validateProposalDocument(metadata);
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+  return metadata as ProposalDocument;
+}
+
+/**
+ * In-memory metadata store
+ */
+export class MemoryMetadataStore implements MetadataStore {
+  private documents = new Map<string, Uint8Array>();
+
+  async put(cid: string, data: Uint8Array): Promise<void> {
+    this.documents.set(cid, new Uint8Array(data));
+  }
+
+  async get(cid: string): Promise<Uint8Array | null> {
+    return this.documents.get(cid) ?? null;
+  }
+}
+
+/**
+ * Metadata store in a local directory, one file per CID
+ *
+ * The files can be added to IPFS as is (`ipfs add --cid-version 1 --raw-leaves`)
+ * and keep the same CIDs.
+ */
+export class LocalMetadataStore implements MetadataStore {
+  /**
+   * @param directory Directory of the documents (created on first put)
+   */
+  constructor(readonly directory: string) {}
+
+  async put(cid: string, data: Uint8Array): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = this.file(cid);
+    const temporary = `${file}.tmp`;
+    await fs.writeFile(temporary, data);
+    await fs.rename(temporary, file);
+  }
+
+  async get(cid: string): Promise<Uint8Array | null> {
+    try {
+      return new Uint8Array(await fs.readFile(this.file(cid)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private file(cid: string): string {
+    if (!cidFromUri(cid)) {
+      throw new ValidationError([{ field: 'cid', code: 'INVALID_FORMAT', message: `"${cid}" is not a CIDv1` }]);
+    }
+    return path.join(this.directory, cid);
+  }
+}
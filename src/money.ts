@@ -0,0 +1,216 @@
+import { ValidationError } from './errors';
+
+/**
+ * Decimals of on-chain amounts by default: amounts are stored in centavos
+ */
+export const DEFAULT_AMOUNT_DECIMALS = 2;
+
+/**
+ * Amount formatting options
+ */
+export interface PesoFormatOptions {
+  /** Currency prefix: "₱" (default), "PHP" or none */
+  symbol?: '₱' | 'PHP' | null;
+  /** Decimals to show (default: the amount's own, at least 2) */
+  decimals?: number;
+}
+
+const invalidAmount = (message: string) =>
+  new ValidationError([{ field: 'amount', code: 'INVALID_AMOUNT', message }]);
+
+const TEN = BigInt(10);
+
+/**
+ * Exact peso amount with a fixed number of decimals
+ *
+ * Keeps the value as an integer number of units (centavos by default), so
+ * no precision is lost to floating point.
+ *
+ * @example
+ * ```typescript
+ * const amount = PesoAmount.parse('₱1,234,567.89');
+ * amount.units;          // 123456789n (centavos)
+ * amount.format();       // "₱1,234,567.89"
+ * amount.format({ symbol: 'PHP' }); // "PHP 1,234,567.89"
+ * ```
+ */
+export class PesoAmount {
+  private constructor(
+    /** Value in units of 10^-decimals pesos */
+    readonly units: bigint,
+    /** Number of decimals of `units` */
+    readonly decimals: number
+  ) {}
+
+  /**
+   * Amount from an integer number of units (e.g. an on-chain value)
+   * @param units Value in units of 10^-decimals pesos
+   * @param decimals Decimals of the units (default: 2, centavos)
+   */
+  static fromUnits(units: bigint | number | string, decimals: number = DEFAULT_AMOUNT_DECIMALS): PesoAmount {
+    if (!Number.isInteger(decimals) || decimals < 0) {
+      throw invalidAmount(`invalid number of decimals: ${decimals}`);
+    }
+    try {
+      return new PesoAmount(BigInt(units), decimals);
+    } catch {
+      throw invalidAmount(`"${units}" is not a whole number of units`);
+    }
+  }
+
+  /**
+   * Parse a peso amount such as "₱1,234,567.89", "PHP 1,234.50" or "1234.5"
+   * @param text Amount text (or a number of pesos)
+   * @param decimals Decimals to keep (default: 2); more decimals than this are rejected
+   */
+  static parse(text: string | number, decimals: number = DEFAULT_AMOUNT_DECIMALS): PesoAmount {
+    const cleaned = String(text).trim()
+      .replace(/^(-?)\s*(₱|PHP)\s*/i, '$1')
+      .replace(/,/g, '');
+    const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(cleaned);
+    if (!match) {
+      throw invalidAmount(`"${text}" is not a peso amount`);
+    }
+
+    const [, sign, whole, fraction = ''] = match;
+    const significant = fraction.replace(/0+$/, '');
+    if (significant.length > decimals) {
+      throw invalidAmount(`"${text}" has more than ${decimals} decimals`);
+    }
+    const units = BigInt(whole + fraction.padEnd(decimals, '0').slice(0, decimals));
+    return new PesoAmount(sign ? -units : units, decimals);
+  }
+
+  /**
+   * Value in units of another scale
+   * @param decimals Target decimals (default: the amount's own)
+   * @throws ValidationError if the value does not fit the scale exactly
+   */
+  toUnits(decimals: number = this.decimals): bigint {
+    if (decimals >= this.decimals) {
+      return this.units * TEN ** BigInt(decimals - this.decimals);
+    }
+    const divisor = TEN ** BigInt(this.decimals - decimals);
+    if (this.units % divisor !== BigInt(0)) {
+      throw invalidAmount(`${this.toString()} has more than ${decimals} decimals`);
+    }
+    return this.units / divisor;
+  }
+
+  /**
+   * Sum with another amount (at the larger of both scales)
+   */
+  plus(other: PesoAmount): PesoAmount {
+    const decimals = Math.max(this.decimals, other.decimals);
+    return new PesoAmount(this.toUnits(decimals) + other.toUnits(decimals), decimals);
+  }
+
+  /**
+   * Difference with another amount (at the larger of both scales)
+   */
+  minus(other: PesoAmount): PesoAmount {
+    const decimals = Math.max(this.decimals, other.decimals);
+    return new PesoAmount(this.toUnits(decimals) - other.toUnits(decimals), decimals);
+  }
+
+  /**
+   * Compare with another amount
+   * @returns -1, 0 or 1
+   */
+  compare(other: PesoAmount): number {
+    const decimals = Math.max(this.decimals, other.decimals);
+    const a = this.toUnits(decimals);
+    const b = other.toUnits(decimals);
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  /**
+   * Sum of amounts
+   * @param amounts Amounts to add
+   * @param decimals Decimals of the result when there are no amounts (default: 2)
+   */
+  static sum(amounts: Iterable<PesoAmount>, decimals: number = DEFAULT_AMOUNT_DECIMALS): PesoAmount {
+    let total = new PesoAmount(BigInt(0), decimals);
+    for (const amount of amounts) {
+      total = total.plus(amount);
+    }
+    return total;
+  }
+
+  /**
+   * Plain decimal string, e.g. "1234567.89"
+   */
+  toString(): string {
+    return this.toDecimal(this.decimals, false);
+  }
+
+  /**
+   * JSON value: the plain decimal string
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+
+  /**
+   * Format in Philippine style, e.g. "₱1,234,567.89" or "PHP 1,234,567.89"
+   * @param options Formatting options
+   */
+  format(options: PesoFormatOptions = {}): string {
+    const { symbol = '₱' } = options;
+    const decimals = options.decimals ?? Math.max(this.decimals, 2);
+    const body = this.abs().toDecimal(decimals, true);
+    // No sign when rounding leaves nothing, e.g. -0.001 at 2 decimals
+    const negative = this.units < BigInt(0) && /[1-9]/.test(body);
+    const prefix = symbol === null ? '' : symbol === 'PHP' ? 'PHP ' : symbol;
+    return `${negative ? '-' : ''}${prefix}${body}`;
+  }
+
+  private abs(): PesoAmount {
+    return this.units < BigInt(0) ? new PesoAmount(-this.units, this.decimals) : this;
+  }
+
+  /**
+   * Decimal representation with a given number of decimals (rounded half up)
+   */
+  private toDecimal(decimals: number, grouped: boolean): string {
+    let units = this.units < BigInt(0) ? -this.units : this.units;
+    if (decimals < this.decimals) {
+      const divisor = TEN ** BigInt(this.decimals - decimals);
+      units = (units + divisor / BigInt(2)) / divisor;
+    } else {
+      units *= TEN ** BigInt(decimals - this.decimals);
+    }
+
+    const digits = units.toString().padStart(decimals + 1, '0');
+    let whole = digits.slice(0, digits.length - decimals);
+    const fraction = digits.slice(digits.length - decimals);
+    if (grouped) {
+      whole = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+    }
+    const sign = this.units < BigInt(0) && units !== BigInt(0) ? '-' : '';
+    return `${sign}${whole}${decimals > 0 ? `.${fraction}` : ''}`;
+  }
+}
+
+/**
+ * Parse a peso amount (shorthand for {@link PesoAmount.parse})
+ * @param text Amount text such as "₱1,234,567.89", or a number of pesos
+ * @param decimals Decimals to keep (default: 2)
+ */
+export function pesos(text: string | number, decimals?: number): PesoAmount {
+  return PesoAmount.parse(text, decimals);
+}
+
+/**
+ * Format an on-chain amount in pesos
+ * @param units On-chain amount
+ * @param decimals Decimals of the on-chain amount (default: 2)
+ * @param options Formatting options
+ */
+export function formatPesos(
+  units: bigint | number | string,
+  decimals?: number,
+  options?: PesoFormatOptions
+): string {
+  return PesoAmount.fromUnits(units, decimals).format(options);
+}
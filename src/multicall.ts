@@ -0,0 +1,122 @@
+import { ethers } from 'ethers';
+
+const multicallInterface = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)'
+]);
+
+/**
+ * Read batching options
+ */
+export interface BatchOptions {
+  /** Multicall3 contract address (null: send calls individually, batched by the JSON-RPC provider) */
+  multicallAddress?: string | null;
+  /** Maximum calls per aggregate call (default: 100) */
+  maxBatchSize?: number;
+  /** Milliseconds to wait for more calls before sending a batch (default: 0) */
+  wait?: number;
+}
+
+interface PendingCall {
+  to: string;
+  data: string;
+  resolve: (result: string) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Contract runner that collects concurrent `eth_call`s and sends them as one
+ * Multicall3 `aggregate3` call
+ *
+ * Reverts of individual calls are rethrown with their revert data, so contract
+ * error decoding works as without batching. Calls with a sender, value or block
+ * tag are passed straight to the provider. If the Multicall3 contract is not
+ * deployed, calls fall back to individual `eth_call`s, which `JsonRpcProvider`
+ * sends as JSON-RPC batch requests.
+ */
+export class BatchingRunner implements ethers.ContractRunner {
+  private queue: PendingCall[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private multicallAddress: string | null;
+  private readonly maxBatchSize: number;
+  private readonly wait: number;
+
+  constructor(
+    readonly provider: ethers.Provider,
+    options: BatchOptions = {}
+  ) {
+    this.multicallAddress = options.multicallAddress ?? null;
+    this.maxBatchSize = Math.max(1, options.maxBatchSize ?? 100);
+    this.wait = options.wait ?? 0;
+  }
+
+  async call(tx: ethers.TransactionRequest): Promise<string> {
+    const batchable = typeof tx.to === 'string' && tx.data && !tx.from && !tx.value && tx.blockTag == null;
+    if (!batchable) {
+      return this.provider.call(tx);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ to: tx.to as string, data: tx.data!, resolve, reject });
+      if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.wait);
+      }
+    });
+  }
+
+  private flush(): void {
+    this.timer = null;
+    const calls = this.queue.splice(0);
+    for (let i = 0; i < calls.length; i += this.maxBatchSize) {
+      this.execute(calls.slice(i, i + this.maxBatchSize));
+    }
+  }
+
+  private async execute(calls: PendingCall[]): Promise<void> {
+    const multicallAddress = this.multicallAddress;
+    if (!multicallAddress || calls.length === 1) {
+      return this.executeIndividually(calls);
+    }
+
+    let results: Array<{ success: boolean; returnData: string }>;
+    try {
+      const data = await this.provider.call({
+        to: multicallAddress,
+        data: multicallInterface.encodeFunctionData('aggregate3', [
+          calls.map((call) => ({ target: call.to, allowFailure: true, callData: call.data }))
+        ])
+      });
+      if (data === '0x') {
+        // No Multicall3 on this chain
+        this.multicallAddress = null;
+        return this.executeIndividually(calls);
+      }
+      [results] = multicallInterface.decodeFunctionResult('aggregate3', data);
+    } catch {
+      // The batch itself failed (RPC error, gas limit, no Multicall3 at this
+      // block): each read gets its own answer, or its own error
+      return this.executeIndividually(calls);
+    }
+
+    calls.forEach((call, i) => {
+      const { success, returnData } = results[i];
+      if (success) {
+        call.resolve(returnData);
+      } else {
+        call.reject(ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+          action: 'call',
+          data: returnData,
+          reason: null,
+          transaction: { to: call.to, data: call.data },
+          invocation: null,
+          revert: null
+        }));
+      }
+    });
+  }
+
+  private async executeIndividually(calls: PendingCall[]): Promise<void> {
+    await Promise.all(calls.map((call) =>
+      this.provider.call({ to: call.to, data: call.data }).then(call.resolve, call.reject)
+    ));
+  }
+}
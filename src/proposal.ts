@@ -0,0 +1,351 @@
+import { Contract, Result } from 'ethers';
+import type { DBTCClient } from './client';
+import { getDefaultClient } from './client';
+import {
+  BudgetPhase,
+  ProposalStatus,
+  OnChainProposalData,
+  ProposalMetadata,
+  RevisionRecord
+} from './types';
+import { decodeProposalData, toDate } from './utils';
+import { withContractErrors } from './errors';
+import BudgetProposalABI from './abis/BudgetProposal.json';
+
+/**
+ * BudgetProposal contract API
+ *
+ * Obtain through `client.proposals` (bundled or configured address) or
+ * `client.proposals.at(address)` for another deployment.
+ */
+export class ProposalApi {
+  constructor(
+    private readonly client: DBTCClient,
+    private readonly proposalAddress?: string
+  ) {}
+
+  /**
+   * BudgetProposal API for a specific contract address
+   * @param proposalAddress BudgetProposal contract address
+   */
+  at(proposalAddress: string): ProposalApi {
+    return new ProposalApi(this.client, proposalAddress);
+  }
+
+  /**
+   * Resolve the BudgetProposal contract address
+   * (explicit address, then configured address, then the DBTC registry)
+   */
+  async getAddress(): Promise<string> {
+    const address =
+      this.proposalAddress ||
+      this.client.addresses.budgetProposal ||
+      await this.client.dbtc.getBudgetProposalContract();
+    if (!address) {
+      throw new Error('BudgetProposal contract address not configured. Use setContractAddresses() or provide address.');
+    }
+    return address;
+  }
+
+  /**
+   * Get BudgetProposal contract instance
+   */
+  private async getContract(): Promise<Contract> {
+    return new Contract(await this.getAddress(), BudgetProposalABI.abi, this.client.reader);
+  }
+
+  // ============ Read Functions ============
+
+  /**
+   * Get the on-chain data of a proposal
+   * @param tokenId Proposal token ID
+   * @returns Proposal data with decoded codes
+   */
+  async getData(tokenId: bigint | number): Promise<OnChainProposalData> {
+    return withContractErrors(async () => {
+      const data = await (await this.getContract()).getProposalData(tokenId);
+      return decodeProposalData(data, this.client.amountDecimals);
+    });
+  }
+
+  /**
+   * Get the lifecycle metadata of a proposal
+   * @param tokenId Proposal token ID
+   * @returns Proposal metadata
+   */
+  async getMetadata(tokenId: bigint | number): Promise<ProposalMetadata> {
+    return withContractErrors(async () => {
+      const metadata = await (await this.getContract()).getProposalMetadata(tokenId);
+      return {
+        originTokenId: metadata.originTokenId,
+        status: Number(metadata.status) as ProposalStatus,
+        submittedPhase: Number(metadata.submittedPhase) as BudgetPhase,
+        submitter: metadata.submitter,
+        createdAt: toDate(metadata.createdAt)
+      };
+    });
+  }
+
+  /**
+   * Get the current status of a proposal
+   * @param tokenId Proposal token ID
+   * @returns Proposal status
+   */
+  async getStatus(tokenId: bigint | number): Promise<ProposalStatus> {
+    return withContractErrors(async () => {
+      const status = await (await this.getContract()).getStatus(tokenId);
+      return Number(status) as ProposalStatus;
+    });
+  }
+
+  /**
+   * Get the metadata URI of a proposal
+   * @param tokenId Proposal token ID
+   * @returns Metadata URI
+   */
+  async getURI(tokenId: bigint | number): Promise<string> {
+    return withContractErrors(async () => {
+      return await (await this.getContract()).tokenURI(tokenId);
+    });
+  }
+
+  /**
+   * Get the origin token of a proposal's revision lineage
+   * @param tokenId Proposal token ID
+   * @returns Origin token ID
+   */
+  async getOrigin(tokenId: bigint | number): Promise<bigint> {
+    return withContractErrors(async () => {
+      return await (await this.getContract()).getOrigin(tokenId);
+    });
+  }
+
+  /**
+   * Get the latest version of a proposal lineage
+   * @param originTokenId Origin token ID
+   * @returns Latest token ID
+   */
+  async getLatestVersion(originTokenId: bigint | number): Promise<bigint> {
+    return withContractErrors(async () => {
+      return await (await this.getContract()).getLatestVersion(originTokenId);
+    });
+  }
+
+  /**
+   * Get the tokens created from a proposal by revision or amendment
+   * @param tokenId Proposal token ID
+   * @returns Child token IDs
+   */
+  async getChildTokens(tokenId: bigint | number): Promise<bigint[]> {
+    return withContractErrors(async () => {
+      const children: bigint[] = await (await this.getContract()).getChildTokens(tokenId);
+      return [...children];
+    });
+  }
+
+  /**
+   * Get the chain of token IDs leading to a proposal
+   * @param tokenId Proposal token ID
+   * @returns Token IDs in the revision chain
+   */
+  async getRevisionChain(tokenId: bigint | number): Promise<bigint[]> {
+    return withContractErrors(async () => {
+      const chain: bigint[] = await (await this.getContract()).getRevisionChain(tokenId);
+      return [...chain];
+    });
+  }
+
+  /**
+   * Get the revision history of a proposal
+   *
+   * The contract keeps the record of how each token was created: a revision
+   * or amendment returns its own record (empty for an original). Walk
+   * `getRevisionChain()` for the records of the whole path.
+   * @param tokenId Proposal token ID
+   * @returns Revision records
+   */
+  async getRevisionHistory(tokenId: bigint | number): Promise<RevisionRecord[]> {
+    return withContractErrors(async () => {
+      const history: Result = await (await this.getContract()).getRevisionHistory(tokenId);
+      return history.map(([previousTokenId, action, reason, timestamp, actor]: Result) => ({
+        previousTokenId: BigInt(previousTokenId),
+        action: Number(action) as ProposalStatus,
+        reason: String(reason),
+        timestamp: toDate(timestamp),
+        actor: String(actor)
+      }));
+    });
+  }
+
+  /**
+   * Get the agency holding a proposal token
+   * @param tokenId Proposal token ID
+   * @returns Agency contract address
+   */
+  async getAgency(tokenId: bigint | number): Promise<string> {
+    return withContractErrors(async () => {
+      return await (await this.getContract()).ownerOf(tokenId);
+    });
+  }
+
+  /**
+   * Get the number of proposal tokens minted (token IDs run from 1 and are never burned)
+   * @returns Token count
+   */
+  async getTokenCount(): Promise<number> {
+    return withContractErrors(async () => {
+      return Number(await (await this.getContract()).totalSupply());
+    });
+  }
+}
+
+/**
+ * BudgetProposal API of the default client
+ * @param proposalAddress Optional BudgetProposal contract address
+ */
+function getProposalApi(proposalAddress?: string): ProposalApi {
+  const { proposals } = getDefaultClient();
+  return proposalAddress ? proposals.at(proposalAddress) : proposals;
+}
+
+// ============ Read Functions ============
+
+/**
+ * Get the on-chain data of a proposal
+ * @param tokenId Proposal token ID
+ * @param proposalAddress Optional BudgetProposal contract address
+ * @returns Proposal data with decoded codes
+ */
+export async function getProposalData(
+  tokenId: bigint | number,
+  proposalAddress?: string
+): Promise<OnChainProposalData> {
+  return getProposalApi(proposalAddress).getData(tokenId);
+}
+
+/**
+ * Get the lifecycle metadata of a proposal
+ * @param tokenId Proposal token ID
+ * @param proposalAddress Optional BudgetProposal contract address
+ * @returns Proposal metadata
+ */
+export async function getProposalMetadata(
+  tokenId: bigint | number,
+  proposalAddress?: string
+): Promise<ProposalMetadata> {
+  return getProposalApi(proposalAddress).getMetadata(tokenId);
+}
+
+/**
+ * Get the current status of a proposal
+ * @param tokenId Proposal token ID
+ * @param proposalAddress Optional BudgetProposal contract address
+ * @returns Proposal status
+ */
+export async function getProposalStatus(
+  tokenId: bigint | number,
+  proposalAddress?: string
+): Promise<ProposalStatus> {
+  return getProposalApi(proposalAddress).getStatus(tokenId);
+}
+
+/**
+ * Get the metadata URI of a proposal
+ * @param tokenId Proposal token ID
+ * @param proposalAddress Optional BudgetProposal contract address
+ * @returns Metadata URI
+ */
+export async function getProposalURI(
+  tokenId: bigint | number,
+  proposalAddress?: string
+): Promise<string> {
+  return getProposalApi(proposalAddress).getURI(tokenId);
+}
+
+/**
+ * Get the origin token of a proposal's revision lineage
+ * @param tokenId Proposal token ID
+ * @param proposalAddress Optional BudgetProposal contract address
+ * @returns Origin token ID
+ */
+export async function getOrigin(
+  tokenId: bigint | number,
+  proposalAddress?: string
+): Promise<bigint> {
+  return getProposalApi(proposalAddress).getOrigin(tokenId);
+}
+
+/**
+ * Get the latest version of a proposal lineage
+ * @param originTokenId Origin token ID
+ * @param proposalAddress Optional BudgetProposal contract address
+ * @returns Latest token ID
+ */
+export async function getLatestVersion(
+  originTokenId: bigint | number,
+  proposalAddress?: string
+): Promise<bigint> {
+  return getProposalApi(proposalAddress).getLatestVersion(originTokenId);
+}
+
+/**
+ * Get the tokens created from a proposal by revision or amendment
+ * @param tokenId Proposal token ID
+ * @param proposalAddress Optional BudgetProposal contract address
+ * @returns Child token IDs
+ */
+export async function getChildTokens(
+  tokenId: bigint | number,
+  proposalAddress?: string
+): Promise<bigint[]> {
+  return getProposalApi(proposalAddress).getChildTokens(tokenId);
+}
+
+/**
+ * Get the chain of token IDs leading to a proposal
+ * @param tokenId Proposal token ID
+ * @param proposalAddress Optional BudgetProposal contract address
+ * @returns Token IDs in the revision chain
+ */
+export async function getRevisionChain(
+  tokenId: bigint | number,
+  proposalAddress?: string
+): Promise<bigint[]> {
+  return getProposalApi(proposalAddress).getRevisionChain(tokenId);
+}
+
+/**
+ * Get the revision history of a proposal (the record that created the token,
+ * empty for an original)
+ * @param tokenId Proposal token ID
+ * @param proposalAddress Optional BudgetProposal contract address
+ * @returns Revision records
+ */
+export async function getRevisionHistory(
+  tokenId: bigint | number,
+  proposalAddress?: string
+): Promise<RevisionRecord[]> {
+  return getProposalApi(proposalAddress).getRevisionHistory(tokenId);
+}
+
+/**
+ * Get the agency holding a proposal token
+ * @param tokenId Proposal token ID
+ * @param proposalAddress Optional BudgetProposal contract address
+ * @returns Agency contract address
+ */
+export async function getProposalAgency(
+  tokenId: bigint | number,
+  proposalAddress?: string
+): Promise<string> {
+  return getProposalApi(proposalAddress).getAgency(tokenId);
+}
+
+/**
+ * Get the number of proposal tokens minted
+ * @param proposalAddress Optional BudgetProposal contract address
+ * @returns Token count
+ */
+export async function getProposalTokenCount(proposalAddress?: string): Promise<number> {
+  return getProposalApi(proposalAddress).getTokenCount();
+}
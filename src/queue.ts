@@ -0,0 +1,194 @@
+import { ethers } from 'ethers';
+import { TransactionError } from './errors';
+
+const DEFAULT_MAX_PENDING = 16;
+
+/**
+ * Whether a send failed because its nonce was already used (ethers does not
+ * map every node's wording, e.g. ganache's "doesn't have the correct nonce")
+ */
+function isNonceExpired(error: unknown): boolean {
+  if (ethers.isError(error, 'NONCE_EXPIRED')) {
+    return true;
+  }
+  const message = (error as { error?: { message?: unknown } })?.error?.message ?? (error as Error)?.message;
+  return typeof message === 'string' && /nonce too low|correct nonce|nonce has already been used/i.test(message);
+}
+
+/**
+ * Transaction queue options
+ */
+export interface QueueOptions {
+  /**
+   * Transactions sent but not yet confirmed at once (default: 16). 1 waits
+   * for each transaction to confirm before sending the next.
+   */
+  maxPending?: number;
+}
+
+/**
+ * A queued transaction that was sent and is not yet confirmed
+ */
+export interface PendingTransaction {
+  nonce: number;
+  /** Hash of the first broadcast (resubmissions keep the nonce) */
+  hash: string;
+  sentAt: Date;
+}
+
+/**
+ * Nonce-managed send queue of one sending address
+ *
+ * Sends leave the queue one at a time, in order, each with the next nonce;
+ * up to `maxPending` of them may wait for confirmation at the same time.
+ * Nonces are tracked locally, so concurrent writes with the same key no
+ * longer collide:
+ * - a send that fails before broadcast gives its nonce back to the next send;
+ * - a transaction that is dropped frees its nonce, and the next send fills the
+ *   gap so the transactions after it can be mined;
+ * - "nonce too low" (the key was used elsewhere) resyncs with the chain and
+ *   retries once.
+ *
+ * Obtain through `client.transactions.getQueue(signer)`. With the
+ * `transactions.queue` option every write goes through the queue of its
+ * signer.
+ *
+ * @example
+ * ```typescript
+ * const queue = await client.transactions.getQueue(signer);
+ * console.log(queue.depth, 'waiting;', queue.pending.length, 'unconfirmed');
+ * ```
+ */
+export class TransactionQueue {
+  private nextNonce: number | null = null;
+  private freeNonces: number[] = [];
+  private waiting = 0;
+  private readonly inFlight = new Map<number, PendingTransaction>();
+  private readonly slotWaiters: Array<() => void> = [];
+  private sending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    /** Sending address */
+    readonly address: string,
+    private readonly options: QueueOptions = {}
+  ) {}
+
+  /**
+   * Transactions waiting to be sent
+   */
+  get depth(): number {
+    return this.waiting;
+  }
+
+  /**
+   * Transactions sent and not yet confirmed, by nonce
+   */
+  get pending(): PendingTransaction[] {
+    return [...this.inFlight.values()]
+      .sort((a, b) => a.nonce - b.nonce)
+      .map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Queue a transaction
+   * @param send Sends the transaction with the given nonce
+   * @param wait Waits for the sent transaction (e.g. `client.transactions.wait`)
+   * @returns Result of `wait`
+   */
+  async enqueue<T>(
+    send: (nonce: number) => Promise<ethers.TransactionResponse>,
+    wait: (tx: ethers.TransactionResponse) => Promise<T>
+  ): Promise<T> {
+    this.waiting++;
+    let tx: ethers.TransactionResponse;
+    try {
+      tx = await this.serialize(async () => {
+        await this.acquireSlot();
+        const sent = await this.broadcast(send);
+        this.inFlight.set(sent.nonce, { nonce: sent.nonce, hash: sent.hash, sentAt: new Date() });
+        return sent;
+      });
+    } finally {
+      this.waiting--;
+    }
+
+    try {
+      return await wait(tx);
+    } catch (error) {
+      if (error instanceof TransactionError && error.code === 'TRANSACTION_DROPPED') {
+        this.releaseNonce(tx.nonce);
+      }
+      throw error;
+    } finally {
+      this.inFlight.delete(tx.nonce);
+      this.slotWaiters.shift()?.();
+    }
+  }
+
+  /**
+   * Re-read the next nonce from the chain (after sending with the same key elsewhere)
+   */
+  async resync(): Promise<void> {
+    const [latest, pending] = await Promise.all([
+      this.provider.getTransactionCount(this.address, 'latest'),
+      this.provider.getTransactionCount(this.address, 'pending')
+    ]);
+    const highest = Math.max(-1, ...this.inFlight.keys());
+    this.nextNonce = Math.max(pending, highest + 1);
+    this.freeNonces = this.freeNonces.filter((nonce) => nonce >= latest && !this.inFlight.has(nonce));
+  }
+
+  /**
+   * Send with the next nonce, retrying once after a resync if the nonce was already used
+   */
+  private async broadcast(send: (nonce: number) => Promise<ethers.TransactionResponse>): Promise<ethers.TransactionResponse> {
+    for (let attempt = 0; ; attempt++) {
+      const nonce = await this.takeNonce();
+      try {
+        return await send(nonce);
+      } catch (error) {
+        if (isNonceExpired(error) && attempt === 0) {
+          await this.resync();
+          continue;
+        }
+        // Nothing was broadcast, so the nonce is still unused
+        this.releaseNonce(nonce);
+        throw error;
+      }
+    }
+  }
+
+  private async takeNonce(): Promise<number> {
+    if (this.freeNonces.length > 0) {
+      return this.freeNonces.shift()!;
+    }
+    if (this.nextNonce === null) {
+      this.nextNonce = await this.provider.getTransactionCount(this.address, 'pending');
+    }
+    return this.nextNonce++;
+  }
+
+  private releaseNonce(nonce: number): void {
+    if (!this.freeNonces.includes(nonce)) {
+      this.freeNonces.push(nonce);
+      this.freeNonces.sort((a, b) => a - b);
+    }
+  }
+
+  private async acquireSlot(): Promise<void> {
+    const maxPending = Math.max(1, this.options.maxPending ?? DEFAULT_MAX_PENDING);
+    while (this.inFlight.size >= maxPending) {
+      await new Promise<void>((resolve) => this.slotWaiters.push(resolve));
+    }
+  }
+
+  /**
+   * Run sends one at a time, in call order
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.sending.then(task);
+    this.sending = result.catch(() => undefined);
+    return result;
+  }
+}
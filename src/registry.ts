@@ -0,0 +1,116 @@
+import type { DBTCClient } from './client';
+import { getDefaultClient } from './client';
+import {
+  BudgetPhase,
+  getPhaseName,
+  AgencySnapshot,
+  DepartmentSnapshot,
+  PhaseResponsibility,
+  RegistrySnapshot,
+  RegistrySnapshotOptions
+} from './types';
+import { createLimiter } from './utils';
+
+const DEFAULT_CONCURRENCY = 8;
+
+/**
+ * Registry-wide reads
+ *
+ * Obtain through `client.registry`.
+ */
+export class RegistryApi {
+  constructor(private readonly client: DBTCClient) {}
+
+  /**
+   * Read the full organisational tree: departments, agencies, owners,
+   * document managers and phase responsibilities
+   * @param options Snapshot options
+   * @returns Registry snapshot
+   */
+  async getSnapshot(options: RegistrySnapshotOptions = {}): Promise<RegistrySnapshot> {
+    const limit = createLimiter(options.concurrency ?? DEFAULT_CONCURRENCY);
+    const { dbtc } = this.client;
+
+    const [blockNumber, owner, budgetProposal, currentPhase, fiscalYear, deptCodes] = await Promise.all([
+      this.client.provider.getBlockNumber(),
+      limit(() => dbtc.getOwner()),
+      limit(() => dbtc.getBudgetProposalContract()),
+      limit(() => dbtc.getCurrentPhase()),
+      limit(() => dbtc.getCurrentFiscalYear()),
+      limit(() => dbtc.getDepartmentCodes())
+    ]);
+
+    const phases = Object.values(BudgetPhase).filter((value): value is BudgetPhase => typeof value === 'number');
+    const [phaseResponsibilities, departments] = await Promise.all([
+      Promise.all(phases.map(async (phase): Promise<PhaseResponsibility> => ({
+        phase,
+        phaseName: getPhaseName(phase),
+        deptCode: await limit(() => dbtc.getPhaseResponsibleDepartment(phase))
+      }))),
+      Promise.all(deptCodes.map((code) => this.getDepartmentSnapshot(code, limit)))
+    ]);
+
+    return {
+      dbtc: dbtc.address,
+      owner,
+      budgetProposal,
+      currentPhase,
+      fiscalYear,
+      phaseResponsibilities,
+      departments,
+      blockNumber,
+      takenAt: new Date()
+    };
+  }
+
+  private async getDepartmentSnapshot(
+    deptCode: string,
+    limit: <T>(task: () => Promise<T>) => Promise<T>
+  ): Promise<DepartmentSnapshot> {
+    const address = await limit(() => this.client.dbtc.getDepartment(deptCode));
+    const department = this.client.department(address);
+
+    const [info, owner, isCongress, agencyCodes] = await limit(() => Promise.all([
+      department.getInfo(),
+      department.getOwner(),
+      department.isCongress(),
+      department.getAgencyCodes()
+    ]));
+    const standaloneOwner = info.isStandalone ? await limit(() => department.getStandaloneOwner()) : null;
+    const [houseAgency, senateAgency] = isCongress
+      ? await limit(() => Promise.all([department.getHouseAgency(), department.getSenateAgency()]))
+      : [null, null];
+
+    const agencies = await Promise.all(agencyCodes.map(async (agencyCode): Promise<AgencySnapshot> => {
+      const agencyAddress = await limit(() => department.getAgency(agencyCode));
+      const agency = this.client.agency(agencyAddress);
+      const [agencyInfo, documentManagers] = await limit(() => Promise.all([
+        agency.getInfo(),
+        agency.getDocumentManagers()
+      ]));
+      return { ...agencyInfo, documentManagers };
+    }));
+
+    return { ...info, owner, standaloneOwner, isCongress, houseAgency, senateAgency, agencies };
+  }
+}
+
+/**
+ * Read the full organisational tree: departments, agencies, owners,
+ * document managers and phase responsibilities
+ * @param options Snapshot options
+ * @returns Registry snapshot
+ */
+export async function getRegistrySnapshot(options?: RegistrySnapshotOptions): Promise<RegistrySnapshot> {
+  return getDefaultClient().registry.getSnapshot(options);
+}
+
+/**
+ * Serialize a registry snapshot to JSON
+ * @param snapshot Registry snapshot
+ * @param space Indentation (default: 2)
+ * @returns JSON string
+ */
+export function registrySnapshotToJSON(snapshot: RegistrySnapshot, space: number = 2): string {
+  return JSON.stringify(snapshot, null, space);
+}
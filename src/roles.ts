@@ -0,0 +1,216 @@
+import { ethers } from 'ethers';
+import type { DBTCClient } from './client';
+import { getDefaultClient } from './client';
+import {
+  AgencySnapshot,
+  CycleAction,
+  CycleRole,
+  DepartmentSnapshot,
+  PermissionHolders,
+  ResolvedRoles,
+  RoleAssignment,
+  RoleQueryOptions
+} from './types';
+import { getActionRoles, isActionAllowed, getAllowedActions } from './cycle';
+
+const sameAddress = (a: string | null | undefined, b: string) =>
+  !!a && a !== ethers.ZeroAddress && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Addresses that act for a department (department owner, standalone owner)
+ */
+const departmentOwners = (department: DepartmentSnapshot) =>
+  [department.owner, department.standaloneOwner].filter((owner): owner is string =>
+    !!owner && owner !== ethers.ZeroAddress);
+
+const isHouseOrSenate = (department: DepartmentSnapshot, agency: AgencySnapshot) =>
+  department.isCongress &&
+  (sameAddress(department.houseAgency, agency.address) || sameAddress(department.senateAgency, agency.address));
+
+/**
+ * Who holds which role in the DBTC registry
+ *
+ * Obtain through `client.roles`. Both queries read a registry snapshot
+ * (see `client.registry.getSnapshot()`); pass one in to answer several
+ * queries from the same read.
+ */
+export class RolesApi {
+  constructor(private readonly client: DBTCClient) {}
+
+  /**
+   * Every role an address holds, with the entities it holds them on
+   * @param address Address to check (e.g. the connected wallet)
+   * @param options Snapshot to reuse, or concurrency of the registry read
+   * @returns Roles and the actions they allow in the current phase
+   *
+   * @example
+   * ```typescript
+   * const { roles, allowedActions } = await client.roles.resolveRoles(wallet);
+   * const managed = roles.filter((r) => r.role === 'documentManager').map((r) => r.agencyCode);
+   * ```
+   */
+  async resolveRoles(address: string, options: RoleQueryOptions = {}): Promise<ResolvedRoles> {
+    const snapshot = options.snapshot ?? await this.client.registry.getSnapshot(options);
+    const roles: RoleAssignment[] = [];
+
+    if (sameAddress(snapshot.owner, address)) {
+      roles.push({ role: 'dbtcOwner', entity: snapshot.dbtc, entityType: 'dbtc' });
+    }
+
+    for (const department of snapshot.departments) {
+      const deptRole = { entity: department.address, entityType: 'department' as const, deptCode: department.code, name: department.name };
+      if (sameAddress(department.owner, address)) {
+        roles.push({ role: 'departmentOwner', ...deptRole });
+      }
+      if (sameAddress(department.standaloneOwner, address)) {
+        roles.push({ role: 'standaloneOwner', ...deptRole });
+      }
+      if (departmentOwners(department).some((owner) => sameAddress(owner, address))) {
+        for (const { phase, deptCode } of snapshot.phaseResponsibilities) {
+          if (deptCode === department.code) {
+            roles.push({ role: 'phaseResponsible', entity: snapshot.dbtc, entityType: 'dbtc', deptCode, name: department.name, phase });
+          }
+        }
+      }
+
+      for (const agency of department.agencies) {
+        const agencyRole = {
+          entity: agency.address,
+          entityType: 'agency' as const,
+          deptCode: department.code,
+          agencyCode: agency.code,
+          name: agency.name
+        };
+        const isOwner = sameAddress(agency.owner, address);
+        const isManager = agency.documentManagers.some((manager) => sameAddress(manager, address));
+        if (isOwner) {
+          roles.push({ role: 'agencyOwner', ...agencyRole });
+        }
+        if (isManager) {
+          roles.push({ role: 'documentManager', ...agencyRole });
+        }
+        if ((isOwner || isManager) && isHouseOrSenate(department, agency)) {
+          roles.push({ role: 'houseOrSenate', ...agencyRole });
+        }
+        if (isOwner && department.isCongress && sameAddress(department.mainAgency, agency.address)) {
+          roles.push({ role: 'congressMainAgency', ...agencyRole });
+        }
+      }
+    }
+
+    // Phase responsibility only counts for the current phase
+    const activeRoles = [...new Set(roles
+      .filter((role) => role.role !== 'phaseResponsible' || role.phase === snapshot.currentPhase)
+      .map((role) => role.role))];
+
+    return {
+      address,
+      roles,
+      currentPhase: snapshot.currentPhase,
+      allowedActions: activeRoles.length > 0 ? getAllowedActions(snapshot.currentPhase, activeRoles) : [],
+      blockNumber: snapshot.blockNumber
+    };
+  }
+
+  /**
+   * Addresses that may perform an action on a contract
+   * @param action Write action
+   * @param entity Contract the action is sent to (DBTC, department or agency address)
+   * @param options Snapshot to reuse, or concurrency of the registry read
+   * @returns Permission holders, and whether the current phase allows the action
+   *
+   * @example
+   * ```typescript
+   * const { holders } = await client.roles.whoCan('submitProposal', agencyAddress);
+   * ```
+   */
+  async whoCan(action: CycleAction, entity: string, options: RoleQueryOptions = {}): Promise<PermissionHolders> {
+    const snapshot = options.snapshot ?? await this.client.registry.getSnapshot(options);
+    const holders: Array<{ address: string; role: CycleRole }> = [];
+    const add = (role: CycleRole, addresses: Array<string | null>) => {
+      for (const address of addresses) {
+        if (address && address !== ethers.ZeroAddress &&
+            !holders.some((holder) => holder.role === role && sameAddress(holder.address, address))) {
+          holders.push({ address, role });
+        }
+      }
+    };
+
+    let entityType: PermissionHolders['entityType'] = null;
+    const roles = getActionRoles(action);
+
+    if (sameAddress(snapshot.dbtc, entity)) {
+      entityType = 'dbtc';
+      if (roles.includes('dbtcOwner')) {
+        add('dbtcOwner', [snapshot.owner]);
+      }
+      if (roles.includes('phaseResponsible')) {
+        const responsible = snapshot.phaseResponsibilities.find((item) => item.phase === snapshot.currentPhase);
+        snapshot.departments
+          .filter((department) => department.code === responsible?.deptCode)
+          .forEach((department) => add('phaseResponsible', departmentOwners(department)));
+      }
+    }
+
+    for (const department of snapshot.departments) {
+      if (sameAddress(department.address, entity)) {
+        entityType = 'department';
+        if (roles.includes('departmentOwner')) {
+          add('departmentOwner', departmentOwners(department));
+        }
+      }
+      for (const agency of department.agencies) {
+        if (!sameAddress(agency.address, entity)) {
+          continue;
+        }
+        entityType = 'agency';
+        if (roles.includes('agencyOwner')) {
+          add('agencyOwner', [agency.owner]);
+        }
+        if (roles.includes('documentManager')) {
+          add('documentManager', agency.documentManagers);
+        }
+        if (roles.includes('houseOrSenate') && isHouseOrSenate(department, agency)) {
+          add('houseOrSenate', [agency.owner, ...agency.documentManagers]);
+        }
+        if (roles.includes('congressMainAgency') && department.isCongress &&
+            sameAddress(department.mainAgency, agency.address)) {
+          add('congressMainAgency', [agency.owner]);
+        }
+      }
+    }
+
+    return {
+      action,
+      entity,
+      entityType,
+      allowedInCurrentPhase: isActionAllowed(action, snapshot.currentPhase),
+      holders
+    };
+  }
+}
+
+/**
+ * Every role an address holds across the registry
+ * @param address Address to check
+ * @param options Snapshot to reuse, or concurrency of the registry read
+ * @returns Roles and the actions they allow in the current phase
+ */
+export async function resolveRoles(address: string, options?: RoleQueryOptions): Promise<ResolvedRoles> {
+  return getDefaultClient().roles.resolveRoles(address, options);
+}
+
+/**
+ * Addresses that may perform an action on a contract
+ * @param action Write action
+ * @param entity Contract the action is sent to (DBTC, department or agency address)
+ * @param options Snapshot to reuse, or concurrency of the registry read
+ * @returns Permission holders
+ */
+export async function whoCan(
+  action: CycleAction,
+  entity: string,
+  options?: RoleQueryOptions
+): Promise<PermissionHolders> {
+  return getDefaultClient().roles.whoCan(action, entity, options);
+}
@@ -0,0 +1,144 @@
+import { ethers } from 'ethers';
+
+/**
+ * Anything accepted where the SDK needs to sign: a hex private key, an ethers Signer
+ * (Wallet, BrowserProvider signer, ...) or a remote signer adapter
+ */
+export type SignerLike = string | ethers.Signer | SignerAdapter;
+
+/**
+ * Minimal interface for remote signers (KMS, HSM, signing services)
+ *
+ * Implementations only sign 32-byte digests; transaction and message encoding
+ * is handled by {@link AdapterSigner}.
+ */
+export interface SignerAdapter {
+  /** Address of the signing key */
+  getAddress(): Promise<string>;
+  /**
+   * Sign a 32-byte digest with the key
+   * @param digest Hex-encoded digest
+   * @returns Recoverable secp256k1 signature (r, s and v or yParity)
+   */
+  signDigest(digest: string): Promise<ethers.SignatureLike>;
+}
+
+/**
+ * ethers Signer backed by a {@link SignerAdapter}
+ *
+ * @example
+ * ```typescript
+ * const signer = new AdapterSigner(myKmsAdapter, client.provider);
+ * await submitProposal(agencyAddress, uri, data, signer);
+ * ```
+ */
+export class AdapterSigner extends ethers.AbstractSigner {
+  constructor(
+    readonly adapter: SignerAdapter,
+    provider?: ethers.Provider | null
+  ) {
+    super(provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return ethers.getAddress(await this.adapter.getAddress());
+  }
+
+  connect(provider: ethers.Provider | null): AdapterSigner {
+    return new AdapterSigner(this.adapter, provider);
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    const address = await this.getAddress();
+    // Copy through the getters: populated requests arrive as Transaction instances
+    const request = ethers.copyRequest(tx);
+    const { to, from } = await ethers.resolveProperties({
+      to: request.to ? ethers.resolveAddress(request.to, this.provider) : undefined,
+      from: request.from ? ethers.resolveAddress(request.from, this.provider) : undefined
+    });
+    if (from != null && from.toLowerCase() !== address.toLowerCase()) {
+      throw new Error(`Transaction from address ${from} does not match signer ${address}`);
+    }
+
+    const unsigned = ethers.Transaction.from({ ...request, to, from: undefined } as ethers.TransactionLike<string>);
+    unsigned.signature = await this.verifiedSignature(unsigned.unsignedHash, address);
+    return unsigned.serialized;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const digest = ethers.hashMessage(message);
+    return (await this.verifiedSignature(digest, await this.getAddress())).serialized;
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    const populated = await ethers.TypedDataEncoder.resolveNames(domain, types, value, async (name) => {
+      if (!this.provider) {
+        throw new Error('Cannot resolve ENS names without a provider');
+      }
+      const address = await this.provider.resolveName(name);
+      if (!address) {
+        throw new Error(`Unresolved ENS name: ${name}`);
+      }
+      return address;
+    });
+    const digest = ethers.TypedDataEncoder.hash(populated.domain, types, populated.value);
+    return (await this.verifiedSignature(digest, await this.getAddress())).serialized;
+  }
+
+  /**
+   * Sign a digest through the adapter and check it recovers to the adapter's address
+   */
+  private async verifiedSignature(digest: string, address: string): Promise<ethers.Signature> {
+    const signature = ethers.Signature.from(await this.adapter.signDigest(digest));
+    const recovered = ethers.recoverAddress(digest, signature);
+    if (recovered.toLowerCase() !== address.toLowerCase()) {
+      throw new Error(`Signer adapter returned a signature for ${recovered}, expected ${address}`);
+    }
+    return signature;
+  }
+}
+
+/**
+ * Turn a signer or signer adapter into an ethers Signer
+ * @param signer ethers Signer or signer adapter
+ * @returns ethers Signer
+ */
+export function toSigner(signer: ethers.Signer | SignerAdapter): ethers.Signer {
+  const isAdapter = 'signDigest' in signer && !('sendTransaction' in signer);
+  return isAdapter ? new AdapterSigner(signer as SignerAdapter) : signer as ethers.Signer;
+}
+
+/**
+ * Signer adapter backed by an in-memory key
+ *
+ * Stand-in for a remote signer in development and tests.
+ * @param privateKey Hex private key
+ */
+export function localSignerAdapter(privateKey: string): SignerAdapter {
+  const key = new ethers.SigningKey(privateKey);
+  const address = ethers.computeAddress(key.publicKey);
+  return {
+    getAddress: async () => address,
+    signDigest: async (digest) => key.sign(digest)
+  };
+}
+
+/**
+ * Decrypt a JSON keystore into a signer
+ * @param json Encrypted JSON keystore
+ * @param password Keystore password
+ * @param provider Provider to connect the signer to (optional)
+ * @returns Decrypted signer
+ */
+export async function signerFromKeystore(
+  json: string,
+  password: string,
+  provider?: ethers.Provider
+): Promise<ethers.Signer> {
+  const wallet = await ethers.Wallet.fromEncryptedJson(json, password);
+  return provider ? wallet.connect(provider) : wallet;
+}
@@ -0,0 +1,642 @@
+import { ethers } from 'ethers';
+import { ChainMode, ContractAddresses, getNetworkConfig } from '../config';
+import { DBTCClient, DBTCClientOptions } from '../client';
+import { BudgetPhase, EntityType } from '../types';
+import { decodeContractError } from '../errors';
+import {
+  ContractsState,
+  DBTCState,
+  DepartmentState,
+  ExecutionContext,
+  INITIAL_FISCAL_YEAR,
+  Revert,
+  deployDBTC,
+  deployMulticall3,
+  executeCall
+} from './contracts';
+import { MockProvider } from './provider';
+import DBTCABI from '../abis/DBTC.json';
+import DepartmentABI from '../abis/Department.json';
+import AgencyABI from '../abis/Agency.json';
+
+/** Gas charged for every transaction */
+const GAS_USED = BigInt(100000);
+/** Gas limit suggested by eth_estimateGas */
+const GAS_ESTIMATE = BigInt(150000);
+/** Base fee of every block (1 gwei) */
+export const MOCK_BASE_FEE = BigInt(1000000000);
+
+const dbtcInterface = new ethers.Interface(DBTCABI.abi);
+const departmentInterface = new ethers.Interface(DepartmentABI.abi);
+const agencyInterface = new ethers.Interface(AgencyABI.abi);
+
+/**
+ * Mock chain options
+ */
+export interface MockChainOptions {
+  /** Network whose chain ID and Multicall3 address are simulated (default: 'testnet') */
+  chainMode?: ChainMode;
+  /** Fiscal year of the budget cycle, entered by `startBudgetCall` (default: 2026, as on a fresh DBTC deployment) */
+  fiscalYear?: number;
+  /** Funded test accounts; the first deploys DBTC and owns it (default: 10) */
+  accounts?: number;
+  /** Unix time of the genesis block in seconds (default: now) */
+  startTime?: number;
+}
+
+/**
+ * Agency to create when seeding
+ */
+export interface AgencySeed {
+  code: string;
+  name: string;
+  owner: string;
+  documentManagers?: string[];
+}
+
+/**
+ * Department to create when seeding
+ */
+export interface DepartmentSeed {
+  code: string;
+  name: string;
+  /** Owner of the main agency (the standalone owner for standalone entities) */
+  owner: string;
+  /** Name of the main agency (default: "Office of the Secretary"; unused for standalone entities) */
+  mainAgencyName?: string;
+  /** Document managers of the main agency (standalone entities have none) */
+  documentManagers?: string[];
+  standalone?: boolean;
+  /** Default: true */
+  actual?: boolean;
+  agencies?: AgencySeed[];
+  /** Agency codes of the House and Senate (Congress, department code 01) */
+  house?: string;
+  senate?: string;
+}
+
+/**
+ * Registry to create when seeding
+ */
+export interface FiscalYearSeed {
+  departments: DepartmentSeed[];
+  /** Department code responsible for each phase (default: the first department, for every phase) */
+  phaseResponsibilities?: Partial<Record<BudgetPhase, string>>;
+}
+
+/**
+ * Addresses created by seeding, per department code
+ */
+export interface SeededDepartment {
+  address: string;
+  mainAgency: string;
+  /** Agency addresses by agency code (including the main agency) */
+  agencies: Record<string, string>;
+}
+
+export interface MockLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: number;
+  logIndex: number;
+}
+
+export interface MockTransaction {
+  hash: string;
+  type: number;
+  from: string;
+  to: string | null;
+  nonce: number;
+  data: string;
+  value: bigint;
+  gasLimit: bigint;
+  gasPrice: bigint | null;
+  maxFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint | null;
+  chainId: bigint;
+  signature: { r: string; s: string; v: number; yParity: number };
+  blockNumber: number;
+  blockHash: string;
+  index: number;
+  status: number;
+  gasUsed: bigint;
+  contractAddress: string | null;
+  logs: MockLog[];
+}
+
+export interface MockBlock {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  transactions: string[];
+}
+
+/**
+ * Transaction sent without a signature (impersonating `from`)
+ */
+const IMPERSONATED_SIGNATURE = { r: ethers.toBeHex(1, 32), s: ethers.toBeHex(1, 32), v: 27, yParity: 0 };
+
+/**
+ * JSON-RPC error returned to the provider
+ */
+export class MockRpcError extends Error {
+  constructor(readonly code: number, message: string, readonly data?: string) {
+    super(message);
+  }
+}
+
+/**
+ * In-process simulator of the DBTC, Department, Agency and BudgetProposal contracts
+ *
+ * Every transaction is mined into its own block straight away. Contract
+ * behaviour follows the bundled contracts: their phase and role checks, the
+ * same custom errors and events, and the registry
+ * layout (each department is created with main agency "001"; department "01"
+ * is Congress). Plug `chain.provider` into a client, or use
+ * `chain.createClient()`:
+ *
+ * @example
+ * ```typescript
+ * const chain = new MockDBTCChain({ fiscalYear: 2026 });
+ * const [dbm, deptOwner, manager] = chain.accounts;
+ * const registry = chain.seedFiscalYear({
+ *   departments: [{ code: '07', name: 'Department of Education', owner: deptOwner.address, documentManagers: [manager.address] }]
+ * });
+ * chain.jumpToPhase(BudgetPhase.BUDGET_CALL);
+ *
+ * const client = chain.createClient({ signer: manager });
+ * await client.agency(registry['07'].mainAgency).submitProposal('ipfs://...', data);
+ * ```
+ */
+export class MockDBTCChain {
+  readonly chainMode: ChainMode;
+  readonly chainId: number;
+  /** JSON-RPC provider backed by this chain */
+  readonly provider: MockProvider;
+  /** Test accounts connected to the provider (the first owns the DBTC contract) */
+  readonly accounts: ethers.Wallet[];
+  /** Addresses of the DBTC and BudgetProposal contracts */
+  readonly addresses: ContractAddresses;
+
+  private state: ContractsState = { contracts: {}, creations: {} };
+  /** Contract state after each block */
+  private readonly history: ContractsState[] = [];
+  private readonly blocks: MockBlock[] = [];
+  private readonly transactions = new Map<string, MockTransaction>();
+  private readonly nonces = new Map<string, number>();
+  private timeOffset = 0;
+
+  constructor(options: MockChainOptions = {}) {
+    this.chainMode = options.chainMode ?? 'testnet';
+    const network = getNetworkConfig(this.chainMode);
+    this.chainId = network.chainId;
+    this.provider = new MockProvider(this);
+    this.accounts = Array.from({ length: options.accounts ?? 10 }, (_, index) =>
+      new ethers.Wallet(ethers.id(`dbtc-mock-account-${index}`), this.provider));
+
+    deployMulticall3(this.state, network.multicall3);
+    this.commitBlock(options.startTime ?? Math.floor(Date.now() / 1000), []);
+
+    const fiscalYear = options.fiscalYear ?? INITIAL_FISCAL_YEAR + 1;
+    const addresses = { dbtc: '', budgetProposal: '' };
+    this.execute(this.accounts[0].address, null, '0x', (ctx) => {
+      Object.assign(addresses, deployDBTC(ctx, fiscalYear - 1));
+      return '0x';
+    });
+    this.addresses = addresses;
+  }
+
+  /**
+   * Number of the latest block
+   */
+  get blockNumber(): number {
+    return this.blocks.length - 1;
+  }
+
+  /**
+   * Client connected to this chain
+   * @param options Client options (default signer: the DBTC owner account)
+   */
+  createClient(options: Partial<DBTCClientOptions> = {}): DBTCClient {
+    return new DBTCClient({
+      signer: options.privateKey ? undefined : this.accounts[0],
+      ...options,
+      chainMode: this.chainMode,
+      provider: this.provider,
+      addresses: { ...this.addresses, ...options.addresses }
+    });
+  }
+
+  /**
+   * Move the clock forward (applies from the next block)
+   * @param seconds Seconds to add
+   */
+  increaseTime(seconds: number): void {
+    this.timeOffset += seconds;
+  }
+
+  /**
+   * Mine empty blocks
+   * @param count Number of blocks (default: 1)
+   */
+  mine(count: number = 1): void {
+    for (let i = 0; i < count; i++) {
+      this.history.push(this.state);
+      this.commitBlock(this.nextTimestamp(), []);
+    }
+  }
+
+  /**
+   * Send a transaction as any address, without a signature
+   * @param from Sender
+   * @param to Contract address
+   * @param data Calldata
+   * @returns Transaction hash and return data
+   * @throws The decoded contract error if the call reverts (nothing is mined)
+   */
+  transact(from: string, to: string, data: string): { hash: string; returnData: string } {
+    try {
+      this.call({ from, to, data });
+    } catch (error) {
+      throw error instanceof MockRpcError ? decodeContractError({ data: error.data }) ?? error : error;
+    }
+    let returnData = '0x';
+    const hash = this.execute(from, to, data, (ctx) => (returnData = executeCall(ctx, to, data)));
+    return { hash, returnData };
+  }
+
+  // ============ Seeding ============
+
+  /**
+   * Create departments, agencies, owners, document managers and phase
+   * responsibilities, each through the contracts (events are emitted as usual).
+   * The contracts only accept these before the budget call starts.
+   * @param seed Registry to create
+   * @returns Created addresses per department code
+   */
+  seedFiscalYear(seed: FiscalYearSeed): Record<string, SeededDepartment> {
+    const owner = this.dbtcState().owner;
+    const created: Record<string, SeededDepartment> = {};
+
+    for (const department of seed.departments) {
+      const { returnData } = this.transact(owner, this.addresses.dbtc, dbtcInterface.encodeFunctionData('addDepartment', [
+        department.code,
+        department.name,
+        department.mainAgencyName ?? (department.standalone ? '' : 'Office of the Secretary'),
+        department.owner,
+        department.standalone ?? false,
+        department.actual ?? true
+      ]));
+      const [address] = dbtcInterface.decodeFunctionResult('addDepartment', returnData);
+      const mainAgency = this.departmentState(address).mainAgency;
+      const agencies: Record<string, string> = {};
+      if (mainAgency !== ethers.ZeroAddress) {
+        agencies[this.departmentState(address).agencyCodes[0]] = mainAgency;
+        this.addManagers(department.owner, mainAgency, department.documentManagers);
+      }
+
+      for (const agency of department.agencies ?? []) {
+        const { returnData: agencyData } = this.transact(department.owner, address,
+          departmentInterface.encodeFunctionData('addAgency', [agency.code, agency.name, agency.owner]));
+        [agencies[agency.code]] = departmentInterface.decodeFunctionResult('addAgency', agencyData);
+        this.addManagers(agency.owner, agencies[agency.code], agency.documentManagers);
+      }
+      if (department.house && department.senate) {
+        this.transact(department.owner, address, departmentInterface.encodeFunctionData('setHouseAndSenate', [
+          agencies[department.house],
+          agencies[department.senate]
+        ]));
+      }
+      created[department.code] = { address, mainAgency, agencies };
+    }
+
+    const first = seed.departments[0]?.code;
+    const phases = Object.values(BudgetPhase).filter((value): value is BudgetPhase => typeof value === 'number');
+    for (const phase of phases) {
+      const deptCode = seed.phaseResponsibilities?.[phase] ?? (seed.phaseResponsibilities ? undefined : first);
+      if (deptCode) {
+        this.transact(owner, this.addresses.dbtc, dbtcInterface.encodeFunctionData('assignPhaseResponsibility', [phase, deptCode]));
+      }
+    }
+    return created;
+  }
+
+  /**
+   * Advance the budget cycle to a phase, sending `startBudgetCall` and
+   * `advancePhase` as the responsible departments (when leaving PRE_BUDGET,
+   * phases without a responsible department are assigned to the first department)
+   * @param phase Target phase (not before the current phase)
+   */
+  jumpToPhase(phase: BudgetPhase): void {
+    if (phase < this.dbtcState().phase) {
+      throw new Error(`Cannot go back from phase ${this.dbtcState().phase} to ${phase}`);
+    }
+    if (phase > this.dbtcState().phase && this.dbtcState().phase === BudgetPhase.PRE_BUDGET) {
+      const dbtc = this.dbtcState();
+      const first = dbtc.departmentCodes[0];
+      if (!first) {
+        throw new Error('Seed at least one department before changing phase');
+      }
+      for (let unassigned = BudgetPhase.PRE_BUDGET; unassigned < BudgetPhase.GAA_ENACTMENT; unassigned++) {
+        if (!dbtc.phaseResponsible[unassigned]) {
+          this.transact(dbtc.owner, this.addresses.dbtc, dbtcInterface.encodeFunctionData('assignPhaseResponsibility', [unassigned, first]));
+        }
+      }
+    }
+    while (this.dbtcState().phase < phase) {
+      const dbtc = this.dbtcState();
+      const deptCode = dbtc.phaseResponsible[dbtc.phase];
+      if (!deptCode) {
+        throw new Error(`No department is responsible for phase ${dbtc.phase}`);
+      }
+      const department = this.departmentState(dbtc.departments[deptCode]);
+      const sender = department.entityType === EntityType.STANDALONE
+        ? department.standaloneOwner
+        : this.agencyOwner(department.mainAgency);
+      const method = dbtc.phase === BudgetPhase.PRE_BUDGET ? 'startBudgetCall' : 'advancePhase';
+      this.transact(sender, this.addresses.dbtc, dbtcInterface.encodeFunctionData(method));
+    }
+  }
+
+  private addManagers(owner: string, agency: string, managers: string[] = []): void {
+    for (const manager of managers) {
+      this.transact(owner, agency, agencyInterface.encodeFunctionData('addDocumentManager', [manager]));
+    }
+  }
+
+  private dbtcState(): DBTCState {
+    return this.state.contracts[this.addresses.dbtc.toLowerCase()] as DBTCState;
+  }
+
+  private departmentState(address: string): DepartmentState {
+    return this.state.contracts[address.toLowerCase()] as DepartmentState;
+  }
+
+  private agencyOwner(address: string): string {
+    const agency = this.state.contracts[address.toLowerCase()];
+    return agency.kind === 'agency' ? agency.owner : ethers.ZeroAddress;
+  }
+
+  // ============ JSON-RPC Backend ============
+
+  /**
+   * Run a call without mining it
+   * @param tx Call (from, to, data)
+   * @param blockTag Block whose state to use (default: latest)
+   * @returns Return data
+   * @throws MockRpcError with the revert data if the call reverts
+   */
+  call(tx: { from?: string | null; to?: string | null; data?: string | null }, blockTag: ethers.BlockTag = 'latest'): string {
+    const number = this.resolveBlockNumber(blockTag);
+    if (number === null) {
+      throw new MockRpcError(-32000, `unknown block ${blockTag}`);
+    }
+    if (!tx.to) {
+      throw new MockRpcError(-32000, 'contract creation is not simulated');
+    }
+    const ctx: ExecutionContext = {
+      state: structuredClone(this.history[number] ?? this.state),
+      sender: ethers.getAddress(tx.from ?? ethers.ZeroAddress),
+      timestamp: this.nextTimestamp(),
+      logs: []
+    };
+    try {
+      return executeCall(ctx, tx.to, tx.data ?? '0x');
+    } catch (error) {
+      if (error instanceof Revert) {
+        throw new MockRpcError(3, error.message, error.data);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gas estimate of a call (fails like the call if it reverts)
+   */
+  estimateGas(tx: { from?: string | null; to?: string | null; data?: string | null }): bigint {
+    this.call(tx);
+    return GAS_ESTIMATE;
+  }
+
+  /**
+   * Mine a signed transaction
+   * @param raw Signed serialized transaction
+   * @returns Transaction hash
+   */
+  sendRawTransaction(raw: string): string {
+    const tx = ethers.Transaction.from(raw);
+    if (!tx.from || !tx.signature) {
+      throw new MockRpcError(-32000, 'transaction is not signed');
+    }
+    if (tx.chainId !== BigInt(this.chainId)) {
+      throw new MockRpcError(-32000, `invalid chain id ${tx.chainId}`);
+    }
+    const expected = this.getTransactionCount(tx.from);
+    if (tx.nonce < expected) {
+      throw new MockRpcError(-32000, `nonce too low: next nonce ${expected}, tx nonce ${tx.nonce}`);
+    }
+    if (tx.nonce > expected) {
+      throw new MockRpcError(-32000, `nonce too high: next nonce ${expected}, tx nonce ${tx.nonce}`);
+    }
+    if (!tx.to) {
+      throw new MockRpcError(-32000, 'contract creation is not simulated');
+    }
+    const to = tx.to;
+    return this.execute(tx.from, to, tx.data, (ctx) => executeCall(ctx, to, tx.data), {
+      hash: tx.hash!,
+      type: tx.type ?? 0,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      gasPrice: tx.type === 2 ? null : tx.gasPrice,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      signature: { r: tx.signature.r, s: tx.signature.s, v: tx.signature.v, yParity: tx.signature.yParity }
+    });
+  }
+
+  /**
+   * Code at an address ("0xfe" for simulated contracts, "0x" otherwise)
+   */
+  getCode(address: string): string {
+    return this.state.contracts[address.toLowerCase()] ? '0xfe' : '0x';
+  }
+
+  /**
+   * Next nonce of an address
+   */
+  getTransactionCount(address: string): number {
+    return this.nonces.get(address.toLowerCase()) ?? 0;
+  }
+
+  /**
+   * Block by number, tag or hash (null if unknown)
+   */
+  getBlock(blockTagOrHash: ethers.BlockTag): MockBlock | null {
+    if (typeof blockTagOrHash === 'string' && ethers.isHexString(blockTagOrHash, 32)) {
+      return this.blocks.find((block) => block.hash === blockTagOrHash) ?? null;
+    }
+    const number = this.resolveBlockNumber(blockTagOrHash);
+    return number === null ? null : this.blocks[number];
+  }
+
+  /**
+   * Mined transaction by hash (null if unknown)
+   */
+  getTransaction(hash: string): MockTransaction | null {
+    return this.transactions.get(hash.toLowerCase()) ?? null;
+  }
+
+  /**
+   * Logs matching a filter
+   */
+  getLogs(filter: {
+    fromBlock?: ethers.BlockTag;
+    toBlock?: ethers.BlockTag;
+    blockHash?: string;
+    address?: string | string[];
+    topics?: Array<string | string[] | null>;
+  }): MockLog[] {
+    let from: number | null;
+    let to: number | null;
+    if (filter.blockHash) {
+      from = to = this.getBlock(filter.blockHash)?.number ?? null;
+    } else {
+      from = this.resolveBlockNumber(filter.fromBlock ?? 'latest');
+      to = this.resolveBlockNumber(filter.toBlock ?? 'latest');
+    }
+    if (from === null || to === null) {
+      return [];
+    }
+    const addresses = filter.address === undefined ? null
+      : (Array.isArray(filter.address) ? filter.address : [filter.address]).map((address) => address.toLowerCase());
+    const topics = filter.topics ?? [];
+
+    return this.blocks.slice(from, to + 1)
+      .flatMap((block) => block.transactions.flatMap((hash) => this.transactions.get(hash)!.logs))
+      .filter((log) => !addresses || addresses.includes(log.address.toLowerCase()))
+      .filter((log) => topics.every((topic, index) => {
+        if (topic === null || topic === undefined) {
+          return true;
+        }
+        const options = (Array.isArray(topic) ? topic : [topic]).map((value) => value.toLowerCase());
+        return log.topics[index] !== undefined && options.includes(log.topics[index].toLowerCase());
+      }));
+  }
+
+  /**
+   * Block number of a block tag (null if the block does not exist)
+   */
+  resolveBlockNumber(blockTag: ethers.BlockTag): number | null {
+    if (blockTag === 'earliest') {
+      return 0;
+    }
+    if (typeof blockTag === 'string' && ['latest', 'pending', 'safe', 'finalized'].includes(blockTag)) {
+      return this.blockNumber;
+    }
+    const number = Number(blockTag);
+    if (number < 0) {
+      return this.blockNumber + number >= 0 ? this.blockNumber + number : null;
+    }
+    return Number.isInteger(number) && number <= this.blockNumber ? number : null;
+  }
+
+  // ============ Mining ============
+
+  /**
+   * Run a transaction and mine it into a new block (reverted transactions are mined with status 0)
+   * @returns Transaction hash
+   */
+  private execute(
+    from: string,
+    to: string | null,
+    data: string,
+    run: (ctx: ExecutionContext) => string,
+    signed?: Pick<MockTransaction, 'hash' | 'type' | 'value' | 'gasLimit' | 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'signature'>
+  ): string {
+    const sender = ethers.getAddress(from);
+    const nonce = this.getTransactionCount(sender);
+    const ctx: ExecutionContext = { state: structuredClone(this.state), sender, timestamp: this.nextTimestamp(), logs: [] };
+    let status = 1;
+    let contractAddress: string | null = null;
+    try {
+      run(ctx);
+      if (!to) {
+        contractAddress = ethers.getCreateAddress({ from: sender, nonce });
+      }
+    } catch (error) {
+      if (!(error instanceof Revert)) {
+        throw error;
+      }
+      status = 0;
+    }
+    this.nonces.set(sender.toLowerCase(), nonce + 1);
+    if (status === 1) {
+      this.state = ctx.state;
+    }
+
+    const hash = signed?.hash ?? ethers.keccak256(ethers.concat([
+      ethers.toUtf8Bytes('dbtc-mock'),
+      sender,
+      ethers.toBeHex(nonce, 32),
+      ethers.toBeHex(this.chainId, 32)
+    ]));
+    const block = this.commitBlock(ctx.timestamp, [hash]);
+    const logs = status === 1 ? ctx.logs : [];
+    this.transactions.set(hash.toLowerCase(), {
+      hash,
+      type: 2,
+      value: BigInt(0),
+      gasLimit: GAS_ESTIMATE,
+      gasPrice: null,
+      maxFeePerGas: MOCK_BASE_FEE * BigInt(2),
+      maxPriorityFeePerGas: MOCK_BASE_FEE,
+      signature: IMPERSONATED_SIGNATURE,
+      ...signed,
+      from: sender,
+      to: to && ethers.getAddress(to),
+      nonce,
+      data,
+      chainId: BigInt(this.chainId),
+      blockNumber: block.number,
+      blockHash: block.hash,
+      index: 0,
+      status,
+      gasUsed: GAS_USED,
+      contractAddress,
+      logs: logs.map((log, logIndex) => ({
+        ...log,
+        address: ethers.getAddress(log.address),
+        blockNumber: block.number,
+        blockHash: block.hash,
+        transactionHash: hash,
+        transactionIndex: 0,
+        logIndex
+      }))
+    });
+    this.history.push(this.state);
+    return hash;
+  }
+
+  private commitBlock(timestamp: number, transactions: string[]): MockBlock {
+    const number = this.blocks.length;
+    const parentHash = number === 0 ? ethers.ZeroHash : this.blocks[number - 1].hash;
+    const hash = ethers.keccak256(ethers.concat([parentHash, ethers.toBeHex(number, 32), ...transactions]));
+    const block = { number, hash, parentHash, timestamp, transactions: transactions.map((tx) => tx.toLowerCase()) };
+    this.blocks.push(block);
+    this.timeOffset = 0;
+    if (number === 0) {
+      this.history.push(this.state);
+    }
+    return block;
+  }
+
+  private nextTimestamp(): number {
+    const latest = this.blocks[this.blocks.length - 1];
+    return latest.timestamp + 1 + this.timeOffset;
+  }
+}
@@ -0,0 +1,922 @@
+import { ethers } from 'ethers';
+import { BudgetPhase, EntityType, ProposalStatus } from '../types';
+import DBTCABI from '../abis/DBTC.json';
+import DepartmentABI from '../abis/Department.json';
+import AgencyABI from '../abis/Agency.json';
+import BudgetProposalABI from '../abis/BudgetProposal.json';
+
+/** Code of the agency every department is created with */
+export const MAIN_AGENCY_CODE = '001';
+
+/** UACS department code of the Congress of the Philippines */
+export const CONGRESS_DEPARTMENT_CODE = '01';
+
+const ERC721_RECEIVED = '0x150b7a02';
+
+type ProposalWrite = 'submitProposal' | 'reviseProposal' | 'amendProposal' | 'submitSeparateGAB' | 'submitJointGAB';
+
+/**
+ * Phases the Agency contract accepts each proposal write in (its phase
+ * modifiers; kept apart from the SDK's cycle rules so tests can compare them)
+ */
+const PROPOSAL_WRITE_PHASES: Record<ProposalWrite, BudgetPhase[]> = {
+  submitProposal: [BudgetPhase.BUDGET_CALL],
+  reviseProposal: [BudgetPhase.BUDGET_CALL, BudgetPhase.TECHNICAL_REVIEW],
+  amendProposal: [BudgetPhase.GAB_SEPARATE, BudgetPhase.GAB_BICAM],
+  submitSeparateGAB: [BudgetPhase.GAB_SEPARATE],
+  submitJointGAB: [BudgetPhase.GAB_BICAM]
+};
+
+/** Interfaces reported by supportsInterface: ERC-165, ERC-721, ERC-721 metadata, ERC-4906 */
+const SUPPORTED_INTERFACES = ['0x01ffc9a7', '0x80ac58cd', '0x5b5e139f', '0x49064906'];
+
+const dbtcInterface = new ethers.Interface(DBTCABI.abi);
+const departmentInterface = new ethers.Interface(DepartmentABI.abi);
+const agencyInterface = new ethers.Interface(AgencyABI.abi);
+const proposalInterface = new ethers.Interface(BudgetProposalABI.abi);
+const multicallInterface = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)'
+]);
+
+// ============ State ============
+
+export interface DBTCState {
+  kind: 'dbtc';
+  owner: string;
+  fiscalYear: number;
+  phase: BudgetPhase;
+  budgetProposal: string;
+  departmentCodes: string[];
+  departments: Record<string, string>;
+  /** Department code per phase */
+  phaseResponsible: Record<number, string>;
+}
+
+export interface DepartmentState {
+  kind: 'department';
+  dbtc: string;
+  code: string;
+  name: string;
+  entityType: EntityType;
+  isActualDepartment: boolean;
+  isCongress: boolean;
+  mainAgency: string;
+  standaloneOwner: string;
+  agencyCodes: string[];
+  agencies: Record<string, string>;
+  houseAgency: string;
+  senateAgency: string;
+}
+
+export interface AgencyState {
+  kind: 'agency';
+  department: string;
+  code: string;
+  name: string;
+  owner: string;
+  /** Every address ever added, in order (removal only clears the flag) */
+  documentManagers: string[];
+  managerFlags: Record<string, boolean>;
+}
+
+export interface ProposalTokenState {
+  owner: string;
+  uri: string;
+  data: {
+    fiscalYear: bigint;
+    departmentCode: string;
+    agencyCode: string;
+    prexcFpapId: string;
+    uacsObjCode: string;
+    amount: bigint;
+  };
+  originTokenId: bigint;
+  status: ProposalStatus;
+  submittedPhase: BudgetPhase;
+  submitter: string;
+  createdAt: number;
+  parentTokenId: bigint | null;
+  /** Record of the revision or amendment that created this token */
+  record: { previousTokenId: bigint; action: ProposalStatus; reason: string; timestamp: number; actor: string } | null;
+  children: bigint[];
+  /** Last revision created from this token, or the token itself (getLatestVersion follows these links) */
+  latestVersion: bigint;
+}
+
+export interface BudgetProposalState {
+  kind: 'budgetProposal';
+  owner: string;
+  dbtc: string;
+  nextTokenId: bigint;
+  tokens: Record<string, ProposalTokenState>;
+  authorizedMinters: Record<string, boolean>;
+}
+
+export type ContractState = DBTCState | DepartmentState | AgencyState | BudgetProposalState | { kind: 'multicall3' };
+
+/**
+ * State of every simulated contract (plain data, so it can be cloned per call)
+ */
+export interface ContractsState {
+  contracts: Record<string, ContractState>;
+  /** Contract creation count per creator (for CREATE addresses) */
+  creations: Record<string, number>;
+}
+
+export interface ExecutionContext {
+  state: ContractsState;
+  sender: string;
+  timestamp: number;
+  logs: Array<{ address: string; topics: string[]; data: string }>;
+}
+
+/**
+ * Contract call reverted with encoded error data
+ */
+export class Revert extends Error {
+  constructor(readonly data: string, message: string = 'execution reverted') {
+    super(message);
+  }
+}
+
+function revert(iface: ethers.Interface, name: string, args: unknown[] = []): never {
+  throw new Revert(iface.encodeErrorResult(name, args), `execution reverted: ${name}`);
+}
+
+const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const emit = (ctx: ExecutionContext, address: string, iface: ethers.Interface, event: string, args: unknown[]) => {
+  const { topics, data } = iface.encodeEventLog(event, args);
+  ctx.logs.push({ address, topics, data });
+};
+
+function load<K extends ContractState['kind']>(
+  state: ContractsState,
+  address: string,
+  kind: K
+): Extract<ContractState, { kind: K }> {
+  const contract = state.contracts[address.toLowerCase()];
+  if (!contract || contract.kind !== kind) {
+    throw new Error(`no ${kind} contract at ${address}`);
+  }
+  return contract as Extract<ContractState, { kind: K }>;
+}
+
+function create(ctx: ExecutionContext, creator: string, contract: ContractState): string {
+  const nonce = (ctx.state.creations[creator.toLowerCase()] ?? 0) + 1;
+  ctx.state.creations[creator.toLowerCase()] = nonce;
+  const address = ethers.getCreateAddress({ from: creator, nonce });
+  ctx.state.contracts[address.toLowerCase()] = contract;
+  return address;
+}
+
+// ============ DBTC ============
+
+function dbtcOf(state: ContractsState, address: string) {
+  return load(state, address, 'dbtc');
+}
+
+/**
+ * Addresses that act for a department: the standalone owner, or the main agency owner
+ */
+function departmentOwner(state: ContractsState, department: DepartmentState): string {
+  return department.entityType === EntityType.STANDALONE
+    ? department.standaloneOwner
+    : load(state, department.mainAgency, 'agency').owner;
+}
+
+function onlyDbtcOwner(ctx: ExecutionContext, dbtc: DBTCState) {
+  if (!same(ctx.sender, dbtc.owner)) {
+    revert(dbtcInterface, 'OwnableUnauthorizedAccount', [ctx.sender]);
+  }
+}
+
+function onlyPhaseResponsible(ctx: ExecutionContext, dbtc: DBTCState) {
+  const deptCode = dbtc.phaseResponsible[dbtc.phase];
+  const department = deptCode ? load(ctx.state, dbtc.departments[deptCode], 'department') : null;
+  if (!department || !same(ctx.sender, departmentOwner(ctx.state, department))) {
+    revert(dbtcInterface, 'NotPhaseResponsible');
+  }
+}
+
+/** Fiscal year the DBTC constructor starts at; `startBudgetCall` moves to the next one */
+export const INITIAL_FISCAL_YEAR = 2025;
+
+/**
+ * Deploy the DBTC contract, which deploys (and owns) its BudgetProposal contract
+ * @param fiscalYear Fiscal year before the first budget call
+ * @returns DBTC and BudgetProposal addresses
+ */
+export function deployDBTC(ctx: ExecutionContext, fiscalYear: number): { dbtc: string; budgetProposal: string } {
+  const deployer = ctx.sender;
+  const nonce = ctx.state.creations[deployer.toLowerCase()] ?? 0;
+  ctx.state.creations[deployer.toLowerCase()] = nonce + 1;
+  const dbtc = ethers.getCreateAddress({ from: deployer, nonce });
+  const budgetProposal = create(ctx, dbtc, {
+    kind: 'budgetProposal',
+    owner: dbtc,
+    dbtc,
+    nextTokenId: BigInt(1),
+    tokens: {},
+    authorizedMinters: {}
+  });
+  ctx.state.contracts[dbtc.toLowerCase()] = {
+    kind: 'dbtc',
+    owner: deployer,
+    fiscalYear,
+    phase: BudgetPhase.PRE_BUDGET,
+    budgetProposal,
+    departmentCodes: [],
+    departments: {},
+    phaseResponsible: {}
+  };
+  emit(ctx, dbtc, dbtcInterface, 'OwnershipTransferred', [ethers.ZeroAddress, deployer]);
+  emit(ctx, budgetProposal, proposalInterface, 'OwnershipTransferred', [ethers.ZeroAddress, dbtc]);
+  emit(ctx, dbtc, dbtcInterface, 'SystemInitialized', [fiscalYear, budgetProposal]);
+  return { dbtc, budgetProposal };
+}
+
+function addDepartment(
+  ctx: ExecutionContext,
+  self: string,
+  [deptCode, deptName, mainAgencyName, mainAgencyOwner, isStandalone, isActualDept]: [string, string, string, string, boolean, boolean]
+): string {
+  const dbtc = dbtcOf(ctx.state, self);
+  onlyDbtcOwner(ctx, dbtc);
+  if (dbtc.phase !== BudgetPhase.PRE_BUDGET) {
+    revert(dbtcInterface, 'ActionNotAllowedInPhase');
+  }
+  if (!deptCode || !deptName || (!isStandalone && !mainAgencyName)) {
+    revert(dbtcInterface, 'EmptyString');
+  }
+  if (mainAgencyOwner === ethers.ZeroAddress) {
+    revert(dbtcInterface, 'ZeroAddress');
+  }
+  if (dbtc.departments[deptCode]) {
+    revert(dbtcInterface, 'DepartmentAlreadyExists');
+  }
+
+  const department: DepartmentState = {
+    kind: 'department',
+    dbtc: self,
+    code: deptCode,
+    name: deptName,
+    entityType: isStandalone ? EntityType.STANDALONE : EntityType.REGULAR,
+    isActualDepartment: isActualDept,
+    isCongress: deptCode === CONGRESS_DEPARTMENT_CODE,
+    mainAgency: ethers.ZeroAddress,
+    standaloneOwner: isStandalone ? mainAgencyOwner : ethers.ZeroAddress,
+    agencyCodes: [],
+    agencies: {},
+    houseAgency: ethers.ZeroAddress,
+    senateAgency: ethers.ZeroAddress
+  };
+  const address = create(ctx, self, department);
+  // Standalone entities have no main agency; their owner adds agencies directly
+  if (!isStandalone) {
+    createAgency(ctx, address, department, MAIN_AGENCY_CODE, mainAgencyName, mainAgencyOwner, true);
+  }
+
+  dbtc.departments[deptCode] = address;
+  dbtc.departmentCodes.push(deptCode);
+  emit(ctx, self, dbtcInterface, 'DepartmentAdded', [deptCode, address, deptName]);
+  return address;
+}
+
+const DBTC_FUNCTIONS: Record<string, Handler> = {
+  owner: (ctx, self) => dbtcOf(ctx.state, self).owner,
+  budgetProposal: (ctx, self) => dbtcOf(ctx.state, self).budgetProposal,
+  getBudgetProposalContract: (ctx, self) => dbtcOf(ctx.state, self).budgetProposal,
+  currentFiscalYear: (ctx, self) => dbtcOf(ctx.state, self).fiscalYear,
+  getCurrentFiscalYear: (ctx, self) => dbtcOf(ctx.state, self).fiscalYear,
+  currentPhase: (ctx, self) => dbtcOf(ctx.state, self).phase,
+  getCurrentPhase: (ctx, self) => dbtcOf(ctx.state, self).phase,
+  getDepartment: (ctx, self, [code]) => dbtcOf(ctx.state, self).departments[code] ?? ethers.ZeroAddress,
+  getDepartmentCodes: (ctx, self) => dbtcOf(ctx.state, self).departmentCodes,
+  getDepartmentCount: (ctx, self) => dbtcOf(ctx.state, self).departmentCodes.length,
+  isDepartmentRegistered: (ctx, self, [code]) => !!dbtcOf(ctx.state, self).departments[code],
+  getPhaseResponsibleDepartment: (ctx, self, [phase]) => dbtcOf(ctx.state, self).phaseResponsible[Number(phase)] ?? '',
+  isPhaseResponsible: (ctx, self, [code, phase]) => dbtcOf(ctx.state, self).phaseResponsible[Number(phase)] === code,
+
+  addDepartment: (ctx, self, args) => addDepartment(ctx, self, [...args] as Parameters<typeof addDepartment>[2]),
+  addRegularDepartment: (ctx, self, [deptCode, deptName, mainAgencyName, mainAgencyOwner]) =>
+    addDepartment(ctx, self, [deptCode, deptName, mainAgencyName, mainAgencyOwner, false, true]),
+
+  assignPhaseResponsibility: (ctx, self, [phase, deptCode]) => {
+    const dbtc = dbtcOf(ctx.state, self);
+    onlyDbtcOwner(ctx, dbtc);
+    if (dbtc.phase !== BudgetPhase.PRE_BUDGET) {
+      revert(dbtcInterface, 'ActionNotAllowedInPhase');
+    }
+    if (Number(phase) > BudgetPhase.GAA_ENACTMENT) {
+      revert(dbtcInterface, 'InvalidPhase');
+    }
+    if (!dbtc.departments[deptCode]) {
+      revert(dbtcInterface, 'DepartmentNotFound');
+    }
+    dbtc.phaseResponsible[Number(phase)] = deptCode;
+    emit(ctx, self, dbtcInterface, 'PhaseResponsibilityAssigned', [phase, deptCode]);
+  },
+
+  startBudgetCall: (ctx, self) => {
+    const dbtc = dbtcOf(ctx.state, self);
+    // Starts the first cycle, or the next fiscal year's once the GAA is enacted
+    const fromPhase = dbtc.phase;
+    if (fromPhase !== BudgetPhase.PRE_BUDGET && fromPhase !== BudgetPhase.GAA_ENACTMENT) {
+      revert(dbtcInterface, 'ActionNotAllowedInPhase');
+    }
+    onlyPhaseResponsible(ctx, dbtc);
+    dbtc.phase = BudgetPhase.BUDGET_CALL;
+    dbtc.fiscalYear++;
+    emit(ctx, self, dbtcInterface, 'BudgetCycleStarted', [dbtc.fiscalYear]);
+    emit(ctx, self, dbtcInterface, 'PhaseAdvanced', [fromPhase, BudgetPhase.BUDGET_CALL, dbtc.fiscalYear]);
+  },
+
+  advancePhase: (ctx, self) => {
+    const dbtc = dbtcOf(ctx.state, self);
+    if (dbtc.phase === BudgetPhase.PRE_BUDGET) {
+      revert(dbtcInterface, 'InvalidPhase');
+    }
+    if (dbtc.phase === BudgetPhase.GAA_ENACTMENT) {
+      revert(dbtcInterface, 'CannotAdvancePhase');
+    }
+    onlyPhaseResponsible(ctx, dbtc);
+    const from = dbtc.phase;
+    dbtc.phase = from + 1;
+    emit(ctx, self, dbtcInterface, 'PhaseAdvanced', [from, dbtc.phase, dbtc.fiscalYear]);
+  },
+
+  authorizeAgencyMinter: (ctx, self, [agency]) => {
+    const dbtc = dbtcOf(ctx.state, self);
+    if (!Object.values(dbtc.departments).some((address) => same(address, ctx.sender))) {
+      revert(dbtcInterface, 'NotAuthorized');
+    }
+    load(ctx.state, dbtc.budgetProposal, 'budgetProposal').authorizedMinters[agency.toLowerCase()] = true;
+  },
+
+  transferOwnership: (ctx, self, [newOwner]) => {
+    const dbtc = dbtcOf(ctx.state, self);
+    onlyDbtcOwner(ctx, dbtc);
+    if (newOwner === ethers.ZeroAddress) {
+      revert(dbtcInterface, 'OwnableInvalidOwner', [newOwner]);
+    }
+    emit(ctx, self, dbtcInterface, 'OwnershipTransferred', [dbtc.owner, newOwner]);
+    dbtc.owner = newOwner;
+  },
+
+  renounceOwnership: (ctx, self) => {
+    const dbtc = dbtcOf(ctx.state, self);
+    onlyDbtcOwner(ctx, dbtc);
+    emit(ctx, self, dbtcInterface, 'OwnershipTransferred', [dbtc.owner, ethers.ZeroAddress]);
+    dbtc.owner = ethers.ZeroAddress;
+  }
+};
+
+// ============ Department ============
+
+function departmentOf(state: ContractsState, address: string) {
+  return load(state, address, 'department');
+}
+
+/**
+ * Create an agency contract; its owner starts as its first document manager
+ */
+function createAgency(
+  ctx: ExecutionContext,
+  departmentAddress: string,
+  department: DepartmentState,
+  code: string,
+  name: string,
+  owner: string,
+  isMainAgency: boolean = false
+): string {
+  const address = create(ctx, departmentAddress, {
+    kind: 'agency',
+    department: departmentAddress,
+    code,
+    name,
+    owner,
+    documentManagers: [owner],
+    managerFlags: { [owner.toLowerCase()]: true }
+  });
+  if (isMainAgency) {
+    department.mainAgency = address;
+    emit(ctx, departmentAddress, departmentInterface, 'MainAgencySet', [address]);
+  }
+  department.agencies[code] = address;
+  department.agencyCodes.push(code);
+  const dbtc = dbtcOf(ctx.state, department.dbtc);
+  load(ctx.state, dbtc.budgetProposal, 'budgetProposal').authorizedMinters[address.toLowerCase()] = true;
+  emit(ctx, departmentAddress, departmentInterface, 'AgencyAdded', [code, address, name]);
+  return address;
+}
+
+const DEPARTMENT_FUNCTIONS: Record<string, Handler> = {
+  code: (ctx, self) => departmentOf(ctx.state, self).code,
+  getCode: (ctx, self) => departmentOf(ctx.state, self).code,
+  name: (ctx, self) => departmentOf(ctx.state, self).name,
+  getName: (ctx, self) => departmentOf(ctx.state, self).name,
+  dbtc: (ctx, self) => departmentOf(ctx.state, self).dbtc,
+  getDBTC: (ctx, self) => departmentOf(ctx.state, self).dbtc,
+  entityType: (ctx, self) => departmentOf(ctx.state, self).entityType,
+  isStandalone: (ctx, self) => departmentOf(ctx.state, self).entityType === EntityType.STANDALONE,
+  isActualDepartment: (ctx, self) => departmentOf(ctx.state, self).isActualDepartment,
+  getIsActualDepartment: (ctx, self) => departmentOf(ctx.state, self).isActualDepartment,
+  isCongress: (ctx, self) => departmentOf(ctx.state, self).isCongress,
+  mainAgency: (ctx, self) => departmentOf(ctx.state, self).mainAgency,
+  getMainAgency: (ctx, self) => departmentOf(ctx.state, self).mainAgency,
+  standaloneOwner: (ctx, self) => departmentOf(ctx.state, self).standaloneOwner,
+  getStandaloneOwner: (ctx, self) => departmentOf(ctx.state, self).standaloneOwner,
+  getDepartmentOwner: (ctx, self) => departmentOwner(ctx.state, departmentOf(ctx.state, self)),
+  houseAgency: (ctx, self) => departmentOf(ctx.state, self).houseAgency,
+  getHouseAgency: (ctx, self) => departmentOf(ctx.state, self).houseAgency,
+  senateAgency: (ctx, self) => departmentOf(ctx.state, self).senateAgency,
+  getSenateAgency: (ctx, self) => departmentOf(ctx.state, self).senateAgency,
+  isHouseOrSenate: (ctx, self, [agency]) => isHouseOrSenate(departmentOf(ctx.state, self), agency),
+  getAgency: (ctx, self, [code]) => departmentOf(ctx.state, self).agencies[code] ?? ethers.ZeroAddress,
+  getAgencyCodes: (ctx, self) => departmentOf(ctx.state, self).agencyCodes,
+  getAgencyCount: (ctx, self) => departmentOf(ctx.state, self).agencyCodes.length,
+  isAgencyRegistered: (ctx, self, [code]) => !!departmentOf(ctx.state, self).agencies[code],
+  onERC721Received: () => ERC721_RECEIVED,
+
+  addAgency: (ctx, self, [agencyCode, agencyName, ownerAddress]) => {
+    const department = departmentOf(ctx.state, self);
+    if (department.entityType === EntityType.STANDALONE) {
+      if (!same(ctx.sender, department.standaloneOwner)) {
+        revert(departmentInterface, 'NotStandaloneOwner');
+      }
+    } else if (!same(ctx.sender, departmentOwner(ctx.state, department))) {
+      revert(departmentInterface, 'NotMainAgency');
+    }
+    if (!agencyCode || !agencyName) {
+      revert(departmentInterface, 'EmptyString');
+    }
+    if (ownerAddress === ethers.ZeroAddress) {
+      revert(departmentInterface, 'ZeroAddress');
+    }
+    if (dbtcOf(ctx.state, department.dbtc).phase !== BudgetPhase.PRE_BUDGET) {
+      revert(departmentInterface, 'ActionNotAllowedInPhase');
+    }
+    if (department.agencies[agencyCode]) {
+      revert(departmentInterface, 'AgencyAlreadyExists');
+    }
+    return createAgency(ctx, self, department, agencyCode, agencyName, ownerAddress);
+  },
+
+  setHouseAndSenate: (ctx, self, [house, senate]) => {
+    const department = departmentOf(ctx.state, self);
+    if (!same(ctx.sender, departmentOwner(ctx.state, department))) {
+      revert(departmentInterface, 'NotMainAgency');
+    }
+    if (house === ethers.ZeroAddress || senate === ethers.ZeroAddress) {
+      revert(departmentInterface, 'ZeroAddress');
+    }
+    department.houseAgency = house;
+    department.senateAgency = senate;
+    emit(ctx, self, departmentInterface, 'HouseAndSenateSet', [house, senate]);
+  }
+};
+
+function isHouseOrSenate(department: DepartmentState, agency: string): boolean {
+  return department.isCongress && agency !== ethers.ZeroAddress &&
+    (same(department.houseAgency, agency) || same(department.senateAgency, agency));
+}
+
+// ============ Agency ============
+
+function agencyOf(state: ContractsState, address: string) {
+  return load(state, address, 'agency');
+}
+
+function onlyAgencyOwner(ctx: ExecutionContext, agency: AgencyState) {
+  if (!same(ctx.sender, agency.owner)) {
+    revert(agencyInterface, 'NotOwner');
+  }
+}
+
+/**
+ * Checks shared by every proposal write: caller, phase and URI
+ */
+function checkProposalWrite(ctx: ExecutionContext, agency: AgencyState, action: ProposalWrite, uri: string) {
+  if (!same(ctx.sender, agency.owner) && !agency.managerFlags[ctx.sender.toLowerCase()]) {
+    revert(agencyInterface, 'NotDocumentManager');
+  }
+  const department = departmentOf(ctx.state, agency.department);
+  if (!PROPOSAL_WRITE_PHASES[action].includes(dbtcOf(ctx.state, department.dbtc).phase)) {
+    revert(agencyInterface, 'ActionNotAllowedInPhase');
+  }
+  if (!uri) {
+    revert(agencyInterface, 'EmptyString');
+  }
+  return department;
+}
+
+/**
+ * Proposal data with the fiscal year and codes filled in from the registry
+ */
+function enrich(ctx: ExecutionContext, agency: AgencyState, department: DepartmentState, data: ethers.Result): ProposalTokenState['data'] {
+  return {
+    fiscalYear: BigInt(dbtcOf(ctx.state, department.dbtc).fiscalYear),
+    departmentCode: ethers.encodeBytes32String(department.code),
+    agencyCode: ethers.encodeBytes32String(agency.code),
+    prexcFpapId: data.prexcFpapId,
+    uacsObjCode: data.uacsObjCode,
+    amount: data.amount
+  };
+}
+
+function submit(ctx: ExecutionContext, self: string, action: ProposalWrite, uri: string, data: ethers.Result): bigint {
+  const agency = agencyOf(ctx.state, self);
+  const department = checkProposalWrite(ctx, agency, action, uri);
+  if (action === 'submitSeparateGAB' && !isHouseOrSenate(department, self)) {
+    revert(agencyInterface, 'NotHouseOrSenate');
+  }
+  if (action === 'submitJointGAB' && !(department.isCongress && same(department.mainAgency, self))) {
+    revert(agencyInterface, 'NotCongressMainAgency');
+  }
+  const tokenId = mint(ctx, self, uri, enrich(ctx, agency, department, data));
+  emit(ctx, self, agencyInterface, 'ProposalSubmitted', [tokenId, ctx.sender]);
+  return tokenId;
+}
+
+function revise(
+  ctx: ExecutionContext,
+  self: string,
+  action: 'reviseProposal' | 'amendProposal',
+  [originalTokenId, newUri, newData, reason]: ethers.Result
+): bigint {
+  const agency = agencyOf(ctx.state, self);
+  const department = checkProposalWrite(ctx, agency, action, newUri);
+  const status = action === 'reviseProposal' ? ProposalStatus.REVISED : ProposalStatus.AMENDED;
+  const newTokenId = createRevision(ctx, self, originalTokenId, newUri, enrich(ctx, agency, department, newData), status, reason);
+  emit(ctx, self, agencyInterface, action === 'reviseProposal' ? 'ProposalRevised' : 'ProposalAmended', [originalTokenId, newTokenId]);
+  return newTokenId;
+}
+
+const AGENCY_FUNCTIONS: Record<string, Handler> = {
+  code: (ctx, self) => agencyOf(ctx.state, self).code,
+  getCode: (ctx, self) => agencyOf(ctx.state, self).code,
+  name: (ctx, self) => agencyOf(ctx.state, self).name,
+  getName: (ctx, self) => agencyOf(ctx.state, self).name,
+  department: (ctx, self) => agencyOf(ctx.state, self).department,
+  getDepartment: (ctx, self) => agencyOf(ctx.state, self).department,
+  owner: (ctx, self) => agencyOf(ctx.state, self).owner,
+  getOwner: (ctx, self) => agencyOf(ctx.state, self).owner,
+  getDocumentManagers: (ctx, self) => agencyOf(ctx.state, self).documentManagers,
+  isDocumentManager: (ctx, self, [address]) => !!agencyOf(ctx.state, self).managerFlags[address.toLowerCase()],
+  onERC721Received: () => ERC721_RECEIVED,
+
+  submitProposal: (ctx, self, [uri, data]) => submit(ctx, self, 'submitProposal', uri, data),
+  submitSeparateGAB: (ctx, self, [uri, data]) => submit(ctx, self, 'submitSeparateGAB', uri, data),
+  submitJointGAB: (ctx, self, [houseProposalId, , uri, data]) => {
+    const tokenId = submit(ctx, self, 'submitJointGAB', uri, data);
+    // The contracts link the House version with an APPROVED revision, which
+    // createRevision rejects: every joint GAB reverts with InvalidProposalStatus
+    const agency = agencyOf(ctx.state, self);
+    const linked = enrich(ctx, agency, departmentOf(ctx.state, agency.department), data);
+    createRevision(ctx, self, houseProposalId, uri, linked, ProposalStatus.APPROVED, 'Joint GAB - linked from House');
+    return tokenId;
+  },
+  reviseProposal: (ctx, self, args) => revise(ctx, self, 'reviseProposal', args),
+  amendProposal: (ctx, self, args) => revise(ctx, self, 'amendProposal', args),
+
+  addDocumentManager: (ctx, self, [manager]) => {
+    const agency = agencyOf(ctx.state, self);
+    onlyAgencyOwner(ctx, agency);
+    if (manager === ethers.ZeroAddress) {
+      revert(agencyInterface, 'ZeroAddress');
+    }
+    if (!agency.managerFlags[manager.toLowerCase()]) {
+      agency.managerFlags[manager.toLowerCase()] = true;
+      agency.documentManagers.push(manager);
+      emit(ctx, self, agencyInterface, 'DocumentManagerAdded', [manager]);
+    }
+  },
+
+  removeDocumentManager: (ctx, self, [manager]) => {
+    const agency = agencyOf(ctx.state, self);
+    onlyAgencyOwner(ctx, agency);
+    if (agency.managerFlags[manager.toLowerCase()]) {
+      agency.managerFlags[manager.toLowerCase()] = false;
+      emit(ctx, self, agencyInterface, 'DocumentManagerRemoved', [manager]);
+    }
+  },
+
+  transferOwnership: (ctx, self, [newOwner]) => {
+    const agency = agencyOf(ctx.state, self);
+    onlyAgencyOwner(ctx, agency);
+    if (newOwner === ethers.ZeroAddress) {
+      revert(agencyInterface, 'ZeroAddress');
+    }
+    agency.owner = newOwner;
+  }
+};
+
+// ============ BudgetProposal ============
+
+function proposalsOf(state: ContractsState, address: string) {
+  return load(state, address, 'budgetProposal');
+}
+
+function proposalsForAgency(state: ContractsState, agencyAddress: string) {
+  const department = departmentOf(state, agencyOf(state, agencyAddress).department);
+  return proposalsOf(state, dbtcOf(state, department.dbtc).budgetProposal);
+}
+
+function tokenOf(proposals: BudgetProposalState, tokenId: bigint, error: string = 'ProposalNotFound'): ProposalTokenState {
+  const token = proposals.tokens[tokenId.toString()];
+  if (!token) {
+    revert(proposalInterface, error, error === 'ProposalNotFound' ? [] : [tokenId]);
+  }
+  return token;
+}
+
+/**
+ * Store a new token owned by an agency (its submitter is the agency contract)
+ */
+function createToken(
+  ctx: ExecutionContext,
+  proposals: BudgetProposalState,
+  agency: string,
+  uri: string,
+  data: ProposalTokenState['data']
+): [bigint, ProposalTokenState] {
+  const address = dbtcOf(ctx.state, proposals.dbtc).budgetProposal;
+  const tokenId = proposals.nextTokenId++;
+  const token: ProposalTokenState = {
+    owner: agency,
+    uri,
+    data,
+    originTokenId: tokenId,
+    status: ProposalStatus.SUBMITTED,
+    submittedPhase: dbtcOf(ctx.state, proposals.dbtc).phase,
+    submitter: agency,
+    createdAt: ctx.timestamp,
+    parentTokenId: null,
+    record: null,
+    children: [],
+    latestVersion: tokenId
+  };
+  proposals.tokens[tokenId.toString()] = token;
+  emit(ctx, address, proposalInterface, 'Transfer', [ethers.ZeroAddress, agency, tokenId]);
+  emit(ctx, address, proposalInterface, 'MetadataUpdate', [tokenId]);
+  return [tokenId, token];
+}
+
+function mint(ctx: ExecutionContext, agency: string, uri: string, data: ProposalTokenState['data']): bigint {
+  const proposals = proposalsForAgency(ctx.state, agency);
+  if (!proposals.authorizedMinters[agency.toLowerCase()]) {
+    revert(proposalInterface, 'NotAuthorized');
+  }
+  const [tokenId] = createToken(ctx, proposals, agency, uri, data);
+  const address = dbtcOf(ctx.state, proposals.dbtc).budgetProposal;
+  emit(ctx, address, proposalInterface, 'ProposalMinted', [tokenId, agency, data.fiscalYear, ProposalStatus.SUBMITTED]);
+  return tokenId;
+}
+
+/**
+ * Create a revision or amendment of any token; the new token takes the action
+ * as its status and keeps the original's origin and submission phase
+ */
+function createRevision(
+  ctx: ExecutionContext,
+  agency: string,
+  originalTokenId: bigint,
+  uri: string,
+  data: ProposalTokenState['data'],
+  action: ProposalStatus,
+  reason: string
+): bigint {
+  const proposals = proposalsForAgency(ctx.state, agency);
+  if (!proposals.authorizedMinters[agency.toLowerCase()]) {
+    revert(proposalInterface, 'NotAuthorized');
+  }
+  const address = dbtcOf(ctx.state, proposals.dbtc).budgetProposal;
+  const original = tokenOf(proposals, originalTokenId);
+  if (action !== ProposalStatus.REVISED && action !== ProposalStatus.AMENDED) {
+    revert(proposalInterface, 'InvalidProposalStatus');
+  }
+  if ([ProposalStatus.REJECTED, ProposalStatus.ENACTED].includes(original.status)) {
+    revert(proposalInterface, 'InvalidProposalStatus');
+  }
+
+  const [newTokenId, token] = createToken(ctx, proposals, agency, uri, data);
+  token.originTokenId = original.originTokenId;
+  token.status = action;
+  token.submittedPhase = original.submittedPhase;
+  token.parentTokenId = originalTokenId;
+  token.record = { previousTokenId: originalTokenId, action, reason, timestamp: ctx.timestamp, actor: agency };
+  original.children.push(newTokenId);
+  original.latestVersion = newTokenId;
+
+  emit(ctx, address, proposalInterface, 'RevisionCreated', [originalTokenId, newTokenId, action, reason]);
+  emit(ctx, address, proposalInterface, 'ProposalStatusChanged', [originalTokenId, original.status, action]);
+  original.status = action;
+  return newTokenId;
+}
+
+/**
+ * Token IDs from the origin down to a token
+ */
+function revisionChain(proposals: BudgetProposalState, tokenId: bigint): bigint[] {
+  const chain: bigint[] = [];
+  for (let id: bigint | null = tokenId; id !== null; id = proposals.tokens[id.toString()].parentTokenId) {
+    chain.unshift(id);
+  }
+  return chain;
+}
+
+const onlyProposalOwner = (ctx: ExecutionContext, proposals: BudgetProposalState) => {
+  if (!same(ctx.sender, proposals.owner)) {
+    revert(proposalInterface, 'OwnableUnauthorizedAccount', [ctx.sender]);
+  }
+};
+
+const PROPOSAL_FUNCTIONS: Record<string, Handler> = {
+  name: () => 'DBTC Budget Proposal',
+  symbol: () => 'DBTCBP',
+  owner: (ctx, self) => proposalsOf(ctx.state, self).owner,
+  dbtc: (ctx, self) => proposalsOf(ctx.state, self).dbtc,
+  totalSupply: (ctx, self) => Object.keys(proposalsOf(ctx.state, self).tokens).length,
+  balanceOf: (ctx, self, [owner]) => {
+    if (owner === ethers.ZeroAddress) {
+      revert(proposalInterface, 'ERC721InvalidOwner', [owner]);
+    }
+    return Object.values(proposalsOf(ctx.state, self).tokens).filter((token) => same(token.owner, owner)).length;
+  },
+  ownerOf: (ctx, self, [tokenId]) => tokenOf(proposalsOf(ctx.state, self), tokenId, 'ERC721NonexistentToken').owner,
+  tokenURI: (ctx, self, [tokenId]) => tokenOf(proposalsOf(ctx.state, self), tokenId, 'ERC721NonexistentToken').uri,
+  getApproved: (ctx, self, [tokenId]) => {
+    tokenOf(proposalsOf(ctx.state, self), tokenId, 'ERC721NonexistentToken');
+    return ethers.ZeroAddress;
+  },
+  isApprovedForAll: () => false,
+  supportsInterface: (_ctx, _self, [interfaceId]) => SUPPORTED_INTERFACES.includes(interfaceId.toLowerCase()),
+  authorizedMinters: (ctx, self, [agency]) => !!proposalsOf(ctx.state, self).authorizedMinters[agency.toLowerCase()],
+
+  getProposalData: (ctx, self, [tokenId]) => {
+    const { data } = tokenOf(proposalsOf(ctx.state, self), tokenId);
+    return [data.fiscalYear, data.departmentCode, data.agencyCode, data.prexcFpapId, data.uacsObjCode, data.amount];
+  },
+  getProposalMetadata: (ctx, self, [tokenId]) => {
+    const token = tokenOf(proposalsOf(ctx.state, self), tokenId);
+    return [token.originTokenId, token.status, token.submittedPhase, token.submitter, token.createdAt];
+  },
+  getStatus: (ctx, self, [tokenId]) => tokenOf(proposalsOf(ctx.state, self), tokenId).status,
+  getOrigin: (ctx, self, [tokenId]) => tokenOf(proposalsOf(ctx.state, self), tokenId).originTokenId,
+  getLatestVersion: (ctx, self, [tokenId]) => {
+    const proposals = proposalsOf(ctx.state, self);
+    let token = tokenOf(proposals, tokenId);
+    let latest = BigInt(tokenId);
+    while (token.latestVersion !== latest) {
+      latest = token.latestVersion;
+      token = proposals.tokens[latest.toString()];
+    }
+    return latest;
+  },
+  getChildTokens: (ctx, self, [tokenId]) => tokenOf(proposalsOf(ctx.state, self), tokenId).children,
+  getRevisionChain: (ctx, self, [tokenId]) => {
+    const proposals = proposalsOf(ctx.state, self);
+    tokenOf(proposals, tokenId);
+    return revisionChain(proposals, tokenId);
+  },
+  getRevisionHistory: (ctx, self, [tokenId]) => {
+    const { record } = tokenOf(proposalsOf(ctx.state, self), tokenId);
+    return record ? [[record.previousTokenId, record.action, record.reason, record.timestamp, record.actor]] : [];
+  },
+
+  mint: (ctx, self, [agency, uri, data]) => {
+    if (!same(ctx.sender, agency)) {
+      revert(proposalInterface, 'NotAuthorized');
+    }
+    const department = departmentOf(ctx.state, agencyOf(ctx.state, agency).department);
+    return mint(ctx, agency, uri, enrich(ctx, agencyOf(ctx.state, agency), department, data));
+  },
+  createRevision: (ctx, self, [originalTokenId, agency, newUri, newData, action, reason]) => {
+    if (!same(ctx.sender, agency)) {
+      revert(proposalInterface, 'NotAuthorized');
+    }
+    const department = departmentOf(ctx.state, agencyOf(ctx.state, agency).department);
+    return createRevision(ctx, agency, originalTokenId, newUri, enrich(ctx, agencyOf(ctx.state, agency), department, newData), Number(action), reason);
+  },
+
+  updateStatus: (ctx, self, [tokenId, newStatus]) => {
+    const proposals = proposalsOf(ctx.state, self);
+    if (!proposals.authorizedMinters[ctx.sender.toLowerCase()]) {
+      revert(proposalInterface, 'NotAuthorized');
+    }
+    const token = tokenOf(proposals, tokenId);
+    emit(ctx, self, proposalInterface, 'ProposalStatusChanged', [tokenId, token.status, newStatus]);
+    token.status = Number(newStatus);
+    emit(ctx, self, proposalInterface, 'MetadataUpdate', [tokenId]);
+  },
+  addAuthorizedMinter: (ctx, self, [agency]) => {
+    const proposals = proposalsOf(ctx.state, self);
+    if (!same(ctx.sender, proposals.dbtc)) {
+      onlyProposalOwner(ctx, proposals);
+    }
+    if (agency === ethers.ZeroAddress) {
+      revert(proposalInterface, 'ZeroAddress');
+    }
+    proposals.authorizedMinters[agency.toLowerCase()] = true;
+  },
+  removeAuthorizedMinter: (ctx, self, [agency]) => {
+    const proposals = proposalsOf(ctx.state, self);
+    if (!same(ctx.sender, proposals.dbtc)) {
+      onlyProposalOwner(ctx, proposals);
+    }
+    delete proposals.authorizedMinters[agency.toLowerCase()];
+  },
+  transferOwnership: (ctx, self, [newOwner]) => {
+    const proposals = proposalsOf(ctx.state, self);
+    onlyProposalOwner(ctx, proposals);
+    if (newOwner === ethers.ZeroAddress) {
+      revert(proposalInterface, 'OwnableInvalidOwner', [newOwner]);
+    }
+    emit(ctx, self, proposalInterface, 'OwnershipTransferred', [proposals.owner, newOwner]);
+    proposals.owner = newOwner;
+  },
+  renounceOwnership: (ctx, self) => {
+    const proposals = proposalsOf(ctx.state, self);
+    onlyProposalOwner(ctx, proposals);
+    emit(ctx, self, proposalInterface, 'OwnershipTransferred', [proposals.owner, ethers.ZeroAddress]);
+    proposals.owner = ethers.ZeroAddress;
+  }
+  // Proposals stay with the agency that minted them: transfers and approvals revert with NotAuthorized
+};
+
+// ============ Dispatch ============
+
+type Handler = (ctx: ExecutionContext, self: string, args: ethers.Result) => unknown;
+
+const CONTRACTS: Record<Exclude<ContractState['kind'], 'multicall3'>, { iface: ethers.Interface; functions: Record<string, Handler> }> = {
+  dbtc: { iface: dbtcInterface, functions: DBTC_FUNCTIONS },
+  department: { iface: departmentInterface, functions: DEPARTMENT_FUNCTIONS },
+  agency: { iface: agencyInterface, functions: AGENCY_FUNCTIONS },
+  budgetProposal: { iface: proposalInterface, functions: PROPOSAL_FUNCTIONS }
+};
+
+/**
+ * Run a call against the simulated contracts, changing `ctx.state` in place
+ * @returns ABI-encoded return data
+ * @throws Revert with the encoded custom error
+ */
+export function executeCall(ctx: ExecutionContext, to: string, data: string): string {
+  const contract = ctx.state.contracts[to.toLowerCase()];
+  if (!contract) {
+    // Plain account: calls succeed and do nothing
+    return '0x';
+  }
+  if (contract.kind === 'multicall3') {
+    return aggregate3(ctx, to, data);
+  }
+
+  const { iface, functions } = CONTRACTS[contract.kind];
+  const parsed = iface.parseTransaction({ data });
+  if (!parsed) {
+    throw new Revert('0x', 'execution reverted: unknown function selector');
+  }
+  const handler = functions[parsed.name];
+  if (!handler) {
+    if (contract.kind === 'budgetProposal') {
+      revert(proposalInterface, 'NotAuthorized');
+    }
+    throw new Revert('0x', `execution reverted: ${parsed.name} is not simulated`);
+  }
+  const result = handler(ctx, ethers.getAddress(to), parsed.args);
+  const outputs = parsed.fragment.outputs;
+  if (outputs.length === 0) {
+    return '0x';
+  }
+  return iface.encodeFunctionResult(parsed.fragment, outputs.length === 1 ? [result] : result as unknown[]);
+}
+
+/**
+ * Multicall3 aggregate3: every call runs with the multicall contract as sender
+ */
+function aggregate3(ctx: ExecutionContext, self: string, data: string): string {
+  const [calls] = multicallInterface.decodeFunctionData('aggregate3', data);
+  const results = (calls as ethers.Result[]).map(([target, allowFailure, callData]) => {
+    const snapshot = structuredClone(ctx.state);
+    const logs = ctx.logs.length;
+    try {
+      return [true, executeCall({ ...ctx, sender: self }, target, callData)];
+    } catch (error) {
+      if (!(error instanceof Revert) || !allowFailure) {
+        throw error;
+      }
+      ctx.state.contracts = snapshot.contracts;
+      ctx.state.creations = snapshot.creations;
+      ctx.logs.length = logs;
+      return [false, error.data];
+    }
+  });
+  return multicallInterface.encodeFunctionResult('aggregate3', [results]);
+}
+
+/**
+ * Register a Multicall3 contract at an address
+ */
+export function deployMulticall3(state: ContractsState, address: string): void {
+  state.contracts[address.toLowerCase()] = { kind: 'multicall3' };
+}
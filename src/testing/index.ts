@@ -0,0 +1,3 @@
+export * from './chain';
+export { MockProvider } from './provider';
+export { MAIN_AGENCY_CODE, CONGRESS_DEPARTMENT_CODE } from './contracts';
@@ -0,0 +1,158 @@
+import { ethers } from 'ethers';
+import type { MockBlock, MockDBTCChain, MockLog, MockTransaction } from './chain';
+import { MockRpcError, MOCK_BASE_FEE } from './chain';
+
+/** Balance reported for every account (10,000 POL) */
+const BALANCE = ethers.parseEther('10000');
+
+const quantity = (value: bigint | number) => ethers.toQuantity(value);
+
+function formatLog(log: MockLog) {
+  return {
+    address: log.address,
+    topics: log.topics,
+    data: log.data,
+    blockNumber: quantity(log.blockNumber),
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    transactionIndex: quantity(log.transactionIndex),
+    logIndex: quantity(log.logIndex),
+    removed: false
+  };
+}
+
+function formatTransaction(tx: MockTransaction) {
+  return {
+    hash: tx.hash,
+    type: quantity(tx.type),
+    from: tx.from,
+    to: tx.to,
+    nonce: quantity(tx.nonce),
+    gas: quantity(tx.gasLimit),
+    gasPrice: quantity(tx.gasPrice ?? tx.maxFeePerGas ?? BigInt(0)),
+    ...(tx.maxFeePerGas !== null ? { maxFeePerGas: quantity(tx.maxFeePerGas) } : {}),
+    ...(tx.maxPriorityFeePerGas !== null ? { maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas) } : {}),
+    input: tx.data,
+    value: quantity(tx.value),
+    chainId: quantity(tx.chainId),
+    r: tx.signature.r,
+    s: tx.signature.s,
+    v: quantity(tx.signature.v),
+    yParity: quantity(tx.signature.yParity),
+    accessList: [],
+    blockHash: tx.blockHash,
+    blockNumber: quantity(tx.blockNumber),
+    transactionIndex: quantity(tx.index)
+  };
+}
+
+function formatReceipt(tx: MockTransaction) {
+  return {
+    transactionHash: tx.hash,
+    transactionIndex: quantity(tx.index),
+    blockHash: tx.blockHash,
+    blockNumber: quantity(tx.blockNumber),
+    from: tx.from,
+    to: tx.to,
+    contractAddress: tx.contractAddress,
+    cumulativeGasUsed: quantity(tx.gasUsed),
+    gasUsed: quantity(tx.gasUsed),
+    effectiveGasPrice: quantity(tx.gasPrice ?? MOCK_BASE_FEE + (tx.maxPriorityFeePerGas ?? BigInt(0))),
+    logs: tx.logs.map(formatLog),
+    logsBloom: ethers.zeroPadValue('0x', 256),
+    status: quantity(tx.status),
+    type: quantity(tx.type)
+  };
+}
+
+/**
+ * JSON-RPC provider answered in-process by a MockDBTCChain
+ *
+ * Obtain through `chain.provider`. Behaves like a JSON-RPC endpoint of an
+ * automining node, so wallets, contracts and DBTC clients work unchanged.
+ */
+export class MockProvider extends ethers.JsonRpcApiProvider {
+  constructor(private readonly chain: MockDBTCChain) {
+    const network = ethers.Network.from(chain.chainId);
+    super(network, { staticNetwork: network, batchMaxCount: 1, polling: true, pollingInterval: 50, cacheTimeout: -1 });
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>> {
+    return (Array.isArray(payload) ? payload : [payload]).map(({ id, method, params }) => {
+      try {
+        return { id, result: this.handle(method, (params ?? []) as unknown[]) };
+      } catch (error) {
+        if (error instanceof MockRpcError) {
+          return { id, error: { code: error.code, message: error.message, data: error.data } };
+        }
+        throw error;
+      }
+    });
+  }
+
+  private handle(method: string, params: unknown[]): unknown {
+    const chain = this.chain;
+    switch (method) {
+      case 'eth_chainId':
+        return quantity(chain.chainId);
+      case 'net_version':
+        return String(chain.chainId);
+      case 'eth_accounts':
+        return [];
+      case 'eth_blockNumber':
+        return quantity(chain.blockNumber);
+      case 'eth_gasPrice':
+        return quantity(MOCK_BASE_FEE * BigInt(2));
+      case 'eth_maxPriorityFeePerGas':
+        return quantity(MOCK_BASE_FEE);
+      case 'eth_getBalance':
+        return quantity(BALANCE);
+      case 'eth_getCode':
+        return chain.getCode(params[0] as string);
+      case 'eth_getTransactionCount':
+        return quantity(chain.getTransactionCount(params[0] as string));
+      case 'eth_getBlockByNumber':
+      case 'eth_getBlockByHash': {
+        const block = chain.getBlock(params[0] as string);
+        return block && this.formatBlock(block, !!params[1]);
+      }
+      case 'eth_call':
+        return chain.call(params[0] as { from?: string; to?: string; data?: string }, (params[1] ?? 'latest') as string);
+      case 'eth_estimateGas':
+        return quantity(chain.estimateGas(params[0] as { from?: string; to?: string; data?: string }));
+      case 'eth_sendRawTransaction':
+        return chain.sendRawTransaction(params[0] as string);
+      case 'eth_getTransactionByHash': {
+        const tx = chain.getTransaction(params[0] as string);
+        return tx && formatTransaction(tx);
+      }
+      case 'eth_getTransactionReceipt': {
+        const tx = chain.getTransaction(params[0] as string);
+        return tx && formatReceipt(tx);
+      }
+      case 'eth_getLogs':
+        return chain.getLogs(params[0] as Parameters<MockDBTCChain['getLogs']>[0]).map(formatLog);
+      default:
+        throw new MockRpcError(-32601, `method ${method} is not supported by the mock chain`);
+    }
+  }
+
+  private formatBlock(block: MockBlock, full: boolean) {
+    return {
+      number: quantity(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: quantity(block.timestamp),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: quantity(30000000),
+      gasUsed: quantity(block.transactions.reduce((total, hash) => total + this.chain.getTransaction(hash)!.gasUsed, BigInt(0))),
+      miner: ethers.ZeroAddress,
+      extraData: '0x',
+      baseFeePerGas: quantity(MOCK_BASE_FEE),
+      transactions: full
+        ? block.transactions.map((hash) => formatTransaction(this.chain.getTransaction(hash)!))
+        : block.transactions
+    };
+  }
+}
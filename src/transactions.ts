@@ -0,0 +1,438 @@
+import { ethers } from 'ethers';
+import { TransactionError } from './errors';
+import { replayRevertedTransaction } from './utils';
+import { TransactionQueue, QueueOptions } from './queue';
+
+const DEFAULT_POLLING_INTERVAL = 4000;
+const DEFAULT_DROPPED_AFTER = 60000;
+const DEFAULT_BUMP_PERCENT = 15;
+const DEFAULT_MAX_BUMPS = 3;
+
+/** Nodes reject replacements that raise fees by less than 10% */
+const MIN_BUMP_PERCENT = 10;
+
+/**
+ * EIP-1559 fee fields of a transaction
+ */
+export interface FeeOverrides {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * How fees are set on new transactions: a preset tip level, or a function of
+ * the latest base fee and the node's suggested tip
+ *
+ * Presets tip 100% ("standard"), 125% ("fast") or 150% ("urgent") of the
+ * suggested tip, with a max fee of twice the base fee plus the tip.
+ */
+export type FeeStrategy =
+  | 'standard'
+  | 'fast'
+  | 'urgent'
+  | ((fees: { baseFee: bigint; priorityFee: bigint }) => FeeOverrides | Promise<FeeOverrides>);
+
+/**
+ * A tracked transaction was superseded by another one with the same nonce
+ */
+export interface TransactionReplacement {
+  previous: ethers.TransactionResponse;
+  /** Replacing transaction (null if it was sent elsewhere and is unknown) */
+  replacement: ethers.TransactionResponse | null;
+  /** "repriced": resubmitted with higher fees; "replaced": nonce used by another transaction */
+  reason: 'repriced' | 'replaced';
+}
+
+/**
+ * Transaction lifecycle callbacks (errors thrown by callbacks are ignored)
+ */
+export interface TransactionHooks {
+  /** Transaction broadcast */
+  onSent?: (tx: ethers.TransactionResponse) => void;
+  /** Transaction included in a block (again, after a reorg) */
+  onMined?: (receipt: ethers.TransactionReceipt) => void;
+  /** Transaction reached the confirmation depth and its block is canonical */
+  onConfirmed?: (receipt: ethers.TransactionReceipt, confirmations: number) => void;
+  /** Transaction resubmitted with higher fees, or its nonce used by another transaction */
+  onReplaced?: (replacement: TransactionReplacement) => void;
+  /** Transaction no longer known to the node */
+  onDropped?: (tx: ethers.TransactionResponse) => void;
+}
+
+/**
+ * Transaction options
+ */
+export interface TransactionOptions extends TransactionHooks {
+  /** Blocks to wait for, counting the inclusion block (default: 1) */
+  confirmations?: number;
+  /** Milliseconds to wait for confirmation before giving up (default: no limit) */
+  timeout?: number;
+  /** Receipt polling interval in milliseconds (default: 4000) */
+  pollingInterval?: number;
+  /** Fee strategy for new transactions (default: the provider's fee data) */
+  fees?: FeeStrategy;
+  /** Never pay a max fee per gas above this (wei) */
+  maxFeePerGas?: bigint;
+  /** Resubmit with higher fees when not mined after this many milliseconds (default: never) */
+  bumpAfter?: number;
+  /** Fee increase per resubmission in percent (default: 15, at least 10) */
+  bumpPercent?: number;
+  /** Maximum resubmissions per transaction (default: 3) */
+  maxBumps?: number;
+  /** Milliseconds a transaction may be unknown to the node before it counts as dropped (default: 60000) */
+  droppedAfter?: number;
+  /** Send every write through the nonce-managed queue of its signer (default: false) */
+  queue?: boolean | QueueOptions;
+}
+
+/**
+ * Receipt data of a confirmed transaction
+ */
+export interface ConfirmedTransaction {
+  txHash: string;
+  blockNumber: number;
+  gasUsed: bigint;
+  success: boolean;
+  logs: ethers.Log[];
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const canSend = (runner: ethers.ContractRunner | null): runner is ethers.Signer =>
+  typeof runner?.sendTransaction === 'function';
+
+const TIP_PERCENT = { standard: 100, fast: 125, urgent: 150 };
+
+/**
+ * Sends contract writes and follows them until they are confirmed
+ *
+ * Tracks a transaction by nonce: resubmissions with higher fees (after
+ * `bumpAfter`) are followed along with the original, a nonce taken by an
+ * unknown transaction fails with TRANSACTION_REPLACED, and a transaction that
+ * disappears from the node is resubmitted (or fails with TRANSACTION_DROPPED
+ * if resubmission is off). Success is only reported once the receipt's block
+ * is still canonical at the configured confirmation depth.
+ *
+ * Obtain through `client.transactions`.
+ */
+export class TransactionManager {
+  private readonly queues = new Map<string, TransactionQueue>();
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    /** Transaction options (shared with the client, so changes apply to later writes) */
+    readonly options: TransactionOptions = {},
+    /** Called with each confirmed transaction before it is reported (the client drops stale cached reads) */
+    private readonly afterConfirm?: (to: string | null, logs: readonly ethers.Log[]) => Promise<void>
+  ) {}
+
+  /**
+   * Fee fields for a new transaction according to the fee strategy
+   * @returns EIP-1559 fees, or no overrides (provider defaults) without a strategy or base fee
+   */
+  async getFeeOverrides(): Promise<Partial<FeeOverrides>> {
+    const { fees } = this.options;
+    if (!fees) {
+      return this.options.maxFeePerGas !== undefined ? this.cap(await this.suggestedFees()) ?? {} : {};
+    }
+    const current = await this.currentFees();
+    if (!current) {
+      return {};
+    }
+    const overrides = typeof fees === 'function'
+      ? await fees(current)
+      : this.preset(current, TIP_PERCENT[fees]);
+    return this.cap(overrides) ?? {};
+  }
+
+  /**
+   * Send a contract write with the fee strategy applied, and wait for confirmation
+   *
+   * Goes through the signer's queue when the `queue` option is set.
+   * @param contract Contract connected to the sending signer
+   * @param send Sends the transaction with the given overrides
+   * @returns Confirmed transaction
+   * @throws TransactionError (NO_SIGNER) if the contract is not connected to a signer
+   *
+   * @example
+   * ```typescript
+   * const result = await client.transactions.send(contract, (overrides) =>
+   *   contract.advancePhase(overrides));
+   * ```
+   */
+  async send(
+    contract: ethers.BaseContract,
+    send: (overrides: ethers.Overrides) => Promise<ethers.TransactionResponse>
+  ): Promise<ConfirmedTransaction> {
+    const signer = contract.runner;
+    if (!canSend(signer)) {
+      throw new TransactionError('NO_SIGNER', 'Contract is not connected to a signer');
+    }
+    if (!this.options.queue) {
+      const tx = await send(await this.getFeeOverrides());
+      return this.wait(tx, signer);
+    }
+    const queue = await this.getQueue(signer);
+    return queue.enqueue(
+      async (nonce) => send({ ...await this.getFeeOverrides(), nonce }),
+      (tx) => this.wait(tx, signer)
+    );
+  }
+
+  /**
+   * Nonce-managed send queue of a signer's address (one per address, shared by all its signers)
+   * @param signer Signer
+   * @returns Queue of the signer's address
+   */
+  async getQueue(signer: ethers.Signer): Promise<TransactionQueue> {
+    const address = (await signer.getAddress()).toLowerCase();
+    let queue = this.queues.get(address);
+    if (!queue) {
+      const options = typeof this.options.queue === 'object' ? this.options.queue : {};
+      queue = new TransactionQueue(this.provider, ethers.getAddress(address), options);
+      this.queues.set(address, queue);
+    }
+    return queue;
+  }
+
+  /**
+   * Follow a sent transaction until it is confirmed
+   * @param tx Sent transaction
+   * @param signer Signer of the transaction (needed to resubmit it)
+   * @returns Confirmed transaction
+   * @throws TransactionError on timeout, replacement or drop; the decoded contract error on revert
+   */
+  async wait(tx: ethers.TransactionResponse, signer?: ethers.Signer): Promise<ConfirmedTransaction> {
+    const options = this.options;
+    const started = Date.now();
+    const pollingInterval = options.pollingInterval ?? DEFAULT_POLLING_INTERVAL;
+    const sent: ethers.TransactionResponse[] = [tx];
+    let current = tx;
+    let lastSent = started;
+    let bumps = 0;
+    let unknownSince: number | null = null;
+
+    this.emit('onSent', tx);
+
+    for (;;) {
+      const mined = await this.findMined(sent);
+      if (mined) {
+        const confirmed = await this.confirm(mined.tx, mined.receipt, started);
+        if (confirmed) {
+          await this.afterConfirm?.(confirmed.to, confirmed.logs);
+          return {
+            txHash: confirmed.hash,
+            blockNumber: confirmed.blockNumber,
+            gasUsed: confirmed.gasUsed,
+            success: true,
+            logs: [...confirmed.logs]
+          };
+        }
+        // Reorged out: the transaction is pending again
+        continue;
+      }
+      this.checkTimeout(started, current);
+
+      const nonce = await this.provider.getTransactionCount(tx.from, 'latest');
+      if (nonce > tx.nonce) {
+        // The nonce may have been used by one of ours mined since the last check
+        if (await this.findMined(sent)) {
+          continue;
+        }
+        this.emit('onReplaced', { previous: current, replacement: null, reason: 'replaced' });
+        throw new TransactionError('TRANSACTION_REPLACED', `Transaction ${current.hash} was replaced by another transaction with nonce ${tx.nonce}`, current.hash);
+      }
+
+      const known = await Promise.all(sent.map((candidate) => this.provider.getTransaction(candidate.hash)));
+      const canResubmit = !!signer && bumps < (options.maxBumps ?? DEFAULT_MAX_BUMPS);
+      let resubmit = false;
+      if (known.every((candidate) => candidate === null)) {
+        unknownSince ??= Date.now();
+        if (Date.now() - unknownSince >= (options.droppedAfter ?? DEFAULT_DROPPED_AFTER)) {
+          this.emit('onDropped', current);
+          if (!canResubmit) {
+            throw new TransactionError('TRANSACTION_DROPPED', `Transaction ${current.hash} was dropped`, current.hash);
+          }
+          resubmit = true;
+        }
+      } else {
+        unknownSince = null;
+      }
+      if (options.bumpAfter !== undefined && canResubmit && Date.now() - lastSent >= options.bumpAfter) {
+        resubmit = true;
+      }
+
+      if (resubmit) {
+        const replacement = await this.resubmit(current, signer!);
+        bumps++;
+        lastSent = Date.now();
+        if (replacement) {
+          unknownSince = null;
+          this.emit('onReplaced', { previous: current, replacement, reason: 'repriced' });
+          sent.push(replacement);
+          current = replacement;
+        }
+        continue;
+      }
+      await sleep(pollingInterval);
+    }
+  }
+
+  /**
+   * Receipt of whichever sent transaction was mined, if any
+   */
+  private async findMined(
+    sent: ethers.TransactionResponse[]
+  ): Promise<{ tx: ethers.TransactionResponse; receipt: ethers.TransactionReceipt } | null> {
+    const receipts = await Promise.all(sent.map((tx) => this.provider.getTransactionReceipt(tx.hash)));
+    const index = receipts.findIndex((receipt) => receipt !== null);
+    return index >= 0 ? { tx: sent[index], receipt: receipts[index]! } : null;
+  }
+
+  /**
+   * Wait for the confirmation depth, checking the receipt's block stays canonical
+   * @returns Confirmed receipt, or null if the transaction was reorged out
+   */
+  private async confirm(
+    tx: ethers.TransactionResponse,
+    receipt: ethers.TransactionReceipt,
+    started: number
+  ): Promise<ethers.TransactionReceipt | null> {
+    const target = Math.max(1, this.options.confirmations ?? 1);
+    this.emit('onMined', receipt);
+    if (receipt.status === 0) {
+      throw await replayRevertedTransaction(tx, receipt.blockNumber, ethers.makeError('transaction execution reverted', 'CALL_EXCEPTION', {
+        action: 'sendTransaction',
+        data: null,
+        reason: null,
+        invocation: null,
+        revert: null,
+        transaction: { to: tx.to, from: tx.from, data: tx.data },
+        receipt
+      }));
+    }
+
+    for (;;) {
+      const head = await this.provider.getBlockNumber();
+      const confirmations = head - receipt.blockNumber + 1;
+      if (confirmations >= target) {
+        const [latest, block] = await Promise.all([
+          this.provider.getTransactionReceipt(receipt.hash),
+          this.provider.getBlock(receipt.blockNumber)
+        ]);
+        if (!latest) {
+          return null;
+        }
+        if (latest.blockHash !== receipt.blockHash) {
+          // Included again in a different block
+          receipt = latest;
+          this.emit('onMined', receipt);
+          continue;
+        }
+        if (block?.hash === receipt.blockHash) {
+          this.emit('onConfirmed', receipt, confirmations);
+          return receipt;
+        }
+      }
+      this.checkTimeout(started, tx);
+      await sleep(this.options.pollingInterval ?? DEFAULT_POLLING_INTERVAL);
+    }
+  }
+
+  /**
+   * Send the same transaction again with higher fees
+   * @returns Replacement, or null if it was not accepted (e.g. the original was just mined)
+   */
+  private async resubmit(
+    tx: ethers.TransactionResponse,
+    signer: ethers.Signer
+  ): Promise<ethers.TransactionResponse | null> {
+    // A nonce manager would assign a new nonce
+    const sender = signer instanceof ethers.NonceManager ? signer.signer : signer;
+    const percent = BigInt(Math.max(MIN_BUMP_PERCENT, this.options.bumpPercent ?? DEFAULT_BUMP_PERCENT));
+    const bump = (value: bigint) => value * (BigInt(100) + percent) / BigInt(100);
+
+    const request: ethers.TransactionRequest = {
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      nonce: tx.nonce,
+      gasLimit: tx.gasLimit,
+      chainId: tx.chainId
+    };
+    if (tx.maxFeePerGas != null && tx.maxPriorityFeePerGas != null) {
+      // Follow the market if it moved further than the bump
+      const fresh = await this.getFeeOverrides();
+      const max = (a: bigint, b: bigint | undefined) => b !== undefined && b > a ? b : a;
+      const fees = this.cap({
+        maxFeePerGas: max(bump(tx.maxFeePerGas), fresh.maxFeePerGas),
+        maxPriorityFeePerGas: max(bump(tx.maxPriorityFeePerGas), fresh.maxPriorityFeePerGas)
+      })!;
+      if (fees.maxFeePerGas * BigInt(100) < tx.maxFeePerGas * BigInt(100 + MIN_BUMP_PERCENT)) {
+        // The fee cap leaves no room for a replacement
+        return null;
+      }
+      Object.assign(request, { type: 2 }, fees);
+    } else {
+      Object.assign(request, { gasPrice: bump(tx.gasPrice) });
+    }
+
+    try {
+      const replacement = await sender.sendTransaction(request);
+      this.emit('onSent', replacement);
+      return replacement;
+    } catch (error) {
+      if (ethers.isError(error, 'NONCE_EXPIRED') || ethers.isError(error, 'REPLACEMENT_UNDERPRICED')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async currentFees(): Promise<{ baseFee: bigint; priorityFee: bigint } | null> {
+    const [block, feeData] = await Promise.all([this.provider.getBlock('latest'), this.provider.getFeeData()]);
+    if (block?.baseFeePerGas == null) {
+      return null;
+    }
+    return { baseFee: block.baseFeePerGas, priorityFee: feeData.maxPriorityFeePerGas ?? BigInt(0) };
+  }
+
+  private async suggestedFees(): Promise<FeeOverrides | null> {
+    const current = await this.currentFees();
+    return current ? this.preset(current, TIP_PERCENT.standard) : null;
+  }
+
+  private preset(fees: { baseFee: bigint; priorityFee: bigint }, tipPercent: number): FeeOverrides {
+    const maxPriorityFeePerGas = fees.priorityFee * BigInt(tipPercent) / BigInt(100);
+    return { maxFeePerGas: fees.baseFee * BigInt(2) + maxPriorityFeePerGas, maxPriorityFeePerGas };
+  }
+
+  /**
+   * Apply the max fee cap
+   */
+  private cap(fees: FeeOverrides | null): FeeOverrides | null {
+    const limit = this.options.maxFeePerGas;
+    if (!fees || limit === undefined || fees.maxFeePerGas <= limit) {
+      return fees;
+    }
+    return {
+      maxFeePerGas: limit,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas < limit ? fees.maxPriorityFeePerGas : limit
+    };
+  }
+
+  private checkTimeout(started: number, tx: ethers.TransactionResponse): void {
+    const { timeout } = this.options;
+    if (timeout !== undefined && Date.now() - started > timeout) {
+      throw new TransactionError('TRANSACTION_TIMEOUT', `Transaction ${tx.hash} not confirmed after ${timeout}ms`, tx.hash);
+    }
+  }
+
+  private emit<K extends keyof TransactionHooks>(hook: K, ...args: Parameters<NonNullable<TransactionHooks[K]>>): void {
+    try {
+      (this.options[hook] as ((...values: unknown[]) => void) | undefined)?.(...args);
+    } catch {
+      // Callbacks must not interrupt tracking
+    }
+  }
+}
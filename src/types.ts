@@ -1,3 +1,6 @@
+import type { DBTCError } from './errors';
+import type { PesoAmount } from './money';
+
 /**
  * Budget phases in the Philippine budget cycle
  */
@@ -41,14 +44,21 @@ export interface ProposalData {
   prexcFpapId: string;
   /** UACS Object Code */
   uacsObjCode: string;
-  /** Amount in smallest unit (wei-equivalent) */
-  amount: bigint | string | number;
+  /**
+   * Amount: a PesoAmount, or the raw on-chain value in units of
+   * 10^-amountDecimals pesos (centavos by default)
+   */
+  amount: bigint | string | number | PesoAmount;
 }
 
 /**
  * Full on-chain proposal data (includes auto-filled fields)
  */
 export interface OnChainProposalData extends ProposalData {
+  /** Raw on-chain amount */
+  amount: bigint;
+  /** Amount in pesos */
+  pesoAmount: PesoAmount;
   fiscalYear: number;
   departmentCode: string;
   agencyCode: string;
@@ -67,7 +77,21 @@ export interface TransactionResult {
   /** Success status */
   success: boolean;
   /** Event data (if applicable) */
-  events?: Record<string, any>;
+  events?: Record<string, unknown>;
+}
+
+/**
+ * Result of a dry-run (simulated) transaction
+ */
+export interface SimulationResult<T = void> {
+  /** Whether the transaction would succeed */
+  success: boolean;
+  /** Value the contract method would return */
+  returnValue?: T;
+  /** Estimated gas for the transaction */
+  gasEstimate?: bigint;
+  /** Decoded revert reason (if the transaction would fail) */
+  error?: DBTCError;
 }
 
 /**
@@ -127,3 +151,996 @@ export function getStatusName(status: ProposalStatus): string {
   };
   return names[status] ?? 'Unknown';
 }
+
+/**
+ * On-chain proposal metadata (lifecycle fields tracked by the BudgetProposal contract)
+ */
+export interface ProposalMetadata {
+  /** Token ID of the first version in this proposal's lineage */
+  originTokenId: bigint;
+  /** Current proposal status */
+  status: ProposalStatus;
+  /** Budget phase in which this version was submitted */
+  submittedPhase: BudgetPhase;
+  /** Address that submitted this version */
+  submitter: string;
+  /** Time this version was minted */
+  createdAt: Date;
+}
+
+/**
+ * Entry in a proposal's revision history
+ */
+export interface RevisionRecord {
+  /** Token ID of the version this record was created from */
+  previousTokenId: bigint;
+  /** Kind of change (REVISED or AMENDED) */
+  action: ProposalStatus;
+  /** Reason given for the change */
+  reason: string;
+  /** Time the change was recorded */
+  timestamp: Date;
+  /** Address that made the change */
+  actor: string;
+}
+
+// ============ Events ============
+
+/**
+ * Location of a decoded event on chain
+ */
+export interface EventMeta {
+  /** Address of the emitting contract */
+  address: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/**
+ * DBTC PhaseAdvanced event
+ */
+export interface PhaseAdvancedEvent extends EventMeta {
+  fromPhase: BudgetPhase;
+  toPhase: BudgetPhase;
+  fiscalYear: number;
+}
+
+/**
+ * DBTC BudgetCycleStarted event
+ */
+export interface BudgetCycleStartedEvent extends EventMeta {
+  fiscalYear: number;
+}
+
+/**
+ * DBTC PhaseResponsibilityAssigned event
+ */
+export interface PhaseResponsibilityAssignedEvent extends EventMeta {
+  phase: BudgetPhase;
+  /** Department code (null if it no longer matches a registered department) */
+  deptCode: string | null;
+}
+
+/**
+ * DBTC DepartmentAdded event
+ */
+export interface DepartmentAddedEvent extends EventMeta {
+  code: string;
+  name: string;
+  departmentAddress: string;
+}
+
+/**
+ * Department AgencyAdded event
+ */
+export interface AgencyAddedEvent extends EventMeta {
+  departmentAddress: string;
+  code: string;
+  name: string;
+  agencyAddress: string;
+}
+
+/**
+ * Department HouseAndSenateSet event
+ */
+export interface HouseAndSenateSetEvent extends EventMeta {
+  departmentAddress: string;
+  house: string;
+  senate: string;
+}
+
+/**
+ * Agency ProposalSubmitted event
+ */
+export interface ProposalSubmittedEvent extends EventMeta {
+  agencyAddress: string;
+  tokenId: bigint;
+  submitter: string;
+}
+
+/**
+ * Agency ProposalRevised / ProposalAmended event
+ */
+export interface ProposalRevisionEvent extends EventMeta {
+  agencyAddress: string;
+  originalTokenId: bigint;
+  newTokenId: bigint;
+}
+
+/**
+ * BudgetProposal ProposalMinted event
+ */
+export interface ProposalMintedEvent extends EventMeta {
+  tokenId: bigint;
+  agencyAddress: string;
+  fiscalYear: number;
+  status: ProposalStatus;
+}
+
+/**
+ * BudgetProposal ProposalStatusChanged event
+ */
+export interface ProposalStatusChangedEvent extends EventMeta {
+  tokenId: bigint;
+  oldStatus: ProposalStatus;
+  newStatus: ProposalStatus;
+}
+
+/**
+ * BudgetProposal RevisionCreated event
+ */
+export interface RevisionCreatedEvent extends EventMeta {
+  originalTokenId: bigint;
+  newTokenId: bigint;
+  /** REVISED or AMENDED */
+  action: ProposalStatus;
+  reason: string;
+}
+
+/**
+ * Options for event subscriptions
+ */
+export interface SubscriptionOptions {
+  /** First block to deliver events from, e.g. `lastBlock + 1` of an earlier run (default: next block) */
+  fromBlock?: number;
+  /** Polling interval in milliseconds (default: 4000) */
+  pollingInterval?: number;
+  /**
+   * Blocks to wait before delivering an event (default: 2). Delivered events
+   * are never retracted, so a reorg deeper than this can deliver logs that
+   * are no longer on the chain
+   */
+  confirmations?: number;
+  /** Maximum block range per log query (default: 2000) */
+  maxBlockRange?: number;
+  /** Called on RPC and callback errors; polling continues with backoff */
+  onError?: (error: Error) => void;
+  /** Keep the Node.js process alive while subscribed (default: true) */
+  keepAlive?: boolean;
+}
+
+/**
+ * Handle of an event subscription
+ */
+export interface EventSubscription {
+  /** Stop polling and delivering events */
+  unsubscribe(): void;
+  /** Last block whose events have all been delivered (null before the first poll) */
+  readonly lastBlock: number | null;
+}
+
+// ============ Indexer ============
+
+/**
+ * Contract kinds walked by the indexer
+ */
+export type IndexedContractKind = 'DBTC' | 'Department' | 'Agency' | 'BudgetProposal';
+
+/**
+ * Contract tracked by the indexer
+ */
+export interface IndexedContract {
+  address: string;
+  kind: IndexedContractKind;
+  /** Block the contract was discovered at */
+  fromBlock: number;
+}
+
+/**
+ * Decoded event stored by the indexer
+ *
+ * Argument values are JSON-safe: enums and fiscal years are numbers, other
+ * integers are decimal strings and indexed strings are resolved to their codes
+ * when known.
+ */
+export interface IndexedEvent {
+  /** Unique id (`blockNumber-logIndex`) */
+  id: string;
+  contract: IndexedContractKind;
+  address: string;
+  event: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  /** Fiscal year of the budget cycle in effect (null before the first cycle) */
+  fiscalYear: number | null;
+  args: Record<string, string | number | boolean>;
+}
+
+/**
+ * Indexer progress, saved together with each batch of events
+ */
+export interface IndexerCheckpoint {
+  /** Last fully indexed block */
+  blockNumber: number;
+  fiscalYear: number | null;
+  contracts: IndexedContract[];
+  /** Department and agency codes by keccak256 hash */
+  codes: Record<string, string>;
+}
+
+/**
+ * Filter for stored events
+ */
+export interface IndexedEventQuery {
+  event?: string | string[];
+  contract?: IndexedContractKind;
+  address?: string;
+  fiscalYear?: number;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+/**
+ * Persistence for indexed events
+ */
+export interface IndexerStore {
+  /** Saved progress (null on first run) */
+  getCheckpoint(): Promise<IndexerCheckpoint | null>;
+  /** Append events and move the checkpoint (should be atomic) */
+  save(events: IndexedEvent[], checkpoint: IndexerCheckpoint): Promise<void>;
+  /** Stored events in chain order */
+  getEvents(query?: IndexedEventQuery): Promise<IndexedEvent[]>;
+}
+
+/**
+ * Indexer options
+ */
+export interface IndexerOptions {
+  /** Event store (default: in-memory) */
+  store?: IndexerStore;
+  /** First block to index when there is no checkpoint, e.g. the DBTC deployment block (default: 0) */
+  startBlock?: number;
+  /** Last block to index (default: latest minus confirmations) */
+  toBlock?: number;
+  /** Blocks to stay behind the chain head (default: 0) */
+  confirmations?: number;
+  /** Initial block range per log query (default: 2000) */
+  chunkSize?: number;
+  /** Upper bound for the block range after successful queries (default: 10000) */
+  maxChunkSize?: number;
+  /** Called after each saved chunk */
+  onProgress?: (progress: IndexerProgress) => void;
+}
+
+/**
+ * Indexer progress report
+ */
+export interface IndexerProgress {
+  fromBlock: number;
+  toBlock: number;
+  targetBlock: number;
+  /** Events saved for this chunk */
+  events: number;
+}
+
+/**
+ * Result of an indexer run
+ */
+export interface IndexerSyncResult {
+  fromBlock: number;
+  toBlock: number;
+  /** Events saved during this run */
+  events: number;
+}
+
+// ============ Registry Snapshot ============
+
+/**
+ * Agency in a registry snapshot
+ */
+export interface AgencySnapshot extends AgencyInfo {
+  documentManagers: string[];
+}
+
+/**
+ * Department in a registry snapshot
+ */
+export interface DepartmentSnapshot extends DepartmentInfo {
+  owner: string;
+  /** Owner of a standalone entity (null if not standalone) */
+  standaloneOwner: string | null;
+  isCongress: boolean;
+  /** House agency (Congress only) */
+  houseAgency: string | null;
+  /** Senate agency (Congress only) */
+  senateAgency: string | null;
+  agencies: AgencySnapshot[];
+}
+
+/**
+ * Department responsible for a budget phase
+ */
+export interface PhaseResponsibility {
+  phase: BudgetPhase;
+  phaseName: string;
+  /** Department code (empty if unassigned) */
+  deptCode: string;
+}
+
+/**
+ * Organisational tree of the DBTC registry
+ */
+export interface RegistrySnapshot {
+  dbtc: string;
+  owner: string;
+  budgetProposal: string;
+  currentPhase: BudgetPhase;
+  fiscalYear: number;
+  phaseResponsibilities: PhaseResponsibility[];
+  departments: DepartmentSnapshot[];
+  /** Block the snapshot was started at */
+  blockNumber: number;
+  takenAt: Date;
+}
+
+/**
+ * Registry snapshot options
+ */
+export interface RegistrySnapshotOptions {
+  /** Maximum number of contracts queried at once (default: 8) */
+  concurrency?: number;
+}
+
+// ============ Bulk Submission ============
+
+/**
+ * Proposal line item of a bulk submission
+ */
+export interface BulkLineItem extends ProposalData {
+  /**
+   * Source row: the CSV line the row starts on (header is line 1), or the
+   * sheet row of spreadsheet input (`__rowNum__ + 1`, else the 1-based array position)
+   */
+  row: number;
+  /** Metadata URI of the proposal */
+  metadataURI: string;
+}
+
+/**
+ * State of a bulk submission row
+ */
+export type BulkRowStatus = 'pending' | 'invalid' | 'sent' | 'submitted' | 'failed';
+
+/**
+ * Result of a bulk submission row
+ */
+export interface BulkRowResult {
+  /** Source row (see {@link BulkLineItem.row}) */
+  row: number;
+  /**
+   * Row identity used to resume: `fiscalYear/agencyAddress/prexcFpapId/uacsObjCode`
+   * in submission reports and journals, `prexcFpapId/uacsObjCode` from `validateLineItems()`
+   */
+  key: string;
+  status: BulkRowStatus;
+  /** Minted token ID (decimal string) */
+  tokenId?: string;
+  txHash?: string;
+  /** Validation errors of an invalid row */
+  errors?: string[];
+  /** Error of a failed row */
+  error?: { code?: string; message: string };
+}
+
+/**
+ * Report of a bulk submission
+ */
+export interface BulkSubmissionReport {
+  agencyAddress: string;
+  /** False if validation failed and nothing was sent */
+  valid: boolean;
+  rows: BulkRowResult[];
+  submitted: number;
+  failed: number;
+  /** Rows already submitted by an earlier run */
+  resumed: number;
+}
+
+/**
+ * Journal of bulk submission results, used to resume after a crash
+ */
+export interface BulkJournal {
+  /** Recorded results (the last result per key wins) */
+  load(): Promise<BulkRowResult[]>;
+  record(result: BulkRowResult): Promise<void>;
+}
+
+// ============ Proposal Metadata ============
+
+/**
+ * Schema identifier of proposal documents (the metadata a proposal URI points to)
+ */
+export const PROPOSAL_DOCUMENT_SCHEMA = 'dbtc.proposal-document';
+
+/**
+ * Current version of the proposal document schema
+ */
+export const PROPOSAL_DOCUMENT_VERSION = 1;
+
+/**
+ * Cost breakdown entry of a proposal
+ */
+export interface ProposalDocumentLineItem {
+  description: string;
+  /** Amount in pesos, as a decimal string (e.g. "125000.50") */
+  amount: string;
+  /** UACS object code, if it differs from the proposal's */
+  uacsObjCode?: string;
+}
+
+/**
+ * Supporting document of a proposal
+ */
+export interface ProposalDocumentAttachment {
+  name: string;
+  /** Where the document can be fetched (ipfs://, https://, ...) */
+  uri: string;
+  /** Media type (e.g. "application/pdf") */
+  mediaType?: string;
+  /** Size in bytes */
+  size?: number;
+  /** SHA-256 of the document contents (0x-prefixed hex) */
+  sha256?: string;
+}
+
+/**
+ * Metadata document a proposal's URI points to
+ */
+export interface ProposalDocument {
+  schema: typeof PROPOSAL_DOCUMENT_SCHEMA;
+  version: typeof PROPOSAL_DOCUMENT_VERSION;
+  /** Submitting agency */
+  agency: {
+    deptCode: string;
+    agencyCode: string;
+    name?: string;
+  };
+  fiscalYear: number;
+  title: string;
+  /** PREXC/FPAP identifier, as submitted on-chain */
+  prexcFpapId: string;
+  /** UACS object code, as submitted on-chain */
+  uacsObjCode: string;
+  /** Total amount in pesos, as a decimal string */
+  amount: string;
+  /** What the budget is for */
+  narrative: string;
+  /** Why the budget is needed */
+  justification: string;
+  /** Cost breakdown (sums to `amount` when present) */
+  lineItems: ProposalDocumentLineItem[];
+  attachments: ProposalDocumentAttachment[];
+}
+
+/**
+ * Backend that stores metadata documents by content identifier (e.g. a local
+ * directory, an IPFS node or a pinning service)
+ */
+export interface MetadataStore {
+  /**
+   * Store a document
+   * @param cid CIDv1 of the document bytes
+   * @param data Serialized document
+   */
+  put(cid: string, data: Uint8Array): Promise<void>;
+  /**
+   * Fetch a document
+   * @returns Document bytes, or null if the store does not have it
+   */
+  get(cid: string): Promise<Uint8Array | null>;
+}
+
+// ============ Proposal Verification ============
+
+/**
+ * Fetches the document behind a metadata URI
+ */
+export interface MetadataResolver {
+  /** URI schemes handled (e.g. ["ipfs"]) */
+  readonly schemes: string[];
+  /**
+   * @returns Document bytes
+   */
+  resolve(uri: string): Promise<Uint8Array>;
+}
+
+/**
+ * One check of a proposal verification
+ */
+export interface VerificationCheck {
+  /** What was checked (e.g. "integrity", "schema", "amount") */
+  check: string;
+  passed: boolean;
+  /** Value on-chain or committed to by the URI */
+  expected?: string;
+  /** Value found in the document */
+  actual?: string;
+  message: string;
+}
+
+/**
+ * Result of verifying a proposal's metadata against the chain
+ */
+export interface ProposalVerificationReport {
+  /** Token ID (decimal string) */
+  tokenId: string;
+  uri: string;
+  /** True if every check passed */
+  passed: boolean;
+  /** SHA-256 of the fetched document (null if it could not be fetched) */
+  contentHash: string | null;
+  /** Parsed document (null if it could not be fetched or parsed) */
+  document: ProposalDocument | null;
+  checks: VerificationCheck[];
+  /** Failed checks */
+  mismatches: VerificationCheck[];
+}
+
+// ============ Proposal Lineage ============
+
+/**
+ * Change of one proposal field between two versions
+ */
+export interface ProposalFieldChange {
+  field: 'fiscalYear' | 'departmentCode' | 'agencyCode' | 'prexcFpapId' | 'uacsObjCode' | 'amount';
+  from: string;
+  to: string;
+}
+
+/**
+ * Differences between a version's proposal data and its parent's
+ */
+export interface ProposalDataDiff {
+  /** New amount minus the parent's, in on-chain units */
+  amountDelta: bigint;
+  /** New amount minus the parent's, in pesos */
+  pesoDelta: PesoAmount;
+  /** Changed fields (empty if the data is unchanged) */
+  changes: ProposalFieldChange[];
+}
+
+/**
+ * How a version was created from its parent
+ */
+export interface LineageEdge {
+  /** REVISED or AMENDED */
+  action: ProposalStatus;
+  actionName: string;
+  reason: string;
+  /** Address that made the change */
+  actor: string;
+  /** Budget phase the change was made in */
+  phase: BudgetPhase;
+  phaseName: string;
+  timestamp: Date;
+}
+
+/**
+ * Version in a proposal lineage tree
+ */
+export interface ProposalVersion {
+  tokenId: bigint;
+  /** Token the version was created from (null for the origin) */
+  parentTokenId: bigint | null;
+  /** Distance from the origin */
+  depth: number;
+  status: ProposalStatus;
+  statusName: string;
+  submitter: string;
+  createdAt: Date;
+  data: OnChainProposalData;
+  /** Revision or amendment that created the version (null for the origin) */
+  edge: LineageEdge | null;
+  /** Changes from the parent (null for the origin) */
+  diff: ProposalDataDiff | null;
+  /** Versions created from this one, oldest first */
+  children: ProposalVersion[];
+}
+
+/**
+ * Full version tree of a proposal
+ */
+export interface ProposalLineage {
+  /** Token the lineage was requested for */
+  tokenId: bigint;
+  originTokenId: bigint;
+  latestTokenId: bigint;
+  /** Number of versions in the tree */
+  versionCount: number;
+  root: ProposalVersion;
+}
+
+/**
+ * Lineage options
+ */
+export interface ProposalLineageOptions {
+  /** BudgetProposal contract address (default: configured or registry address) */
+  proposalAddress?: string;
+  /** Maximum number of tokens queried at once (default: 8) */
+  concurrency?: number;
+}
+
+// ============ Budget Cycle ============
+
+/**
+ * Write actions governed by the budget cycle
+ */
+export type CycleAction =
+  | 'addDepartment'
+  | 'assignPhaseResponsibility'
+  | 'startBudgetCall'
+  | 'advancePhase'
+  | 'addAgency'
+  | 'setHouseAndSenate'
+  | 'addDocumentManager'
+  | 'removeDocumentManager'
+  | 'transferAgencyOwnership'
+  | 'submitProposal'
+  | 'reviseProposal'
+  | 'amendProposal'
+  | 'submitSeparateGAB'
+  | 'submitJointGAB';
+
+/**
+ * Roles recognised by the DBTC contracts
+ */
+export type CycleRole =
+  /** Owner of the DBTC registry (DBM) */
+  | 'dbtcOwner'
+  /** Owner of the department responsible for the current phase */
+  | 'phaseResponsible'
+  /** Owner of a department's main agency */
+  | 'departmentOwner'
+  /** Owner of a standalone entity */
+  | 'standaloneOwner'
+  | 'agencyOwner'
+  | 'documentManager'
+  /** Owner or document manager of the House or Senate agency */
+  | 'houseOrSenate'
+  /** Owner of the Congress main agency */
+  | 'congressMainAgency';
+
+/**
+ * Budget cycle state at the current block
+ */
+export interface CycleState {
+  phase: BudgetPhase;
+  phaseName: string;
+  fiscalYear: number;
+  /** Phase that follows (null in the last phase) */
+  nextPhase: BudgetPhase | null;
+  isTerminal: boolean;
+  /** Actions allowed in the phase (for the given roles, if any) */
+  allowedActions: CycleAction[];
+  /** Known contract issues of the allowed actions */
+  knownIssues: KnownContractIssue[];
+}
+
+/**
+ * Action the cycle rules allow that the bundled contracts still reject
+ */
+export interface KnownContractIssue {
+  action: CycleAction;
+  /** Custom error the call reverts with */
+  errorName: string;
+  description: string;
+}
+
+// ============ Roles ============
+
+/**
+ * Role held by an address on a DBTC contract
+ */
+export interface RoleAssignment {
+  role: CycleRole;
+  /** Contract the role is held on */
+  entity: string;
+  entityType: 'dbtc' | 'department' | 'agency';
+  /** Code of the department (of the agency, for agency roles) */
+  deptCode?: string;
+  agencyCode?: string;
+  /** Name of the department or agency */
+  name?: string;
+  /** Phase the department is responsible for (phaseResponsible only) */
+  phase?: BudgetPhase;
+}
+
+/**
+ * Roles of an address across the registry
+ */
+export interface ResolvedRoles {
+  address: string;
+  roles: RoleAssignment[];
+  currentPhase: BudgetPhase;
+  /** Actions the address may take in the current phase */
+  allowedActions: CycleAction[];
+  /** Block the registry was read at */
+  blockNumber: number;
+}
+
+/**
+ * Addresses that may perform an action on a contract
+ */
+export interface PermissionHolders {
+  action: CycleAction;
+  entity: string;
+  /** Kind of contract (null if the address is not in the registry) */
+  entityType: 'dbtc' | 'department' | 'agency' | null;
+  /** Whether the action is allowed in the current phase */
+  allowedInCurrentPhase: boolean;
+  holders: Array<{ address: string; role: CycleRole }>;
+}
+
+/**
+ * Role query options
+ */
+export interface RoleQueryOptions extends RegistrySnapshotOptions {
+  /** Registry snapshot to use instead of reading the registry again */
+  snapshot?: RegistrySnapshot;
+}
+
+// ============ Phase Transitions ============
+
+/**
+ * Readiness checks of a phase transition
+ */
+export type PhaseReadinessCode =
+  /** The cycle is in its last phase */
+  | 'CYCLE_ENDED'
+  /** No department is responsible for the current phase, so nobody can send the transition */
+  | 'NO_RESPONSIBLE_DEPARTMENT'
+  /** The caller does not own the department responsible for the current phase */
+  | 'CALLER_NOT_RESPONSIBLE'
+  /** No caller given and no signer configured, so the caller was not checked */
+  | 'CALLER_UNKNOWN'
+  /** A later phase has no responsible department (assignable in Pre-Budget only) */
+  | 'PHASE_UNASSIGNED'
+  /** No Congress department is registered before a GAB phase */
+  | 'CONGRESS_NOT_REGISTERED'
+  /** Congress has no House or Senate agency before a GAB phase */
+  | 'HOUSE_SENATE_NOT_SET'
+  /** An agency has no proposal for the fiscal year when the Budget Call ends */
+  | 'AGENCY_WITHOUT_PROPOSALS'
+  /** The House or Senate submitted no separate GAB in GAB Separate */
+  | 'SEPARATE_GAB_MISSING';
+
+/**
+ * One finding of a phase transition plan
+ */
+export interface PhaseReadinessItem {
+  code: PhaseReadinessCode;
+  /** Blockers stop `advancePhaseSafely()` unless forced */
+  severity: 'blocker' | 'warning';
+  message: string;
+  /** Phase the finding is about (PHASE_UNASSIGNED) */
+  phase?: BudgetPhase;
+  deptCode?: string;
+  agencyCode?: string;
+  /** Agency contract address (agency findings) */
+  agency?: string;
+}
+
+/**
+ * Agency without a proposal for the fiscal year
+ */
+export interface AgencyWithoutProposals {
+  deptCode: string;
+  agencyCode: string;
+  name: string;
+  address: string;
+}
+
+/**
+ * Readiness report of the next phase transition
+ */
+export interface PhaseAdvancePlan {
+  fromPhase: BudgetPhase;
+  fromPhaseName: string;
+  /** Phase the transition leads to (null in the last phase) */
+  toPhase: BudgetPhase | null;
+  toPhaseName: string | null;
+  /** Write that performs the transition (null in the last phase) */
+  method: 'startBudgetCall' | 'advancePhase' | null;
+  /** Current fiscal year; proposals are checked against it */
+  fiscalYear: number;
+  /** Department responsible for the current phase (empty if unassigned) */
+  responsibleDepartment: string;
+  /** Address checked as the sender (null if unknown) */
+  caller: string | null;
+  /** True if there are no blockers */
+  ready: boolean;
+  blockers: PhaseReadinessItem[];
+  warnings: PhaseReadinessItem[];
+  /** Agencies without a proposal for the fiscal year (checked when leaving the Budget Call, empty otherwise) */
+  agenciesWithoutProposals: AgencyWithoutProposals[];
+  /** Proposal tokens minted so far */
+  proposalCount: number;
+  /** Block the registry was read at */
+  blockNumber: number;
+  checkedAt: Date;
+}
+
+/**
+ * Phase transition planning options
+ */
+export interface PhaseAdvancePlanOptions extends RoleQueryOptions {
+  /** Address that will send the transition (default: address of the signer, or of the client's signer) */
+  caller?: string;
+}
+
+/**
+ * Safe phase transition options
+ */
+export interface SafeAdvanceOptions extends PhaseAdvancePlanOptions {
+  /** Send the transition even if the plan has blockers (default: false) */
+  force?: boolean;
+}
+
+/**
+ * Result of a safe phase transition
+ */
+export interface SafeAdvanceResult extends TransactionResult {
+  /** Plan checked before sending */
+  plan: PhaseAdvancePlan;
+}
+
+// ============ Budget Aggregation ============
+
+/**
+ * Proposal data filters (each accepts one value or a list; omitted filters match everything)
+ */
+export interface BudgetFilter {
+  fiscalYear?: number | number[];
+  deptCode?: string | string[];
+  agencyCode?: string | string[];
+  uacsObjCode?: string | string[];
+  prexcFpapId?: string | string[];
+  status?: ProposalStatus | ProposalStatus[];
+}
+
+/**
+ * Budget aggregation options
+ */
+export interface BudgetQueryOptions extends BudgetFilter {
+  /** BudgetProposal contract address (default: configured or registry address) */
+  proposalAddress?: string;
+  /** Maximum number of tokens queried at once (default: 8) */
+  concurrency?: number;
+}
+
+/**
+ * Latest version of a proposal lineage, as counted in totals
+ */
+export interface BudgetLineItem {
+  /** First version of the lineage */
+  originTokenId: bigint;
+  /** Latest version (`getLatestVersion` of the origin) */
+  tokenId: bigint;
+  fiscalYear: number;
+  departmentCode: string;
+  agencyCode: string;
+  prexcFpapId: string;
+  uacsObjCode: string;
+  /** Raw on-chain amount */
+  amount: bigint;
+  pesoAmount: PesoAmount;
+  status: ProposalStatus;
+  statusName: string;
+  /** Phase the lineage was first submitted in */
+  submittedPhase: BudgetPhase;
+}
+
+/**
+ * Amount and number of proposals behind it
+ */
+export interface BudgetAmount {
+  /** Raw on-chain amount */
+  amount: bigint;
+  pesoAmount: PesoAmount;
+  proposalCount: number;
+}
+
+/**
+ * Total of one UACS object code or PREXC/FPAP
+ */
+export interface BudgetGroupTotal extends BudgetAmount {
+  key: string;
+}
+
+/**
+ * Total with its breakdowns by object code and PREXC/FPAP (sorted by code)
+ */
+export interface BudgetBreakdown extends BudgetAmount {
+  byObjectCode: BudgetGroupTotal[];
+  byPrexc: BudgetGroupTotal[];
+}
+
+/**
+ * Agency total
+ */
+export interface AgencyBudgetTotal extends BudgetBreakdown {
+  deptCode: string;
+  agencyCode: string;
+}
+
+/**
+ * Department total with its agencies
+ */
+export interface DepartmentBudgetTotal extends BudgetBreakdown {
+  deptCode: string;
+  agencies: AgencyBudgetTotal[];
+}
+
+/**
+ * Totals rolled up agency → department → national
+ */
+export interface BudgetRollup {
+  filter: BudgetFilter;
+  /** Fiscal years of the counted proposals */
+  fiscalYears: number[];
+  national: BudgetBreakdown;
+  departments: DepartmentBudgetTotal[];
+  /** Counted line items (latest versions matching the filter) */
+  items: BudgetLineItem[];
+  /** Proposal tokens read */
+  tokenCount: number;
+  generatedAt: Date;
+}
+
+/**
+ * Stage of the budget a version stands for
+ *
+ * NEP: the executive version (original or revised, before any amendment);
+ * GAB: the version after Congress amendments; GAA: the enacted version.
+ */
+export type BudgetStage = 'NEP' | 'GAB' | 'GAA';
+
+/**
+ * One row of a budget comparison
+ */
+export interface BudgetComparisonRow {
+  level: 'national' | 'department' | 'agency';
+  /** Null on the national row */
+  deptCode: string | null;
+  /** Null on national and department rows */
+  agencyCode: string | null;
+  /** Amount per column */
+  values: Record<string, BudgetAmount>;
+  /** Change from each column to the next (one fewer than the columns) */
+  changes: PesoAmount[];
+}
+
+/**
+ * Totals side by side per stage or per fiscal year
+ */
+export interface BudgetComparison {
+  dimension: 'stage' | 'fiscalYear';
+  /** Column keys in order (stages, or fiscal years as strings) */
+  columns: string[];
+  filter: BudgetFilter;
+  /** National row first, then each department followed by its agencies */
+  rows: BudgetComparisonRow[];
+  generatedAt: Date;
+}
@@ -1,4 +1,7 @@
 import { ethers } from 'ethers';
+import { BudgetPhase, OnChainProposalData, SimulationResult } from './types';
+import { DBTCError, decodeContractError, withContractErrors } from './errors';
+import { PesoAmount, DEFAULT_AMOUNT_DECIMALS } from './money';
 
 /**
  * Convert a string to bytes32
@@ -22,42 +25,97 @@ export function bytes32ToString(bytes32: string): string {
 }
 
 /**
- * Wait for transaction and return result
- * @param tx Transaction response
- * @returns Transaction result with receipt data
+ * Find the first log of an event in a transaction's logs
+ * @param contract Contract whose interface declares the event
+ * @param logs Transaction logs
+ * @param eventName Event name
+ * @returns Parsed event, or null if not emitted
  */
-export async function waitForTransaction(
-  tx: ethers.ContractTransactionResponse
-): Promise<{
-  txHash: string;
-  blockNumber: number;
-  gasUsed: bigint;
-  success: boolean;
-  logs: ethers.Log[];
-}> {
-  const receipt = await tx.wait();
-  
-  if (!receipt) {
-    throw new Error('Transaction failed - no receipt');
+export function findEvent(
+  contract: ethers.BaseContract,
+  logs: ethers.Log[],
+  eventName: string
+): ethers.LogDescription | null {
+  for (const log of logs) {
+    try {
+      const parsed = contract.interface.parseLog({ topics: log.topics as string[], data: log.data });
+      if (parsed?.name === eventName) {
+        return parsed;
+      }
+    } catch { /* skip non-matching logs */ }
+  }
+  return null;
+}
+
+/**
+ * Re-run a mined, reverted transaction as a call to recover its revert reason
+ * @param tx Reverted transaction
+ * @param blockNumber Block the transaction was mined in
+ * @param error Error reported for the failed receipt
+ * @returns Decoded error (or the original error if the reason cannot be recovered)
+ */
+export async function replayRevertedTransaction(
+  tx: ethers.TransactionResponse,
+  blockNumber: number,
+  error: Error
+): Promise<Error> {
+  try {
+    await tx.provider.call({
+      to: tx.to,
+      from: tx.from,
+      data: tx.data,
+      value: tx.value,
+      blockTag: blockNumber
+    });
+  } catch (replayError) {
+    const decoded = decodeContractError(replayError);
+    if (decoded && decoded.data) {
+      return decoded;
+    }
+  }
+  return decodeContractError(error) ?? error;
+}
+
+/**
+ * Dry-run a contract write with the real signer
+ * @param method Contract method (connected to the signer)
+ * @param args Method arguments
+ * @param getPhase Resolves the current phase for phase-related error messages
+ * @returns Would-be return value and gas estimate, or the decoded revert reason
+ */
+export async function simulateTransaction<T = void>(
+  method: ethers.BaseContractMethod,
+  args: unknown[],
+  getPhase?: () => Promise<BudgetPhase>
+): Promise<SimulationResult<T>> {
+  try {
+    return await withContractErrors(async () => {
+      const returnValue = await method.staticCall(...args);
+      const gasEstimate = await method.estimateGas(...args);
+      return {
+        success: true,
+        returnValue: (method.fragment.outputs.length > 0 ? returnValue : undefined) as T,
+        gasEstimate
+      };
+    }, getPhase);
+  } catch (error) {
+    if (error instanceof DBTCError) {
+      return { success: false, error };
+    }
+    throw error;
   }
-  
-  return {
-    txHash: receipt.hash,
-    blockNumber: receipt.blockNumber,
-    gasUsed: receipt.gasUsed,
-    success: receipt.status === 1,
-    logs: receipt.logs as ethers.Log[]
-  };
 }
 
 /**
  * Parse proposal data for contract call
+ * @param data Proposal data
+ * @param decimals Decimals of on-chain amounts (used for PesoAmount values)
  */
 export function prepareProposalData(data: {
   prexcFpapId: string;
   uacsObjCode: string;
-  amount: bigint | string | number;
-}): {
+  amount: bigint | string | number | PesoAmount;
+}, decimals: number = DEFAULT_AMOUNT_DECIMALS): {
   fiscalYear: number;
   departmentCode: string;
   agencyCode: string;
@@ -71,6 +129,66 @@ export function prepareProposalData(data: {
     agencyCode: ethers.ZeroHash, // Will be enriched by contract
     prexcFpapId: stringToBytes32(data.prexcFpapId),
     uacsObjCode: stringToBytes32(data.uacsObjCode),
-    amount: BigInt(data.amount)
+    amount: data.amount instanceof PesoAmount ? data.amount.toUnits(decimals) : BigInt(data.amount)
+  };
+}
+
+/**
+ * Decode proposal data returned by the contract
+ * @param raw Proposal data struct
+ * @param decimals Decimals of on-chain amounts
+ */
+export function decodeProposalData(raw: {
+  fiscalYear: bigint;
+  departmentCode: string;
+  agencyCode: string;
+  prexcFpapId: string;
+  uacsObjCode: string;
+  amount: bigint;
+}, decimals: number = DEFAULT_AMOUNT_DECIMALS): OnChainProposalData {
+  return {
+    fiscalYear: Number(raw.fiscalYear),
+    departmentCode: bytes32ToString(raw.departmentCode),
+    agencyCode: bytes32ToString(raw.agencyCode),
+    prexcFpapId: bytes32ToString(raw.prexcFpapId),
+    uacsObjCode: bytes32ToString(raw.uacsObjCode),
+    amount: BigInt(raw.amount),
+    pesoAmount: PesoAmount.fromUnits(raw.amount, decimals)
   };
 }
+
+/**
+ * Convert a contract timestamp (seconds) to a Date
+ */
+export function toDate(timestamp: bigint | number): Date {
+  return new Date(Number(timestamp) * 1000);
+}
+
+/**
+ * Create a limiter that runs at most `concurrency` tasks at once
+ *
+ * Tasks must not wait on other tasks of the same limiter.
+ * @param concurrency Maximum number of running tasks
+ */
+export function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  const limit = Math.max(1, Math.floor(concurrency));
+  const queue: Array<() => void> = [];
+  let running = 0;
+
+  const next = () => {
+    if (running < limit && queue.length > 0) {
+      running++;
+      queue.shift()!();
+    }
+  };
+
+  return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+    queue.push(() => {
+      task().then(resolve, reject).finally(() => {
+        running--;
+        next();
+      });
+    });
+    next();
+  });
+}
@@ -0,0 +1,231 @@
+import { ethers } from 'ethers';
+import { ProposalData } from './types';
+import { FieldError, ValidationError } from './errors';
+import { PesoAmount, DEFAULT_AMOUNT_DECIMALS } from './money';
+import { getDefaultProposalRules } from './client';
+
+/**
+ * Proposal data as seen by custom rules
+ */
+export interface ProposalRuleInput extends Omit<ProposalData, 'amount'> {
+  /** Amount in on-chain units (centavos by default), whatever form it was given in */
+  amount: bigint;
+}
+
+/**
+ * Validation rule for proposal data
+ * @returns Errors found (empty or nothing if the data passes)
+ */
+export type ProposalRule = (data: ProposalRuleInput) => FieldError[] | FieldError | null | undefined | void;
+
+const MAX_BYTES32_LENGTH = 31;
+
+/** UACS object code: 10 digits, plain or grouped as 5-02-01-010-00 */
+const UACS_OBJECT_CODE = /^(\d{10}|\d-\d{2}-\d{2}-\d{3}-\d{2})$/;
+
+/** PREXC/FPAP identifier: letters, digits and . - / separators */
+const PREXC_FPAP_ID = /^[A-Za-z0-9]+([.\-/][A-Za-z0-9]+)*$/;
+
+const DEPARTMENT_CODE = /^\d{2}$/;
+const AGENCY_CODE = /^\d{3}$/;
+
+/**
+ * Check that a string is set and fits in bytes32
+ */
+function checkBytes32Field(field: string, value: unknown): FieldError | null {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return { field, code: 'REQUIRED', message: 'is required' };
+  }
+  if (ethers.toUtf8Bytes(value).length > MAX_BYTES32_LENGTH) {
+    return { field, code: 'TOO_LONG', message: `must be at most ${MAX_BYTES32_LENGTH} bytes` };
+  }
+  return null;
+}
+
+/**
+ * Validate a UACS object code (10 digits, e.g. "5020101000" or "5-02-01-010-00")
+ * @param code UACS object code
+ * @param field Field name used in the error
+ * @returns Field error, or null if valid
+ */
+export function validateUacsObjectCode(code: unknown, field: string = 'uacsObjCode'): FieldError | null {
+  const error = checkBytes32Field(field, code);
+  if (error) {
+    return error;
+  }
+  if (!UACS_OBJECT_CODE.test(code as string)) {
+    return { field, code: 'INVALID_FORMAT', message: `"${code}" is not a 10-digit UACS object code` };
+  }
+  return null;
+}
+
+/**
+ * Validate a PREXC/FPAP identifier (letters and digits, optionally separated by ".", "-" or "/")
+ * @param id PREXC/FPAP identifier
+ * @param field Field name used in the error
+ * @returns Field error, or null if valid
+ */
+export function validatePrexcFpapId(id: unknown, field: string = 'prexcFpapId'): FieldError | null {
+  const error = checkBytes32Field(field, id);
+  if (error) {
+    return error;
+  }
+  if (!PREXC_FPAP_ID.test(id as string)) {
+    return { field, code: 'INVALID_FORMAT', message: `"${id}" is not a valid PREXC/FPAP identifier` };
+  }
+  return null;
+}
+
+/**
+ * Validate a department code (2 digits, e.g. "01")
+ * @param code Department code
+ * @param field Field name used in the error
+ * @returns Field error, or null if valid
+ */
+export function validateDepartmentCode(code: unknown, field: string = 'deptCode'): FieldError | null {
+  if (typeof code !== 'string' || !DEPARTMENT_CODE.test(code)) {
+    return { field, code: 'INVALID_FORMAT', message: `"${code}" is not a 2-digit department code` };
+  }
+  return null;
+}
+
+/**
+ * Validate an agency code (3 digits, e.g. "001")
+ * @param code Agency code
+ * @param field Field name used in the error
+ * @returns Field error, or null if valid
+ */
+export function validateAgencyCode(code: unknown, field: string = 'agencyCode'): FieldError | null {
+  if (typeof code !== 'string' || !AGENCY_CODE.test(code)) {
+    return { field, code: 'INVALID_FORMAT', message: `"${code}" is not a 3-digit agency code` };
+  }
+  return null;
+}
+
+/**
+ * Validate an amount: a non-negative PesoAmount that fits the on-chain scale,
+ * or a non-negative whole number of on-chain units
+ * @param amount Amount (PesoAmount, bigint, integer or digit string)
+ * @param field Field name used in the error
+ * @param decimals Decimals of on-chain amounts
+ * @returns Field error, or null if valid
+ */
+export function validateAmount(
+  amount: unknown,
+  field: string = 'amount',
+  decimals: number = DEFAULT_AMOUNT_DECIMALS
+): FieldError | null {
+  let value: bigint;
+  if (amount instanceof PesoAmount) {
+    if (amount.units % BigInt(10) ** BigInt(Math.max(0, amount.decimals - decimals)) !== BigInt(0)) {
+      return { field, code: 'TOO_PRECISE', message: `${amount} has more than ${decimals} decimals` };
+    }
+    value = amount.toUnits(decimals);
+  } else if (typeof amount === 'bigint') {
+    value = amount;
+  } else if (typeof amount === 'number') {
+    if (!Number.isSafeInteger(amount)) {
+      return { field, code: 'NOT_WHOLE_NUMBER', message: `${amount} is not a whole number (use bigint for large amounts)` };
+    }
+    value = BigInt(amount);
+  } else if (typeof amount === 'string' && /^-?\d+$/.test(amount.trim())) {
+    value = BigInt(amount.trim());
+  } else {
+    return { field, code: 'NOT_WHOLE_NUMBER', message: `"${amount}" is not a whole number` };
+  }
+
+  if (value < BigInt(0)) {
+    return { field, code: 'NEGATIVE', message: 'must not be negative' };
+  }
+  if (value > ethers.MaxUint256) {
+    return { field, code: 'TOO_LARGE', message: 'does not fit in uint256' };
+  }
+  return null;
+}
+
+/**
+ * Add a custom rule to the default client, run after the built-in checks on
+ * its proposal writes (use `client.addProposalRule()` for other clients)
+ * @param rule Validation rule
+ * @returns Function that removes the rule again
+ *
+ * @example
+ * ```typescript
+ * const ceiling = pesos('500,000,000').toUnits();
+ * addProposalRule((data) => data.amount > ceiling
+ *   ? { field: 'amount', code: 'ABOVE_CEILING', message: 'exceeds the agency ceiling' }
+ *   : null);
+ * ```
+ */
+export function addProposalRule(rule: ProposalRule): () => void {
+  const rules = getDefaultProposalRules();
+  rules.push(rule);
+  return () => {
+    const index = rules.indexOf(rule);
+    if (index >= 0) {
+      rules.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Validate proposal data with the built-in checks and the given custom rules
+ *
+ * Custom rules only run once the amount is valid, and get it in on-chain units.
+ * @param data Proposal data
+ * @param decimals Decimals of on-chain amounts
+ * @param rules Custom rules (default: none)
+ * @returns Field errors (empty if valid)
+ */
+export function validateProposalData(
+  data: ProposalData,
+  decimals: number = DEFAULT_AMOUNT_DECIMALS,
+  rules: readonly ProposalRule[] = []
+): FieldError[] {
+  const amountError = validateAmount(data.amount, 'amount', decimals);
+  const errors = [
+    validatePrexcFpapId(data.prexcFpapId),
+    validateUacsObjectCode(data.uacsObjCode),
+    amountError
+  ].filter((error): error is FieldError => error !== null);
+  if (amountError) {
+    return errors;
+  }
+
+  const input: ProposalRuleInput = {
+    ...data,
+    amount: data.amount instanceof PesoAmount ? data.amount.toUnits(decimals) : BigInt(data.amount)
+  };
+  for (const rule of rules) {
+    const result = rule(input);
+    if (result) {
+      errors.push(...(Array.isArray(result) ? result : [result]));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate the inputs of a proposal write, throwing before anything is signed
+ * @param uri Metadata URI
+ * @param data Proposal data
+ * @param decimals Decimals of on-chain amounts
+ * @param rules Custom rules (default: none)
+ * @throws ValidationError listing every failing field
+ */
+export function assertValidProposal(
+  uri: string,
+  data: ProposalData,
+  decimals: number = DEFAULT_AMOUNT_DECIMALS,
+  rules: readonly ProposalRule[] = []
+): void {
+  const errors: FieldError[] = [];
+  if (typeof uri !== 'string' || uri.trim() === '') {
+    errors.push({ field: 'uri', code: 'REQUIRED', message: 'is required' });
+  }
+  errors.push(...validateProposalData(data, decimals, rules));
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+}
@@ -0,0 +1,288 @@
+import { ethers } from 'ethers';
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import type { DBTCClient } from './client';
+import { getDefaultClient } from './client';
+import {
+  MetadataResolver,
+  MetadataStore,
+  OnChainProposalData,
+  ProposalDocument,
+  ProposalVerificationReport,
+  VerificationCheck
+} from './types';
+import { computeCid, cidFromUri, validateProposalDocument } from './metadata';
+import { PesoAmount, DEFAULT_AMOUNT_DECIMALS } from './money';
+
+const DEFAULT_GATEWAY = 'https://ipfs.io';
+const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * Proposal verification options
+ */
+export interface VerifyOptions {
+  /** Resolvers to try before the built-in ipfs://, https:// and file:// resolvers */
+  resolvers?: MetadataResolver[];
+}
+
+// ============ Resolvers ============
+
+/**
+ * Fetch a URL with ethers' fetch (follows redirects, honours the timeout)
+ */
+async function fetchBytes(url: string, timeout: number): Promise<Uint8Array> {
+  const request = new ethers.FetchRequest(url);
+  request.timeout = timeout;
+  const response = await request.send();
+  response.assertOk();
+  return response.body ?? new Uint8Array();
+}
+
+/**
+ * Resolves ipfs:// URIs from a metadata store, falling back to an HTTP gateway
+ */
+export class IpfsResolver implements MetadataResolver {
+  readonly schemes = ['ipfs'];
+
+  /**
+   * @param options Metadata store to read first, gateway URL (default: https://ipfs.io) and timeout in milliseconds
+   */
+  constructor(private readonly options: { store?: MetadataStore; gateway?: string; timeout?: number } = {}) {}
+
+  async resolve(uri: string): Promise<Uint8Array> {
+    const cid = cidFromUri(uri);
+    if (cid && this.options.store) {
+      const data = await this.options.store.get(cid);
+      if (data) {
+        return data;
+      }
+    }
+    const gateway = (this.options.gateway ?? DEFAULT_GATEWAY).replace(/\/+$/, '');
+    return fetchBytes(`${gateway}/ipfs/${uri.replace(/^ipfs:\/\/(ipfs\/)?/, '')}`, this.options.timeout ?? DEFAULT_TIMEOUT);
+  }
+}
+
+/**
+ * Resolves https:// URIs
+ */
+export class HttpsResolver implements MetadataResolver {
+  readonly schemes = ['https'];
+
+  /**
+   * @param timeout Request timeout in milliseconds (default: 30000)
+   */
+  constructor(private readonly timeout: number = DEFAULT_TIMEOUT) {}
+
+  async resolve(uri: string): Promise<Uint8Array> {
+    return fetchBytes(uri, this.timeout);
+  }
+}
+
+/**
+ * Resolves file:// URIs from the local filesystem
+ */
+export class FileResolver implements MetadataResolver {
+  readonly schemes = ['file'];
+
+  async resolve(uri: string): Promise<Uint8Array> {
+    return new Uint8Array(await fs.readFile(fileURLToPath(uri)));
+  }
+}
+
+// ============ Verification ============
+
+/**
+ * Content address a URI commits to: a CID (ipfs://<cid>, or a gateway URL
+ * with /ipfs/<cid>) or a SHA-256 fragment (#sha256=<hex>)
+ */
+function contentAddress(uri: string): { cid: string } | { sha256: string } | null {
+  const cid = cidFromUri(uri) ?? /\/ipfs\/(b[a-z2-7]{58})(?:[/?#]|$)/.exec(uri)?.[1];
+  if (cid) {
+    return { cid };
+  }
+  const hash = /#sha256=(?:0x)?([0-9a-fA-F]{64})$/.exec(uri);
+  return hash ? { sha256: `0x${hash[1].toLowerCase()}` } : null;
+}
+
+const pass = (check: string, message: string, expected?: string, actual?: string): VerificationCheck =>
+  ({ check, passed: true, expected, actual, message });
+
+const fail = (check: string, message: string, expected?: string, actual?: string): VerificationCheck =>
+  ({ check, passed: false, expected, actual, message });
+
+/**
+ * Check that a document hashes to what its URI commits to
+ */
+function checkIntegrity(uri: string, data: Uint8Array): VerificationCheck {
+  const address = contentAddress(uri);
+  if (!address) {
+    return fail('integrity', 'URI does not commit to the document contents (no CIDv1 or #sha256= fragment)');
+  }
+  if ('cid' in address) {
+    const actual = computeCid(data);
+    return actual === address.cid
+      ? pass('integrity', 'Document matches the CID of the URI', address.cid, actual)
+      : fail('integrity', 'Document does not match the CID of the URI', address.cid, actual);
+  }
+  const actual = ethers.sha256(data);
+  return actual === address.sha256
+    ? pass('integrity', 'Document matches the SHA-256 of the URI', address.sha256, actual)
+    : fail('integrity', 'Document does not match the SHA-256 of the URI', address.sha256, actual);
+}
+
+/**
+ * Compare a document field with the on-chain value
+ */
+function compareField(check: string, expected: string, actual: unknown): VerificationCheck {
+  const found = actual === undefined ? undefined : String(actual);
+  return found === expected
+    ? pass(check, `${check} matches`, expected, found)
+    : fail(check, `${check} differs from the on-chain value`, expected, found);
+}
+
+/**
+ * Compare a peso amount of the document with the on-chain amount
+ */
+function compareAmount(check: string, expected: PesoAmount, actual: unknown): VerificationCheck {
+  let amount: PesoAmount | null = null;
+  try {
+    amount = typeof actual === 'string' ? PesoAmount.parse(actual, DEFAULT_AMOUNT_DECIMALS) : null;
+  } catch {
+    // Reported as a mismatch below
+  }
+  const found = actual === undefined ? undefined : String(actual);
+  return amount !== null && amount.compare(expected) === 0
+    ? pass(check, `${check} matches`, expected.toString(), found)
+    : fail(check, `${check} differs from the on-chain amount`, expected.toString(), found);
+}
+
+/**
+ * Cross-check a document with the on-chain proposal data
+ */
+function crossCheck(document: Partial<ProposalDocument>, data: OnChainProposalData): VerificationCheck[] {
+  const checks = [
+    compareField('prexcFpapId', data.prexcFpapId, document.prexcFpapId),
+    compareField('uacsObjCode', data.uacsObjCode, document.uacsObjCode),
+    compareAmount('amount', data.pesoAmount, document.amount),
+    compareField('fiscalYear', String(data.fiscalYear), document.fiscalYear),
+    compareField('departmentCode', data.departmentCode, document.agency?.deptCode),
+    compareField('agencyCode', data.agencyCode, document.agency?.agencyCode)
+  ];
+
+  if (Array.isArray(document.lineItems) && document.lineItems.length > 0) {
+    try {
+      const total = PesoAmount.sum(document.lineItems.map((item) => PesoAmount.parse(item.amount, DEFAULT_AMOUNT_DECIMALS)));
+      checks.push(compareAmount('lineItems', data.pesoAmount, total.toString()));
+    } catch {
+      checks.push(fail('lineItems', 'Line item amounts are not peso amounts', data.pesoAmount.toString()));
+    }
+  }
+  return checks;
+}
+
+/**
+ * Verifies that the document behind a proposal's token URI matches what was minted
+ *
+ * The document is fetched through the resolver for its URI scheme, hashed and
+ * compared to the CID (or `#sha256=` fragment) of the URI, validated against
+ * the proposal document schema, and cross-checked with the on-chain proposal
+ * data. Problems with the document are reported, not thrown; only failing
+ * chain reads throw.
+ *
+ * @example
+ * ```typescript
+ * const verifier = new ProposalVerifier(client, {
+ *   resolvers: [new IpfsResolver({ gateway: 'https://gateway.pinata.cloud' })]
+ * });
+ * const report = await verifier.verify(42n);
+ * report.mismatches.forEach((m) => console.log(m.check, m.expected, m.actual));
+ * ```
+ */
+export class ProposalVerifier {
+  private readonly resolvers: MetadataResolver[];
+
+  constructor(
+    private readonly client: DBTCClient,
+    options: VerifyOptions = {}
+  ) {
+    this.resolvers = [
+      ...options.resolvers ?? [],
+      new IpfsResolver(),
+      new HttpsResolver(),
+      new FileResolver()
+    ];
+  }
+
+  /**
+   * Verify a proposal
+   * @param tokenId Proposal token ID
+   * @returns Pass/fail report listing each check
+   */
+  async verify(tokenId: bigint | number): Promise<ProposalVerificationReport> {
+    const [uri, data] = await Promise.all([
+      this.client.proposals.getURI(tokenId),
+      this.client.proposals.getData(tokenId)
+    ]);
+    const checks: VerificationCheck[] = [];
+    const report = (contentHash: string | null, document: ProposalDocument | null): ProposalVerificationReport => ({
+      tokenId: tokenId.toString(),
+      uri,
+      passed: checks.every((check) => check.passed),
+      contentHash,
+      document,
+      checks,
+      mismatches: checks.filter((check) => !check.passed)
+    });
+
+    let content: Uint8Array;
+    try {
+      content = await this.fetch(uri);
+      checks.push(pass('fetch', 'Document fetched'));
+    } catch (error) {
+      checks.push(fail('fetch', `Document could not be fetched: ${(error as Error).message}`));
+      return report(null, null);
+    }
+    checks.push(checkIntegrity(uri, content));
+
+    let document: unknown;
+    try {
+      document = JSON.parse(ethers.toUtf8String(content));
+    } catch {
+      checks.push(fail('schema', 'Document is not JSON'));
+      return report(ethers.sha256(content), null);
+    }
+
+    const errors = validateProposalDocument(document);
+    checks.push(errors.length === 0
+      ? pass('schema', 'Document matches the proposal document schema')
+      : fail('schema', errors.map((error) => `${error.field}: ${error.message}`).join('; ')));
+    if (document === null || typeof document !== 'object') {
+      return report(ethers.sha256(content), null);
+    }
+
+    checks.push(...crossCheck(document as Partial<ProposalDocument>, data));
+    return report(ethers.sha256(content), document as ProposalDocument);
+  }
+
+  private async fetch(uri: string): Promise<Uint8Array> {
+    const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(uri)?.[1].toLowerCase();
+    const resolver = scheme && this.resolvers.find((candidate) => candidate.schemes.includes(scheme));
+    if (!resolver) {
+      throw new Error(`no resolver for ${scheme ? `${scheme}:// URIs` : `"${uri}"`}`);
+    }
+    return resolver.resolve(uri);
+  }
+}
+
+/**
+ * Verify that the document behind a proposal's token URI matches what was minted
+ * @param tokenId Proposal token ID
+ * @param options Extra resolvers
+ * @returns Pass/fail report listing each check
+ */
+export async function verifyProposal(
+  tokenId: bigint | number,
+  options?: VerifyOptions
+): Promise<ProposalVerificationReport> {
+  return new ProposalVerifier(getDefaultClient(), options).verify(tokenId);
+}
@@ -0,0 +1,89 @@
+import { BudgetComparison, BudgetPhase, ProposalData } from '../src';
+import { withNodes } from './helpers/node';
+
+const SHARED = '310100100003000';
+
+const item = (prexcFpapId: string, amount: bigint): ProposalData => ({ prexcFpapId, uacsObjCode: '5020101000', amount });
+
+/**
+ * Amounts and document counts per stage of the national row, or of a department's
+ */
+function totals(comparison: BudgetComparison, deptCode: string | null = null) {
+  const row = comparison.rows.find((candidate) =>
+    candidate.deptCode === deptCode && candidate.level === (deptCode ? 'department' : 'national'));
+  return Object.fromEntries(comparison.columns.map((column) =>
+    [column, row ? [row.values[column].amount, row.values[column].proposalCount] : [0n, 0]]));
+}
+
+withNodes('compareStages on the %s', (addresses) => ({
+  departments: [
+    {
+      code: '07',
+      name: 'Department of Education',
+      owner: addresses[1],
+      agencies: [{ code: '002', name: 'Bureau of Learning Delivery', owner: addresses[3] }]
+    },
+    {
+      code: '01',
+      name: 'Congress of the Philippines',
+      owner: addresses[4],
+      agencies: [
+        { code: '002', name: 'House of Representatives', owner: addresses[5] },
+        { code: '003', name: 'Senate', owner: addresses[6] }
+      ],
+      house: '002',
+      senate: '003'
+    }
+  ],
+  phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07', TECHNICAL_REVIEW: '07', NEP_CONSOLIDATION: '07' }
+}), (node) => {
+  const agency = (deptCode: string, agencyCode = '001') =>
+    node.client.agency(node.book.departments[deptCode].agencies[agencyCode]);
+
+  it('counts agencies sharing a PREXC/FPAP and object code apart', async () => {
+    const { client, accounts } = node;
+    await client.dbtc.startBudgetCall(accounts[1]);
+    await agency('07').submitProposal('ipfs://office', item(SHARED, 30n), accounts[1]);
+    await agency('07', '002').submitProposal('ipfs://bureau', item(SHARED, 40n), accounts[3]);
+
+    const comparison = await client.aggregation.compareStages({ prexcFpapId: SHARED });
+    expect(totals(comparison)).toEqual({ NEP: [70n, 2], GAB: [0n, 0], GAA: [0n, 0] });
+    expect(comparison.rows.filter((row) => row.level === 'agency').map((row) => row.agencyCode)).toEqual(['001', '002']);
+  });
+
+  it('counts one document per stage along a revision chain', async () => {
+    const { client, accounts } = node;
+    const deped = agency('07');
+    const filter = { prexcFpapId: ['310100100001000', '310100100002000'] };
+    const { tokenId: original } = await deped.submitProposal('ipfs://v1', item('310100100001000', 100n), accounts[1]);
+    const { newTokenId: revised } = await deped.reviseProposal(original, 'ipfs://v2', item('310100100001000', 120n), 'v2', accounts[1]);
+    const { newTokenId: latest } = await deped.reviseProposal(revised, 'ipfs://v3', item('310100100001000', 130n), 'v3', accounts[1]);
+    await deped.submitProposal('ipfs://other', item('310100100002000', 50n), accounts[1]);
+    while (await client.dbtc.getCurrentPhase() !== BudgetPhase.GAB_SEPARATE) {
+      await client.dbtc.advancePhase(accounts[1]);
+    }
+
+    // NEP keeps the last revision, GAB takes the amendment
+    await deped.amendProposal(latest, 'ipfs://amended', item('310100100001000', 140n), 'Amended', accounts[1]);
+    expect(totals(await client.aggregation.compareStages(filter))).toEqual({ NEP: [180n, 2], GAB: [190n, 2], GAA: [0n, 0] });
+
+    // Each chamber's GAB replaces the version before it
+    await agency('01', '002').submitSeparateGAB('ipfs://house-gab', item('310100100001000', 150n), accounts[5]);
+    await agency('01', '003').submitSeparateGAB('ipfs://senate-gab', item('310100100001000', 160n), accounts[6]);
+    const comparison = await client.aggregation.compareStages(filter);
+    expect(totals(comparison)).toEqual({ NEP: [180n, 2], GAB: [210n, 2], GAA: [0n, 0] });
+    expect(totals(comparison, '07')).toEqual({ NEP: [180n, 2], GAB: [50n, 1], GAA: [0n, 0] });
+    expect(totals(comparison, '01')).toEqual({ NEP: [0n, 0], GAB: [160n, 1], GAA: [0n, 0] });
+  });
+
+  it('replaces every agency document of a line item with the chamber GAB', async () => {
+    const { client, accounts } = node;
+    expect(totals(await client.aggregation.compareStages({ prexcFpapId: SHARED })))
+      .toEqual({ NEP: [70n, 2], GAB: [70n, 2], GAA: [0n, 0] });
+
+    await agency('01', '002').submitSeparateGAB('ipfs://house-shared', item(SHARED, 90n), accounts[5]);
+    const comparison = await client.aggregation.compareStages({ prexcFpapId: SHARED });
+    expect(totals(comparison)).toEqual({ NEP: [70n, 2], GAB: [90n, 1], GAA: [0n, 0] });
+    expect(totals(comparison, '07')).toEqual({ NEP: [70n, 2], GAB: [0n, 0], GAA: [0n, 0] });
+  });
+});
@@ -0,0 +1,189 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BulkSubmitter,
+  BulkRowResult,
+  JsonFileBulkJournal,
+  MemoryBulkJournal,
+  parseCsvRows,
+  parseCsvRecords,
+  validateLineItems
+} from '../src';
+import { useNode } from './helpers/node';
+
+const HEADER = 'PREXC/FPAP ID,UACS Object Code,Amount,Metadata URI';
+
+describe('CSV parsing', () => {
+  it('reports the line each row starts on', () => {
+    const text = [
+      HEADER,
+      '',
+      '310100100001000,5020101000,"1,500",ipfs://a',
+      '310100100001000,5020301000,200,"ipfs://b',
+      'second line"',
+      '\r',
+      '310100100001000,5020399000,300,ipfs://c'
+    ].join('\n');
+    expect(parseCsvRows(text).map((row) => row.line)).toEqual([1, 3, 4, 7]);
+    expect(parseCsvRecords(text)[1]).toEqual({
+      line: 4,
+      values: {
+        'PREXC/FPAP ID': '310100100001000',
+        'UACS Object Code': '5020301000',
+        Amount: '200',
+        'Metadata URI': 'ipfs://b\nsecond line'
+      }
+    });
+  });
+});
+
+describe('validateLineItems', () => {
+  it('numbers CSV rows by source line', () => {
+    const { items, invalid } = validateLineItems([
+      HEADER,
+      '310100100001000,5020101000,"1,500",ipfs://a',
+      '',
+      '310100100001000,5020301000,-1,"ipfs://b',
+      '"',
+      '310100100001000,5020101000,12.5,'
+    ].join('\n'));
+    expect(items).toEqual([
+      { row: 2, prexcFpapId: '310100100001000', uacsObjCode: '5020101000', amount: 1500n, metadataURI: 'ipfs://a' }
+    ]);
+    expect(invalid).toEqual([
+      { row: 4, key: '310100100001000/5020301000', status: 'invalid', errors: ['amount must not be negative'] },
+      {
+        row: 6,
+        key: '310100100001000/5020101000',
+        status: 'invalid',
+        errors: ['amount "12.5" is not a whole number', 'metadataURI is required', 'duplicate of row 2']
+      }
+    ]);
+  });
+
+  it('numbers spreadsheet rows by sheet row, else array position', () => {
+    const row = (uacsObjCode: string, rowNum?: number) => {
+      const record = { prexc: '310100100001000', uacs: uacsObjCode, amount: -1, uri: 'ipfs://a' };
+      if (rowNum !== undefined) {
+        Object.defineProperty(record, '__rowNum__', { value: rowNum, enumerable: false });
+      }
+      return record;
+    };
+    expect(validateLineItems([row('5020101000', 4), row('5020301000', 9)]).invalid.map((result) => result.row))
+      .toEqual([5, 10]);
+    expect(validateLineItems([row('5020101000'), row('5020301000')]).invalid.map((result) => result.row))
+      .toEqual([1, 2]);
+  });
+});
+
+describe('BulkSubmitter', () => {
+  const node = useNode((addresses) => ({
+    departments: [{
+      code: '07',
+      name: 'Department of Education',
+      owner: addresses[1],
+      agencies: [{ code: '002', name: 'Bureau of Learning Delivery', owner: addresses[1] }]
+    }],
+    phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07' }
+  }));
+  let dir: string;
+
+  const csv = (...uacsObjCodes: string[]) => [
+    HEADER,
+    ...uacsObjCodes.map((uacs, i) => `310100100001000,${uacs},${(i + 1) * 1000},ipfs://${uacs}`)
+  ].join('\n');
+  const mainAgency = () => node.book.departments['07'].mainAgency;
+  const nextTokenId = async () => (await node.client.agency(mainAgency()).simulateSubmitProposal(
+    'ipfs://next', { prexcFpapId: '1', uacsObjCode: '1', amount: 1n }, node.privateKeys[1])).returnValue;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'gov-sdk-bulk-'));
+    await node.client.dbtc.startBudgetCall(node.privateKeys[1]);
+  });
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('sends nothing if any row is invalid', async () => {
+    const before = await nextTokenId();
+    const report = await new BulkSubmitter(node.client, mainAgency())
+      .submit(`${csv('5020101000')}\n310100100001000,,5,ipfs://x`, { signer: node.privateKeys[1] });
+    expect(report.valid).toBe(false);
+    expect(report.rows.map((row) => row.status)).toEqual(['pending', 'invalid']);
+    expect(await nextTokenId()).toBe(before);
+  });
+
+  it('sends nothing if a row fails preflight', async () => {
+    const before = await nextTokenId();
+    const report = await new BulkSubmitter(node.client, mainAgency())
+      .submit(csv('5020101000', '5020301000'), { signer: node.privateKeys[6] });
+    expect(report.valid).toBe(false);
+    expect(report.rows.every((row) => row.status === 'invalid')).toBe(true);
+    expect(await nextTokenId()).toBe(before);
+  });
+
+  it('submits every row and reports the minted tokens', async () => {
+    const first = await nextTokenId();
+    const seen: BulkRowResult[] = [];
+    const fiscalYear = await node.client.dbtc.getCurrentFiscalYear();
+    const report = await new BulkSubmitter(node.client, mainAgency()).submit(csv('5020101000', '5020301000', '5020399000'), {
+      signer: node.privateKeys[1],
+      concurrency: 2,
+      onRow: (result) => seen.push(result)
+    });
+
+    expect(report).toMatchObject({ valid: true, submitted: 3, failed: 0, resumed: 0 });
+    expect(report.rows.map((row) => row.row)).toEqual([2, 3, 4]);
+    expect(report.rows[0].key).toBe(`${fiscalYear}/${mainAgency().toLowerCase()}/310100100001000/5020101000`);
+    expect(report.rows.map((row) => row.tokenId).sort())
+      .toEqual([first!, first! + 1n, first! + 2n].map(String));
+    expect(seen.filter((result) => result.status === 'sent')).toHaveLength(3);
+    const data = await node.client.proposals.getData(BigInt(report.rows[1].tokenId!));
+    expect(data).toMatchObject({ uacsObjCode: '5020301000', amount: 2000n });
+  });
+
+  it('resumes from a journal file without sending rows twice', async () => {
+    const path = join(dir, 'resume.journal');
+    const submitter = new BulkSubmitter(node.client, mainAgency());
+    const first = await nextTokenId();
+
+    // A crashed run: the first row was submitted, the second sent but not confirmed
+    const crashed = await submitter.submit(csv('5020101000'), {
+      signer: node.privateKeys[1],
+      journal: new JsonFileBulkJournal(path)
+    });
+    const key = crashed.rows[0].key.replace('5020101000', '5020301000');
+    const agency = node.client.agency(mainAgency());
+    const sent = await agency.submitProposal('ipfs://5020301000',
+      { prexcFpapId: '310100100001000', uacsObjCode: '5020301000', amount: 2000n }, node.privateKeys[1]);
+    await new JsonFileBulkJournal(path).record({ row: 3, key, status: 'sent', txHash: sent.txHash });
+
+    const report = await submitter.submit(csv('5020101000', '5020301000', '5020399000'), {
+      signer: node.privateKeys[1],
+      journal: new JsonFileBulkJournal(path)
+    });
+    expect(report).toMatchObject({ valid: true, submitted: 2, failed: 0, resumed: 1 });
+    expect(report.rows.map((row) => row.tokenId)).toEqual([first!, first! + 1n, first! + 2n].map(String));
+    expect(await nextTokenId()).toBe(first! + 3n);
+
+    const again = await submitter.submit(csv('5020101000', '5020301000', '5020399000'), {
+      signer: node.privateKeys[1],
+      journal: new JsonFileBulkJournal(path)
+    });
+    expect(again).toMatchObject({ submitted: 0, resumed: 3 });
+    expect(await nextTokenId()).toBe(first! + 3n);
+  });
+
+  it('does not resume rows recorded for another agency', async () => {
+    const journal = new MemoryBulkJournal();
+    const first = await new BulkSubmitter(node.client, mainAgency())
+      .submit(csv('5020101000'), { signer: node.privateKeys[1], journal });
+    expect(first.submitted).toBe(1);
+
+    const other = await new BulkSubmitter(node.client, node.book.departments['07'].agencies['002'])
+      .submit(csv('5020101000'), { signer: node.privateKeys[1], journal });
+    expect(other).toMatchObject({ submitted: 1, resumed: 0 });
+    expect(other.rows[0].key).not.toBe(first.rows[0].key);
+    expect(other.rows[0].tokenId).not.toBe(first.rows[0].tokenId);
+  });
+});
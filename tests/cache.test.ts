@@ -0,0 +1,148 @@
+import { ethers } from 'ethers';
+import { CacheOptions, DBTCClient, MemoryCacheStore, ReadCache } from '../src';
+import { useNode } from './helpers/node';
+
+describe('MemoryCacheStore', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('expires entries after their TTL', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const store = new MemoryCacheStore();
+    await store.set('key', 'value', 1000);
+    jest.setSystemTime(999);
+    expect(await store.get('key')).toBe('value');
+    jest.setSystemTime(1000);
+    expect(await store.get('key')).toBeUndefined();
+  });
+
+  it('evicts the least recently used entry', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', '1', 60000);
+    await store.set('b', '2', 60000);
+    await store.get('a');
+    await store.set('c', '3', 60000);
+    expect([await store.get('a'), await store.get('b'), await store.get('c')]).toEqual(['1', undefined, '3']);
+    await store.delete(['a', 'c']);
+    expect(await store.get('a')).toBeUndefined();
+  });
+});
+
+describe('ReadCache', () => {
+  const node = useNode((addresses) => ({
+    departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }]
+  }));
+  const clients: DBTCClient[] = [];
+  let calls: number;
+
+  beforeEach(() => {
+    calls = 0;
+    const call = node.provider.call.bind(node.provider);
+    jest.spyOn(node.provider, 'call').mockImplementation((tx) => {
+      calls++;
+      return call(tx);
+    });
+  });
+
+  afterEach(() => {
+    clients.splice(0).forEach((client) => client.cache!.stop());
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Client with an unbatched read cache
+   */
+  function cachedClient(cache: CacheOptions = {}): DBTCClient {
+    const client = new DBTCClient({
+      chainMode: 'testnet',
+      provider: node.provider,
+      addresses: node.client.addresses,
+      batch: false,
+      cache: { pollingInterval: 60000, ...cache }
+    });
+    clients.push(client);
+    return client;
+  }
+
+  const mainAgency = () => node.book.departments['07'].mainAgency;
+
+  it('serves repeated reads from the cache and counts hits and misses', async () => {
+    const agency = cachedClient().agency(mainAgency());
+    const first = await agency.getDocumentManagers();
+    const reads = calls;
+    expect(await agency.getDocumentManagers()).toEqual(first);
+    expect(calls).toBe(reads);
+    // The list, then the flag of its one manager
+    expect(clients[0].cache!.getStats()).toEqual({ hits: 2, misses: 2, invalidations: 0, hitRate: 0.5 });
+  });
+
+  it('shares one call between concurrent identical reads', async () => {
+    const dbtc = cachedClient().dbtc;
+    await Promise.all([dbtc.getDepartmentCodes(), dbtc.getDepartmentCodes(), dbtc.getDepartmentCodes()]);
+    expect(calls).toBe(1);
+  });
+
+  it('drops the reads of contracts touched by its own writes', async () => {
+    const client = cachedClient();
+    const agency = client.agency(mainAgency());
+    const before = await agency.getDocumentManagers();
+    await client.dbtc.getDepartmentCodes();
+
+    const manager = ethers.Wallet.createRandom().address;
+    await agency.addDocumentManager(manager, node.privateKeys[1]);
+    expect(await agency.getDocumentManagers()).toEqual([...before, manager]);
+    // The agency's list and manager flag
+    expect(client.cache!.getStats().invalidations).toBe(2);
+
+    // Reads of untouched contracts stay cached
+    const reads = calls;
+    await client.dbtc.getDepartmentCodes();
+    expect(calls).toBe(reads);
+  });
+
+  it('drops reads when a watched event is observed', async () => {
+    const agency = cachedClient({ pollingInterval: 20 }).agency(mainAgency());
+    const before = await agency.getDocumentManagers();
+
+    // Written by another process
+    const manager = ethers.Wallet.createRandom().address;
+    await node.client.agency(mainAgency()).addDocumentManager(manager, node.privateKeys[1]);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(await agency.getDocumentManagers()).toEqual([...before, manager]);
+  });
+
+  it('never caches ownership reads', async () => {
+    const agency = cachedClient().agency(mainAgency());
+    expect((await agency.getInfo()).owner).toBe(node.accounts[1].address);
+
+    // Agency ownership transfers emit no event
+    await node.client.agency(mainAgency()).transferOwnership(node.accounts[8].address, node.privateKeys[1]);
+    expect((await agency.getInfo()).owner).toBe(node.accounts[8].address);
+    await node.client.agency(mainAgency()).transferOwnership(node.accounts[1].address, node.privateKeys[8]);
+  });
+
+  it('drops entries older than the maximum block age', async () => {
+    const dbtc = cachedClient({ watchEvents: false, maxBlockAge: 1, pollingInterval: 20 }).dbtc;
+    await dbtc.getDepartmentCodes();
+    await dbtc.getDepartmentCodes();
+    expect(calls).toBe(1);
+
+    await node.provider.send('evm_mine', []);
+    await node.provider.send('evm_mine', []);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await dbtc.getDepartmentCodes();
+    expect(calls).toBe(2);
+  });
+
+  it('does not cache reverts and can be invalidated by hand', async () => {
+    const client = cachedClient();
+    await expect(client.proposals.getData(99)).rejects.toMatchObject({ code: 'PROPOSAL_NOT_FOUND' });
+    await expect(client.proposals.getData(99)).rejects.toMatchObject({ code: 'PROPOSAL_NOT_FOUND' });
+    expect(calls).toBe(2);
+
+    await client.dbtc.getDepartmentCodes();
+    await client.cache!.invalidate(node.book.dbtc);
+    await client.dbtc.getDepartmentCodes();
+    expect(calls).toBe(4);
+    expect(client.cache).toBeInstanceOf(ReadCache);
+  });
+});
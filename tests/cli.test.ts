@@ -0,0 +1,192 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { BudgetPhase, writeAddressBook } from '../src';
+import { UsageError, main } from '../src/cli';
+import { LocalServer, startLocalServer } from './helpers/node';
+
+// The mainnet confirmation reads its answer through readline
+jest.mock('readline', () => ({ ...jest.requireActual('readline'), createInterface: jest.fn() }));
+
+const VARIABLES = ['DBTC_CHAIN_MODE', 'DBTC_API_KEY', 'DBTC_RPC_URL', 'PRIVATE_KEY', 'DBTC_ADDRESS_BOOK', 'DBTC_ADDRESS'];
+
+interface Run {
+  output: string;
+  error?: Error;
+  exitCode?: number;
+}
+
+describe('dbtc CLI on a local node', () => {
+  let node: LocalServer;
+  let dir: string;
+  let book: string;
+  let owner: string;
+  let outsider: string;
+
+  beforeAll(async () => {
+    node = await startLocalServer((addresses) => ({
+      departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }],
+      phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07' }
+    }));
+    [owner, outsider] = [node.privateKeys[1], node.privateKeys[9]];
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dbtc-cli-'));
+    book = path.join(dir, 'book.json');
+    await writeAddressBook(book, node.book);
+  });
+
+  afterAll(async () => {
+    await node.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Run the CLI with only the given variables set, capturing what it prints
+   */
+  async function dbtc(argv: string[], env: Record<string, string> = {}): Promise<Run> {
+    const saved = VARIABLES.map((name) => [name, process.env[name]] as const);
+    VARIABLES.forEach((name) => delete process.env[name]);
+    Object.assign(process.env, env);
+    const lines: string[] = [];
+    jest.spyOn(console, 'log').mockImplementation((line: string) => lines.push(line));
+    process.exitCode = undefined;
+    try {
+      await main(argv);
+      return { output: lines.join('\n'), exitCode: process.exitCode };
+    } catch (error) {
+      return { output: lines.join('\n'), error: error as Error, exitCode: process.exitCode };
+    } finally {
+      process.exitCode = undefined;
+      VARIABLES.forEach((name) => delete process.env[name]);
+      saved.forEach(([name, value]) => value !== undefined && (process.env[name] = value));
+    }
+  }
+
+  const local = () => ['--rpc-url', node.rpcUrl, '--addresses', book];
+
+  async function writeEnv(name: string, values: Record<string, string>): Promise<string> {
+    const file = path.join(dir, name);
+    await fs.writeFile(file, Object.entries(values).map(([key, value]) => `${key}=${value}`).join('\n'));
+    return file;
+  }
+
+  describe('arguments', () => {
+    it('prints the help without a command', async () => {
+      for (const argv of [[], ['help'], ['phase', 'status', '--help'], ['-h']]) {
+        expect((await dbtc(argv)).output).toMatch(/^Usage: dbtc <command> \[options\]/);
+      }
+    });
+
+    it('reads flags with separate and inline values', async () => {
+      const separate = await dbtc(['phase', 'status', '--json', ...local()]);
+      const inline = await dbtc(['phase', 'status', '--json', `--rpc-url=${node.rpcUrl}`, `--addresses=${book}`]);
+      expect(separate.error).toBeUndefined();
+      expect(JSON.parse(separate.output)).toMatchObject({ phase: BudgetPhase.PRE_BUDGET, phaseName: 'Pre-Budget' });
+      expect(inline.output).toBe(separate.output);
+    });
+
+    it('rejects wrong command lines as usage errors', async () => {
+      const cases: Array<[string[], string]> = [
+        [['phase', 'status', '-x'], 'Unknown option -x'],
+        [['phase', 'status', '--json=yes'], '--json takes no value'],
+        [['phase', 'status', '--rpc-url'], '--rpc-url needs a value'],
+        [['phase', 'stop', ...local()], 'Unknown command "phase stop" (run dbtc help)'],
+        [['phase', 'status', '--chain', 'devnet', ...local()], "--chain must be 'testnet' or 'mainnet'"],
+        [['phase', 'status'], 'Set DBTC_API_KEY (or --api-key), or --rpc-url for a local node'],
+        [['proposal', 'show', 'abc', ...local()], '"abc" is not a token ID']
+      ];
+      for (const [argv, message] of cases) {
+        const { error } = await dbtc(argv);
+        expect(error).toBeInstanceOf(UsageError);
+        expect(error?.message).toBe(message);
+      }
+    });
+  });
+
+  describe('configuration', () => {
+    it('takes flags over variables over the .env file', async () => {
+      const envFile = await writeEnv('precedence.env', {
+        DBTC_RPC_URL: node.rpcUrl,
+        DBTC_ADDRESS_BOOK: book,
+        DBTC_CHAIN_MODE: 'from-file'
+      });
+      const status = ['phase', 'status', '--json', '--env-file', envFile];
+
+      expect((await dbtc(status)).error?.message).toBe("--chain must be 'testnet' or 'mainnet'");
+      expect((await dbtc(status, { DBTC_CHAIN_MODE: 'testnet' })).error).toBeUndefined();
+      expect((await dbtc(status, { DBTC_CHAIN_MODE: 'from-variable' })).error?.message)
+        .toBe("--chain must be 'testnet' or 'mainnet'");
+      expect((await dbtc([...status, '--chain', 'testnet'], { DBTC_CHAIN_MODE: 'from-variable' })).error).toBeUndefined();
+    });
+
+    it('reads .env from the working directory, and requires an --env-file to exist', async () => {
+      await writeEnv('.env', { DBTC_RPC_URL: node.rpcUrl, DBTC_ADDRESS_BOOK: book });
+      const cwd = process.cwd();
+      process.chdir(dir);
+      try {
+        expect((await dbtc(['phase', 'status', '--json'])).error).toBeUndefined();
+      } finally {
+        process.chdir(cwd);
+      }
+      // Without a .env file the local node is not configured
+      expect((await dbtc(['phase', 'status'])).error?.message).toMatch(/^Set DBTC_API_KEY/);
+      expect((await dbtc(['phase', 'status', '--env-file', path.join(dir, 'missing.env')])).error?.message)
+        .toMatch(/ENOENT/);
+    });
+  });
+
+  describe('writes', () => {
+    it('only simulates with --dry-run', async () => {
+      const { output, exitCode } = await dbtc(['phase', 'start', '--dry-run', ...local()], { PRIVATE_KEY: owner });
+      expect(output).toMatch(/^Dry run: Start budget call would succeed \(~\d+ gas\)$/);
+      expect(exitCode).toBeUndefined();
+
+      const refused = await dbtc(['phase', 'start', '--dry-run', '--json', ...local()], { PRIVATE_KEY: outsider });
+      expect(JSON.parse(refused.output)).toMatchObject({
+        dryRun: true,
+        action: 'Start budget call',
+        success: false,
+        error: { code: 'NOT_PHASE_RESPONSIBLE' }
+      });
+      expect(refused.exitCode).toBe(1);
+      expect(await node.client.dbtc.getCurrentPhase()).toBe(BudgetPhase.PRE_BUDGET);
+    });
+
+    it('asks before sending on mainnet', async () => {
+      const answer = (text: string) => {
+        Object.defineProperty(process.stdin, 'isTTY', { value: true, configurable: true });
+        jest.mocked(readline.createInterface).mockReturnValue({
+          question: (_: string, reply: (answer: string) => void) => reply(text),
+          close: () => undefined
+        } as unknown as readline.Interface);
+      };
+      const start = ['phase', 'start', '--chain', 'mainnet', ...local()];
+      try {
+        // No terminal to ask on
+        Object.defineProperty(process.stdin, 'isTTY', { value: undefined, configurable: true });
+        expect((await dbtc(start, { PRIVATE_KEY: owner })).error?.message)
+          .toBe('Not confirmed: nothing was sent (pass --yes to skip the confirmation)');
+
+        answer('n');
+        expect((await dbtc(start, { PRIVATE_KEY: owner })).error).toBeInstanceOf(UsageError);
+        expect(await node.client.dbtc.getCurrentPhase()).toBe(BudgetPhase.PRE_BUDGET);
+
+        answer('yes');
+        const sent = await dbtc([...start, '--json'], { PRIVATE_KEY: owner });
+        expect(JSON.parse(sent.output)).toMatchObject({ action: 'Start budget call', success: true });
+        expect(await node.client.dbtc.getCurrentPhase()).toBe(BudgetPhase.BUDGET_CALL);
+      } finally {
+        delete (process.stdin as { isTTY?: boolean }).isTTY;
+      }
+
+      // --yes skips the question
+      expect((await dbtc(['phase', 'advance', '--chain', 'mainnet', '-y', ...local()], { PRIVATE_KEY: owner })).error)
+        .toBeUndefined();
+      expect(await node.client.dbtc.getCurrentPhase()).toBe(BudgetPhase.TECHNICAL_REVIEW);
+    });
+  });
+});
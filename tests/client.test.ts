@@ -0,0 +1,92 @@
+import { ethers } from 'ethers';
+import * as clientModule from '../src/client';
+import {
+  BudgetPhase,
+  DBTCClient,
+  configure,
+  getCurrentPhase,
+  getDepartmentCodes,
+  setContractAddresses
+} from '../src';
+import { CONTRACT_ADDRESSES } from '../src/config';
+import { useNode } from './helpers/node';
+
+const ADDRESS = '0x00000000000000000000000000000000000000aa';
+
+describe('DBTCClient', () => {
+  it('validates its options', () => {
+    expect(() => new DBTCClient({ chainMode: 'devnet' as 'testnet', apiKey: 'key' }))
+      .toThrow("chainMode must be 'testnet' or 'mainnet'");
+    expect(() => new DBTCClient({ chainMode: 'testnet' })).toThrow('apiKey is required');
+    expect(() => new DBTCClient({ chainMode: 'testnet', provider: new ethers.JsonRpcProvider() })).not.toThrow();
+  });
+
+  it('keeps its contract addresses to itself', () => {
+    const client = new DBTCClient({ chainMode: 'testnet', apiKey: 'key', addresses: { dbtc: ADDRESS } });
+    expect(client.addresses).toEqual({ dbtc: ADDRESS, budgetProposal: CONTRACT_ADDRESSES.testnet.budgetProposal });
+
+    client.setContractAddresses({ budgetProposal: ADDRESS });
+    expect(client.addresses).toEqual({ dbtc: ADDRESS, budgetProposal: ADDRESS });
+    expect(CONTRACT_ADDRESSES.testnet.dbtc).not.toBe(ADDRESS);
+    expect(new DBTCClient({ chainMode: 'testnet', apiKey: 'key' }).addresses).toEqual(CONTRACT_ADDRESSES.testnet);
+  });
+
+  it('signs with the given key, then its signer, then its private key', async () => {
+    const [first, second, third] = Array.from({ length: 3 }, () => ethers.Wallet.createRandom());
+    const provider = new ethers.JsonRpcProvider();
+    const client = new DBTCClient({ chainMode: 'testnet', provider, signer: second, privateKey: third.privateKey });
+    expect(await client.getSigner(first.privateKey).getAddress()).toBe(first.address);
+    expect(client.getSigner().provider).toBe(provider);
+    expect(await client.getSigner().getAddress()).toBe(second.address);
+    expect(await new DBTCClient({ chainMode: 'testnet', provider, privateKey: third.privateKey }).getSigner().getAddress())
+      .toBe(third.address);
+    expect(() => new DBTCClient({ chainMode: 'testnet', provider }).getSigner()).toThrow('No signer provided');
+    provider.destroy();
+  });
+});
+
+describe('clients of different chains in one process', () => {
+  const education = useNode((addresses) => ({
+    departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }]
+  }));
+  const health = useNode((addresses) => ({
+    departments: [{ code: '08', name: 'Department of Health', owner: addresses[1] }]
+  }));
+
+  it('read and write their own deployment', async () => {
+    expect(await education.client.dbtc.getDepartmentCodes()).toEqual(['07']);
+    expect(await health.client.dbtc.getDepartmentCodes()).toEqual(['08']);
+
+    await health.client.dbtc.addRegularDepartment('09', 'Department of Agriculture', 'Office of the Secretary',
+      health.accounts[2].address, health.privateKeys[0]);
+    expect(await health.client.dbtc.getDepartmentCodes()).toEqual(['08', '09']);
+    expect(await education.client.dbtc.isDepartmentRegistered('09')).toBe(false);
+  });
+});
+
+describe('module-level functions', () => {
+  const node = useNode((addresses) => ({
+    departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }]
+  }));
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('build the default client from configure() and setContractAddresses()', () => {
+    configure({ chainMode: 'testnet', apiKey: 'key' });
+    const client = clientModule.getDefaultClient();
+    expect(clientModule.getDefaultClient()).toBe(client);
+
+    setContractAddresses({ dbtc: ADDRESS });
+    expect(client.addresses.dbtc).toBe(ADDRESS);
+
+    configure({ chainMode: 'mainnet', apiKey: 'key' });
+    expect(clientModule.getDefaultClient()).not.toBe(client);
+    expect(clientModule.getDefaultClient().chainMode).toBe('mainnet');
+  });
+
+  it('delegate to the default client', async () => {
+    jest.spyOn(clientModule, 'getDefaultClient').mockReturnValue(node.client);
+    expect(await getCurrentPhase()).toBe(BudgetPhase.PRE_BUDGET);
+    expect(await getDepartmentCodes()).toEqual(['07']);
+  });
+});
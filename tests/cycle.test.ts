@@ -0,0 +1,289 @@
+import { ethers } from 'ethers';
+import {
+  BudgetPhase,
+  CycleAction,
+  PermissionError,
+  PhaseError,
+  PhaseReadinessError,
+  ProposalData,
+  SimulationResult,
+  canSubmitJointGAB,
+  getActionPhases,
+  getActionRoles,
+  getAllowedActions,
+  getKnownIssues,
+  isActionAllowed,
+  isTerminal,
+  nextPhase
+} from '../src';
+import { withNodes } from './helpers/node';
+
+const PHASES = [
+  BudgetPhase.PRE_BUDGET,
+  BudgetPhase.BUDGET_CALL,
+  BudgetPhase.TECHNICAL_REVIEW,
+  BudgetPhase.NEP_CONSOLIDATION,
+  BudgetPhase.GAB_SEPARATE,
+  BudgetPhase.GAB_BICAM,
+  BudgetPhase.GAA_ENACTMENT
+];
+
+const DATA: ProposalData = { prexcFpapId: '310100100001000', uacsObjCode: '5020101000', amount: 150000000n };
+
+type Outcome = 'allowed' | 'phase' | 'permission' | string;
+
+function outcome(result: SimulationResult<unknown>): Outcome {
+  if (result.success) {
+    return 'allowed';
+  }
+  if (result.error instanceof PhaseError) {
+    return 'phase';
+  }
+  if (result.error instanceof PermissionError) {
+    return 'permission';
+  }
+  return result.error?.errorName ?? result.error?.code ?? 'failed';
+}
+
+describe('offline cycle rules', () => {
+  it('walks the phases in order', () => {
+    expect(PHASES.map(nextPhase)).toEqual([...PHASES.slice(1), null]);
+    expect(PHASES.filter(isTerminal)).toEqual([BudgetPhase.GAA_ENACTMENT]);
+  });
+
+  it('filters actions by phase and role', () => {
+    expect(getAllowedActions(BudgetPhase.BUDGET_CALL, 'documentManager')).toEqual(['submitProposal', 'reviseProposal']);
+    expect(getAllowedActions(BudgetPhase.GAB_BICAM, 'congressMainAgency')).toEqual(['submitJointGAB']);
+    expect(getAllowedActions(BudgetPhase.NEP_CONSOLIDATION, ['dbtcOwner', 'documentManager'])).toEqual([]);
+    expect(isActionAllowed('transferAgencyOwnership', BudgetPhase.GAA_ENACTMENT)).toBe(true);
+    expect(getActionPhases('transferAgencyOwnership')).toEqual(PHASES);
+    expect(getActionRoles('submitSeparateGAB')).toEqual(['houseOrSenate']);
+  });
+
+  it('reports the joint GAB defect apart from the rules', () => {
+    expect(getActionPhases('submitJointGAB')).toEqual([BudgetPhase.GAB_BICAM]);
+    expect(canSubmitJointGAB(BudgetPhase.GAB_BICAM, 'congressMainAgency')).toBe(true);
+    expect(canSubmitJointGAB(BudgetPhase.GAB_BICAM, 'houseOrSenate')).toBe(false);
+    expect(getKnownIssues()).toEqual([
+      { action: 'submitJointGAB', errorName: 'InvalidProposalStatus', description: expect.any(String) }
+    ]);
+    expect(getKnownIssues('submitProposal')).toEqual([]);
+  });
+});
+
+withNodes('cycle rules on the %s', (addresses) => ({
+  departments: [
+    {
+      code: '07',
+      name: 'Department of Education',
+      owner: addresses[1],
+      documentManagers: [addresses[2]],
+      agencies: [{ code: '002', name: 'Bureau of Learning Delivery', owner: addresses[3] }]
+    },
+    {
+      code: '01',
+      name: 'Congress of the Philippines',
+      owner: addresses[4],
+      agencies: [
+        { code: '002', name: 'House of Representatives', owner: addresses[5] },
+        { code: '003', name: 'Senate', owner: addresses[6] }
+      ],
+      house: '002',
+      senate: '003'
+    }
+  ],
+  phaseResponsibilities: Object.fromEntries(PHASES.map((phase) => [BudgetPhase[phase], '07']))
+}), (node) => {
+  // Tokens minted as the cycle moves on
+  let proposalId = 0n;
+  let houseGabId = 0n;
+  let senateGabId = 0n;
+  // Error names of the registry writes, by phase
+  const registryErrors: Partial<Record<BudgetPhase, Record<string, string | undefined>>> = {};
+
+  const agency = (deptCode: string, agencyCode = '001') =>
+    node.client.agency(node.book.departments[deptCode].agencies[agencyCode]);
+
+  /**
+   * Every action, simulated by a holder of a role its rule names (or by `caller`)
+   */
+  function simulations(caller?: ethers.Signer): Record<CycleAction, () => Promise<SimulationResult<unknown>>> {
+    const { client, book, accounts } = node;
+    const deped = agency('07');
+    const as = (account: number) => caller ?? accounts[account];
+    return {
+      addDepartment: () =>
+        client.dbtc.simulateAddDepartment('99', 'Department of Testing', 'Office of the Secretary', accounts[7].address, false, true, as(0)),
+      assignPhaseResponsibility: () => client.dbtc.simulateAssignPhaseResponsibility(BudgetPhase.BUDGET_CALL, '01', as(0)),
+      startBudgetCall: () => client.dbtc.simulateStartBudgetCall(as(1)),
+      advancePhase: () => client.dbtc.simulateAdvancePhase(as(1)),
+      addAgency: () =>
+        client.department(book.departments['07'].address).simulateAddAgency('099', 'Testing Bureau', accounts[7].address, as(1)),
+      setHouseAndSenate: () => client.department(book.departments['01'].address).simulateSetHouseAndSenate(
+        book.departments['01'].agencies['002'], book.departments['01'].agencies['003'], as(4)
+      ),
+      addDocumentManager: () => deped.simulateAddDocumentManager(accounts[7].address, as(1)),
+      removeDocumentManager: () => deped.simulateRemoveDocumentManager(accounts[2].address, as(1)),
+      transferAgencyOwnership: () => deped.simulateTransferOwnership(accounts[7].address, as(1)),
+      submitProposal: () => deped.simulateSubmitProposal('ipfs://proposal', DATA, as(2)),
+      reviseProposal: () => deped.simulateReviseProposal(proposalId || 1n, 'ipfs://revised', DATA, 'Revised', as(2)),
+      amendProposal: () => deped.simulateAmendProposal(proposalId || 1n, 'ipfs://amended', DATA, 'Amended', as(2)),
+      submitSeparateGAB: () => agency('01', '002').simulateSubmitSeparateGAB('ipfs://house-gab', DATA, as(5)),
+      submitJointGAB: () =>
+        agency('01').simulateSubmitJointGAB(houseGabId || 1n, senateGabId || 1n, 'ipfs://joint-gab', DATA, as(4))
+    };
+  }
+
+  async function run(actions: Record<CycleAction, () => Promise<SimulationResult<unknown>>>) {
+    const results: Partial<Record<CycleAction, SimulationResult<unknown>>> = {};
+    for (const [action, simulate] of Object.entries(actions)) {
+      results[action as CycleAction] = await simulate();
+    }
+    return results as Record<CycleAction, SimulationResult<unknown>>;
+  }
+
+  /**
+   * Mint the tokens the phase's proposal writes act on
+   */
+  async function enter(phase: BudgetPhase) {
+    const { accounts } = node;
+    if (phase === BudgetPhase.BUDGET_CALL) {
+      ({ tokenId: proposalId } = await agency('07').submitProposal('ipfs://proposal', DATA, accounts[2]));
+    }
+    if (phase === BudgetPhase.GAB_SEPARATE) {
+      ({ tokenId: houseGabId } = await agency('01', '002').submitSeparateGAB('ipfs://house-gab', DATA, accounts[5]));
+      ({ tokenId: senateGabId } = await agency('01', '003').submitSeparateGAB('ipfs://senate-gab', DATA, accounts[6]));
+    }
+  }
+
+  async function leave(phase: BudgetPhase) {
+    if (phase === BudgetPhase.PRE_BUDGET) {
+      await node.client.dbtc.startBudgetCall(node.accounts[1]);
+    } else if (phase !== BudgetPhase.GAA_ENACTMENT) {
+      await node.client.dbtc.advancePhase(node.accounts[1]);
+    }
+  }
+
+  // The phases run in order on one chain: each test leaves the chain in the next phase
+  for (const phase of PHASES) {
+    it(`allows exactly the actions of ${BudgetPhase[phase]}`, async () => {
+      expect(await node.client.dbtc.getCurrentPhase()).toBe(phase);
+      await enter(phase);
+
+      const results = await run(simulations());
+      const outcomes = Object.fromEntries(Object.entries(results).map(([action, result]) => [action, outcome(result)]));
+      const expected = Object.fromEntries(Object.keys(results).map((action) => [
+        action,
+        isActionAllowed(action as CycleAction, phase) ? 'allowed' : 'phase'
+      ]));
+      // Allowed actions of a known issue pass the checks, then revert
+      const { knownIssues } = await node.client.cycle.getState();
+      for (const issue of knownIssues) {
+        expected[issue.action] = issue.errorName;
+      }
+      expect(knownIssues.map((issue) => issue.action)).toEqual(phase === BudgetPhase.GAB_BICAM ? ['submitJointGAB'] : []);
+      expect(outcomes).toEqual(expected);
+
+      registryErrors[phase] = {
+        addDepartment: results.addDepartment.error?.errorName,
+        assignPhaseResponsibility: results.assignPhaseResponsibility.error?.errorName,
+        addAgency: results.addAgency.error?.errorName
+      };
+
+      // Allowed actions are refused to a caller without the role
+      const outsider = await run(simulations(node.accounts[9]));
+      const allowed = Object.keys(outsider).filter((action) => isActionAllowed(action as CycleAction, phase));
+      expect(Object.fromEntries(allowed.map((action) => [action, outcome(outsider[action as CycleAction])])))
+        .toEqual(Object.fromEntries(allowed.map((action) => [action, 'permission'])));
+
+      await leave(phase);
+    });
+  }
+
+  it('accepts registry writes only in Pre-Budget', () => {
+    for (const phase of PHASES) {
+      const name = phase === BudgetPhase.PRE_BUDGET ? undefined : 'ActionNotAllowedInPhase';
+      expect(registryErrors[phase]).toEqual({ addDepartment: name, assignPhaseResponsibility: name, addAgency: name });
+    }
+  });
+});
+
+withNodes('planAdvance on the %s', (addresses) => ({
+  departments: [
+    {
+      code: '07',
+      name: 'Department of Education',
+      owner: addresses[1],
+      agencies: [{ code: '002', name: 'Bureau of Learning Delivery', owner: addresses[3] }]
+    },
+    {
+      code: '01',
+      name: 'Congress of the Philippines',
+      owner: addresses[4],
+      agencies: [
+        { code: '002', name: 'House of Representatives', owner: addresses[5] },
+        { code: '003', name: 'Senate', owner: addresses[6] }
+      ],
+      house: '002',
+      senate: '003'
+    }
+  ],
+  phaseResponsibilities: Object.fromEntries(PHASES.map((phase) => [BudgetPhase[phase], '07']))
+}), (node) => {
+  const agency = (deptCode: string, agencyCode = '001') =>
+    node.client.agency(node.book.departments[deptCode].agencies[agencyCode]);
+
+  // Small batches, so the scan crosses several of them
+  const plan = () => node.client.cycle.planAdvance({ caller: node.accounts[1].address, concurrency: 2 });
+  const codes = (items: { code: string; agencyCode?: string }[]) =>
+    items.map((item) => item.agencyCode ? `${item.code} ${item.agencyCode}` : item.code);
+  const withoutProposals = async () =>
+    (await plan()).agenciesWithoutProposals.map((entry) => `${entry.deptCode}-${entry.agencyCode}`).sort();
+
+  it('refuses to advance with blockers', async () => {
+    const outsider = node.accounts[9];
+    const nonce = await node.provider.getTransactionCount(outsider.address);
+    const error = await node.client.cycle.advanceSafely(outsider).catch((e) => e);
+    expect(error).toBeInstanceOf(PhaseReadinessError);
+    expect(error).toMatchObject({ code: 'PHASE_NOT_READY', phase: BudgetPhase.PRE_BUDGET });
+    expect(codes(error.plan.blockers)).toEqual(['CALLER_NOT_RESPONSIBLE']);
+    expect(await node.provider.getTransactionCount(outsider.address)).toBe(nonce);
+    expect(await node.client.dbtc.getCurrentPhase()).toBe(BudgetPhase.PRE_BUDGET);
+  });
+
+  it('checks submissions when leaving the phase that takes them', async () => {
+    const { client } = node;
+    expect((await plan()).warnings).toEqual([]);
+    const started = await client.cycle.advanceSafely(node.accounts[1]);
+    expect(started.plan).toMatchObject({ method: 'startBudgetCall', toPhase: BudgetPhase.BUDGET_CALL, ready: true });
+
+    await agency('07').submitProposal('ipfs://proposal', DATA, node.accounts[1]);
+    expect(await withoutProposals()).toEqual(['01-001', '01-002', '01-003', '07-002']);
+    await client.dbtc.advancePhase(node.accounts[1]);
+
+    for (const phase of [BudgetPhase.TECHNICAL_REVIEW, BudgetPhase.NEP_CONSOLIDATION]) {
+      expect(await client.dbtc.getCurrentPhase()).toBe(phase);
+      expect(await plan()).toMatchObject({ ready: true, warnings: [], agenciesWithoutProposals: [] });
+      await client.dbtc.advancePhase(node.accounts[1]);
+    }
+
+    // Only the House has a GAB submitted in GAB Separate
+    await agency('01', '002').submitSeparateGAB('ipfs://house-gab', DATA, node.accounts[5]);
+    expect(codes((await plan()).warnings)).toEqual(['SEPARATE_GAB_MISSING 003']);
+    await client.dbtc.advancePhase(node.accounts[1]);
+
+    expect(await plan()).toMatchObject({ ready: true, warnings: [] });
+    await client.dbtc.advancePhase(node.accounts[1]);
+  });
+
+  it('counts only the proposals of the new fiscal year', async () => {
+    const { client } = node;
+    const fiscalYear = await client.dbtc.getCurrentFiscalYear();
+    await client.dbtc.startBudgetCall(node.accounts[1]);
+    expect(await client.dbtc.getCurrentFiscalYear()).toBe(fiscalYear + 1);
+    expect(await withoutProposals()).toEqual(['01-001', '01-002', '01-003', '07-001', '07-002']);
+
+    await agency('07', '002').submitProposal('ipfs://proposal', DATA, node.accounts[3]);
+    expect(await withoutProposals()).toEqual(['01-001', '01-002', '01-003', '07-001']);
+  });
+});
@@ -0,0 +1,257 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  ValidationError,
+  applyFixture,
+  deployWithFixture,
+  parseFixture,
+  readAddressBook,
+  validateFixture,
+  writeAddressBook
+} from '../src';
+import { withNodes } from './helpers/node';
+
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+/**
+ * Parse error message of a fixture text
+ */
+function parseError(text: string): string {
+  try {
+    parseFixture(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    return (error as ValidationError).fieldErrors.map((fieldError) => fieldError.message).join('; ');
+  }
+  throw new Error('Fixture parsed');
+}
+
+describe('parseFixture', () => {
+  it('reads nested mappings and lists', () => {
+    const fixture = parseFixture([
+      'departments:',
+      '  - code: \'07\'',
+      '    name: Department of Education',
+      '    owner: \'0x70997970C51812dc3A010C7d01b50e0d17dc79C8\'',
+      '    documentManagers: [\'0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC\']',
+      '    agencies:',
+      '      - code: \'002\'',
+      '        name: Bureau of Learning Delivery',
+      '        owner: \'0x90F79bf6EB2c4f870365E785982E1f101E93b906\'',
+      '      - code: \'003\'',
+      '        name: Bureau of Curriculum Development',
+      '        owner: \'0x90F79bf6EB2c4f870365E785982E1f101E93b906\'',
+      '  - code: \'35\'',
+      '    name: Commission on Audit',
+      '    owner: \'0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65\'',
+      '    standalone: true',
+      'phaseResponsibilities:',
+      '  PRE_BUDGET: \'07\'',
+      '  BUDGET_CALL: \'07\''
+    ].join('\n'));
+
+    expect(fixture).toEqual({
+      departments: [
+        {
+          code: '07',
+          name: 'Department of Education',
+          owner: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+          documentManagers: ['0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC'],
+          agencies: [
+            { code: '002', name: 'Bureau of Learning Delivery', owner: '0x90F79bf6EB2c4f870365E785982E1f101E93b906' },
+            { code: '003', name: 'Bureau of Curriculum Development', owner: '0x90F79bf6EB2c4f870365E785982E1f101E93b906' }
+          ]
+        },
+        { code: '35', name: 'Commission on Audit', owner: '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65', standalone: true }
+      ],
+      phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07' }
+    });
+    expect(validateFixture(fixture)).toEqual([]);
+  });
+
+  it('reads block lists at the indentation of their key, and empty items', () => {
+    expect(parseFixture('managers:\n- a\n- b\nagencies:\n  -\n    code: x\n  - [1, 2]')).toEqual({
+      managers: ['a', 'b'],
+      agencies: [{ code: 'x' }, [1, 2]]
+    });
+  });
+
+  it('reads flow lists and mappings', () => {
+    expect(parseFixture('list: [a, \'b, c\', "d", 1]\nempty: []\nmap: {code: \'07\', name: "DepEd", actual: false}'))
+      .toEqual({ list: ['a', 'b, c', 'd', 1], empty: [], map: { code: '07', name: 'DepEd', actual: false } });
+  });
+
+  it('types plain scalars and keeps leading zeros as strings', () => {
+    expect(parseFixture([
+      'code: 07',
+      'agency: 001',
+      'zero: 0',
+      'count: 12',
+      'negative: -3',
+      'ratio: 1.5',
+      'yes: true',
+      'no: false',
+      'tilde: ~',
+      'nothing: null',
+      'empty:',
+      'address: 0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+    ].join('\n'))).toEqual({
+      code: '07',
+      agency: '001',
+      zero: 0,
+      count: 12,
+      negative: -3,
+      ratio: 1.5,
+      yes: true,
+      no: false,
+      tilde: null,
+      nothing: null,
+      empty: null,
+      address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+    });
+  });
+
+  it('reads quoted strings and keys', () => {
+    expect(parseFixture([
+      'single: \'it\'\'s: #1\'',
+      'double: "tab\\there \\"quoted\\""',
+      'number: \'12\'',
+      'flag: "true"',
+      '\'quoted key\': 1',
+      '"other: key": 2'
+    ].join('\n'))).toEqual({
+      single: 'it\'s: #1',
+      double: 'tab\there "quoted"',
+      number: '12',
+      flag: 'true',
+      'quoted key': 1,
+      'other: key': 2
+    });
+  });
+
+  it('skips comments, document markers, a BOM and CRLF line ends', () => {
+    expect(parseFixture([
+      '\uFEFF---',
+      '# Fixture',
+      'name: DepEd # trailing comment',
+      'tag: a#b',
+      '  # indented comment',
+      'hash: \'# kept\'',
+      ''
+    ].join('\r\n'))).toEqual({ name: 'DepEd', tag: 'a#b', hash: '# kept' });
+  });
+
+  it('reads JSON, and empty text as an empty fixture', () => {
+    expect(parseFixture('{"departments": [{"code": "07"}]}')).toEqual({ departments: [{ code: '07' }] });
+    expect(parseFixture('# nothing yet\n')).toEqual({});
+  });
+
+  it('rejects malformed text with the line', () => {
+    expect(parseError('departments:\n\t- code: \'07\'')).toBe('line 2: tabs are not allowed in indentation');
+    expect(parseError('list: [a, b')).toBe('line 1: unterminated list');
+    expect(parseError('map: {a: 1')).toBe('line 1: unterminated mapping');
+    expect(parseError('map: {a}')).toBe('line 1: expected "key: value" in {a}');
+    expect(parseError('a: 1\nb: \'open')).toBe('line 2: malformed string \'open');
+    expect(parseError('a: "open')).toBe('line 1: malformed string "open');
+    expect(parseError('a: 1\njust text')).toBe('line 2: expected "key: value", got "just text"');
+    expect(parseError('a:\n    b: 1\n  c: 2')).toBe('line 3: unexpected indentation');
+    expect(parseError('{"departments": [}')).toMatch(/^is not JSON/);
+  });
+});
+
+describe('validateFixture', () => {
+  it('reports every invalid field', () => {
+    expect(validateFixture({
+      departments: [
+        { code: 7, name: 'Department of Education', owner: OWNER, house: '001' },
+        { code: '35', name: 'Commission on Audit', owner: 'coa', standalone: true, documentManagers: [OWNER] },
+        { code: '35', name: 'Commission on Audit', owner: OWNER, agencies: 'none' }
+      ],
+      phaseResponsibilities: { PRE_BUDGET: '07', BUDGETCALL: '07' }
+    }).map((error) => `${error.field} ${error.code}`)).toEqual([
+      'departments[0].code INVALID_FORMAT',
+      'departments[0].house REQUIRED',
+      'departments[0].house INVALID_FORMAT',
+      'departments[1].owner INVALID_FORMAT',
+      'departments[1].documentManagers INVALID_FORMAT',
+      'departments[2].code DUPLICATE',
+      'departments[2].agencies INVALID_FORMAT',
+      'phaseResponsibilities.BUDGETCALL INVALID_PHASE'
+    ]);
+    expect(validateFixture([])).toMatchObject([{ field: 'fixture', code: 'INVALID_FORMAT' }]);
+  });
+});
+
+describe('address books', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gov-sdk-deploy-'));
+  });
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('round-trips through a JSON file', async () => {
+    const book = {
+      chainId: 1337,
+      dbtc: OWNER,
+      budgetProposal: OWNER,
+      fiscalYear: 2027,
+      owner: OWNER,
+      departments: { '07': { address: OWNER, mainAgency: OWNER, agencies: { '001': OWNER } } },
+      phaseResponsibilities: { PRE_BUDGET: '07' }
+    };
+    await writeAddressBook(join(dir, 'local.json'), book);
+    await writeAddressBook(join(dir, 'local.json'), book);
+    expect(await readAddressBook(join(dir, 'local.json'))).toEqual(book);
+  });
+});
+
+withNodes('applyFixture on the %s', (addresses) => ({
+  departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }],
+  phaseResponsibilities: { PRE_BUDGET: '07' }
+}), (node) => {
+  const apply = (fixture: Parameters<typeof applyFixture>[1], steps: string[] = []) =>
+    applyFixture(node.client, fixture, {
+      signer: node.accounts[0],
+      getSigner: (address) => node.accounts.find((account) => account.address === address)!,
+      onStep: (step) => steps.push(step)
+    });
+
+  it('adds only what is missing', async () => {
+    const [, deptOwner, agencyOwner, manager] = node.accounts.map((account) => account.address);
+    const steps: string[] = [];
+    const book = await apply({
+      departments: [{
+        code: '07',
+        name: 'Department of Education',
+        owner: deptOwner,
+        agencies: [{ code: '002', name: 'Bureau of Learning Delivery', owner: agencyOwner, documentManagers: [manager] }]
+      }],
+      phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07' }
+    }, steps);
+
+    expect(steps).toEqual([
+      'Add agency 07-002 (Bureau of Learning Delivery)',
+      `Add document manager ${manager} to agency ${book.departments['07'].agencies['002']}`,
+      'Assign BUDGET_CALL to department 07'
+    ]);
+    expect(book.departments['07'].mainAgency).toBe(node.book.departments['07'].mainAgency);
+    expect(book.phaseResponsibilities).toEqual({ PRE_BUDGET: '07', BUDGET_CALL: '07' });
+    expect(await node.client.agency(book.departments['07'].agencies['002']).isDocumentManager(manager)).toBe(true);
+
+    const again: string[] = [];
+    expect(await apply({ departments: [{ code: '07', name: 'Department of Education', owner: deptOwner }] }, again))
+      .toEqual(book);
+    expect(again).toEqual([]);
+  });
+
+  it('sends nothing for an invalid fixture', async () => {
+    const nonce = await node.provider.getTransactionCount(node.accounts[0].address);
+    const fixture = { departments: [{ code: '08', name: '', owner: node.accounts[1].address }] };
+    await expect(apply(fixture)).rejects.toMatchObject({ fieldErrors: [{ field: 'departments[0].name', code: 'REQUIRED' }] });
+    await expect(deployWithFixture(node.accounts[0], fixture)).rejects.toThrow(ValidationError);
+    expect(await node.provider.getTransactionCount(node.accounts[0].address)).toBe(nonce);
+  });
+});
@@ -0,0 +1,113 @@
+import { ethers } from 'ethers';
+import {
+  BudgetPhase,
+  DBTCError,
+  PermissionError,
+  PhaseError,
+  ProposalError,
+  RegistryError,
+  decodeContractError,
+  decodeRevertData,
+  withContractErrors
+} from '../src';
+import AgencyABI from '../src/abis/Agency.json';
+import BudgetProposalABI from '../src/abis/BudgetProposal.json';
+import DBTCABI from '../src/abis/DBTC.json';
+import { useNode } from './helpers/node';
+
+const agencyInterface = new ethers.Interface(AgencyABI.abi);
+const proposalInterface = new ethers.Interface(BudgetProposalABI.abi);
+const dbtcInterface = new ethers.Interface(DBTCABI.abi);
+
+const DATA = { prexcFpapId: '310100100001000', uacsObjCode: '5020101000', amount: 150000000n };
+
+describe('decodeRevertData', () => {
+  it('maps custom errors of every ABI to their class, code and message', () => {
+    const cases: Array<[string, typeof DBTCError, string, string]> = [
+      [dbtcInterface.encodeErrorResult('DepartmentAlreadyExists'), RegistryError,
+        'DEPARTMENT_ALREADY_EXISTS', 'A department with this code already exists'],
+      [agencyInterface.encodeErrorResult('NotDocumentManager'), PermissionError,
+        'NOT_DOCUMENT_MANAGER', 'Caller is not the owner or a document manager of this agency'],
+      [proposalInterface.encodeErrorResult('ERC721NonexistentToken', [42]), ProposalError,
+        'ERC721_NONEXISTENT_TOKEN', 'Proposal token 42 does not exist'],
+      [agencyInterface.encodeErrorResult('ActionNotAllowedInPhase'), PhaseError,
+        'ACTION_NOT_ALLOWED_IN_PHASE', 'Action not allowed in the current phase']
+    ];
+    for (const [data, type, code, message] of cases) {
+      const error = decodeRevertData(data);
+      expect(error).toBeInstanceOf(type);
+      expect(error).toMatchObject({ code, message, data });
+    }
+  });
+
+  it('names the phase when it is known', () => {
+    const error = decodeRevertData(agencyInterface.encodeErrorResult('ActionNotAllowedInPhase'), {
+      phase: BudgetPhase.TECHNICAL_REVIEW
+    });
+    expect(error.message).toBe('Action not allowed in phase Technical Review');
+    expect((error as PhaseError).phase).toBe(BudgetPhase.TECHNICAL_REVIEW);
+  });
+
+  it('reads revert strings and keeps unknown errors', () => {
+    const reason = ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['Paused']);
+    expect(decodeRevertData(ethers.concat(['0x08c379a0', reason]))).toMatchObject({ code: 'REVERTED', message: 'Paused' });
+    expect(decodeRevertData('0xdeadbeef')).toMatchObject({
+      code: 'UNKNOWN_CONTRACT_ERROR',
+      message: 'Contract reverted with unknown error (0xdeadbeef)'
+    });
+  });
+});
+
+describe('decodeContractError', () => {
+  it('finds revert data nested in provider errors', () => {
+    const data = dbtcInterface.encodeErrorResult('NotPhaseResponsible');
+    for (const error of [{ info: { error: { data: { data } } } }, { info: { error: { data: { result: data } } } }]) {
+      expect(decodeContractError(error)).toBeInstanceOf(PermissionError);
+      expect(decodeContractError(error)?.code).toBe('NOT_PHASE_RESPONSIBLE');
+    }
+  });
+
+  it('ignores errors that are not reverts', () => {
+    expect(decodeContractError(new Error('socket hang up'))).toBeNull();
+  });
+});
+
+describe('withContractErrors', () => {
+  const revert = (name: string) => Promise.reject({ data: agencyInterface.encodeErrorResult(name) });
+
+  it('rethrows reverts as SDK errors, with the phase of phase errors', async () => {
+    await expect(withContractErrors(() => revert('ActionNotAllowedInPhase'), async () => BudgetPhase.GAB_BICAM))
+      .rejects.toThrow('Action not allowed in phase GAB Bicameral');
+    await expect(withContractErrors(() => revert('NotOwner'))).rejects.toBeInstanceOf(PermissionError);
+  });
+
+  it('passes other errors through', async () => {
+    const error = new Error('socket hang up');
+    await expect(withContractErrors(() => Promise.reject(error))).rejects.toBe(error);
+  });
+});
+
+describe('contract errors on a local node', () => {
+  const node = useNode((addresses) => ({
+    departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }]
+  }));
+
+  it('decodes reverts of simulated writes', async () => {
+    await expect(node.client.dbtc.addDepartment('07', 'Department of Education', 'Office of the Secretary', node.accounts[2].address,
+      false, true, node.privateKeys[0])).rejects.toMatchObject({ code: 'DEPARTMENT_ALREADY_EXISTS' });
+    await expect(node.client.agency(node.book.departments['07'].mainAgency).submitProposal('ipfs://proposal', DATA, node.privateKeys[1]))
+      .rejects.toMatchObject({ code: 'ACTION_NOT_ALLOWED_IN_PHASE', message: 'Action not allowed in phase Pre-Budget' });
+  });
+
+  it('decodes reverts of reads', async () => {
+    await expect(node.client.proposals.getData(7)).rejects.toMatchObject({ code: 'PROPOSAL_NOT_FOUND' });
+  });
+
+  it('recovers the reason of a mined revert', async () => {
+    // A fixed gas limit skips the estimate, so the revert is mined
+    const dbtc = new ethers.Contract(node.book.dbtc, DBTCABI.abi, node.accounts[0]);
+    const tx = await dbtc.addRegularDepartment('07', 'Department of Education', 'Office of the Secretary',
+      node.accounts[2].address, { gasLimit: 500000 });
+    await expect(node.client.transactions.wait(tx)).rejects.toMatchObject({ code: 'DEPARTMENT_ALREADY_EXISTS' });
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  BudgetPhase,
+  EventSubscription,
+  PhaseResponsibilityAssignedEvent,
+  ProposalMintedEvent,
+  ProposalStatus,
+  ProposalSubmittedEvent,
+  SubscriptionOptions
+} from '../src';
+import { useNode } from './helpers/node';
+
+const DATA = { prexcFpapId: '310100100001000', uacsObjCode: '5020101000', amount: 150000000n };
+const FAST: SubscriptionOptions = { pollingInterval: 20, confirmations: 0 };
+
+/**
+ * Wait until a condition holds
+ */
+async function until(condition: () => boolean, timeout = 5000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for events');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('event subscriptions', () => {
+  const node = useNode((addresses) => ({
+    departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }],
+    phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07' }
+  }));
+  const subscriptions: EventSubscription[] = [];
+
+  /**
+   * Subscribe and collect delivered events
+   */
+  function collect<T>(subscribe: (callback: (event: T) => void) => EventSubscription): T[] {
+    const events: T[] = [];
+    subscriptions.push(subscribe((event) => {
+      events.push(event);
+    }));
+    return events;
+  }
+
+  afterEach(() => {
+    subscriptions.splice(0).forEach((subscription) => subscription.unsubscribe());
+    jest.restoreAllMocks();
+  });
+
+  it('decodes registry events, resolving hashed department codes', async () => {
+    const department = node.book.departments['07'].address;
+    const departments = collect((callback) => node.client.events.onDepartmentAdded(callback, FAST));
+    const agencies = collect((callback) => node.client.events.onAgencyAdded(department, callback, FAST));
+    const assignments = collect<PhaseResponsibilityAssignedEvent>((callback) => node.client.events.onPhaseResponsibilityAssigned(callback, FAST));
+    await until(() => subscriptions.every((subscription) => subscription.lastBlock !== null));
+
+    const { departmentAddress } = await node.client.dbtc.addRegularDepartment('08', 'Department of Health',
+      'Office of the Secretary', node.accounts[2].address, node.privateKeys[0]);
+    const { agencyAddress } = await node.client.department(department).addAgency('002', 'Bureau of Learning Delivery',
+      node.accounts[3].address, node.privateKeys[1]);
+    await node.client.dbtc.assignPhaseResponsibility(BudgetPhase.TECHNICAL_REVIEW, '08', node.privateKeys[0]);
+
+    await until(() => departments.length > 0 && agencies.length > 0 && assignments.length > 0);
+    expect(departments).toEqual([expect.objectContaining({ code: '08', name: 'Department of Health', departmentAddress })]);
+    expect(agencies).toEqual([expect.objectContaining({
+      departmentAddress: department,
+      code: '002',
+      name: 'Bureau of Learning Delivery',
+      agencyAddress
+    })]);
+    expect(assignments).toEqual([expect.objectContaining({ phase: BudgetPhase.TECHNICAL_REVIEW, deptCode: '08' })]);
+    expect(assignments[0].blockNumber).toBeGreaterThan(0);
+    expect(assignments[0].transactionHash).toMatch(/^0x/);
+  });
+
+  it('waits for confirmations before delivering', async () => {
+    const advances = collect((callback) => node.client.events.onPhaseAdvanced(callback, { pollingInterval: 20 }));
+    await until(() => subscriptions[0].lastBlock !== null);
+    await node.client.dbtc.startBudgetCall(node.privateKeys[1]);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(advances).toEqual([]);
+    await node.provider.send('evm_mine', []);
+    await node.provider.send('evm_mine', []);
+    await until(() => advances.length > 0);
+    expect(advances).toEqual([expect.objectContaining({
+      fromPhase: BudgetPhase.PRE_BUDGET,
+      toPhase: BudgetPhase.BUDGET_CALL,
+      fiscalYear: 2026
+    })]);
+  });
+
+  it('filters proposal events by agency and token', async () => {
+    const agency = node.client.agency(node.book.departments['07'].mainAgency);
+    const minted = collect<ProposalMintedEvent>((callback) =>
+      node.client.events.onProposalMinted({ agency: agency.address }, callback, FAST));
+    const elsewhere = collect((callback) =>
+      node.client.events.onProposalMinted({ agency: node.accounts[9].address }, callback, FAST));
+    const changes = collect((callback) =>
+      node.client.events.onProposalStatusChanged({ agency: agency.address, tokenId: 1 }, callback, FAST));
+    const revisions = collect((callback) => node.client.events.onRevisionCreated({}, callback, FAST));
+    await until(() => subscriptions.every((subscription) => subscription.lastBlock !== null));
+
+    await agency.submitProposal('ipfs://v1', DATA, node.privateKeys[1]);
+    await agency.submitProposal('ipfs://other', DATA, node.privateKeys[1]);
+    await agency.reviseProposal(1, 'ipfs://v2', { ...DATA, amount: 160000000n }, 'Updated costs', node.privateKeys[1]);
+
+    await until(() => minted.length === 2 && changes.length > 0 && revisions.length > 0);
+    // Revisions do not emit ProposalMinted
+    expect(minted.map((event) => event.tokenId)).toEqual([1n, 2n]);
+    expect(minted[0]).toMatchObject({ agencyAddress: agency.address, fiscalYear: 2026, status: ProposalStatus.SUBMITTED });
+    expect(elsewhere).toEqual([]);
+    expect(changes).toEqual([expect.objectContaining({ tokenId: 1n, newStatus: ProposalStatus.REVISED })]);
+    expect(revisions).toEqual([expect.objectContaining({
+      originalTokenId: 1n,
+      newTokenId: 3n,
+      action: ProposalStatus.REVISED,
+      reason: 'Updated costs'
+    })]);
+  });
+
+  it('resumes after RPC failures without gaps or duplicates', async () => {
+    const errors: Error[] = [];
+    const submitted = collect<ProposalSubmittedEvent>((callback) => node.client.events.onProposalSubmitted(node.book.departments['07'].mainAgency,
+      callback, { ...FAST, fromBlock: 0, onError: (error) => errors.push(error) }));
+    jest.spyOn(node.provider, 'getLogs').mockRejectedValueOnce(new Error('connection reset'));
+
+    await until(() => submitted.length === 2);
+    expect(errors.map((error) => error.message)).toEqual(['connection reset']);
+    expect(submitted.map((event) => event.tokenId)).toEqual([1n, 2n]);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(submitted).toHaveLength(2);
+  });
+
+  it('reports callback errors and keeps delivering', async () => {
+    const errors: Error[] = [];
+    const delivered: bigint[] = [];
+    subscriptions.push(node.client.events.onProposalMinted({}, (event) => {
+      delivered.push(event.tokenId);
+      throw new Error(`failed ${event.tokenId}`);
+    }, { ...FAST, fromBlock: 0, onError: (error) => errors.push(error) }));
+
+    await until(() => delivered.length === 2);
+    expect(errors.map((error) => error.message)).toEqual(['failed 1', 'failed 2']);
+  });
+
+  it('stops delivering after unsubscribe', async () => {
+    const minted = collect((callback) => node.client.events.onProposalMinted({}, callback, FAST));
+    await until(() => subscriptions[0].lastBlock !== null);
+    subscriptions[0].unsubscribe();
+    await node.client.agency(node.book.departments['07'].mainAgency)
+      .submitProposal('ipfs://late', DATA, node.privateKeys[1]);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(minted).toEqual([]);
+  });
+
+  it('keeps the process alive unless asked not to', () => {
+    const timer = (subscription: EventSubscription) => (subscription as unknown as { timer: NodeJS.Timeout }).timer;
+    const held = node.client.events.onPhaseAdvanced(() => undefined);
+    const released = node.client.events.onPhaseAdvanced(() => undefined, { keepAlive: false });
+    subscriptions.push(held, released);
+    expect(timer(held).hasRef()).toBe(true);
+    expect(timer(released).hasRef()).toBe(false);
+  });
+});
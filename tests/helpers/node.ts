@@ -0,0 +1,134 @@
+import ganache, { EthereumProvider } from 'ganache';
+import { ethers } from 'ethers';
+import { DBTCClient } from '../../src/client';
+import { AddressBook, DeploymentFixture, applyFixture, deployDBTC } from '../../src/deploy';
+import { MockDBTCChain } from '../../src/testing';
+
+export type Account = ethers.JsonRpcSigner | ethers.Wallet;
+
+/** Registry to seed, given the addresses of the node's accounts */
+export type TestFixture = (addresses: string[]) => DeploymentFixture;
+
+/**
+ * Chain with a seeded DBTC deployment
+ */
+export interface TestNode {
+  provider: ethers.JsonRpcApiProvider;
+  /** Client connected to the node and its deployment */
+  client: DBTCClient;
+  book: AddressBook;
+  /** Funded accounts (the first owns DBTC) */
+  accounts: Account[];
+  /** Private keys of the accounts */
+  privateKeys: string[];
+  stop: () => Promise<void>;
+}
+
+const GANACHE_OPTIONS = {
+  logging: { quiet: true },
+  // DBTC is above the EIP-170 code size limit
+  chain: { allowUnlimitedContractSize: true },
+  wallet: { deterministic: true, totalAccounts: 10 }
+};
+
+/**
+ * Deploy the bundled DBTC bytecode (src/abis) on a ganache provider and apply a fixture
+ */
+async function deployOnGanache(eip1193: EthereumProvider, fixture: TestFixture): Promise<Omit<TestNode, 'stop'>> {
+  // No cache, so back-to-back transactions of an account get fresh nonces
+  const provider = new ethers.BrowserProvider(eip1193, undefined, { cacheTimeout: -1, pollingInterval: 50 });
+  const accounts = await Promise.all(Array.from({ length: 10 }, (_, i) => provider.getSigner(i)));
+  const keys = eip1193.getInitialAccounts();
+
+  const addresses = await deployDBTC(accounts[0]);
+  // Owners of the fixture sign with the node's unlocked accounts
+  const owner = new DBTCClient({ chainMode: 'testnet', provider, signer: accounts[0], addresses, batch: false });
+  return {
+    provider,
+    client: new DBTCClient({ chainMode: 'testnet', provider, addresses }),
+    book: await applyFixture(owner, fixture(accounts.map((account) => account.address))),
+    accounts,
+    privateKeys: accounts.map((account) => keys[account.address.toLowerCase()].secretKey)
+  };
+}
+
+/**
+ * Start an in-process ganache node with a seeded deployment
+ */
+export async function startLocalNode(fixture: TestFixture = () => ({})): Promise<TestNode> {
+  const eip1193 = ganache.provider(GANACHE_OPTIONS);
+  return { ...await deployOnGanache(eip1193, fixture), stop: () => eip1193.disconnect() };
+}
+
+/**
+ * Ganache node served over HTTP, for code that connects by URL
+ */
+export interface LocalServer extends TestNode {
+  rpcUrl: string;
+}
+
+/**
+ * Start a ganache HTTP server on a free port with a seeded deployment
+ */
+export async function startLocalServer(fixture: TestFixture = () => ({})): Promise<LocalServer> {
+  const server = ganache.server(GANACHE_OPTIONS);
+  await server.listen(0);
+  return {
+    ...await deployOnGanache(server.provider, fixture),
+    rpcUrl: `http://127.0.0.1:${server.address().port}`,
+    stop: () => server.close()
+  };
+}
+
+/**
+ * Create a mock chain and seed a fixture, as startLocalNode does on ganache
+ */
+export async function startMockNode(fixture: TestFixture = () => ({})): Promise<TestNode> {
+  const chain = new MockDBTCChain();
+  const { accounts } = chain;
+  const book = await applyFixture(chain.createClient({ batch: false }), fixture(accounts.map((account) => account.address)), {
+    getSigner: (address) => accounts.find((account) => account.address === address)!
+  });
+  return {
+    provider: chain.provider,
+    client: chain.createClient(),
+    book,
+    accounts,
+    privateKeys: accounts.map((account) => account.privateKey),
+    stop: async () => undefined
+  };
+}
+
+/**
+ * Start a node before the tests of the enclosing block and stop it after them
+ * @returns The node, filled in once the block's tests run
+ */
+export function useNode(fixture: TestFixture, start = startLocalNode): TestNode {
+  const node = {} as TestNode;
+  beforeAll(async () => {
+    Object.assign(node, await start(fixture));
+  });
+  // No stop if the node failed to start
+  afterAll(() => node.stop?.());
+  return node;
+}
+
+/**
+ * Nodes every chain test runs against, with their names
+ */
+export const NODES: [string, (fixture?: TestFixture) => Promise<TestNode>][] = [
+  ['local node', startLocalNode],
+  ['mock chain', startMockNode]
+];
+
+/**
+ * Define a block of tests per node in `NODES`, each with its own seeded node
+ * @param title Block title; `%s` is replaced by the node name
+ * @param fixture Registry to seed
+ * @param tests Defines the tests, given the node (filled in once they run)
+ */
+export function withNodes(title: string, fixture: TestFixture, tests: (node: TestNode) => void): void {
+  describe.each(NODES)(title, (_, start) => {
+    tests(useNode(fixture, start));
+  });
+}
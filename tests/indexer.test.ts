@@ -0,0 +1,130 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ethers } from 'ethers';
+import { BudgetPhase, EventIndexer, IndexedEvent, JsonFileIndexerStore, MemoryIndexerStore } from '../src';
+import { useNode } from './helpers/node';
+
+const DATA = { prexcFpapId: '310100100001000', uacsObjCode: '5020101000', amount: 150000000n };
+
+const names = (events: IndexedEvent[]) => events.map((event) => event.event);
+
+describe('EventIndexer', () => {
+  const node = useNode((addresses) => ({
+    departments: [{
+      code: '07',
+      name: 'Department of Education',
+      owner: addresses[1],
+      agencies: [{ code: '002', name: 'Bureau of Learning Delivery', owner: addresses[2] }]
+    }],
+    phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07' }
+  }));
+  let directory: string;
+  let budgetCallBlock: number;
+
+  beforeAll(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'dbtc-indexer-'));
+    budgetCallBlock = (await node.client.dbtc.startBudgetCall(node.privateKeys[1])).blockNumber;
+    const agency = node.client.agency(node.book.departments['07'].agencies['002']);
+    await agency.submitProposal('ipfs://v1', DATA, node.privateKeys[2]);
+    await agency.reviseProposal(1, 'ipfs://v2', { ...DATA, amount: 160000000n }, 'Updated costs', node.privateKeys[2]);
+  });
+
+  afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+  it('indexes every contract, discovering departments and agencies', async () => {
+    const indexer = new EventIndexer(node.client);
+    const result = await indexer.sync();
+    expect(result).toEqual({ fromBlock: 0, toBlock: await node.provider.getBlockNumber(), events: expect.any(Number) });
+
+    const registry = await indexer.getEvents({ event: ['DepartmentAdded', 'AgencyAdded', 'PhaseResponsibilityAssigned'] });
+    // The department contract adds its main agency before DBTC announces it
+    expect(registry.map((event) => [event.event, event.args.code ?? event.args.deptCode])).toEqual([
+      ['AgencyAdded', '001'],
+      ['DepartmentAdded', '07'],
+      ['AgencyAdded', '002'],
+      ['PhaseResponsibilityAssigned', '07'],
+      ['PhaseResponsibilityAssigned', '07']
+    ]);
+
+    const agency = node.book.departments['07'].agencies['002'];
+    expect(names(await indexer.getEvents({ address: agency }))).toEqual(['ProposalSubmitted', 'ProposalRevised']);
+    expect(await indexer.getEvents({ event: 'PhaseAdvanced' })).toEqual([expect.objectContaining({
+      contract: 'DBTC',
+      blockNumber: budgetCallBlock,
+      fiscalYear: 2026,
+      args: expect.objectContaining({ fromPhase: BudgetPhase.PRE_BUDGET, toPhase: BudgetPhase.BUDGET_CALL })
+    })]);
+    expect(names(await indexer.getEvents({ contract: 'BudgetProposal', fiscalYear: 2026 })))
+      .toEqual(expect.arrayContaining(['ProposalMinted', 'RevisionCreated', 'ProposalStatusChanged']));
+    expect(await indexer.getEvents({ toBlock: budgetCallBlock - 1, fiscalYear: 2026 })).toEqual([]);
+  });
+
+  it('splits block ranges the RPC rejects and keeps the smaller chunks', async () => {
+    const expected = names(await (await indexerWith(new MemoryIndexerStore())).getEvents());
+    const getLogs = node.provider.getLogs.bind(node.provider);
+    const spy = jest.spyOn(node.provider, 'getLogs').mockImplementation(async (filter) => {
+      const { fromBlock, toBlock } = filter as { fromBlock: number; toBlock: number };
+      if (toBlock - fromBlock >= 4) {
+        throw new Error('block range too large');
+      }
+      return getLogs(filter);
+    });
+    const ranges: Array<[number, number]> = [];
+    try {
+      const indexer = new EventIndexer(node.client, {
+        chunkSize: 64,
+        onProgress: ({ fromBlock, toBlock }) => ranges.push([fromBlock, toBlock])
+      });
+      const head = await node.provider.getBlockNumber();
+      await indexer.sync();
+      expect(names(await indexer.getEvents())).toEqual(expected);
+      expect(ranges).toEqual([[0, head]]);
+
+      for (let i = 0; i < 16; i++) {
+        await node.provider.send('evm_mine', []);
+      }
+      await indexer.sync();
+      expect(ranges.length).toBeGreaterThan(2);
+      expect(ranges.slice(1).every(([fromBlock, toBlock]) => toBlock - fromBlock < 16)).toBe(true);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('resumes from the checkpoint of a file store', async () => {
+    const path = join(directory, 'events.json');
+    const head = await node.provider.getBlockNumber();
+    await new EventIndexer(node.client, { store: new JsonFileIndexerStore(path), toBlock: budgetCallBlock }).sync();
+
+    // A new process: fresh indexer and store on the same file
+    const resumed = new EventIndexer(node.client, { store: new JsonFileIndexerStore(path) });
+    expect(await resumed.sync()).toMatchObject({ fromBlock: budgetCallBlock + 1, toBlock: head });
+
+    const ids = (await resumed.getEvents()).map((event) => event.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(names(await resumed.getEvents())).toEqual(names(await (await indexerWith(new MemoryIndexerStore())).getEvents()));
+    expect((await resumed.getEvents({ address: node.book.departments['07'].agencies['002'] })).map((e) => e.fiscalYear))
+      .toEqual([2026, 2026]);
+  });
+
+  it('follows contracts discovered in earlier runs', async () => {
+    const indexer = await indexerWith(new MemoryIndexerStore());
+    const agency = node.client.agency(node.book.departments['07'].agencies['002']);
+    const manager = ethers.Wallet.createRandom().address;
+    await agency.addDocumentManager(manager, node.privateKeys[2]);
+    await indexer.sync();
+    expect(await indexer.getEvents({ event: 'DocumentManagerAdded' })).toEqual([
+      expect.objectContaining({ address: agency.address, args: expect.objectContaining({ manager }) })
+    ]);
+  });
+
+  /**
+   * Indexer synced from block 0 into a store
+   */
+  async function indexerWith(store: MemoryIndexerStore): Promise<EventIndexer> {
+    const indexer = new EventIndexer(node.client, { store });
+    await indexer.sync();
+    return indexer;
+  }
+});
@@ -0,0 +1,97 @@
+import {
+  OnChainProposalData,
+  ProposalStatus,
+  diffProposalData,
+  lineageToJSON,
+  lineageToMarkdown,
+  pesos
+} from '../src';
+import { useNode } from './helpers/node';
+
+const DATA = { prexcFpapId: '310100100001000', uacsObjCode: '5020101000' };
+
+const onChain = (overrides: Partial<OnChainProposalData>): OnChainProposalData => ({
+  ...DATA,
+  amount: 150000n,
+  pesoAmount: pesos('1500'),
+  fiscalYear: 2027,
+  departmentCode: '07',
+  agencyCode: '001',
+  ...overrides
+});
+
+describe('diffProposalData', () => {
+  it('reports the amount delta and changed fields', () => {
+    const diff = diffProposalData(
+      onChain({}),
+      onChain({ amount: 100050n, pesoAmount: pesos('1000.50'), uacsObjCode: '5020301000' })
+    );
+    expect(diff.amountDelta).toBe(-49950n);
+    expect(diff.pesoDelta.toString()).toBe('-499.50');
+    expect(diff.changes).toEqual([
+      { field: 'uacsObjCode', from: '5020101000', to: '5020301000' },
+      { field: 'amount', from: '1500.00', to: '1000.50' }
+    ]);
+  });
+
+  it('reports no changes between equal data', () => {
+    expect(diffProposalData(onChain({}), onChain({}))).toMatchObject({ amountDelta: 0n, changes: [] });
+  });
+});
+
+describe('getLineage', () => {
+  const node = useNode((addresses) => ({
+    departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }],
+    phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07' }
+  }));
+
+  beforeAll(async () => {
+    await node.client.dbtc.startBudgetCall(node.privateKeys[1]);
+    const agency = node.client.agency(node.book.departments['07'].mainAgency);
+    await agency.submitProposal('ipfs://v1', { ...DATA, amount: pesos('1500') }, node.privateKeys[1]);
+    await agency.reviseProposal(1, 'ipfs://v2', { ...DATA, amount: pesos('1200') }, 'Lower unit cost', node.privateKeys[1]);
+    await agency.reviseProposal(2, 'ipfs://v3', { ...DATA, uacsObjCode: '5020301000', amount: pesos('1200') },
+      'Reclassified', node.privateKeys[1]);
+  });
+
+  it('rebuilds the tree from any version', async () => {
+    const lineage = await node.client.lineage.getLineage(2);
+    expect(lineage).toMatchObject({ tokenId: 2n, originTokenId: 1n, latestTokenId: 3n, versionCount: 3 });
+
+    const { root } = lineage;
+    expect(root).toMatchObject({ tokenId: 1n, parentTokenId: null, depth: 0, edge: null, diff: null });
+    expect(root.status).toBe(ProposalStatus.REVISED);
+    const [second] = root.children;
+    expect(second).toMatchObject({
+      tokenId: 2n,
+      parentTokenId: 1n,
+      depth: 1,
+      edge: { action: ProposalStatus.REVISED, reason: 'Lower unit cost', actor: node.book.departments['07'].mainAgency },
+      diff: { amountDelta: -30000n, changes: [{ field: 'amount', from: '1500.00', to: '1200.00' }] }
+    });
+    const [third] = second.children;
+    expect(third).toMatchObject({
+      tokenId: 3n,
+      depth: 2,
+      edge: { reason: 'Reclassified' },
+      diff: { amountDelta: 0n, changes: [{ field: 'uacsObjCode', from: '5020101000', to: '5020301000' }] },
+      children: []
+    });
+
+    expect((await node.client.lineage.getLineage(3, { concurrency: 1 })).root.tokenId).toBe(1n);
+  });
+
+  it('renders JSON and a Markdown timeline', async () => {
+    const lineage = await node.client.lineage.getLineage(3);
+    const json = JSON.parse(lineageToJSON(lineage));
+    expect(json).toMatchObject({ tokenId: '3', originTokenId: '1', root: { children: [{ diff: { amountDelta: '-30000' } }] } });
+
+    const markdown = lineageToMarkdown(lineage).split('\n');
+    expect(markdown.slice(0, 3)).toEqual(['# Lineage of proposal #1', '', '3 version(s), latest #3']);
+    expect(markdown[4]).toMatch(/^- \*\*#1\*\* submitted on \d{4}-\d{2}-\d{2} by 0x[0-9a-fA-F]{40} — 310100100001000 \/ 5020101000, ₱1,500.00, FY \d+ — now /);
+    expect(markdown[5]).toMatch(/^ {2}- \*\*#2\*\* .* from #1 in .*: "Lower unit cost" — now /);
+    expect(markdown[6]).toBe('    - amount: ₱1,500.00 → ₱1,200.00 (-₱300.00)');
+    expect(markdown[7]).toMatch(/^ {4}- \*\*#3\*\* .*\(requested\)$/);
+    expect(markdown[8]).toBe('      - uacsObjCode: 5020101000 → 5020301000');
+  });
+});
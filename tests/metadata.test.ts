@@ -0,0 +1,194 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ethers } from 'ethers';
+import {
+  LocalMetadataStore,
+  MemoryMetadataStore,
+  MetadataError,
+  ProposalDocument,
+  ProposalDocumentBuilder,
+  ValidationError,
+  cidFromUri,
+  computeCid,
+  describeAttachment,
+  fetchProposalDocument,
+  getProposalDocumentURI,
+  pesos,
+  serializeProposalDocument,
+  toProposalData,
+  uploadProposalDocument,
+  validateProposalDocument
+} from '../src';
+
+const builder = () => new ProposalDocumentBuilder()
+  .agency('07', '001', 'Office of the Secretary')
+  .fiscalYear(2027)
+  .title('Classroom construction')
+  .classification('310100100001000', '5060405001')
+  .narrative('Construction of 120 classrooms in Region VIII')
+  .justification('Classroom backlog of 1,400 in the region')
+  .addLineItem('Materials', pesos('₱80,000,000.50'))
+  .addLineItem('Labor', '40000000');
+
+describe('computeCid', () => {
+  it('matches ipfs add --cid-version 1 --raw-leaves', () => {
+    expect(computeCid('')).toBe('bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku');
+    expect(computeCid('hello world')).toBe('bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e');
+    expect(computeCid(ethers.toUtf8Bytes('hello world'))).toBe(computeCid('hello world'));
+  });
+
+  it('reads CIDs from URIs', () => {
+    const cid = computeCid('hello world');
+    expect(cidFromUri(`ipfs://${cid}`)).toBe(cid);
+    expect(cidFromUri(`/ipfs/${cid}/`)).toBe(cid);
+    expect(cidFromUri(` ${cid} `)).toBe(cid);
+    expect(cidFromUri('https://example.com/proposal.json')).toBeNull();
+    expect(cidFromUri('ipfs://QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG')).toBeNull();
+  });
+});
+
+describe('ProposalDocumentBuilder', () => {
+  it('builds a document totalling its line items', () => {
+    const metadata = builder().build();
+    expect(metadata).toMatchObject({
+      schema: expect.any(String),
+      version: 1,
+      agency: { deptCode: '07', agencyCode: '001', name: 'Office of the Secretary' },
+      amount: '120000000.50',
+      lineItems: [
+        { description: 'Materials', amount: '80000000.50' },
+        { description: 'Labor', amount: '40000000.00' }
+      ],
+      attachments: []
+    });
+    expect(metadata.lineItems[0]).not.toHaveProperty('uacsObjCode');
+    expect(toProposalData(metadata)).toEqual({
+      prexcFpapId: '310100100001000',
+      uacsObjCode: '5060405001',
+      amount: pesos('120000000.50')
+    });
+  });
+
+  it('serializes canonically, whatever the key order', () => {
+    const metadata = builder().build();
+    const reordered = Object.fromEntries(Object.entries(metadata).reverse()) as unknown as ProposalDocument;
+    expect(serializeProposalDocument(reordered)).toBe(serializeProposalDocument(metadata));
+    expect(serializeProposalDocument(metadata)).not.toMatch(/\s"|":\s/);
+    expect(getProposalDocumentURI(reordered)).toBe(getProposalDocumentURI(metadata));
+    expect(getProposalDocumentURI(builder().title('Other').build())).not.toBe(getProposalDocumentURI(metadata));
+  });
+
+  it('starts from an earlier document without changing it', () => {
+    const original = builder().build();
+    const revised = new ProposalDocumentBuilder(original)
+      .addLineItem('Furniture', '1000', '5060405002')
+      .amount('120001000.50')
+      .build();
+    expect(revised.lineItems[2]).toEqual({ description: 'Furniture', amount: '1000.00', uacsObjCode: '5060405002' });
+    expect(() => new ProposalDocumentBuilder(original).addLineItem('Furniture', '1000').build())
+      .toThrow(ValidationError);
+    expect(original.lineItems).toHaveLength(2);
+  });
+
+  it('reports every invalid field', () => {
+    let error: ValidationError | undefined;
+    try {
+      new ProposalDocumentBuilder()
+        .agency('7', '001')
+        .classification('310100100001000', '506')
+        .addLineItem('Materials', '₱1.234')
+        .addAttachment({ name: 'Plan', uri: '', sha256: 'abc' })
+        .build();
+    } catch (e) {
+      error = e as ValidationError;
+    }
+    expect(error?.fieldErrors.map((e) => `${e.field} ${e.code}`)).toEqual([
+      'agency.deptCode INVALID_FORMAT',
+      'fiscalYear INVALID_FORMAT',
+      'title REQUIRED',
+      'narrative REQUIRED',
+      'justification REQUIRED',
+      'uacsObjCode INVALID_FORMAT',
+      'amount INVALID_FORMAT',
+      'lineItems[0].amount INVALID_FORMAT',
+      'attachments[0].uri REQUIRED',
+      'attachments[0].sha256 INVALID_FORMAT'
+    ]);
+  });
+
+  it('rejects line items that do not add up', () => {
+    expect(validateProposalDocument({ ...builder().build(), amount: '1.00' })).toEqual([
+      { field: 'lineItems', code: 'TOTAL_MISMATCH', message: 'add up to ₱120,000,000.50, not ₱1.00' }
+    ]);
+  });
+
+  it('rejects unknown schemas and non-objects', () => {
+    expect(validateProposalDocument([])).toMatchObject([{ field: 'metadata' }]);
+    expect(validateProposalDocument({ ...builder().build(), version: 2 }))
+      .toMatchObject([{ field: 'version', code: 'UNSUPPORTED_VERSION' }]);
+  });
+
+  it('rejects documents too large for a single IPFS block', () => {
+    expect(validateProposalDocument({ ...builder().build(), narrative: 'x'.repeat(256 * 1024) }))
+      .toMatchObject([{ field: 'metadata', code: 'TOO_LARGE' }]);
+  });
+
+  it('describes attachments', () => {
+    const contents = ethers.toUtf8Bytes('%PDF-1.7');
+    expect(describeAttachment('Plan', 'ipfs://plan', contents, 'application/pdf')).toEqual({
+      name: 'Plan',
+      uri: 'ipfs://plan',
+      mediaType: 'application/pdf',
+      size: 8,
+      sha256: ethers.sha256(contents)
+    });
+  });
+});
+
+describe('metadata stores', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gov-sdk-metadata-'));
+  });
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('uploads under the precomputed URI and fetches it back', async () => {
+    const metadata = builder().build();
+    const store = new MemoryMetadataStore();
+    const { uri, cid } = await uploadProposalDocument(metadata, store);
+    expect(uri).toBe(getProposalDocumentURI(metadata));
+    expect(uri).toBe(`ipfs://${cid}`);
+    expect(await fetchProposalDocument(uri, store)).toEqual(metadata);
+  });
+
+  it('keeps files named by CID in a directory', async () => {
+    const metadata = builder().build();
+    const store = new LocalMetadataStore(join(dir, 'documents'));
+    const { uri, cid } = await uploadProposalDocument(metadata, store);
+    expect(await fetchProposalDocument(uri, new LocalMetadataStore(join(dir, 'documents')))).toEqual(metadata);
+    expect(computeCid((await store.get(cid))!)).toBe(cid);
+    expect(await store.get(computeCid('missing'))).toBeNull();
+    await expect(store.get('../etc/passwd')).rejects.toThrow(ValidationError);
+  });
+
+  it('rejects documents that do not match their CID', async () => {
+    const store = new LocalMetadataStore(dir);
+    const cid = computeCid('original');
+    writeFileSync(join(dir, cid), 'tampered');
+    await expect(fetchProposalDocument(`ipfs://${cid}`, store))
+      .rejects.toMatchObject({ code: 'METADATA_MISMATCH' });
+    await expect(fetchProposalDocument(`ipfs://${computeCid('missing')}`, store))
+      .rejects.toThrow(MetadataError);
+    await expect(fetchProposalDocument('https://example.com/doc.json', store)).rejects.toThrow(ValidationError);
+  });
+
+  it('rejects stored documents that are not valid metadata', async () => {
+    const store = new MemoryMetadataStore();
+    const cid = computeCid('{"title":"x"}');
+    await store.put(cid, ethers.toUtf8Bytes('{"title":"x"}'));
+    await expect(fetchProposalDocument(cid, store)).rejects.toThrow(ValidationError);
+  });
+});
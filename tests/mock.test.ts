@@ -0,0 +1,211 @@
+import { ethers } from 'ethers';
+import * as sdk from '../src';
+import { BudgetPhase, PhaseError, ProposalData, SimulationResult } from '../src';
+import { MockDBTCChain } from '../src/testing';
+import BudgetProposalABI from '../src/abis/BudgetProposal.json';
+import AgencyABI from '../src/abis/Agency.json';
+import { TestFixture, TestNode, startLocalNode, startMockNode, withNodes } from './helpers/node';
+
+const DATA: ProposalData = { prexcFpapId: '310100100001000', uacsObjCode: '5020101000', amount: 150000000n };
+
+const FIXTURE: TestFixture = (addresses) => ({
+  departments: [{
+    code: '07',
+    name: 'Department of Education',
+    owner: addresses[1],
+    documentManagers: [addresses[2]],
+    agencies: [{ code: '002', name: 'Bureau of Learning Delivery', owner: addresses[3] }]
+  }],
+  phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07', TECHNICAL_REVIEW: '07', NEP_CONSOLIDATION: '07' }
+});
+
+/**
+ * Replace the addresses of a node with names, so traces of two chains compare
+ */
+function labeller(node: TestNode): (address: string) => string {
+  const names = new Map<string, string>();
+  node.accounts.forEach((account, index) => names.set(account.address.toLowerCase(), `account ${index}`));
+  for (const [deptCode, department] of Object.entries(node.book.departments)) {
+    for (const [agencyCode, agency] of Object.entries(department.agencies)) {
+      names.set(agency.toLowerCase(), `agency ${deptCode}-${agencyCode}`);
+    }
+  }
+  return (address) => names.get(address.toLowerCase()) ?? address;
+}
+
+const result = (simulation: SimulationResult<unknown>) => simulation.success ? 'ok' : simulation.error?.errorName;
+
+/**
+ * Revise and amend a proposal along two branches, and read back what the
+ * BudgetProposal contract records for every token
+ */
+async function revisionTrace(node: TestNode) {
+  const { client, accounts } = node;
+  const label = labeller(node);
+  const agency = client.agency(node.book.departments['07'].mainAgency);
+  const manager = accounts[2];
+  const steps: Record<string, string | undefined> = {};
+
+  await client.dbtc.startBudgetCall(accounts[1]);
+  const { tokenId: original } = await agency.submitProposal('ipfs://v1', DATA, manager);
+  const revise = async (name: string, tokenId: bigint, amend = false) => {
+    const simulation = amend
+      ? await agency.simulateAmendProposal(tokenId, `ipfs://${name}`, DATA, name, manager)
+      : await agency.simulateReviseProposal(tokenId, `ipfs://${name}`, DATA, name, manager);
+    steps[name] = result(simulation);
+    if (simulation.success) {
+      await (amend ? agency.amendProposal : agency.reviseProposal).call(agency, tokenId, `ipfs://${name}`, DATA, name, manager);
+    }
+  };
+  await revise('v2', original);
+  await revise('v3', 2n);
+  await revise('branch', original);
+  for (const phase of [BudgetPhase.TECHNICAL_REVIEW, BudgetPhase.NEP_CONSOLIDATION, BudgetPhase.GAB_SEPARATE]) {
+    await client.dbtc.advancePhase(accounts[1]);
+    expect(await client.dbtc.getCurrentPhase()).toBe(phase);
+  }
+  await revise('amended', 3n, true);
+
+  const proposals = new ethers.Contract(node.book.budgetProposal, BudgetProposalABI.abi, client.provider);
+  const tokens: Record<string, unknown> = {};
+  for (let tokenId = 1n; tokenId <= await proposals.totalSupply(); tokenId++) {
+    const [origin, status, submittedPhase, submitter] = await proposals.getProposalMetadata(tokenId);
+    const history: ethers.Result = await proposals.getRevisionHistory(tokenId);
+    tokens[tokenId.toString()] = {
+      origin,
+      status,
+      submittedPhase,
+      submitter: label(submitter),
+      owner: label(await proposals.ownerOf(tokenId)),
+      latest: await proposals.getLatestVersion(tokenId),
+      children: [...await proposals.getChildTokens(tokenId)],
+      chain: [...await proposals.getRevisionChain(tokenId)],
+      history: history.map(([previousTokenId, action, reason, timestamp, actor]: ethers.Result) =>
+        ({ previousTokenId, action, reason, timestamped: timestamp > 0n, actor: label(actor) }))
+    };
+  }
+  return { steps, tokens };
+}
+
+/**
+ * Add, remove and re-add document managers, and read back the Agency
+ * contract's list and flags after each step
+ */
+async function managerTrace(node: TestNode) {
+  const { client, accounts } = node;
+  const label = labeller(node);
+  const address = node.book.departments['07'].agencies['002'];
+  const agency = client.agency(address);
+  const contract = new ethers.Contract(address, AgencyABI.abi, client.provider);
+  const owner = accounts[3];
+  const [first, second] = [accounts[4].address, accounts[5].address];
+
+  const trace: unknown[] = [];
+  const step = async (name: string, simulate: () => Promise<SimulationResult<unknown>>, send: () => Promise<unknown>) => {
+    const simulation = await simulate();
+    if (simulation.success) {
+      await send();
+    }
+    const listed: string[] = await contract.getDocumentManagers();
+    trace.push({
+      step: name,
+      result: result(simulation),
+      listed: listed.map(label),
+      flags: Object.fromEntries(await Promise.all([owner.address, first, second]
+        .map(async (manager) => [label(manager), await contract.isDocumentManager(manager)]))),
+      managers: (await agency.getDocumentManagers()).map(label)
+    });
+  };
+  const add = (manager: string) => step(`add ${label(manager)}`,
+    () => agency.simulateAddDocumentManager(manager, owner), () => agency.addDocumentManager(manager, owner));
+  const remove = (manager: string) => step(`remove ${label(manager)}`,
+    () => agency.simulateRemoveDocumentManager(manager, owner), () => agency.removeDocumentManager(manager, owner));
+
+  await add(first);
+  await add(second);
+  await add(first);
+  await remove(first);
+  await remove(first);
+  await add(first);
+  await remove(second);
+  await remove(owner.address);
+  return trace;
+}
+
+describe('mock chain against the bundled contracts', () => {
+  let contracts: TestNode;
+  let mock: TestNode;
+
+  beforeEach(async () => {
+    contracts = await startLocalNode(FIXTURE);
+    mock = await startMockNode(FIXTURE);
+  });
+
+  afterEach(async () => {
+    await contracts.stop();
+    await mock.stop();
+  });
+
+  it('records the same revision history, chains and versions', async () => {
+    const expected = await revisionTrace(contracts);
+    expect(await revisionTrace(mock)).toEqual(expected);
+  });
+
+  it('keeps the same document manager list and flags', async () => {
+    const expected = await managerTrace(contracts);
+    expect(await managerTrace(mock)).toEqual(expected);
+  });
+});
+
+withNodes('document managers on the %s', FIXTURE, (node) => {
+  it('lists only active managers', async () => {
+    const [owner, manager] = [node.accounts[1], node.accounts[2]];
+    const agency = node.client.agency(node.book.departments['07'].mainAgency);
+    await agency.removeDocumentManager(manager.address, owner);
+    await agency.addDocumentManager(manager.address, owner);
+    await agency.removeDocumentManager(owner.address, owner);
+
+    expect(await agency.getDocumentManagers()).toEqual([manager.address]);
+  });
+});
+
+describe('MockDBTCChain', () => {
+  it('ships apart from the main entry point', () => {
+    expect(sdk).not.toHaveProperty('MockDBTCChain');
+    expect(sdk).not.toHaveProperty('MockProvider');
+  });
+
+  it('seeds a fiscal year and jumps between phases', async () => {
+    const chain = new MockDBTCChain({ fiscalYear: 2026 });
+    const [, deped, manager] = chain.accounts;
+    const seeded = chain.seedFiscalYear({
+      departments: [{
+        code: '07',
+        name: 'Department of Education',
+        owner: deped.address,
+        documentManagers: [manager.address],
+        agencies: [{ code: '002', name: 'Bureau of Learning Delivery', owner: deped.address }]
+      }]
+    });
+    chain.jumpToPhase(BudgetPhase.BUDGET_CALL);
+
+    const client = chain.createClient({ signer: manager });
+    expect(await client.dbtc.getCurrentFiscalYear()).toBe(2026);
+    const agency = client.agency(seeded['07'].mainAgency);
+    const { tokenId } = await agency.submitProposal('ipfs://metadata-uri', DATA);
+    expect(tokenId).toBe(1n);
+
+    chain.jumpToPhase(BudgetPhase.TECHNICAL_REVIEW);
+    await expect(agency.submitProposal('ipfs://late', DATA)).rejects.toThrow(PhaseError);
+  });
+
+  it('moves the clock and mines empty blocks', async () => {
+    const chain = new MockDBTCChain();
+    const start = (await chain.provider.getBlock('latest'))!;
+    chain.increaseTime(3600);
+    chain.mine(2);
+    const latest = (await chain.provider.getBlock('latest'))!;
+    expect(latest.number).toBe(start.number + 2);
+    expect(latest.timestamp - start.timestamp).toBeGreaterThanOrEqual(3600);
+  });
+});
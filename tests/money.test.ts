@@ -0,0 +1,123 @@
+import {
+  PesoAmount,
+  ValidationError,
+  formatPesos,
+  pesos,
+  validateAmount,
+  validateLineItems,
+  validateProposalData
+} from '../src';
+import { useNode } from './helpers/node';
+
+describe('PesoAmount', () => {
+  it.each([
+    ['₱1,234,567.89', 123456789n],
+    ['PHP 1,234.50', 123450n],
+    ['php1234.5', 123450n],
+    ['1234', 123400n],
+    ['-₱0.05', -5n],
+    [' 12.30 ', 1230n],
+    ['0.100', 10n]
+  ])('parses %p', (text, units) => {
+    expect(pesos(text).units).toBe(units);
+  });
+
+  it('parses numbers of pesos', () => {
+    expect(pesos(1234.5).units).toBe(123450n);
+  });
+
+  it.each(['', '₱', '1.2.3', '1,2a', '0.001'])('rejects %p', (text) => {
+    expect(() => pesos(text)).toThrow(ValidationError);
+  });
+
+  it('keeps more decimals when asked', () => {
+    const amount = PesoAmount.parse('0.001', 3);
+    expect(amount).toMatchObject({ units: 1n, decimals: 3 });
+    expect(amount.toString()).toBe('0.001');
+    expect(() => amount.toUnits(2)).toThrow('0.001 has more than 2 decimals');
+    expect(PesoAmount.parse('1.230', 3).toUnits(2)).toBe(123n);
+    expect(pesos('1.23').toUnits(4)).toBe(12300n);
+  });
+
+  it('adds, subtracts and compares across scales', () => {
+    const total = PesoAmount.sum([pesos('1.10'), PesoAmount.parse('0.005', 3), pesos('-0.10')]);
+    expect(total.toString()).toBe('1.005');
+    expect(pesos('5').minus(pesos('7.5')).toString()).toBe('-2.50');
+    expect(pesos('1.50').compare(PesoAmount.parse('1.5', 3))).toBe(0);
+    expect(pesos('1').compare(pesos('2'))).toBe(-1);
+    expect(PesoAmount.sum([]).toString()).toBe('0.00');
+  });
+
+  it('formats in Philippine style', () => {
+    const amount = pesos('1234567.89');
+    expect(amount.format()).toBe('₱1,234,567.89');
+    expect(amount.format({ symbol: 'PHP' })).toBe('PHP 1,234,567.89');
+    expect(amount.format({ symbol: null, decimals: 0 })).toBe('1,234,568');
+    expect(pesos('-1000').format()).toBe('-₱1,000.00');
+    expect(pesos('999').format()).toBe('₱999.00');
+    expect(JSON.stringify({ amount })).toBe('{"amount":"1234567.89"}');
+  });
+
+  it('rounds half up when formatting with fewer decimals', () => {
+    expect(PesoAmount.parse('0.005', 3).format({ decimals: 2 })).toBe('₱0.01');
+    expect(PesoAmount.parse('-0.005', 3).format({ decimals: 2 })).toBe('-₱0.01');
+    expect(PesoAmount.parse('-0.004', 3).format({ decimals: 2 })).toBe('₱0.00');
+    expect(PesoAmount.parse('-0.4', 1).format({ decimals: 0 })).toBe('₱0');
+  });
+
+  it('formats on-chain amounts', () => {
+    expect(formatPesos(123456789n)).toBe('₱1,234,567.89');
+    expect(formatPesos('1500', 0, { symbol: 'PHP' })).toBe('PHP 1,500.00');
+    expect(() => formatPesos('1.5')).toThrow(ValidationError);
+    expect(() => PesoAmount.fromUnits(1, -1)).toThrow('invalid number of decimals: -1');
+  });
+});
+
+describe('peso amounts in validation', () => {
+  const DATA = { prexcFpapId: '310100100001000', uacsObjCode: '5020101000' };
+
+  it('checks the on-chain scale', () => {
+    expect(validateAmount(pesos('1.50'))).toBeNull();
+    expect(validateAmount(PesoAmount.parse('1.505', 3))).toMatchObject({ code: 'TOO_PRECISE' });
+    expect(validateAmount(PesoAmount.parse('1.505', 3), 'amount', 3)).toBeNull();
+    expect(validateAmount(pesos('-1'))).toMatchObject({ code: 'NEGATIVE' });
+  });
+
+  it('passes rules the amount in on-chain units', () => {
+    const rule = jest.fn(() => null);
+    expect(validateProposalData({ ...DATA, amount: pesos('1.5') }, 2, [rule])).toEqual([]);
+    expect(rule).toHaveBeenCalledWith({ ...DATA, amount: 150n });
+    validateProposalData({ ...DATA, amount: pesos('1.5') }, 0, [rule]);
+    expect(rule).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads bulk amounts as pesos when asked', () => {
+    const csv = 'prexcFpapId,uacsObjCode,amount,metadataURI\n' +
+      '310100100001000,5020101000,"₱1,500.25",ipfs://a\n' +
+      '310100100001000,5020301000,1.255,ipfs://b';
+    const { items, invalid } = validateLineItems(csv, { amounts: 'pesos' });
+    expect(items.map((item) => item.amount)).toEqual([150025n]);
+    expect(invalid[0].errors).toEqual(['amount "1.255" has more than 2 decimals']);
+  });
+});
+
+describe('peso amounts on chain', () => {
+  const node = useNode((addresses) => ({
+    departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }],
+    phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07' }
+  }));
+
+  it('sends and reads back centavos', async () => {
+    await node.client.dbtc.startBudgetCall(node.privateKeys[1]);
+    const agency = node.client.agency(node.book.departments['07'].mainAgency);
+    const { tokenId } = await agency.submitProposal('ipfs://proposal', {
+      prexcFpapId: '310100100001000',
+      uacsObjCode: '5020101000',
+      amount: pesos('₱1,234,567.89')
+    }, node.privateKeys[1]);
+
+    const data = await node.client.proposals.getData(tokenId);
+    expect(data.amount).toBe(123456789n);
+    expect(data.pesoAmount.format()).toBe('₱1,234,567.89');
+  });
+});
@@ -0,0 +1,129 @@
+import { ethers } from 'ethers';
+import { BatchingRunner, DBTCClient, ProposalError } from '../src';
+import { useNode } from './helpers/node';
+
+const MULTICALL = '0x0000000000000000000000000000000000Ca11Ca';
+const multicallInterface = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)'
+]);
+
+/**
+ * Revert data of a failed eth_call (ganache nests it in the RPC error)
+ */
+function revertData(error: unknown): string {
+  const { data, info } = error as { data?: string; info?: { error?: { data?: { result?: string } } } };
+  return data ?? info?.error?.data?.result ?? '0x';
+}
+
+describe('batched reads', () => {
+  const node = useNode((addresses) => ({
+    departments: [
+      {
+        code: '07',
+        name: 'Department of Education',
+        owner: addresses[1],
+        documentManagers: [addresses[2]],
+        agencies: [{ code: '002', name: 'Bureau of Learning Delivery', owner: addresses[3] }]
+      },
+      { code: '35', name: 'Commission on Audit', owner: addresses[7], standalone: true }
+    ]
+  }));
+  let calls: ethers.TransactionRequest[];
+  let batches: number[];
+
+  // Record eth_calls, answering those to MULTICALL like a Multicall3 contract would
+  beforeEach(() => {
+    calls = [];
+    batches = [];
+    const call = node.provider.call.bind(node.provider);
+    jest.spyOn(node.provider, 'call').mockImplementation(async (tx) => {
+      calls.push(tx);
+      if (tx.to !== MULTICALL) {
+        return call(tx);
+      }
+      const [aggregated] = multicallInterface.decodeFunctionData('aggregate3', tx.data!);
+      batches.push(aggregated.length);
+      const results = await Promise.all(aggregated.map(async ({ target, callData }: ethers.Result) => {
+        try {
+          return { success: true, returnData: await call({ to: target, data: callData }) };
+        } catch (error) {
+          return { success: false, returnData: revertData(error) };
+        }
+      }));
+      return multicallInterface.encodeFunctionResult('aggregate3', [results]);
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const client = (batch: ConstructorParameters<typeof DBTCClient>[0]['batch']) =>
+    new DBTCClient({ chainMode: 'testnet', provider: node.provider, addresses: node.client.addresses, batch });
+
+  it('returns what separate calls return, in a handful of round trips', async () => {
+    const unbatched = await client(false).registry.getSnapshot();
+    const separate = calls.length;
+    calls = [];
+
+    const batched = await client({ multicallAddress: MULTICALL }).registry.getSnapshot();
+    expect({ ...batched, takenAt: null }).toEqual({ ...unbatched, takenAt: null });
+    expect(calls.length).toBeLessThan(separate / 4);
+    expect(calls.every((tx) => tx.to === MULTICALL)).toBe(true);
+    expect(batches.reduce((sum, size) => sum + size, 0)).toBe(separate);
+  });
+
+  it('rejects only the reads that revert, with decodable errors', async () => {
+    const batched = client({ multicallAddress: MULTICALL });
+    const [missing, codes] = await Promise.allSettled([batched.proposals.getData(99), batched.dbtc.getDepartmentCodes()]);
+    expect(batches).toEqual([2]);
+    expect(missing).toMatchObject({ status: 'rejected', reason: expect.any(ProposalError) });
+    expect((missing as PromiseRejectedResult).reason.code).toBe('PROPOSAL_NOT_FOUND');
+    expect(codes).toEqual({ status: 'fulfilled', value: ['07', '35'] });
+  });
+
+  it('splits batches at the maximum size', async () => {
+    const agency = client({ multicallAddress: MULTICALL, maxBatchSize: 2 }).agency(node.book.departments['07'].mainAgency);
+    await Promise.all([agency.getInfo(), agency.getDocumentManagers()]);
+    expect(batches.length).toBeGreaterThan(1);
+    expect(Math.max(...batches)).toBeLessThanOrEqual(2);
+  });
+
+  it('falls back to separate calls when Multicall3 is not deployed', async () => {
+    const runner = new BatchingRunner(node.provider, { multicallAddress: ethers.Wallet.createRandom().address });
+    const dbtc = new ethers.Contract(node.book.dbtc, ['function getDepartmentCodes() view returns (string[])',
+      'function getDepartment(string) view returns (address)'], runner);
+
+    expect(await Promise.all([dbtc.getDepartmentCodes(), dbtc.getDepartment('07')]))
+      .toEqual([['07', '35'], node.book.departments['07'].address]);
+    expect(calls).toHaveLength(3);
+    // Not asked again
+    calls = [];
+    await Promise.all([dbtc.getDepartmentCodes(), dbtc.getDepartment('35')]);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('falls back to separate calls when the batch fails', async () => {
+    jest.restoreAllMocks();
+    const call = node.provider.call.bind(node.provider);
+    jest.spyOn(node.provider, 'call').mockImplementation(async (tx) => {
+      calls.push(tx);
+      if (tx.to === MULTICALL) {
+        throw new Error('request entity too large');
+      }
+      return call(tx);
+    });
+    const info = await client({ multicallAddress: MULTICALL }).department(node.book.departments['35'].address).getInfo();
+    expect(info).toMatchObject({ code: '35', isStandalone: true });
+    expect(calls.filter((tx) => tx.to !== MULTICALL).length).toBeGreaterThan(1);
+  });
+
+  it('passes calls with a sender or block tag straight through', async () => {
+    const runner = new BatchingRunner(node.provider, { multicallAddress: MULTICALL });
+    const data = new ethers.Interface(['function getDepartmentCodes()']).encodeFunctionData('getDepartmentCodes');
+    await Promise.all([
+      runner.call({ to: node.book.dbtc, data, from: node.accounts[0].address }),
+      runner.call({ to: node.book.dbtc, data, blockTag: 'latest' })
+    ]);
+    expect(batches).toEqual([]);
+    expect(calls).toHaveLength(2);
+  });
+});
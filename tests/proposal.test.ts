@@ -0,0 +1,71 @@
+import { ethers } from 'ethers';
+import { BudgetPhase, DBTCClient, ProposalStatus } from '../src';
+import { prepareProposalData } from '../src/utils';
+import AgencyABI from '../src/abis/Agency.json';
+import { useNode } from './helpers/node';
+
+const DATA = { prexcFpapId: '310100100001000', uacsObjCode: '5020101000', amount: 150000000n };
+
+describe('proposal reads', () => {
+  const node = useNode((addresses) => ({
+    departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }],
+    phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07' }
+  }));
+  let agency: string;
+  let submittedAt: Date;
+
+  beforeAll(async () => {
+    // Token 1, and its revision 2
+    agency = node.book.departments['07'].mainAgency;
+    const contract = new ethers.Contract(agency, AgencyABI.abi, node.accounts[1]);
+    await (await new ethers.Contract(node.book.dbtc, ['function startBudgetCall()'], node.accounts[1]).startBudgetCall()).wait();
+    const submitted = await (await contract.submitProposal('ipfs://v1', prepareProposalData(DATA))).wait();
+    submittedAt = new Date((await submitted.getBlock()).timestamp * 1000);
+    await (await contract.reviseProposal(1, 'ipfs://v2', prepareProposalData({ ...DATA, amount: 160000000n }), 'Updated costs')).wait();
+  });
+
+  it('decodes the proposal data', async () => {
+    expect(await node.client.proposals.getData(1)).toMatchObject({
+      fiscalYear: 2026,
+      departmentCode: '07',
+      agencyCode: '001',
+      prexcFpapId: DATA.prexcFpapId,
+      uacsObjCode: DATA.uacsObjCode,
+      amount: DATA.amount
+    });
+    expect((await node.client.proposals.getData(2)).amount).toBe(160000000n);
+  });
+
+  it('maps metadata and status to enums and dates', async () => {
+    // Revising marks the original as revised
+    expect(await node.client.proposals.getMetadata(1)).toEqual({
+      originTokenId: 1n,
+      status: ProposalStatus.REVISED,
+      submittedPhase: BudgetPhase.BUDGET_CALL,
+      submitter: agency,
+      createdAt: submittedAt
+    });
+    expect(await node.client.proposals.getStatus(2)).toBe(ProposalStatus.REVISED);
+    expect(await node.client.proposals.getURI(2)).toBe('ipfs://v2');
+  });
+
+  it('follows the revision chain', async () => {
+    expect(await node.client.proposals.getOrigin(2)).toBe(1n);
+    expect(await node.client.proposals.getLatestVersion(1)).toBe(2n);
+    expect(await node.client.proposals.getChildTokens(1)).toEqual([2n]);
+    expect(await node.client.proposals.getRevisionChain(2)).toEqual([1n, 2n]);
+
+    const [record] = await node.client.proposals.getRevisionHistory(2);
+    expect(record).toMatchObject({ previousTokenId: 1n, action: ProposalStatus.REVISED, reason: 'Updated costs' });
+    expect(record.timestamp).toBeInstanceOf(Date);
+    expect(await node.client.proposals.getRevisionHistory(1)).toEqual([]);
+  });
+
+  it('finds the contract through the DBTC registry when no address is configured', async () => {
+    // No bundled mainnet deployment
+    const client = new DBTCClient({ chainMode: 'mainnet', provider: node.provider, addresses: { dbtc: node.book.dbtc } });
+    expect(await client.proposals.getAddress()).toBe(node.book.budgetProposal);
+    expect(await client.proposals.getURI(1)).toBe('ipfs://v1');
+    expect(await client.proposals.at(node.book.budgetProposal).getURI(1)).toBe('ipfs://v1');
+  });
+});
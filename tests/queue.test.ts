@@ -0,0 +1,126 @@
+import { ethers } from 'ethers';
+import { DBTCClient, TransactionError, TransactionQueue } from '../src';
+import { useNode } from './helpers/node';
+
+/**
+ * Provider whose next nonce is `count` (both latest and pending)
+ */
+const stubProvider = (count: { value: number }) => ({
+  getTransactionCount: async () => count.value
+}) as unknown as ethers.Provider;
+
+const fakeTx = (nonce: number) => ({ nonce, hash: `0x${nonce.toString(16).padStart(64, '0')}` }) as ethers.TransactionResponse;
+
+describe('TransactionQueue', () => {
+  const address = ethers.Wallet.createRandom().address;
+
+  it('sends in call order with consecutive nonces', async () => {
+    const queue = new TransactionQueue(stubProvider({ value: 4 }), address);
+    const nonces: number[] = [];
+    const send = async (nonce: number) => {
+      nonces.push(nonce);
+      return fakeTx(nonce);
+    };
+    const results = await Promise.all([1, 2, 3].map(() => queue.enqueue(send, async (tx) => tx.nonce)));
+    expect(nonces).toEqual([4, 5, 6]);
+    expect(results).toEqual([4, 5, 6]);
+    expect(queue).toMatchObject({ depth: 0, pending: [] });
+  });
+
+  it('gives the nonce of a failed send to the next one', async () => {
+    const queue = new TransactionQueue(stubProvider({ value: 0 }), address);
+    await expect(queue.enqueue(() => Promise.reject(new Error('rejected by wallet')), async () => 0))
+      .rejects.toThrow('rejected by wallet');
+    expect(await queue.enqueue(async (nonce) => fakeTx(nonce), async (tx) => tx.nonce)).toBe(0);
+  });
+
+  it('fills the gap left by a dropped transaction', async () => {
+    const queue = new TransactionQueue(stubProvider({ value: 0 }), address);
+    const dropped = new TransactionError('TRANSACTION_DROPPED', 'dropped');
+    await expect(queue.enqueue(async (nonce) => fakeTx(nonce), () => Promise.reject(dropped))).rejects.toBe(dropped);
+    expect(await queue.enqueue(async (nonce) => fakeTx(nonce), async (tx) => tx.nonce)).toBe(0);
+    // Other failures keep the nonce used
+    await expect(queue.enqueue(async (nonce) => fakeTx(nonce), () => Promise.reject(new Error('reverted')))).rejects.toThrow();
+    expect(await queue.enqueue(async (nonce) => fakeTx(nonce), async (tx) => tx.nonce)).toBe(2);
+  });
+
+  it('keeps at most maxPending transactions unconfirmed', async () => {
+    const queue = new TransactionQueue(stubProvider({ value: 0 }), address, { maxPending: 1 });
+    let confirm!: () => void;
+    const first = queue.enqueue(async (nonce) => fakeTx(nonce), () => new Promise<void>((resolve) => { confirm = resolve; }));
+    const send = jest.fn(async (nonce: number) => fakeTx(nonce));
+    const second = queue.enqueue(send, async () => undefined);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(queue.depth).toBe(1);
+    expect(queue.pending).toEqual([expect.objectContaining({ nonce: 0, sentAt: expect.any(Date) })]);
+    expect(send).not.toHaveBeenCalled();
+    confirm();
+    await Promise.all([first, second]);
+    expect(send).toHaveBeenCalledWith(1);
+  });
+
+  it('resyncs with the chain on demand', async () => {
+    const count = { value: 0 };
+    const queue = new TransactionQueue(stubProvider(count), address);
+    await queue.enqueue(async (nonce) => fakeTx(nonce), async () => 0);
+    count.value = 5;
+    await queue.resync();
+    expect(await queue.enqueue(async (nonce) => fakeTx(nonce), async (tx) => tx.nonce)).toBe(5);
+  });
+
+  it('never resyncs below an unconfirmed transaction', async () => {
+    const count = { value: 0 };
+    const queue = new TransactionQueue(stubProvider(count), address);
+    let confirm!: () => void;
+    const first = queue.enqueue(async (nonce) => fakeTx(nonce), () => new Promise<void>((resolve) => { confirm = resolve; }));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await queue.resync();
+    expect(await queue.enqueue(async (nonce) => fakeTx(nonce), async (tx) => tx.nonce)).toBe(1);
+    confirm();
+    await first;
+  });
+});
+
+describe('queued writes', () => {
+  const node = useNode((addresses) => ({
+    departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }]
+  }));
+
+  const queuedClient = () => new DBTCClient({
+    chainMode: 'testnet',
+    provider: node.provider,
+    addresses: { dbtc: node.book.dbtc, budgetProposal: node.book.budgetProposal },
+    privateKey: node.privateKeys[1],
+    transactions: { queue: true, pollingInterval: 20 }
+  });
+
+  it('sends concurrent writes of one key without nonce collisions', async () => {
+    const client = queuedClient();
+    const agency = client.agency(node.book.departments['07'].mainAgency);
+    const managers = Array.from({ length: 4 }, () => ethers.Wallet.createRandom().address);
+    const results = await Promise.all(managers.map((manager) => agency.addDocumentManager(manager)));
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(await agency.getDocumentManagers()).toEqual(expect.arrayContaining(managers));
+  });
+
+  it('resyncs and retries once when the key was used elsewhere', async () => {
+    const client = queuedClient();
+    const agency = client.agency(node.book.departments['07'].mainAgency);
+    await agency.addDocumentManager(ethers.Wallet.createRandom().address);
+
+    // Same key, outside the queue
+    const wallet = new ethers.Wallet(node.privateKeys[1], node.provider);
+    await (await wallet.sendTransaction({ to: wallet.address })).wait();
+
+    const queue = await client.transactions.getQueue(wallet);
+    const nonces: number[] = [];
+    const result = await queue.enqueue(async (nonce) => {
+      nonces.push(nonce);
+      return wallet.sendTransaction({ to: wallet.address, nonce });
+    }, (tx) => client.transactions.wait(tx));
+    expect(result.success).toBe(true);
+    expect(nonces).toEqual([nonces[0], nonces[0] + 1]);
+    expect(await agency.addDocumentManager(ethers.Wallet.createRandom().address)).toMatchObject({ success: true });
+  });
+});
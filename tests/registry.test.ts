@@ -0,0 +1,120 @@
+import { BudgetPhase, getPhaseName, registrySnapshotToJSON } from '../src';
+import { createLimiter } from '../src/utils';
+import { useNode } from './helpers/node';
+
+describe('createLimiter', () => {
+  it('runs at most the given number of tasks at once, in order', async () => {
+    const limit = createLimiter(2);
+    let running = 0;
+    let peak = 0;
+    const started: number[] = [];
+    const results = await Promise.all([1, 2, 3, 4, 5].map((n) => limit(async () => {
+      started.push(n);
+      peak = Math.max(peak, ++running);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      running--;
+      return n * 10;
+    })));
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+
+  it('frees the slot of a failed task', async () => {
+    const limit = createLimiter(1);
+    await expect(limit(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limit(async () => 'next')).resolves.toBe('next');
+  });
+});
+
+describe('registry snapshot', () => {
+  const node = useNode((addresses) => ({
+    departments: [
+      {
+        code: '07',
+        name: 'Department of Education',
+        owner: addresses[1],
+        documentManagers: [addresses[2]],
+        agencies: [{ code: '002', name: 'Bureau of Learning Delivery', owner: addresses[3] }]
+      },
+      {
+        code: '01',
+        name: 'Congress of the Philippines',
+        owner: addresses[4],
+        agencies: [
+          { code: '002', name: 'House of Representatives', owner: addresses[5] },
+          { code: '003', name: 'Senate', owner: addresses[6] }
+        ],
+        house: '002',
+        senate: '003'
+      },
+      { code: '35', name: 'Commission on Audit', owner: addresses[7], standalone: true }
+    ],
+    phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07' }
+  }));
+
+  it('reads the organisational tree', async () => {
+    const snapshot = await node.client.registry.getSnapshot();
+    const [education, congress, audit] = snapshot.departments;
+    const { departments } = node.book;
+    const addresses = node.accounts.map((account) => account.address);
+
+    expect(snapshot).toMatchObject({
+      dbtc: node.book.dbtc,
+      owner: addresses[0],
+      budgetProposal: node.book.budgetProposal,
+      currentPhase: BudgetPhase.PRE_BUDGET,
+      blockNumber: await node.provider.getBlockNumber()
+    });
+    expect(education).toMatchObject({
+      address: departments['07'].address,
+      code: '07',
+      mainAgency: departments['07'].mainAgency,
+      isStandalone: false,
+      isActualDepartment: true,
+      isCongress: false,
+      houseAgency: null,
+      senateAgency: null
+    });
+    expect(education.agencies).toEqual([
+      expect.objectContaining({ code: '001', owner: addresses[1], documentManagers: [addresses[1], addresses[2]] }),
+      expect.objectContaining({
+        code: '002',
+        name: 'Bureau of Learning Delivery',
+        address: departments['07'].agencies['002'],
+        owner: addresses[3]
+      })
+    ]);
+    expect(congress).toMatchObject({
+      isCongress: true,
+      houseAgency: departments['01'].agencies['002'],
+      senateAgency: departments['01'].agencies['003']
+    });
+    expect(audit).toMatchObject({ code: '35', isStandalone: true, owner: addresses[7] });
+  });
+
+  it('maps every phase to its responsible department', async () => {
+    const { phaseResponsibilities } = await node.client.registry.getSnapshot();
+    const phases = Object.values(BudgetPhase).filter((value) => typeof value === 'number');
+    expect(phaseResponsibilities).toHaveLength(phases.length);
+    expect(phaseResponsibilities.slice(0, 3)).toEqual([
+      { phase: BudgetPhase.PRE_BUDGET, phaseName: getPhaseName(BudgetPhase.PRE_BUDGET), deptCode: '07' },
+      { phase: BudgetPhase.BUDGET_CALL, phaseName: getPhaseName(BudgetPhase.BUDGET_CALL), deptCode: '07' },
+      expect.objectContaining({ deptCode: '' })
+    ]);
+  });
+
+  it('gives the same tree with any concurrency', async () => {
+    const { takenAt: _parallel, ...parallel } = await node.client.registry.getSnapshot({ concurrency: 16 });
+    const { takenAt: _sequential, ...sequential } = await node.client.registry.getSnapshot({ concurrency: 1 });
+    expect(sequential).toEqual(parallel);
+  });
+
+  it('exports to JSON', async () => {
+    const snapshot = await node.client.registry.getSnapshot();
+    const json = registrySnapshotToJSON(snapshot);
+    expect(json).toContain('\n  "dbtc"');
+    expect(JSON.parse(json)).toEqual({ ...snapshot, takenAt: snapshot.takenAt.toISOString() });
+    expect(registrySnapshotToJSON(snapshot, 0)).not.toContain('\n');
+  });
+});
@@ -0,0 +1,57 @@
+import { BudgetPhase } from '../src';
+import { withNodes } from './helpers/node';
+
+withNodes('roles on the %s', (addresses) => ({
+  departments: [
+    { code: '07', name: 'Department of Education', owner: addresses[1], documentManagers: [addresses[3]] },
+    { code: '35', name: 'Commission on Audit', owner: addresses[2], standalone: true }
+  ],
+  phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07' }
+}), (node) => {
+  it.each([
+    ['regular', '07', 1],
+    ['standalone', '35', 2]
+  ])('names the owner of a %s department for its writes', async (_, deptCode, owner) => {
+    const department = node.book.departments[deptCode].address;
+    const { holders } = await node.client.roles.whoCan('addAgency', department);
+    expect(holders).toEqual([{ address: node.accounts[owner].address, role: 'departmentOwner' }]);
+
+    const holder = node.accounts.find((account) => account.address === holders[0].address);
+    const result = await node.client.department(department).simulateAddAgency('099', 'Regional Office', node.accounts[7].address, holder);
+    expect(result.error).toBeUndefined();
+  });
+
+  it('resolves the roles of an address across the registry', async () => {
+    const deped = node.book.departments['07'];
+    const owner = await node.client.roles.resolveRoles(node.accounts[1].address);
+    expect(owner.currentPhase).toBe(BudgetPhase.PRE_BUDGET);
+    // Agency owners are document managers of their agency too
+    expect(owner.roles.map((role) => role.role))
+      .toEqual(['departmentOwner', 'phaseResponsible', 'phaseResponsible', 'agencyOwner', 'documentManager']);
+    expect(owner.roles[3]).toMatchObject({ entity: deped.mainAgency, entityType: 'agency', deptCode: '07', agencyCode: '001' });
+    expect(owner.allowedActions).toEqual(expect.arrayContaining(['startBudgetCall', 'addAgency', 'addDocumentManager']));
+    expect(owner.allowedActions).not.toContain('advancePhase');
+
+    const manager = await node.client.roles.resolveRoles(node.accounts[3].address);
+    expect(manager.roles).toEqual([expect.objectContaining({ role: 'documentManager', entity: deped.mainAgency })]);
+    // Proposals open with the Budget Call
+    expect(manager.allowedActions).toEqual([]);
+
+    expect(await node.client.roles.resolveRoles(node.accounts[9].address)).toMatchObject({ roles: [], allowedActions: [] });
+  });
+
+  it('lists the writers of an agency', async () => {
+    const { mainAgency } = node.book.departments['07'];
+    expect(await node.client.roles.whoCan('submitProposal', mainAgency)).toMatchObject({
+      entityType: 'agency',
+      allowedInCurrentPhase: false,
+      holders: [
+        { address: node.accounts[1].address, role: 'agencyOwner' },
+        { address: node.accounts[1].address, role: 'documentManager' },
+        { address: node.accounts[3].address, role: 'documentManager' }
+      ]
+    });
+    expect(await node.client.roles.whoCan('submitProposal', node.accounts[9].address))
+      .toMatchObject({ entityType: null, holders: [] });
+  });
+});
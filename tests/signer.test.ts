@@ -0,0 +1,87 @@
+import { ethers } from 'ethers';
+import {
+  AdapterSigner,
+  DBTCClient,
+  SignerAdapter,
+  localSignerAdapter,
+  signerFromKeystore,
+  toSigner
+} from '../src';
+import { useNode } from './helpers/node';
+
+const wallet = ethers.Wallet.createRandom();
+const other = ethers.Wallet.createRandom();
+
+describe('AdapterSigner', () => {
+  const signer = new AdapterSigner(localSignerAdapter(wallet.privateKey));
+
+  it('signs messages and typed data that recover to the adapter address', async () => {
+    expect(await signer.getAddress()).toBe(wallet.address);
+    expect(ethers.verifyMessage('hello', await signer.signMessage('hello'))).toBe(wallet.address);
+
+    const domain = { name: 'DBTC', chainId: 80002 };
+    const types = { Approval: [{ name: 'tokenId', type: 'uint256' }] };
+    const signature = await signer.signTypedData(domain, types, { tokenId: 1 });
+    expect(ethers.verifyTypedData(domain, types, { tokenId: 1 }, signature)).toBe(wallet.address);
+  });
+
+  it('signs transactions from the adapter address', async () => {
+    const serialized = await signer.signTransaction({ to: other.address, value: 1n, chainId: 80002n, nonce: 0, gasLimit: 21000n });
+    const tx = ethers.Transaction.from(serialized);
+    expect(tx.from).toBe(wallet.address);
+    expect(tx.to).toBe(other.address);
+    await expect(signer.signTransaction({ to: other.address, from: other.address }))
+      .rejects.toThrow(`Transaction from address ${other.address} does not match signer ${wallet.address}`);
+  });
+
+  it('rejects signatures of another key', async () => {
+    const adapter: SignerAdapter = { getAddress: async () => wallet.address, signDigest: localSignerAdapter(other.privateKey).signDigest };
+    await expect(new AdapterSigner(adapter).signMessage('hello'))
+      .rejects.toThrow(`Signer adapter returned a signature for ${other.address}, expected ${wallet.address}`);
+  });
+});
+
+describe('signer inputs', () => {
+  it('wraps adapters and passes ethers signers through', () => {
+    expect(toSigner(wallet)).toBe(wallet);
+    expect(toSigner(localSignerAdapter(wallet.privateKey))).toBeInstanceOf(AdapterSigner);
+  });
+
+  it('decrypts keystores', async () => {
+    const json = await ethers.encryptKeystoreJson({ address: wallet.address, privateKey: wallet.privateKey }, 'secret', { scrypt: { N: 1 << 10 } });
+    const provider = new ethers.JsonRpcProvider();
+    const signer = await signerFromKeystore(json, 'secret', provider);
+    expect(await signer.getAddress()).toBe(wallet.address);
+    expect(signer.provider).toBe(provider);
+    provider.destroy();
+  });
+});
+
+describe('writes with pluggable signers', () => {
+  const node = useNode((addresses) => ({
+    departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }]
+  }));
+  const managers = () => node.accounts.slice(5, 8).map((account) => account.address);
+
+  it('accept adapters, provider signers and private keys per call', async () => {
+    const agency = node.client.agency(node.book.departments['07'].mainAgency);
+    const [adapted, browser, keyed] = managers();
+    await agency.addDocumentManager(adapted, localSignerAdapter(node.privateKeys[1]));
+    // Keeps its own provider, like a browser wallet signer
+    await agency.addDocumentManager(browser, node.accounts[1]);
+    await agency.addDocumentManager(keyed, node.privateKeys[1]);
+    expect(await agency.getDocumentManagers()).toEqual([node.accounts[1].address, adapted, browser, keyed]);
+  });
+
+  it('fall back to the client signer', async () => {
+    const client = new DBTCClient({
+      chainMode: 'testnet',
+      provider: node.provider,
+      addresses: node.client.addresses,
+      signer: localSignerAdapter(node.privateKeys[1])
+    });
+    const agency = client.agency(node.book.departments['07'].mainAgency);
+    await agency.removeDocumentManager(managers()[0]);
+    expect(await agency.isDocumentManager(managers()[0])).toBe(false);
+  });
+});
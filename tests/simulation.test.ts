@@ -0,0 +1,60 @@
+import { BudgetPhase, PermissionError, PhaseError } from '../src';
+import { useNode } from './helpers/node';
+
+const DATA = { prexcFpapId: '310100100001000', uacsObjCode: '5020101000', amount: 150000000n };
+
+describe('simulated writes', () => {
+  const node = useNode((addresses) => ({
+    departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }],
+    phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07' }
+  }));
+
+  it('reports the return value and gas without sending', async () => {
+    const simulated = await node.client.dbtc.simulateAddRegularDepartment('08', 'Department of Health', 'Office of the Secretary',
+      node.accounts[2].address, node.privateKeys[0]);
+    expect(simulated).toMatchObject({ success: true, returnValue: expect.stringMatching(/^0x[0-9a-fA-F]{40}$/) });
+    expect(simulated.gasEstimate).toBeGreaterThan(0n);
+    expect(await node.client.dbtc.getDepartment('08')).toBe('0x0000000000000000000000000000000000000000');
+  });
+
+  it('predicts the address of the created contract', async () => {
+    const department = node.client.department(node.book.departments['07'].address);
+    const simulated = await department.simulateAddAgency('002', 'Bureau of Learning Delivery',
+      node.accounts[3].address, node.privateKeys[1]);
+    const { agencyAddress } = await department.addAgency('002', 'Bureau of Learning Delivery',
+      node.accounts[3].address, node.privateKeys[1]);
+    expect(simulated.returnValue).toBe(agencyAddress);
+  });
+
+  it('omits the return value of methods without outputs', async () => {
+    const simulated = await node.client.dbtc.simulateAssignPhaseResponsibility(BudgetPhase.TECHNICAL_REVIEW, '07', node.privateKeys[0]);
+    expect(simulated.success).toBe(true);
+    expect(simulated).not.toHaveProperty('returnValue', expect.anything());
+  });
+
+  it('decodes the revert reason instead of throwing', async () => {
+    const unauthorized = await node.client.dbtc.simulateStartBudgetCall(node.privateKeys[5]);
+    expect(unauthorized.success).toBe(false);
+    expect(unauthorized.error).toBeInstanceOf(PermissionError);
+
+    const agency = node.client.agency(node.book.departments['07'].mainAgency);
+    const early = await agency.simulateSubmitProposal('ipfs://proposal', DATA, node.privateKeys[1]);
+    expect(early.success).toBe(false);
+    expect(early.error).toBeInstanceOf(PhaseError);
+    expect(early.error?.message).toBe('Action not allowed in phase Pre-Budget');
+    expect(early.gasEstimate).toBeUndefined();
+  });
+
+  it('simulates with the caller of the real transaction', async () => {
+    await node.client.dbtc.startBudgetCall(node.privateKeys[1]);
+    expect(await node.client.dbtc.getCurrentPhase()).toBe(BudgetPhase.BUDGET_CALL);
+
+    const agency = node.client.agency(node.book.departments['07'].mainAgency);
+    const simulated = await agency.simulateSubmitProposal('ipfs://proposal', DATA, node.privateKeys[1]);
+    expect(simulated).toMatchObject({ success: true, returnValue: 1n });
+    expect((await agency.submitProposal('ipfs://proposal', DATA, node.privateKeys[1])).tokenId).toBe(1n);
+
+    const stranger = await agency.simulateSubmitProposal('ipfs://proposal', DATA, node.privateKeys[6]);
+    expect(stranger.error).toBeInstanceOf(PermissionError);
+  });
+});
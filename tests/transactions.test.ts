@@ -0,0 +1,154 @@
+import { ethers } from 'ethers';
+import {
+  BudgetPhase,
+  DBTCClient,
+  TransactionError,
+  TransactionManager,
+  TransactionOptions,
+  TransactionReplacement
+} from '../src';
+import DBTCABI from '../src/abis/DBTC.json';
+import { useNode } from './helpers/node';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('TransactionManager', () => {
+  const node = useNode((addresses) => ({
+    departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }]
+  }));
+
+  const clientWith = (transactions: TransactionOptions) => new DBTCClient({
+    chainMode: 'testnet',
+    provider: node.provider,
+    addresses: { dbtc: node.book.dbtc, budgetProposal: node.book.budgetProposal },
+    transactions: { pollingInterval: 20, ...transactions }
+  });
+  const assign = (client: DBTCClient) =>
+    client.dbtc.assignPhaseResponsibility(BudgetPhase.BUDGET_CALL, '07', node.privateKeys[0]);
+  /** Hold new transactions in the pool until `mine()` */
+  const holdBlocks = () => node.provider.send('miner_stop', []);
+  const mine = () => node.provider.send('miner_start', []);
+  const until = async (condition: () => boolean) => {
+    while (!condition()) {
+      await sleep(20);
+    }
+  };
+
+  afterEach(() => mine());
+
+  it('applies the fee strategy and reports the lifecycle', async () => {
+    const events: string[] = [];
+    const sent: ethers.TransactionResponse[] = [];
+    const client = clientWith({
+      fees: 'fast',
+      onSent: (tx) => {
+        events.push('sent');
+        sent.push(tx);
+      },
+      onMined: () => events.push('mined'),
+      onConfirmed: (_, confirmations) => events.push(`confirmed ${confirmations}`)
+    });
+    const priorityFee = (await node.provider.getFeeData()).maxPriorityFeePerGas!;
+
+    const result = await assign(client);
+    expect(result).toMatchObject({ success: true, txHash: sent[0].hash });
+    expect(events).toEqual(['sent', 'mined', 'confirmed 1']);
+    expect(sent[0].maxPriorityFeePerGas).toBe(priorityFee * 125n / 100n);
+  });
+
+  it('caps fees at the max fee per gas', async () => {
+    const client = clientWith({ fees: () => ({ maxFeePerGas: 10n ** 12n, maxPriorityFeePerGas: 10n ** 12n }), maxFeePerGas: 10n ** 10n });
+    expect(await client.transactions.getFeeOverrides()).toEqual({ maxFeePerGas: 10n ** 10n, maxPriorityFeePerGas: 10n ** 10n });
+  });
+
+  it('refuses contracts without a signer', async () => {
+    const contract = new ethers.Contract(node.book.dbtc, DBTCABI.abi, node.provider);
+    const send = jest.fn(() => contract.advancePhase());
+    await expect(node.client.transactions.send(contract, send)).rejects.toMatchObject({ code: 'NO_SIGNER' });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('resubmits unmined transactions with higher fees', async () => {
+    const replacements: TransactionReplacement[] = [];
+    const client = clientWith({
+      bumpAfter: 100,
+      bumpPercent: 20,
+      // No further version can be sent while the block is mined
+      maxBumps: 2,
+      onReplaced: (replacement) => replacements.push(replacement)
+    });
+    await holdBlocks();
+    const pending = assign(client);
+    await until(() => replacements.length === 2);
+    await mine();
+
+    const result = await pending;
+    const [first, second] = replacements;
+    expect(first).toMatchObject({ reason: 'repriced', replacement: { nonce: first.previous.nonce } });
+    expect(first.replacement!.maxFeePerGas).toBe(first.previous.maxFeePerGas! * 120n / 100n);
+    expect(second.previous.hash).toBe(first.replacement!.hash);
+    // Whichever version is mined counts
+    expect([first.previous.hash, first.replacement!.hash, second.replacement!.hash]).toContain(result.txHash);
+    expect(result.success).toBe(true);
+  });
+
+  it('stops resubmitting after maxBumps', async () => {
+    const onReplaced = jest.fn();
+    await holdBlocks();
+    const pending = assign(clientWith({ bumpAfter: 20, maxBumps: 1, onReplaced }));
+    await until(() => onReplaced.mock.calls.length > 0);
+    // Time for further bumps, were they allowed
+    await sleep(300);
+    await mine();
+    await pending;
+    expect(onReplaced).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not resubmit when the fee cap leaves no room', async () => {
+    const { maxFeePerGas } = await clientWith({ fees: 'standard' }).transactions.getFeeOverrides();
+    const onReplaced = jest.fn();
+    await holdBlocks();
+    const pending = assign(clientWith({ fees: 'standard', maxFeePerGas, bumpAfter: 20, onReplaced }));
+    await sleep(300);
+    await mine();
+    expect((await pending).success).toBe(true);
+    expect(onReplaced).not.toHaveBeenCalled();
+  });
+
+  it('fails when another transaction takes the nonce', async () => {
+    const sender = new ethers.Wallet(node.privateKeys[0], node.provider);
+    let sent: ethers.TransactionResponse | undefined;
+    const onReplaced = jest.fn();
+    await holdBlocks();
+    const pending = clientWith({ onSent: (tx) => { sent = tx; }, onReplaced })
+      .dbtc.assignPhaseResponsibility(BudgetPhase.BUDGET_CALL, '07', sender);
+    await until(() => sent !== undefined);
+
+    const fee = sent!.maxFeePerGas! * 2n;
+    await sender.sendTransaction({ to: sender.address, nonce: sent!.nonce, maxFeePerGas: fee, maxPriorityFeePerGas: fee });
+    await mine();
+
+    await expect(pending).rejects.toMatchObject({ code: 'TRANSACTION_REPLACED', txHash: sent!.hash });
+    expect(onReplaced).toHaveBeenCalledWith({ previous: sent, replacement: null, reason: 'replaced' });
+  });
+
+  it('times out', async () => {
+    await holdBlocks();
+    const error = await assign(clientWith({ timeout: 100 })).catch((e) => e);
+    expect(error).toBeInstanceOf(TransactionError);
+    expect(error).toMatchObject({ code: 'TRANSACTION_TIMEOUT', txHash: expect.stringMatching(/^0x/) });
+  });
+
+  it('reports transactions the node forgot as dropped', async () => {
+    const provider = {
+      getTransactionReceipt: async () => null,
+      getTransactionCount: async () => 5,
+      getTransaction: async () => null
+    } as unknown as ethers.Provider;
+    const onDropped = jest.fn();
+    const tx = { hash: '0x01', from: ethers.ZeroAddress, nonce: 5 } as ethers.TransactionResponse;
+    await expect(new TransactionManager(provider, { droppedAfter: 0, pollingInterval: 1, onDropped }).wait(tx))
+      .rejects.toMatchObject({ code: 'TRANSACTION_DROPPED', txHash: '0x01' });
+    expect(onDropped).toHaveBeenCalledWith(tx);
+  });
+});
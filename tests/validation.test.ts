@@ -0,0 +1,161 @@
+import {
+  DBTCClient,
+  ValidationError,
+  addProposalRule,
+  assertValidProposal,
+  validateAgencyCode,
+  validateAmount,
+  validateDepartmentCode,
+  validatePrexcFpapId,
+  validateProposalData,
+  validateUacsObjectCode
+} from '../src';
+import { getDefaultProposalRules } from '../src/client';
+import { useNode } from './helpers/node';
+
+const DATA = { prexcFpapId: '310100100001000', uacsObjCode: '5020101000', amount: 150000000n };
+
+describe('field rules', () => {
+  it.each(['5020101000', '5-02-01-010-00'])('accepts UACS object code %s', (code) => {
+    expect(validateUacsObjectCode(code)).toBeNull();
+  });
+
+  it.each([
+    ['502010100', 'INVALID_FORMAT'],
+    ['50201010000', 'INVALID_FORMAT'],
+    ['5-0201-010-00', 'INVALID_FORMAT'],
+    ['502010100a', 'INVALID_FORMAT'],
+    ['', 'REQUIRED'],
+    [5020101000, 'REQUIRED']
+  ])('rejects UACS object code %p', (code, rule) => {
+    expect(validateUacsObjectCode(code)).toMatchObject({ field: 'uacsObjCode', code: rule });
+  });
+
+  it.each(['310100100001000', '100000100001000.A', 'MOOE/2026-01'])('accepts PREXC/FPAP identifier %s', (id) => {
+    expect(validatePrexcFpapId(id)).toBeNull();
+  });
+
+  it.each([
+    ['3101 0010', 'INVALID_FORMAT'],
+    ['.310100', 'INVALID_FORMAT'],
+    ['310100-', 'INVALID_FORMAT'],
+    ['3101--00', 'INVALID_FORMAT'],
+    ['1'.repeat(32), 'TOO_LONG'],
+    ['  ', 'REQUIRED']
+  ])('rejects PREXC/FPAP identifier %p', (id, rule) => {
+    expect(validatePrexcFpapId(id)).toMatchObject({ field: 'prexcFpapId', code: rule });
+  });
+
+  it('checks registry codes', () => {
+    expect(validateDepartmentCode('07')).toBeNull();
+    expect(validateDepartmentCode('7')).toMatchObject({ field: 'deptCode', code: 'INVALID_FORMAT' });
+    expect(validateAgencyCode('001')).toBeNull();
+    expect(validateAgencyCode('0001', 'code')).toMatchObject({ field: 'code', code: 'INVALID_FORMAT' });
+  });
+
+  it('accepts non-negative whole amounts', () => {
+    expect(validateAmount(0n)).toBeNull();
+    expect(validateAmount(150000)).toBeNull();
+    expect(validateAmount(' 150000 ')).toBeNull();
+    expect(validateAmount(-1)).toMatchObject({ code: 'NEGATIVE' });
+    expect(validateAmount('-1')).toMatchObject({ code: 'NEGATIVE' });
+    expect(validateAmount('1.50')).toMatchObject({ code: 'NOT_WHOLE_NUMBER' });
+    expect(validateAmount(1.5)).toMatchObject({ code: 'NOT_WHOLE_NUMBER' });
+    expect(validateAmount(2 ** 53)).toMatchObject({ code: 'NOT_WHOLE_NUMBER' });
+    expect(validateAmount(2n ** 256n)).toMatchObject({ code: 'TOO_LARGE' });
+  });
+});
+
+describe('validateProposalData', () => {
+  it('lists every failing field', () => {
+    expect(validateProposalData({ prexcFpapId: '', uacsObjCode: '502', amount: -5 })).toEqual([
+      { field: 'prexcFpapId', code: 'REQUIRED', message: 'is required' },
+      { field: 'uacsObjCode', code: 'INVALID_FORMAT', message: '"502" is not a 10-digit UACS object code' },
+      { field: 'amount', code: 'NEGATIVE', message: 'must not be negative' }
+    ]);
+  });
+
+  it('runs custom rules on valid amounts, as bigints', () => {
+    const rule = jest.fn((data: { amount: bigint }) => data.amount > 100n
+      ? { field: 'amount', code: 'ABOVE_CEILING', message: 'exceeds the ceiling' }
+      : null);
+    expect(validateProposalData({ ...DATA, amount: '150' }, 2, [rule])).toEqual([
+      { field: 'amount', code: 'ABOVE_CEILING', message: 'exceeds the ceiling' }
+    ]);
+    expect(rule).toHaveBeenCalledWith({ ...DATA, amount: 150n });
+
+    expect(validateProposalData({ ...DATA, amount: 'x' }, 2, [rule])).toHaveLength(1);
+    expect(rule).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws one error for every field of a write', () => {
+    let error: unknown;
+    try {
+      assertValidProposal(' ', { ...DATA, uacsObjCode: '1' });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({
+      code: 'VALIDATION_FAILED',
+      message: 'uri: is required; uacsObjCode: "1" is not a 10-digit UACS object code',
+      fieldErrors: [{ field: 'uri' }, { field: 'uacsObjCode' }]
+    });
+  });
+});
+
+describe('proposal rules of clients', () => {
+  it('keeps rules per client', () => {
+    const rule = () => ({ field: 'prexcFpapId', code: 'UNKNOWN_PAP', message: 'is not in the GAA' });
+    const client = new DBTCClient({ chainMode: 'testnet', apiKey: 'key', proposalRules: [rule] });
+    const other = new DBTCClient({ chainMode: 'testnet', apiKey: 'key' });
+    expect(client.validateProposalData(DATA)).toHaveLength(1);
+    expect(other.validateProposalData(DATA)).toEqual([]);
+
+    const remove = other.addProposalRule(rule);
+    expect(other.validateProposalData(DATA)).toHaveLength(1);
+    remove();
+    expect(other.proposalRules).toEqual([]);
+  });
+
+  it('adds module-level rules to the default client', () => {
+    const rule = () => null;
+    const remove = addProposalRule(rule);
+    expect(getDefaultProposalRules()).toContain(rule);
+    remove();
+    expect(getDefaultProposalRules()).not.toContain(rule);
+  });
+});
+
+describe('validated writes', () => {
+  const node = useNode((addresses) => ({
+    departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }],
+    phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07' }
+  }));
+
+  beforeAll(() => node.client.dbtc.startBudgetCall(node.privateKeys[1]));
+
+  it('rejects invalid proposals before sending', async () => {
+    const agency = node.client.agency(node.book.departments['07'].mainAgency);
+    const nonce = await node.provider.getTransactionCount(node.accounts[1].address);
+    await expect(agency.submitProposal('ipfs://proposal', { ...DATA, amount: -1 }, node.privateKeys[1]))
+      .rejects.toThrow(ValidationError);
+    await expect(agency.reviseProposal(1, '', DATA, 'typo', node.privateKeys[1]))
+      .rejects.toMatchObject({ fieldErrors: [{ field: 'uri', code: 'REQUIRED' }] });
+    expect(await node.provider.getTransactionCount(node.accounts[1].address)).toBe(nonce);
+  });
+
+  it('applies the rules of the client', async () => {
+    const agency = node.client.agency(node.book.departments['07'].mainAgency);
+    const remove = node.client.addProposalRule((data) => data.amount > 100000000n
+      ? { field: 'amount', code: 'ABOVE_CEILING', message: 'exceeds the agency ceiling' }
+      : null);
+    try {
+      await expect(agency.submitProposal('ipfs://proposal', DATA, node.privateKeys[1]))
+        .rejects.toMatchObject({ fieldErrors: [{ code: 'ABOVE_CEILING' }] });
+    } finally {
+      remove();
+    }
+    expect((await agency.submitProposal('ipfs://proposal', DATA, node.privateKeys[1])).tokenId).toBe(1n);
+  });
+});
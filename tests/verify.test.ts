@@ -0,0 +1,128 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { ethers } from 'ethers';
+import {
+  IpfsResolver,
+  MemoryMetadataStore,
+  MetadataResolver,
+  ProposalDocument,
+  ProposalDocumentBuilder,
+  ProposalVerifier,
+  computeCid,
+  serializeProposalDocument,
+  toProposalData,
+  uploadProposalDocument
+} from '../src';
+import { useNode } from './helpers/node';
+
+describe('verifyProposal', () => {
+  const node = useNode((addresses) => ({
+    departments: [{ code: '07', name: 'Department of Education', owner: addresses[1] }],
+    phaseResponsibilities: { PRE_BUDGET: '07', BUDGET_CALL: '07' }
+  }));
+  const store = new MemoryMetadataStore();
+  let dir: string;
+  let metadata: ProposalDocument;
+
+  const submit = async (uri: string, document: ProposalDocument = metadata) => {
+    const agency = node.client.agency(node.book.departments['07'].mainAgency);
+    return (await agency.submitProposal(uri, toProposalData(document), node.privateKeys[1])).tokenId;
+  };
+  const verifier = (...resolvers: MetadataResolver[]) =>
+    new ProposalVerifier(node.client, { resolvers: [...resolvers, new IpfsResolver({ store, gateway: 'http://127.0.0.1:9' })] });
+  const failed = (report: { mismatches: Array<{ check: string }> }) => report.mismatches.map((check) => check.check);
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'gov-sdk-verify-'));
+    await node.client.dbtc.startBudgetCall(node.privateKeys[1]);
+    metadata = new ProposalDocumentBuilder()
+      .agency('07', '001')
+      .fiscalYear(await node.client.dbtc.getCurrentFiscalYear())
+      .title('Classroom construction')
+      .classification('310100100001000', '5060405001')
+      .narrative('Construction of 120 classrooms')
+      .justification('Classroom backlog')
+      .addLineItem('Materials', '80000000')
+      .addLineItem('Labor', '40000000.25')
+      .build();
+  });
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('passes a proposal matching its document', async () => {
+    const { uri, cid } = await uploadProposalDocument(metadata, store);
+    const report = await verifier().verify(await submit(uri));
+    expect(report.passed).toBe(true);
+    expect(report.document).toEqual(metadata);
+    expect(report.contentHash).toBe(ethers.sha256(ethers.toUtf8Bytes(serializeProposalDocument(metadata))));
+    expect(report.checks.map((check) => check.check)).toEqual([
+      'fetch', 'integrity', 'schema', 'prexcFpapId', 'uacsObjCode', 'amount',
+      'fiscalYear', 'departmentCode', 'agencyCode', 'lineItems'
+    ]);
+    expect(report.checks[1]).toMatchObject({ expected: cid, actual: cid });
+  });
+
+  it('reports on-chain values that differ from the document', async () => {
+    const other = { ...metadata, agency: { deptCode: '07', agencyCode: '002' }, amount: '1.00', lineItems: [] };
+    const { uri } = await uploadProposalDocument(other, store);
+    const report = await verifier().verify(await submit(uri, metadata));
+    expect(report.passed).toBe(false);
+    expect(failed(report)).toEqual(['amount', 'agencyCode']);
+    expect(report.mismatches[0]).toMatchObject({ expected: '120000000.25', actual: '1.00' });
+  });
+
+  it('reports documents that do not match their CID', async () => {
+    const uri = `ipfs://${computeCid('something else')}`;
+    await store.put(computeCid('something else'), ethers.toUtf8Bytes(serializeProposalDocument(metadata)));
+    const report = await verifier().verify(await submit(uri));
+    expect(failed(report)).toEqual(['integrity']);
+  });
+
+  it('checks file URIs against a #sha256= fragment', async () => {
+    const file = join(dir, 'proposal.json');
+    const content = serializeProposalDocument(metadata);
+    writeFileSync(file, content);
+    const url = pathToFileURL(file).href;
+
+    const hashed = await verifier().verify(await submit(`${url}#sha256=${ethers.sha256(ethers.toUtf8Bytes(content)).slice(2)}`));
+    expect(hashed.passed).toBe(true);
+    const unhashed = await verifier().verify(await submit(url));
+    expect(failed(unhashed)).toEqual(['integrity']);
+  });
+
+  it('reports documents that are not proposal documents', async () => {
+    const content = ethers.toUtf8Bytes('{"title":"Classrooms"}');
+    const cid = computeCid(content);
+    await store.put(cid, content);
+    const report = await verifier().verify(await submit(`ipfs://${cid}`));
+    expect(failed(report)).toEqual(['schema', 'prexcFpapId', 'uacsObjCode', 'amount', 'fiscalYear', 'departmentCode', 'agencyCode']);
+    expect(report.mismatches[1]).toMatchObject({ expected: '310100100001000', actual: undefined });
+  });
+
+  it('reports documents that cannot be fetched', async () => {
+    const offline: MetadataResolver = {
+      schemes: ['ipfs'],
+      resolve: () => Promise.reject(new Error('gateway timeout'))
+    };
+    const report = await verifier(offline).verify(await submit(`ipfs://${computeCid('missing')}`));
+    expect(report).toMatchObject({ passed: false, contentHash: null, document: null });
+    expect(report.checks).toEqual([expect.objectContaining({
+      check: 'fetch',
+      passed: false,
+      message: 'Document could not be fetched: gateway timeout'
+    })]);
+
+    const unknown = await verifier().verify(await submit('ar://proposal'));
+    expect(unknown.checks[0].message).toBe('Document could not be fetched: no resolver for ar:// URIs');
+  });
+
+  it('uses custom resolvers before the built-in ones', async () => {
+    const content = ethers.toUtf8Bytes(serializeProposalDocument(metadata));
+    const resolve = jest.fn(async () => content);
+    const report = await verifier({ schemes: ['ipfs'], resolve }).verify(await submit(`ipfs://${computeCid(content)}`));
+    expect(report.passed).toBe(true);
+    expect(resolve).toHaveBeenCalledWith(`ipfs://${computeCid(content)}`);
+  });
+});